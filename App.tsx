@@ -1,23 +1,56 @@
 
-import React, { useState } from 'react';
-import { Zap, Layers, LogIn, Activity, FastForward, Upload, FileJson } from 'lucide-react';
-import { AppState, AppStep, DEFAULT_STATE, AuthUser, SavedProject, SubjectCategory } from './types';
+import React, { useState, useEffect, useRef } from 'react';
+import { Zap, Layers, LogIn, Activity, FastForward, Upload, FileJson, Library } from 'lucide-react';
+import { AppState, AppStep, DEFAULT_STATE, AuthUser, SavedProject, SubjectCategory, GeneratedFrame, OutputFormat, SheetRole, SheetGrid } from './types';
 import { STYLE_PRESETS, CREDITS_PER_PACK } from './constants';
 import { Step1Assets, Step2Director } from './components/Steps';
 import { Step4Preview } from './components/Step4Preview';
-import { generateDanceFrames, fileToGenericBase64 } from './services/gemini';
+import { generateDanceFrames, generateReplacementCandidates, resliceSheet, fileToGenericBase64 } from './services/gemini';
+import { replaceSheetFrames } from './services/frameLibrary';
+import { alignFrames } from './services/frameAlign';
+import { checkProject, MAX_PROJECT_BYTES, PROJECT_SCHEMA_VERSION } from './services/projectSchema';
+import { buildProject, restoreProjectAudio, settingsFromProject, audioMatchesReference, PROJECT_SETTING_KEYS } from './services/projectFile';
+import { packProject, readProjectFile, ProjectExportOptions } from './services/projectContainer';
+import { analyzeAudioFile, analysisMatchesFile } from './services/audioAnalysis';
 import { AuthModal, PaymentModal } from './components/Modals';
 import { GlobalBackground } from './components/GlobalBackground';
+import { ProjectLibrary } from './components/ProjectLibrary';
+import { readBackdropFile } from './services/backdrop';
+import { extractPalette } from './services/palette';
+import { isLibrarySupported, saveToLibrary, loadLibraryProject, requestPersistentStorage } from './services/projectLibrary';
 
 const triggerImpulse = (type: 'click' | 'hover' | 'type', intensity: number = 1.0) => {
     const event = new CustomEvent('ui-interaction', { detail: { type, intensity } });
     window.dispatchEvent(event);
 };
 
+interface LibrarySession {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(DEFAULT_STATE);
   const [importRef] = useState<React.RefObject<HTMLInputElement>>(React.createRef());
 
+  // Local library: the session autosaves into one entry (created on first save)
+  const [librarySession, setLibrarySession] = useState<LibrarySession | null>(null);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [libraryRevision, setLibraryRevision] = useState(0);
+  const autosaveTimerRef = useRef<number>(0);
+  // Autosave reads the session synchronously (the id exists before the first save finishes),
+  // runs saves one after another and skips snapshots that a newer one has replaced
+  const librarySessionRef = useRef<LibrarySession | null>(null);
+  const autosaveQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const autosaveGenerationRef = useRef(0);
+
+  const changeLibrarySession = (session: LibrarySession | null) => {
+    librarySessionRef.current = session;
+    autosaveGenerationRef.current++; // Pending saves belong to the previous session
+    setLibrarySession(session);
+  };
+
   const handleImageUpload = async (file: File) => {
     try {
         const base64 = await fileToGenericBase64(file);
@@ -25,7 +58,9 @@ const App: React.FC = () => {
           ...prev,
           imageFile: file,
           imagePreviewUrl: base64,
-          generatedFrames: [] 
+          generatedFrames: [],
+          spriteSheets: {},
+          sheetGrids: {}
         }));
     } catch (e: any) {
         console.error("Image upload processing failed:", e);
@@ -35,15 +70,60 @@ const App: React.FC = () => {
 
   const handleAudioUpload = async (file: File) => {
     if (!file) {
-        setAppState(prev => ({ ...prev, audioFile: null, audioPreviewUrl: null }));
+        setAppState(prev => ({ ...prev, audioFile: null, audioPreviewUrl: null, audioAnalysis: null, isAnalyzingAudio: false }));
         return;
     }
+    // The loaded project's song (referenced by hash) has been provided again
+    const missing = appState.missingAudio;
+    if (missing) {
+        audioMatchesReference(file, missing).then(match => {
+            if (match) setAppState(prev => prev.missingAudio === missing ? { ...prev, missingAudio: null } : prev);
+        });
+    }
     const previewUrl = URL.createObjectURL(file);
-    setAppState(prev => ({
-      ...prev,
-      audioFile: file,
-      audioPreviewUrl: previewUrl
-    }));
+    setAppState(prev => {
+      replaceAudioPreview(prev.audioPreviewUrl, previewUrl);
+      return {
+        ...prev,
+        audioFile: file,
+        audioPreviewUrl: previewUrl,
+        // A loaded project may already carry the analysis for this exact file
+        audioAnalysis: analysisMatchesFile(prev.audioAnalysis, file) ? prev.audioAnalysis : null,
+        isAnalyzingAudio: !analysisMatchesFile(prev.audioAnalysis, file)
+      };
+    });
+    if (analysisMatchesFile(appState.audioAnalysis, file)) return;
+    await analyzeTrack(file);
+  };
+
+  // Offline beat grid for the given track; results for a track replaced meanwhile are dropped
+  const analyzeTrack = async (file: File) => {
+    try {
+        const analysis = await analyzeAudioFile(file);
+        setAppState(prev => prev.audioFile === file ? { ...prev, audioAnalysis: analysis, isAnalyzingAudio: false } : prev);
+    } catch (e) {
+        console.warn("[Audio] Offline analysis failed, falling back to live beat detection:", e);
+        setAppState(prev => prev.audioFile === file ? { ...prev, isAnalyzingAudio: false } : prev);
+    }
+  };
+
+  // The old object URL is only released once a different one takes its place
+  const replaceAudioPreview = (previous: string | null, next: string) => {
+    if (previous && previous !== next) URL.revokeObjectURL(previous);
+  };
+
+  const handleBackdropUpload = async (file: File | null) => {
+    if (!file) {
+        setAppState(prev => ({ ...prev, backdrop: null }));
+        return;
+    }
+    try {
+        const backdrop = await readBackdropFile(file);
+        setAppState(prev => ({ ...prev, backdrop }));
+    } catch (e: any) {
+        console.error("Backdrop upload failed:", e);
+        alert(`Failed to load backdrop: ${e.message || "Unknown error"}`);
+    }
   };
 
   const updateConfig = (key: string, value: any) => {
@@ -102,6 +182,22 @@ const App: React.FC = () => {
       setTimeout(() => handleGenerate(true, false), 100);
   };
 
+  const getEffectiveMotionPrompt = () => {
+    let effectiveMotionPrompt = appState.motionPrompt;
+    if (appState.motionPreset !== 'custom' && appState.motionPreset !== 'auto') {
+        if (appState.motionPreset === 'bounce') effectiveMotionPrompt = "Bouncy, energetic, rhythmic jumping";
+        if (appState.motionPreset === 'flow') effectiveMotionPrompt = "Smooth, fluid, liquid motion, floating";
+        if (appState.motionPreset === 'glitch') effectiveMotionPrompt = "Twitchy, glitchy, rapid robotic movements";
+    }
+    return effectiveMotionPrompt;
+  };
+
+  const getGenerationOptions = () => ({
+    provider: appState.spriteProvider,
+    matteTolerance: appState.removeBackground ? appState.matteTolerance : undefined,
+    seed: appState.seed
+  });
+
   const handleGenerate = async (forceTurbo: boolean = false, forceSuper: boolean = false) => {
     if (!appState.imagePreviewUrl) return;
     
@@ -109,27 +205,23 @@ const App: React.FC = () => {
 
     const style = STYLE_PRESETS.find(s => s.id === appState.selectedStyleId);
     const imageBase64 = appState.imagePreviewUrl;
-    
-    let effectiveMotionPrompt = appState.motionPrompt;
-    if (appState.motionPreset !== 'custom' && appState.motionPreset !== 'auto') {
-        if (appState.motionPreset === 'bounce') effectiveMotionPrompt = "Bouncy, energetic, rhythmic jumping";
-        if (appState.motionPreset === 'flow') effectiveMotionPrompt = "Smooth, fluid, liquid motion, floating";
-        if (appState.motionPreset === 'glitch') effectiveMotionPrompt = "Twitchy, glitchy, rapid robotic movements";
-    }
 
     try {
-        const { frames, category } = await generateDanceFrames(
+        const { frames, category, sheets } = await generateDanceFrames(
             imageBase64, 
             style?.promptModifier || 'artistic style',
-            effectiveMotionPrompt,
+            getEffectiveMotionPrompt(),
             forceTurbo || appState.useTurbo,
             forceSuper || appState.superMode,
-            appState.subjectCategory // PASS EXPLICIT CATEGORY
+            appState.subjectCategory, // PASS EXPLICIT CATEGORY
+            getGenerationOptions()
         );
 
         setAppState(prev => ({
             ...prev,
             generatedFrames: frames,
+            spriteSheets: sheets,
+            sheetGrids: {},
             subjectCategory: category, // Store detection/result
             isGenerating: false
         }));
@@ -145,20 +237,62 @@ const App: React.FC = () => {
     }
   };
   
+  // --- PER-FRAME REGENERATION ---
+  const handleRequestReplacements = async (): Promise<GeneratedFrame[]> => {
+    if (!appState.imagePreviewUrl) throw new Error("No source image available.");
+    const style = STYLE_PRESETS.find(s => s.id === appState.selectedStyleId);
+    return generateReplacementCandidates(
+        appState.imagePreviewUrl,
+        appState.generatedFrames,
+        style?.promptModifier || 'artistic style',
+        getEffectiveMotionPrompt(),
+        appState.subjectCategory,
+        appState.spriteSheets.base,
+        getGenerationOptions()
+    );
+  };
+
+  // --- SHEET RE-SLICING ---
+  // Cuts a stored sheet with a hand-adjusted grid and swaps that sheet's frames (no generation)
+  const handleResliceSheet = async (role: SheetRole, grid: SheetGrid) => {
+    const sheetUrl = appState.spriteSheets[role];
+    if (!sheetUrl) throw new Error(`No ${role} sheet stored with this rig.`);
+    const provider = appState.generatedFrames.find(f => (f.role || 'base') === role)?.provider || appState.spriteProvider;
+    const sliced = await resliceSheet(sheetUrl, grid, role, appState.subjectCategory, provider, getGenerationOptions());
+    setAppState(prev => ({
+        ...prev,
+        generatedFrames: replaceSheetFrames(prev.generatedFrames, role, sliced),
+        sheetGrids: { ...prev.sheetGrids, [role]: grid }
+    }));
+  };
+
+  const handleUpdateFrames = (frames: GeneratedFrame[]) => {
+    setAppState(prev => ({ ...prev, generatedFrames: frames }));
+  };
+
+  const handleUpdateSeed = (seed: number) => {
+    setAppState(prev => ({ ...prev, seed: seed >>> 0 }));
+  };
+
+  const handleUpdateOutputFormat = (outputFormat: OutputFormat) => {
+    setAppState(prev => ({ ...prev, outputFormat }));
+  };
+
   // --- PROJECT SAVING / LOADING ---
-  const saveProject = () => {
+  const saveProject = async (options: ProjectExportOptions) => {
       if (appState.generatedFrames.length === 0) return;
       
-      const project: SavedProject = {
-          id: crypto.randomUUID(),
-          name: `Rig_${Date.now()}`,
-          createdAt: Date.now(),
-          frames: appState.generatedFrames,
-          styleId: appState.selectedStyleId,
-          subjectCategory: appState.subjectCategory
-      };
+      let project: SavedProject;
+      let blob: Blob;
+      try {
+          project = await buildProject(appState, options);
+          blob = await packProject(project, options);
+      } catch (e: any) {
+          console.error("[Project] Save failed:", e);
+          alert(`Failed to save project: ${e?.message || "Unknown error"}`);
+          return;
+      }
       
-      const blob = new Blob([JSON.stringify(project)], { type: 'application/json' });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
@@ -169,32 +303,159 @@ const App: React.FC = () => {
       URL.revokeObjectURL(url);
   };
 
-  const loadProject = (e: React.ChangeEvent<HTMLInputElement>) => {
-      const file = e.target.files?.[0];
-      if (!file) return;
-      
-      const reader = new FileReader();
-      reader.onload = (event) => {
-          try {
-              const project = JSON.parse(event.target?.result as string) as SavedProject;
-              // Validation simple
-              if (!project.frames || !project.styleId) throw new Error("Invalid Project File");
-              
-              setAppState(prev => ({
+  // Restores a validated project into the session and jumps to the preview
+  const applyProject = async (project: SavedProject, session: LibrarySession) => {
+      try {
+          // Older rigs have no registration anchors yet
+          const frames = await alignFrames(project.frames);
+
+          // Song: embedded file, or a reference that the current / next upload must match
+          const embedded = await restoreProjectAudio(project.audio);
+          const current = appState.audioFile;
+          const missingAudio = !embedded && project.audio && !(current && await audioMatchesReference(current, project.audio))
+              ? project.audio
+              : null;
+          // Beat grid: only if it belongs to the song that will play. A referenced song that is
+          // still missing keeps it until the matching file is uploaded.
+          const activeAudio = embedded || current;
+          const audioAnalysis = analysisMatchesFile(project.audioAnalysis, activeAudio) || missingAudio
+              ? project.audioAnalysis || null
+              : null;
+          const previewUrl = embedded ? URL.createObjectURL(embedded) : null;
+          const analyzeEmbedded = !!embedded && !audioAnalysis;
+
+          changeLibrarySession(session);
+          setAppState(prev => {
+              if (previewUrl) replaceAudioPreview(prev.audioPreviewUrl, previewUrl);
+              return {
                   ...prev,
-                  generatedFrames: project.frames,
+                  ...settingsFromProject(project.settings),
+                  ...(embedded ? { audioFile: embedded, audioPreviewUrl: previewUrl } : {}),
+                  missingAudio,
+                  generatedFrames: frames,
+                  spriteSheets: project.sheets || {},
+                  sheetGrids: project.sheetGrids || {},
+                  backdrop: project.backdrop || null,
                   selectedStyleId: project.styleId,
-                  subjectCategory: project.subjectCategory || 'CHARACTER',
+                  subjectCategory: project.subjectCategory,
+                  removeBackground: project.matteTolerance !== undefined,
+                  matteTolerance: project.matteTolerance ?? prev.matteTolerance,
+                  audioAnalysis,
+                  isAnalyzingAudio: embedded ? analyzeEmbedded : prev.isAnalyzingAudio,
+                  seed: project.seed ?? prev.seed,
+                  outputFormat: project.outputFormat || prev.outputFormat,
                   imagePreviewUrl: project.frames[0].url, // Set base image
                   step: AppStep.PREVIEW // Jump straight to preview
-              }));
-              triggerImpulse('click', 1.5);
-          } catch (err) {
-              alert("Failed to load project file.");
-          }
-      };
-      reader.readAsText(file);
+              };
+          });
+          // Embedded song without a usable beat grid: analyze it like a fresh upload
+          if (analyzeEmbedded) analyzeTrack(embedded);
+          if (missingAudio) console.log(`[Project] Song "${missingAudio.name}" is referenced but not embedded`);
+          triggerImpulse('click', 1.5);
+      } catch (err) {
+          console.error("[Project] Load failed:", err);
+          alert("Failed to load project file.");
+      }
+  };
+
+  const openLibraryProject = async (id: string) => {
+      try {
+          const stored = await loadLibraryProject(id);
+          const result = checkProject(stored);
+          if (!result.project) throw new Error(result.errors[0] || "Project not found");
+          setShowLibrary(false);
+          await applyProject(result.project, { id, name: result.project.name, createdAt: result.project.createdAt });
+      } catch (e: any) {
+          console.error("[Library] Open failed:", e);
+          alert(`Failed to open project: ${e?.message || "Unknown error"}`);
+      }
+  };
+
+  // Logo: start over without a reload (the current rig stays in the library)
+  const startNewSession = () => {
+      window.clearTimeout(autosaveTimerRef.current);
+      changeLibrarySession(null);
+      setAppState(prev => ({
+          ...DEFAULT_STATE,
+          user: prev.user,
+          userTier: prev.userTier,
+          credits: prev.credits,
+          seed: (Math.random() * 0x100000000) >>> 0
+      }));
+      triggerImpulse('click', 1.0);
+  };
+
+  // --- CHARACTER PALETTE ---
+  // Re-extracted whenever the rig changes while the hologram takes the character's colors:
+  // the base body frames once generated, the upload before that.
+  useEffect(() => {
+      if (appState.paletteSource !== 'character') return;
+      const frames = appState.generatedFrames.filter(f => !f.mirrorOf && (f.role || 'base') === 'base' && (f.type || 'body') === 'body');
+      const urls = frames.length > 0 ? frames.map(f => f.url) : appState.imagePreviewUrl ? [appState.imagePreviewUrl] : [];
+      let cancelled = false;
+      extractPalette(urls)
+          .then(palette => { if (!cancelled) setAppState(prev => ({ ...prev, characterPalette: palette })); })
+          .catch(e => console.warn("[Palette] Extraction failed:", e));
+      return () => { cancelled = true; };
+  }, [appState.paletteSource, appState.generatedFrames, appState.imagePreviewUrl]);
+
+  // --- AUTOSAVE ---
+  // Debounced write of the session into its library entry whenever the rig or a
+  // performance setting changes. The song is embedded so the entry replays offline.
+  useEffect(() => {
+      if (!isLibrarySupported() || appState.generatedFrames.length === 0 || appState.isGenerating) return;
+      window.clearTimeout(autosaveTimerRef.current);
+      autosaveTimerRef.current = window.setTimeout(() => {
+          const created = !librarySessionRef.current;
+          if (created) librarySessionRef.current = { id: crypto.randomUUID(), name: `Rig ${new Date().toLocaleString()}`, createdAt: Date.now() };
+          const session = librarySessionRef.current;
+          const generation = ++autosaveGenerationRef.current;
+          autosaveQueueRef.current = autosaveQueueRef.current.then(async () => {
+              if (generation !== autosaveGenerationRef.current) return; // A newer snapshot is queued
+              try {
+                  const project = await buildProject(appState, { embedAudio: true, ...session });
+                  await saveToLibrary(project);
+                  if (librarySessionRef.current === session) setLibrarySession(session);
+                  if (created) requestPersistentStorage();
+                  setLibraryRevision(r => r + 1);
+              } catch (e) {
+                  console.warn("[Library] Autosave failed:", e);
+              }
+          });
+      }, 2000);
+      return () => window.clearTimeout(autosaveTimerRef.current);
+  }, [
+      appState.generatedFrames, appState.selectedStyleId, appState.subjectCategory, appState.audioFile, appState.audioAnalysis,
+      appState.seed, appState.outputFormat, appState.removeBackground, appState.matteTolerance, appState.backdrop,
+      appState.spriteSheets, appState.sheetGrids, appState.isGenerating,
+      // Every saved setting, so a key added to the project file is autosaved too (fixed length)
+      ...PROJECT_SETTING_KEYS.map(key => appState[key])
+  ]);
+
+  const loadProject = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (!file) return;
       e.target.value = ''; // Reset input
+      if (file.size > MAX_PROJECT_BYTES) {
+          alert(`Failed to load project file: it is ${(file.size / 1024 / 1024).toFixed(0)} MB, the limit is ${MAX_PROJECT_BYTES / 1024 / 1024} MB.`);
+          return;
+      }
+      
+      readProjectFile(file).then(({ result }) => {
+          if (!result.project) {
+              console.warn("[Project] Rejected file:", result.errors);
+              const shown = result.errors.slice(0, 8).map(err => `• ${err}`).join('\n');
+              const more = result.errors.length > 8 ? `\n…and ${result.errors.length - 8} more` : '';
+              alert(`Failed to load project file:\n${shown}${more}`);
+              return;
+          }
+          if (result.migratedFrom !== null) console.log(`[Project] Migrated v${result.migratedFrom} -> v${PROJECT_SCHEMA_VERSION}`);
+          // Imported files become library entries of their own
+          applyProject(result.project, { id: crypto.randomUUID(), name: result.project.name, createdAt: Date.now() });
+      }).catch(err => {
+          console.error("[Project] Load failed:", err);
+          alert("Failed to load project file.");
+      });
   };
 
   const canProceed = () => {
@@ -233,6 +494,14 @@ const App: React.FC = () => {
             onClose={() => setAppState(prev => ({ ...prev, showPaymentModal: false }))}
             onSuccess={handlePaymentSuccess}
         />
+        <ProjectLibrary
+            isOpen={showLibrary}
+            activeId={librarySession?.id || null}
+            refreshKey={libraryRevision}
+            onOpen={openLibraryProject}
+            onDeleted={(id) => { if (librarySession?.id === id) changeLibrarySession(null); }}
+            onClose={() => setShowLibrary(false)}
+        />
 
         {/* HEADER */}
         <header className="border-b border-white/5 bg-black/10 backdrop-blur-md sticky top-0 z-50">
@@ -241,7 +510,8 @@ const App: React.FC = () => {
             {/* BRANDING */}
             <div 
                 className="flex items-center gap-4 cursor-pointer group" 
-                onClick={() => window.location.reload()}
+                onClick={startNewSession}
+                title="New session (the current rig stays in the library)"
                 onMouseEnter={() => triggerImpulse('hover', 0.5)}
             >
                 <div className="relative w-10 h-10 flex items-center justify-center">
@@ -258,6 +528,15 @@ const App: React.FC = () => {
             
             {/* RIGHT SIDE CONTROLS */}
             <div className="flex items-center gap-4">
+                {/* LIBRARY */}
+                <button
+                    onClick={() => setShowLibrary(true)}
+                    disabled={!isLibrarySupported()}
+                    className="glass-button px-4 py-2 rounded-full text-xs font-bold text-white flex items-center gap-2 border border-white/10 hover:border-brand-400/50 disabled:opacity-40"
+                >
+                    <Library size={14} className="text-brand-300" /> LIBRARY
+                </button>
+
                 {/* IMPORT BUTTON */}
                 <button
                     onClick={() => importRef.current?.click()}
@@ -328,7 +607,14 @@ const App: React.FC = () => {
                         onGenerateMore={handleGenerateClick}
                         onSpendCredit={handleSpendCredit}
                         onUploadAudio={handleAudioUpload}
+                        onUploadBackdrop={handleBackdropUpload}
                         onSaveProject={saveProject}
+                        onResliceSheet={handleResliceSheet}
+                        onRequestReplacements={handleRequestReplacements}
+                        onUpdateFrames={handleUpdateFrames}
+                        onUpdateSeed={handleUpdateSeed}
+                        onUpdateOutputFormat={handleUpdateOutputFormat}
+                        onUpdateConfig={updateConfig}
                     />
                 </div>
             )}
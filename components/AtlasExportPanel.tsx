@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { X, LayoutGrid, Download } from 'lucide-react';
+import { ATLAS_FORMATS, AtlasFormat } from '../services/spriteAtlas';
+
+export interface AtlasExportSettings {
+  format: AtlasFormat;
+  padding: number;
+  removeBackground: boolean;
+  animation: 'none' | 'duration' | 'track';
+}
+
+interface AtlasExportPanelProps {
+  frameCount: number;
+  duration: number;          // seconds, the rig's default loop length
+  hasTrack: boolean;         // An analysed song is loaded (beat-timed keys)
+  onStart: (settings: AtlasExportSettings) => void;
+  onClose: () => void;
+}
+
+const PADDINGS = [0, 2, 4, 8];
+
+const optionClass = (active: boolean) =>
+  `py-2 rounded-lg text-[10px] font-bold border disabled:opacity-30 ${active ? 'bg-brand-600 border-brand-400 text-white' : 'bg-white/5 border-white/5 text-gray-400 hover:text-white'}`;
+
+export const AtlasExportPanel: React.FC<AtlasExportPanelProps> = ({ frameCount, duration, hasTrack, onStart, onClose }) => {
+  const [format, setFormat] = useState<AtlasFormat>('texturepacker-hash');
+  const [padding, setPadding] = useState(2);
+  const [removeBackground, setRemoveBackground] = useState(true);
+  const [animation, setAnimation] = useState<AtlasExportSettings['animation']>('duration');
+
+  return (
+    <div className="absolute top-20 right-4 z-40 w-72 max-h-[calc(100%-6rem)] overflow-y-auto bg-black/90 backdrop-blur-xl border border-white/20 rounded-2xl p-5 shadow-2xl animate-slide-in-right">
+      <div className="flex justify-between items-center mb-6 border-b border-white/10 pb-4">
+        <h4 className="text-white font-bold flex items-center gap-2"><LayoutGrid size={18}/> SPRITE ATLAS</h4>
+        <button onClick={onClose}><X size={18} className="text-gray-400 hover:text-white"/></button>
+      </div>
+      <div className="space-y-5">
+        <div>
+          <label className="text-xs text-gray-400 font-bold mb-2 block">DESCRIPTOR</label>
+          <div className="space-y-1">
+            {ATLAS_FORMATS.map(f => (
+              <button key={f.id} onClick={() => setFormat(f.id)} className={`w-full px-3 text-left flex justify-between ${optionClass(format === f.id)}`}>
+                <span>{f.label}</span><span className="opacity-60 font-normal">{f.hint}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="text-xs text-gray-400 font-bold mb-2 block">PADDING</label>
+          <div className="grid grid-cols-4 gap-1">
+            {PADDINGS.map(p => (
+              <button key={p} onClick={() => setPadding(p)} className={optionClass(padding === p)}>{p}px</button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex justify-between items-center">
+          <label className="text-xs text-gray-400 font-bold">REMOVE WHITE BACKGROUND</label>
+          <button onClick={() => setRemoveBackground(!removeBackground)}
+            className={`text-[10px] font-bold px-2 py-1 rounded border ${removeBackground ? 'border-brand-400 text-brand-300' : 'border-white/10 text-gray-400 hover:text-white'}`}>
+            {removeBackground ? 'ON' : 'OFF'}
+          </button>
+        </div>
+
+        <div>
+          <label className="text-xs text-gray-400 font-bold mb-2 block">ANIMATION TRACK</label>
+          <div className="grid grid-cols-3 gap-1">
+            <button onClick={() => setAnimation('none')} className={optionClass(animation === 'none')}>NONE</button>
+            <button onClick={() => setAnimation('duration')} className={optionClass(animation === 'duration')}>{duration}s</button>
+            <button onClick={() => setAnimation('track')} disabled={!hasTrack} className={optionClass(animation === 'track')}>FULL TRACK</button>
+          </div>
+          <p className="text-[10px] text-gray-500 mt-1">
+            {hasTrack ? 'Pose keys on the beats of the analysed track.' : 'Pose keys on a 124 BPM metronome.'} Same seed = same keys.
+          </p>
+        </div>
+
+        <button onClick={() => onStart({ format, padding, removeBackground, animation })} disabled={frameCount === 0}
+          className="w-full py-3 bg-brand-600 hover:bg-brand-500 rounded-xl text-xs font-bold text-white flex items-center justify-center gap-2 border border-brand-400/50 disabled:opacity-40">
+          <Download size={14} /> EXPORT PNG + JSON ({frameCount} FRAMES)
+        </button>
+      </div>
+    </div>
+  );
+};
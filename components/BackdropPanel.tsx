@@ -0,0 +1,108 @@
+import React, { useRef } from 'react';
+import { X, Image as ImageIcon, Upload, Trash2, Film } from 'lucide-react';
+import { Backdrop, BackdropBlend, BackdropSettings } from '../types';
+
+interface BackdropPanelProps {
+  backdrop: Backdrop | null;
+  settings: BackdropSettings;
+  onUpload: (file: File) => void;
+  onRemove: () => void;
+  onUpdateSettings: (settings: BackdropSettings) => void;
+  onClose: () => void;
+}
+
+const BLENDS: { id: BackdropBlend, label: string }[] = [
+  { id: 'none', label: 'OFF' },
+  { id: 'screen', label: 'SCREEN' },
+  { id: 'overlay', label: 'OVERLAY' },
+  { id: 'lighten', label: 'LIGHTEN' },
+  { id: 'multiply', label: 'MULTIPLY' }
+];
+
+const SLIDERS: { key: 'blur' | 'dim' | 'zoom' | 'pulse', label: string }[] = [
+  { key: 'blur', label: 'BLUR' },
+  { key: 'dim', label: 'DIM' },
+  { key: 'zoom', label: 'ZOOM ON BASS' },
+  { key: 'pulse', label: 'PULSE ON BASS' }
+];
+
+export const BackdropPanel: React.FC<BackdropPanelProps> = ({ backdrop, settings, onUpload, onRemove, onUpdateSettings, onClose }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const update = (patch: Partial<BackdropSettings>) => onUpdateSettings({ ...settings, ...patch });
+
+  return (
+    <div className="absolute top-20 right-4 z-40 w-72 bg-black/90 backdrop-blur-xl border border-white/20 rounded-2xl p-5 shadow-2xl animate-slide-in-right">
+      <div className="flex justify-between items-center mb-6 border-b border-white/10 pb-4">
+        <h4 className="text-white font-bold flex items-center gap-2"><ImageIcon size={18}/> BACKDROP</h4>
+        <button onClick={onClose}><X size={18} className="text-gray-400 hover:text-white"/></button>
+      </div>
+
+      <input ref={inputRef} type="file" accept="image/*,video/*" className="hidden"
+        onChange={(e) => { const file = e.target.files?.[0]; if (file) onUpload(file); e.target.value = ''; }} />
+
+      {!backdrop ? (
+        <div className="space-y-3">
+          <button onClick={() => inputRef.current?.click()}
+            className="w-full py-6 bg-white/5 hover:bg-white/10 rounded-xl text-xs font-bold text-white flex flex-col items-center justify-center gap-2 border border-dashed border-white/20">
+            <Upload size={18} /> UPLOAD IMAGE OR VIDEO
+          </button>
+          <p className="text-[10px] text-gray-500">Replaces the visualizer behind the dancer. Videos loop muted.</p>
+        </div>
+      ) : (
+        <div className="space-y-5">
+          <div className="flex items-center gap-2 bg-white/5 rounded-lg px-3 py-2">
+            {backdrop.kind === 'video' ? <Film size={14} className="text-brand-300 shrink-0" /> : <ImageIcon size={14} className="text-brand-300 shrink-0" />}
+            <span className="flex-1 min-w-0 truncate text-xs text-white" title={backdrop.name}>{backdrop.name}</span>
+            <button onClick={() => inputRef.current?.click()} title="Replace" className="text-gray-400 hover:text-white"><Upload size={14} /></button>
+            <button onClick={onRemove} title="Remove backdrop" className="text-gray-400 hover:text-red-400"><Trash2 size={14} /></button>
+          </div>
+
+          <div>
+            <label className="text-xs text-gray-400 font-bold mb-2 block">FIT</label>
+            <div className="grid grid-cols-2 gap-1">
+              {(['cover', 'contain'] as const).map(fit => (
+                <button key={fit} onClick={() => update({ fit })}
+                  className={`py-2 rounded-lg text-[10px] font-bold border ${settings.fit === fit ? 'bg-brand-600 border-brand-400 text-white' : 'bg-white/5 border-white/5 text-gray-400 hover:text-white'}`}>
+                  {fit.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {SLIDERS.map(({ key, label }) => (
+            <div key={key}>
+              <div className="flex justify-between text-[10px] text-gray-400 font-bold mb-1">
+                <span>{label}</span><span className="font-mono">{Math.round(settings[key] * 100)}%</span>
+              </div>
+              <input type="range" min={0} max={100} value={Math.round(settings[key] * 100)}
+                onChange={(e) => update({ [key]: Number(e.target.value) / 100 })}
+                className="w-full h-1.5 bg-white/20 rounded-lg appearance-none cursor-pointer accent-brand-500" />
+            </div>
+          ))}
+
+          <div className="pt-4 border-t border-white/10">
+            <label className="text-xs text-gray-400 font-bold mb-2 block">VISUALIZER BLEND</label>
+            <div className="grid grid-cols-5 gap-1">
+              {BLENDS.map(b => (
+                <button key={b.id} onClick={() => update({ blend: b.id })}
+                  className={`py-2 rounded-lg text-[8px] font-bold border ${settings.blend === b.id ? 'bg-brand-600 border-brand-400 text-white' : 'bg-white/5 border-white/5 text-gray-400 hover:text-white'}`}>
+                  {b.label}
+                </button>
+              ))}
+            </div>
+            {settings.blend !== 'none' && (
+              <div className="mt-3">
+                <div className="flex justify-between text-[10px] text-gray-400 font-bold mb-1">
+                  <span>AMOUNT</span><span className="font-mono">{Math.round(settings.blendAmount * 100)}%</span>
+                </div>
+                <input type="range" min={0} max={100} value={Math.round(settings.blendAmount * 100)}
+                  onChange={(e) => update({ blendAmount: Number(e.target.value) / 100 })}
+                  className="w-full h-1.5 bg-white/20 rounded-lg appearance-none cursor-pointer accent-brand-500" />
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,373 @@
+import React, { useState } from 'react';
+import { X, RefreshCw, Check, Loader2, Grid, ArrowRight, Trash2, Copy, FlipHorizontal, ArrowLeft } from 'lucide-react';
+import { GeneratedFrame, EnergyLevel, FrameType, FrameDirection } from '../types';
+import { applyReplacements, suggestAssignments, frameDirection, updateFrame, renameFrame, deleteFrame, duplicateFrame, addMirroredFrame } from '../services/frameLibrary';
+
+interface FrameManagerProps {
+  frames: GeneratedFrame[];
+  onRequestReplacements: () => Promise<GeneratedFrame[]>;
+  onUpdateFrames: (frames: GeneratedFrame[]) => void;
+  onClose: () => void;
+}
+
+type Phase = 'select' | 'generating' | 'review';
+type Mode = 'edit' | 'replace';
+type Grouping = 'energy' | 'role';
+
+const ENERGY_ORDER: EnergyLevel[] = ['low', 'mid', 'high'];
+const ROLE_ORDER = ['base', 'alt', 'flourish'];
+
+// Groups keep library order inside each bucket; frames without a role (old projects) land in 'base'.
+const groupFrames = (frames: GeneratedFrame[], grouping: Grouping): { key: string, frames: GeneratedFrame[] }[] => {
+    const keyOf = (f: GeneratedFrame) => grouping === 'energy' ? f.energy : (f.role || 'base');
+    const order: string[] = grouping === 'energy' ? [...ENERGY_ORDER] : [...ROLE_ORDER];
+    frames.forEach(f => { if (!order.includes(keyOf(f))) order.push(keyOf(f)); });
+    return order
+        .map(key => ({ key, frames: frames.filter(f => keyOf(f) === key) }))
+        .filter(g => g.frames.length > 0);
+};
+
+const DIRECTION_ICON: Record<FrameDirection, React.ReactNode> = {
+    left: <ArrowLeft size={10} />,
+    right: <ArrowRight size={10} />,
+    neutral: <span className="text-[8px] font-bold">N</span>
+};
+
+const Thumb: React.FC<{ frame: GeneratedFrame, active?: boolean, dim?: boolean, onClick?: () => void, badge?: React.ReactNode }> = ({ frame, active, dim, onClick, badge }) => (
+    <button
+        onClick={onClick}
+        className={`relative aspect-square rounded-lg overflow-hidden border-2 transition-all bg-[repeating-conic-gradient(#222_0%_25%,#111_0%_50%)] bg-[length:12px_12px]
+            ${active ? 'border-brand-400 shadow-[0_0_12px_rgba(139,92,246,0.6)] scale-105' : 'border-white/10 hover:border-white/30'}
+            ${dim ? 'opacity-40' : 'opacity-100'}`}
+        title={frame.pose}
+    >
+        <img src={frame.url} className="w-full h-full object-contain" />
+        {badge && <div className="absolute top-1 right-1">{badge}</div>}
+    </button>
+);
+
+export const FrameManager: React.FC<FrameManagerProps> = ({ frames, onRequestReplacements, onUpdateFrames, onClose }) => {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [phase, setPhase] = useState<Phase>('select');
+  const [candidates, setCandidates] = useState<GeneratedFrame[]>([]);
+  const [assignments, setAssignments] = useState<Record<string, number>>({});
+  const [activeTarget, setActiveTarget] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [mode, setMode] = useState<Mode>('edit');
+  const [grouping, setGrouping] = useState<Grouping>('energy');
+  const [focused, setFocused] = useState<string | null>(null);
+  const [nameDraft, setNameDraft] = useState('');
+  const [nameError, setNameError] = useState(false);
+  const [isMirroring, setIsMirroring] = useState(false);
+
+  const focusedFrame = frames.find(f => f.pose === focused) || null;
+
+  const targets = frames.filter(f => selected.includes(f.pose));
+
+  const toggleSelect = (pose: string) => {
+      setSelected(prev => prev.includes(pose) ? prev.filter(p => p !== pose) : [...prev, pose]);
+  };
+
+  const requestCandidates = async () => {
+      if (targets.length === 0) return;
+      setPhase('generating');
+      try {
+          const result = await onRequestReplacements();
+          setCandidates(result);
+          setAssignments(suggestAssignments(targets, result));
+          setActiveTarget(targets[0].pose);
+          setPhase('review');
+      } catch (e: any) {
+          console.error("Replacement generation failed:", e);
+          alert(`Regeneration failed: ${e.message || "Unknown error"}`);
+          setPhase('select');
+      }
+  };
+
+  const assignCandidate = (index: number) => {
+      if (!activeTarget) return;
+      setAssignments(prev => ({ ...prev, [activeTarget]: index }));
+      // Advance to the next rejected frame
+      const pos = targets.findIndex(t => t.pose === activeTarget);
+      if (pos >= 0 && pos < targets.length - 1) setActiveTarget(targets[pos + 1].pose);
+  };
+
+  const applySelection = async () => {
+      setIsApplying(true);
+      const replacements = Object.entries(assignments)
+          .filter(([pose]) => selected.includes(pose))
+          .map(([targetPose, idx]) => ({ targetPose, candidate: candidates[idx] }));
+      const next = await applyReplacements(frames, replacements);
+      onUpdateFrames(next);
+      setIsApplying(false);
+      resetFlow();
+  };
+
+  // --- EDIT MODE ---
+  const focusFrame = (frame: GeneratedFrame) => {
+      setFocused(frame.pose);
+      setNameDraft(frame.pose);
+      setNameError(false);
+  };
+
+  const patchFocused = (patch: { energy?: EnergyLevel, type?: FrameType, direction?: FrameDirection }) => {
+      if (!focusedFrame) return;
+      onUpdateFrames(updateFrame(frames, focusedFrame.pose, patch));
+  };
+
+  const commitRename = () => {
+      if (!focusedFrame) return;
+      const next = renameFrame(frames, focusedFrame.pose, nameDraft);
+      if (!next) { setNameError(true); return; }
+      setNameError(false);
+      if (next !== frames) {
+          onUpdateFrames(next);
+          setFocused(nameDraft.trim());
+      }
+  };
+
+  const handleDuplicate = () => {
+      if (!focusedFrame) return;
+      onUpdateFrames(duplicateFrame(frames, focusedFrame.pose));
+  };
+
+  const handleMirror = async () => {
+      if (!focusedFrame) return;
+      setIsMirroring(true);
+      try {
+          onUpdateFrames(await addMirroredFrame(frames, focusedFrame.pose));
+      } finally {
+          setIsMirroring(false);
+      }
+  };
+
+  const handleDelete = () => {
+      if (!focusedFrame) return;
+      // Choreography needs something to fall back on
+      if (frames.length <= 1) { alert("The rig needs at least one frame."); return; }
+      onUpdateFrames(deleteFrame(frames, focusedFrame.pose));
+      setFocused(null);
+  };
+
+  const switchMode = (next: Mode) => {
+      resetFlow();
+      setFocused(null);
+      setMode(next);
+  };
+
+  const resetFlow = () => {
+      setPhase('select');
+      setSelected([]);
+      setCandidates([]);
+      setAssignments({});
+      setActiveTarget(null);
+  };
+
+  return (
+    <div className="absolute top-20 right-4 bottom-4 z-40 w-96 bg-black/90 backdrop-blur-xl border border-white/20 rounded-2xl p-5 shadow-2xl animate-slide-in-right flex flex-col">
+        <div className="flex justify-between items-center mb-4 border-b border-white/10 pb-4">
+            <h4 className="text-white font-bold flex items-center gap-2"><Grid size={18}/> FRAME LIBRARY</h4>
+            <button onClick={onClose}><X size={18} className="text-gray-400 hover:text-white"/></button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-1 mb-4 bg-white/5 p-1 rounded-lg">
+            {(['edit', 'replace'] as Mode[]).map(m => (
+                <button
+                    key={m}
+                    onClick={() => switchMode(m)}
+                    disabled={phase === 'generating'}
+                    className={`py-1.5 rounded text-[10px] font-bold transition-all ${mode === m ? 'bg-brand-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                >
+                    {m === 'edit' ? 'EDIT' : 'REGENERATE'}
+                </button>
+            ))}
+        </div>
+
+        {mode === 'edit' && (
+            <>
+                <div className="flex items-center justify-between mb-3">
+                    <p className="text-[10px] text-gray-500 font-mono uppercase tracking-widest">{frames.length} frames</p>
+                    <div className="flex gap-1">
+                        {(['energy', 'role'] as Grouping[]).map(g => (
+                            <button
+                                key={g}
+                                onClick={() => setGrouping(g)}
+                                className={`px-2 py-1 rounded text-[9px] font-bold border ${grouping === g ? 'border-brand-400 text-brand-300 bg-brand-500/10' : 'border-white/10 text-gray-500 hover:text-white'}`}
+                            >
+                                BY {g.toUpperCase()}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="flex-1 overflow-y-auto scrollbar-hide space-y-4">
+                    {groupFrames(frames, grouping).map(group => (
+                        <div key={group.key}>
+                            <p className="text-[10px] font-bold text-brand-300 mb-2 uppercase tracking-widest">{group.key} <span className="text-gray-600">({group.frames.length})</span></p>
+                            <div className="grid grid-cols-4 gap-2">
+                                {group.frames.map(f => (
+                                    <Thumb
+                                        key={f.pose}
+                                        frame={f}
+                                        active={focused === f.pose}
+                                        onClick={() => focusFrame(f)}
+                                        badge={
+                                            <div className="flex gap-0.5">
+                                                {f.type === 'closeup' && <div className="bg-black/70 rounded px-1 text-[8px] font-bold text-yellow-300">CU</div>}
+                                                <div className="bg-black/70 rounded px-1 text-gray-300 flex items-center">{DIRECTION_ICON[frameDirection(f)]}</div>
+                                            </div>
+                                        }
+                                    />
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                {focusedFrame && (
+                    <div className="mt-4 pt-4 border-t border-white/10 space-y-3">
+                        <div className="flex gap-3">
+                            <div className="w-16 shrink-0"><Thumb frame={focusedFrame} /></div>
+                            <div className="flex-1 min-w-0">
+                                <input
+                                    value={nameDraft}
+                                    onChange={e => { setNameDraft(e.target.value); setNameError(false); }}
+                                    onBlur={commitRename}
+                                    onKeyDown={e => { if (e.key === 'Enter') commitRename(); }}
+                                    className={`w-full bg-black/50 border rounded px-2 py-1 text-xs font-mono text-white outline-none ${nameError ? 'border-red-500' : 'border-white/20 focus:border-brand-400'}`}
+                                />
+                                {nameError && <p className="text-[9px] text-red-400 mt-1">Name is empty or already taken</p>}
+                                {focusedFrame.mirrorOf && <p className="text-[9px] text-gray-500 mt-1 font-mono truncate">Mirror of {focusedFrame.mirrorOf}</p>}
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-3 gap-1">
+                            {ENERGY_ORDER.map(e => (
+                                <button key={e} onClick={() => patchFocused({ energy: e })}
+                                    className={`py-1.5 rounded text-[10px] font-bold border ${focusedFrame.energy === e ? 'bg-brand-600 border-brand-400 text-white' : 'bg-white/5 border-white/5 text-gray-400 hover:text-white'}`}>
+                                    {e.toUpperCase()}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="grid grid-cols-2 gap-1">
+                            {(['body', 'closeup'] as FrameType[]).map(t => (
+                                <button key={t} onClick={() => patchFocused({ type: t })}
+                                    className={`py-1.5 rounded text-[10px] font-bold border ${(focusedFrame.type || 'body') === t ? 'bg-brand-600 border-brand-400 text-white' : 'bg-white/5 border-white/5 text-gray-400 hover:text-white'}`}>
+                                    {t.toUpperCase()}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="grid grid-cols-3 gap-1">
+                            {(['left', 'neutral', 'right'] as FrameDirection[]).map(d => (
+                                <button key={d} onClick={() => patchFocused({ direction: d })}
+                                    className={`py-1.5 rounded text-[10px] font-bold border flex items-center justify-center gap-1 ${frameDirection(focusedFrame) === d ? 'bg-brand-600 border-brand-400 text-white' : 'bg-white/5 border-white/5 text-gray-400 hover:text-white'}`}>
+                                    {DIRECTION_ICON[d]} {d.toUpperCase()}
+                                </button>
+                            ))}
+                        </div>
+
+                        <div className="grid grid-cols-3 gap-1">
+                            <button onClick={handleDuplicate} className="py-2 bg-white/5 hover:bg-white/10 rounded text-[10px] font-bold text-gray-300 border border-white/10 flex items-center justify-center gap-1">
+                                <Copy size={12} /> DUPLICATE
+                            </button>
+                            <button onClick={handleMirror} disabled={isMirroring} className="py-2 bg-white/5 hover:bg-white/10 rounded text-[10px] font-bold text-gray-300 border border-white/10 flex items-center justify-center gap-1">
+                                {isMirroring ? <Loader2 size={12} className="animate-spin" /> : <FlipHorizontal size={12} />} MIRROR
+                            </button>
+                            <button onClick={handleDelete} className="py-2 bg-red-500/10 hover:bg-red-500/20 rounded text-[10px] font-bold text-red-300 border border-red-500/30 flex items-center justify-center gap-1">
+                                <Trash2 size={12} /> DELETE
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </>
+        )}
+
+        {mode === 'replace' && phase === 'select' && (
+            <>
+                <p className="text-[10px] text-gray-500 font-mono mb-3 uppercase tracking-widest">Select frames to replace</p>
+                <div className="flex-1 overflow-y-auto scrollbar-hide">
+                    <div className="grid grid-cols-4 gap-2">
+                        {frames.map(f => (
+                            <Thumb
+                                key={f.pose}
+                                frame={f}
+                                active={selected.includes(f.pose)}
+                                onClick={() => toggleSelect(f.pose)}
+                                badge={selected.includes(f.pose) && <div className="bg-brand-500 rounded-full p-0.5"><Check size={10} className="text-white"/></div>}
+                            />
+                        ))}
+                    </div>
+                </div>
+                <button
+                    disabled={selected.length === 0}
+                    onClick={requestCandidates}
+                    className={`mt-4 w-full py-3 rounded-xl text-xs font-bold flex items-center justify-center gap-2 border transition-all
+                        ${selected.length > 0 ? 'bg-brand-600 hover:bg-brand-500 text-white border-brand-400/50' : 'bg-white/5 text-gray-600 border-white/5 cursor-not-allowed'}`}
+                >
+                    <RefreshCw size={14} /> REGENERATE {selected.length > 0 ? `${selected.length} FRAME${selected.length > 1 ? 'S' : ''}` : ''}
+                </button>
+            </>
+        )}
+
+        {mode === 'replace' && phase === 'generating' && (
+            <div className="flex-1 flex flex-col items-center justify-center gap-3 text-gray-400">
+                <Loader2 size={32} className="animate-spin text-brand-400" />
+                <p className="text-xs font-mono tracking-widest">GENERATING STYLE-MATCHED SHEET...</p>
+            </div>
+        )}
+
+        {mode === 'replace' && phase === 'review' && (
+            <>
+                <p className="text-[10px] text-gray-500 font-mono mb-2 uppercase tracking-widest">Rejected &rarr; Replacement</p>
+                <div className="space-y-2 mb-4 max-h-48 overflow-y-auto scrollbar-hide">
+                    {targets.map(t => {
+                        const pick = assignments[t.pose];
+                        return (
+                            <div
+                                key={t.pose}
+                                onClick={() => setActiveTarget(t.pose)}
+                                className={`flex items-center gap-3 p-2 rounded-lg border cursor-pointer ${activeTarget === t.pose ? 'border-brand-500 bg-brand-500/10' : 'border-white/5 hover:border-white/20'}`}
+                            >
+                                <div className="w-12"><Thumb frame={t} /></div>
+                                <ArrowRight size={14} className="text-gray-500" />
+                                <div className="w-12">
+                                    {pick !== undefined ? <Thumb frame={candidates[pick]} /> : <div className="aspect-square rounded-lg border border-dashed border-white/20" />}
+                                </div>
+                                <div className="text-[10px] font-mono text-gray-400 truncate">{t.pose}<br/><span className="text-brand-300">{t.energy.toUpperCase()}</span></div>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <p className="text-[10px] text-gray-500 font-mono mb-2 uppercase tracking-widest">New cells (click to assign)</p>
+                <div className="flex-1 overflow-y-auto scrollbar-hide">
+                    <div className="grid grid-cols-4 gap-2">
+                        {candidates.map((c, i) => (
+                            <Thumb
+                                key={c.pose}
+                                frame={c}
+                                active={activeTarget !== null && assignments[activeTarget] === i}
+                                dim={Object.values(assignments).includes(i) && (activeTarget === null || assignments[activeTarget] !== i)}
+                                onClick={() => assignCandidate(i)}
+                            />
+                        ))}
+                    </div>
+                </div>
+
+                <div className="mt-4 grid grid-cols-2 gap-2">
+                    <button onClick={resetFlow} className="py-3 bg-white/5 hover:bg-white/10 rounded-xl text-xs font-bold text-gray-300 border border-white/10">
+                        DISCARD
+                    </button>
+                    <button
+                        onClick={applySelection}
+                        disabled={isApplying || Object.keys(assignments).length === 0}
+                        className="py-3 bg-brand-600 hover:bg-brand-500 rounded-xl text-xs font-bold text-white flex items-center justify-center gap-2 border border-brand-400/50"
+                    >
+                        {isApplying ? <Loader2 size={14} className="animate-spin" /> : <Check size={14} />} REPLACE
+                    </button>
+                </div>
+            </>
+        )}
+    </div>
+  );
+};
@@ -3,6 +3,8 @@ import React, { useEffect, useRef } from 'react';
 import { QuantumVisualizer, HolographicParams } from './Visualizer/HolographicVisualizer';
 import { AppState, AppStep } from '../types';
 import { STYLE_PRESETS } from '../constants';
+import { getScene, styleScene } from './Visualizer/scenes';
+import { sessionPalette } from '../services/palette';
 
 interface Props {
   appState: AppState;
@@ -11,6 +13,9 @@ interface Props {
 // Linear interpolation helper
 const lerp = (start: number, end: number, t: number) => start * (1 - t) + end * t;
 
+// Discrete or morph-driven: never eased
+const STEPPED = ['geometryType', 'geometryTarget', 'geometryMix'];
+
 export const GlobalBackground: React.FC<Props> = ({ appState }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const visualizerRef = useRef<QuantumVisualizer | null>(null);
@@ -88,7 +93,8 @@ export const GlobalBackground: React.FC<Props> = ({ appState }) => {
     const render = () => {
       if (visualizerRef.current) {
         
-        let target: HolographicParams = { ...currentParams.current };
+        let target: HolographicParams = { ...currentParams.current, geometryMix: 0 }; // Morph blend only while a secondary style is set
+        let scene = visualizerRef.current.scene || getScene('quantum');
         
         // BASE PARAMS PER STEP
         if (appState.step === AppStep.ASSETS) {
@@ -101,12 +107,13 @@ export const GlobalBackground: React.FC<Props> = ({ appState }) => {
                  density: 2.0,
                  geometryType: 0
              };
+             scene = getScene('quantum');
         }
         else if (appState.step === AppStep.DIRECTOR) {
             const style = STYLE_PRESETS.find(s => s.id === appState.selectedStyleId);
-            if (style && style.hologramParams) {
-                target = { ...target, ...style.hologramParams };
-            }
+            const selected = styleScene(style, appState.backgroundScene, appState.sceneParams);
+            scene = selected.scene;
+            target = { ...target, ...selected.params };
             
             // --- STYLE MORPHING LOGIC ---
             if (appState.secondaryStyleId) {
@@ -125,9 +132,10 @@ export const GlobalBackground: React.FC<Props> = ({ appState }) => {
                     target.morph = l(target.morph!, secStyle.hologramParams.morph!);
                     target.density = l(target.density!, secStyle.hologramParams.density!);
                     
-                    // Geometry type is discrete, switch at 50%
-                    if (mix > 0.5 && secStyle.hologramParams.geometryType !== undefined) {
-                        target.geometryType = secStyle.hologramParams.geometryType;
+                    // Geometry is discrete: blend the two distance fields by the morph amount
+                    if (secStyle.hologramParams.geometryType !== undefined) {
+                        target.geometryTarget = secStyle.hologramParams.geometryType;
+                        target.geometryMix = mix;
                     }
                 }
             }
@@ -159,16 +167,20 @@ export const GlobalBackground: React.FC<Props> = ({ appState }) => {
         const t = 0.05;
         const curr = currentParams.current;
 
-        curr.hue = lerp(curr.hue!, target.hue!, t);
-        curr.saturation = lerp(curr.saturation!, target.saturation!, t);
-        curr.intensity = lerp(curr.intensity!, target.intensity!, t);
-        curr.speed = lerp(curr.speed!, target.speed!, t);
-        curr.chaos = lerp(curr.chaos!, target.chaos!, t);
-        curr.morph = lerp(curr.morph!, target.morph!, t);
-        curr.density = lerp(curr.density!, target.density!, t);
+        Object.keys(target).forEach(key => {
+            if (STEPPED.includes(key) || target[key] === undefined) return;
+            curr[key] = lerp(curr[key] ?? target[key]!, target[key]!, t);
+        });
         curr.geometryType = target.geometryType;
+        // Keep the morph geometry while its blend eases out
+        curr.geometryMix = lerp(curr.geometryMix || 0, target.geometryMix || 0, t);
+        if (target.geometryTarget !== undefined) curr.geometryTarget = target.geometryTarget;
         
+        visualizerRef.current.setScene(scene);
         visualizerRef.current.params = curr;
+        // Character colors past the upload step, unless a hue is being previewed or generation pulses
+        const huePreview = overrideParams.current.hue !== null || appState.isGenerating;
+        visualizerRef.current.palette = appState.step !== AppStep.ASSETS && !huePreview ? sessionPalette(appState) : null;
 
         // Audio Reactivity (Idle Mode)
         if (appState.step !== AppStep.PREVIEW) {
@@ -188,7 +200,7 @@ export const GlobalBackground: React.FC<Props> = ({ appState }) => {
     };
     render();
     return () => cancelAnimationFrame(reqId);
-  }, [appState.step, appState.selectedStyleId, appState.secondaryStyleId, appState.morphIntensity, appState.isGenerating, appState.reactivity]);
+  }, [appState.step, appState.selectedStyleId, appState.secondaryStyleId, appState.morphIntensity, appState.isGenerating, appState.reactivity, appState.backgroundScene, appState.sceneParams, appState.paletteSource, appState.characterPalette]);
 
   return (
     <canvas 
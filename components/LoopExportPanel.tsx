@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { X, Repeat, Image as ImageIcon } from 'lucide-react';
+import { AudioAnalysis, OutputFormat } from '../types';
+import { outputDimensions } from '../services/outputFormat';
+import { findLoopPhrase } from '../services/audioAnalysis';
+import { LOOP_SIZE_TARGETS, LoopFormat, DitherMode, loopRenderSize } from '../services/loopExport';
+
+export interface LoopExportSettings {
+  format: LoopFormat;
+  start: number;             // seconds
+  length: number;            // seconds
+  shortSide: number;
+  fps: number;
+  colors: number;
+  dither: DitherMode;
+  quality: number;
+  maxBytes: number | null;
+}
+
+interface LoopExportPanelProps {
+  outputFormat: OutputFormat;
+  beatGrid: AudioAnalysis | null;   // Phrase mode needs the analysed track
+  onStart: (settings: LoopExportSettings) => void;
+  onClose: () => void;
+}
+
+const LOOP_SIZES = [240, 360, 480];
+const LOOP_FPS = [10, 15, 24];
+const LOOP_SECONDS = [2, 3, 5, 8];
+const PHRASE_BARS = [1, 2, 4];
+const GIF_COLORS = [32, 64, 128, 256];
+const DITHER_MODES: { id: DitherMode, label: string }[] = [
+  { id: 'none', label: 'NONE' },
+  { id: 'ordered', label: 'ORDERED' },
+  { id: 'floyd-steinberg', label: 'DIFFUSION' },
+];
+
+const optionClass = (active: boolean) =>
+  `py-2 rounded-lg text-[10px] font-bold border disabled:opacity-30 ${active ? 'bg-brand-600 border-brand-400 text-white' : 'bg-white/5 border-white/5 text-gray-400 hover:text-white'}`;
+
+export const LoopExportPanel: React.FC<LoopExportPanelProps> = ({ outputFormat, beatGrid, onStart, onClose }) => {
+  const [format, setFormat] = useState<LoopFormat>('gif');
+  const [lengthMode, setLengthMode] = useState<'seconds' | 'phrase'>(beatGrid ? 'phrase' : 'seconds');
+  const [seconds, setSeconds] = useState(3);
+  const [bars, setBars] = useState(2);
+  const [shortSide, setShortSide] = useState(360);
+  const [fps, setFps] = useState(15);
+  const [colors, setColors] = useState(128);
+  const [dither, setDither] = useState<DitherMode>('ordered');
+  const [quality, setQuality] = useState(80);
+  const [sizeTarget, setSizeTarget] = useState(LOOP_SIZE_TARGETS[0].id);
+
+  const phrase = beatGrid ? findLoopPhrase(beatGrid, bars) : null;
+  const usePhrase = lengthMode === 'phrase' && !!phrase;
+  const start = usePhrase ? phrase!.start : 0;
+  const length = usePhrase ? phrase!.end - phrase!.start : seconds;
+  const size = outputDimensions(outputFormat, shortSide);
+  const renderSize = loopRenderSize(size.width, size.height, Math.round(length * fps));
+  const target = LOOP_SIZE_TARGETS.find(t => t.id === sizeTarget) || LOOP_SIZE_TARGETS[0];
+
+  const handleStart = () => onStart({
+    format, start, length, shortSide, fps, colors, dither,
+    quality: quality / 100,
+    maxBytes: target.maxBytes
+  });
+
+  return (
+    <div className="absolute top-20 right-4 z-40 w-72 max-h-[calc(100%-6rem)] overflow-y-auto bg-black/90 backdrop-blur-xl border border-white/20 rounded-2xl p-5 shadow-2xl animate-slide-in-right">
+      <div className="flex justify-between items-center mb-6 border-b border-white/10 pb-4">
+        <h4 className="text-white font-bold flex items-center gap-2"><Repeat size={18}/> LOOP EXPORT</h4>
+        <button onClick={onClose}><X size={18} className="text-gray-400 hover:text-white"/></button>
+      </div>
+      <div className="space-y-5">
+        <div>
+          <label className="text-xs text-gray-400 font-bold mb-2 block">FORMAT</label>
+          <div className="grid grid-cols-2 gap-1">
+            <button onClick={() => setFormat('gif')} className={optionClass(format === 'gif')}>GIF</button>
+            <button onClick={() => setFormat('webp')} className={optionClass(format === 'webp')}>WEBP</button>
+          </div>
+        </div>
+
+        <div>
+          <label className="text-xs text-gray-400 font-bold mb-2 block">LENGTH</label>
+          <div className="grid grid-cols-2 gap-1 mb-2">
+            <button onClick={() => setLengthMode('seconds')} className={optionClass(lengthMode === 'seconds')}>SECONDS</button>
+            <button onClick={() => setLengthMode('phrase')} disabled={!beatGrid} title={beatGrid ? undefined : 'Needs an analysed track'} className={optionClass(lengthMode === 'phrase')}>PHRASE</button>
+          </div>
+          {lengthMode === 'seconds' || !beatGrid ? (
+            <div className="grid grid-cols-4 gap-1">
+              {LOOP_SECONDS.map(s => (
+                <button key={s} onClick={() => setSeconds(s)} className={optionClass(seconds === s)}>{s}s</button>
+              ))}
+            </div>
+          ) : (
+            <div className="grid grid-cols-3 gap-1">
+              {PHRASE_BARS.map(b => (
+                <button key={b} onClick={() => setBars(b)} className={optionClass(bars === b)}>{b} BAR{b > 1 ? 'S' : ''}</button>
+              ))}
+            </div>
+          )}
+          <p className="text-[10px] text-gray-500 mt-1 font-mono">
+            {usePhrase ? `${start.toFixed(1)}s → ${(start + length).toFixed(1)}s (${length.toFixed(1)}s @ ${beatGrid!.bpm} BPM)` : `0.0s → ${length.toFixed(1)}s`}
+          </p>
+        </div>
+
+        <div>
+          <label className="text-xs text-gray-400 font-bold mb-2 block">SIZE</label>
+          <div className="grid grid-cols-3 gap-1">
+            {LOOP_SIZES.map(s => (
+              <button key={s} onClick={() => setShortSide(s)} className={optionClass(shortSide === s)}>{s}p</button>
+            ))}
+          </div>
+          <p className="text-[10px] text-gray-500 mt-1 font-mono">
+            {renderSize.width} x {renderSize.height}{renderSize.width !== size.width && ' (reduced to fit memory)'}
+          </p>
+        </div>
+
+        <div>
+          <label className="text-xs text-gray-400 font-bold mb-2 block">FRAME RATE</label>
+          <div className="grid grid-cols-3 gap-1">
+            {LOOP_FPS.map(f => (
+              <button key={f} onClick={() => setFps(f)} className={optionClass(fps === f)}>{f} FPS</button>
+            ))}
+          </div>
+        </div>
+
+        {format === 'gif' ? (
+          <>
+            <div>
+              <label className="text-xs text-gray-400 font-bold mb-2 block">COLORS</label>
+              <div className="grid grid-cols-4 gap-1">
+                {GIF_COLORS.map(c => (
+                  <button key={c} onClick={() => setColors(c)} className={optionClass(colors === c)}>{c}</button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="text-xs text-gray-400 font-bold mb-2 block">DITHER</label>
+              <div className="grid grid-cols-3 gap-1">
+                {DITHER_MODES.map(d => (
+                  <button key={d.id} onClick={() => setDither(d.id)} className={optionClass(dither === d.id)}>{d.label}</button>
+                ))}
+              </div>
+            </div>
+          </>
+        ) : (
+          <div>
+            <label className="text-xs text-gray-400 font-bold mb-2 block">QUALITY <span className="font-mono text-gray-500">{quality}</span></label>
+            <input type="range" min="30" max="100" value={quality} onChange={(e) => setQuality(Number(e.target.value))} className="w-full h-1.5 bg-white/20 rounded-lg appearance-none cursor-pointer accent-brand-500"/>
+          </div>
+        )}
+
+        <div>
+          <label className="text-xs text-gray-400 font-bold mb-2 block">MAX FILE SIZE</label>
+          <div className="space-y-1">
+            {LOOP_SIZE_TARGETS.map(t => (
+              <button key={t.id} onClick={() => setSizeTarget(t.id)} className={`w-full px-3 text-left ${optionClass(sizeTarget === t.id)}`}>{t.label}</button>
+            ))}
+          </div>
+          <p className="text-[10px] text-gray-500 mt-1">Over the limit, the loop is re-encoded smaller{format === 'webp' ? ' (quality first, then size)' : ''}.</p>
+        </div>
+
+        <button onClick={handleStart} className="w-full py-3 bg-brand-600 hover:bg-brand-500 rounded-xl text-xs font-bold text-white flex items-center justify-center gap-2 border border-brand-400/50">
+          <ImageIcon size={14} /> EXPORT {format.toUpperCase()}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import { AppState, PaletteSource, StylePreset } from '../types';
+import { HologramPalette, hologramPalette } from './Visualizer/HolographicVisualizer';
+import { styleScene } from './Visualizer/scenes';
+import { paletteCss } from '../services/palette';
+
+interface PaletteControlsProps {
+  style: StylePreset | undefined;
+  config: Pick<AppState, 'backgroundScene' | 'sceneParams' | 'paletteSource' | 'characterPalette' | 'imagePreviewUrl'>;
+  onSourceChange: (source: PaletteSource) => void;
+}
+
+const Swatches: React.FC<{ palette: HologramPalette }> = ({ palette }) => (
+  <div className="flex gap-1">
+    {[palette.primary, palette.secondary, palette.highlight].map((color, i) => (
+      <span key={i} className="w-4 h-4 rounded-full border border-white/20" style={{ background: paletteCss(color) }} />
+    ))}
+  </div>
+);
+
+// Hologram colors: the style's hue, or primary / secondary / highlight taken from the character
+export const PaletteControls: React.FC<PaletteControlsProps> = ({ style, config, onSourceChange }) => {
+  const stylePalette = hologramPalette(styleScene(style, config.backgroundScene, config.sceneParams).params);
+  const options: { id: PaletteSource, label: string, palette: HologramPalette | null }[] = [
+    { id: 'style', label: 'STYLE HUE', palette: stylePalette },
+    { id: 'character', label: 'CHARACTER', palette: config.characterPalette }
+  ];
+
+  return (
+    <div>
+      <label className="text-xs font-bold text-gray-400 block uppercase tracking-wider mb-3">Hologram Colors</label>
+      <div className="grid grid-cols-2 gap-2">
+        {options.map(option => (
+          <button key={option.id} onClick={() => onSourceChange(option.id)}
+            className={`flex items-center justify-between px-3 py-2 rounded-lg border text-[10px] font-bold ${config.paletteSource === option.id ? 'bg-brand-500/20 border-brand-500 text-white' : 'bg-black/20 border-white/10 text-gray-500 hover:text-gray-300'}`}>
+            {option.label}
+            {option.palette ? <Swatches palette={option.palette} /> : <span className="text-gray-600">—</span>}
+          </button>
+        ))}
+      </div>
+      {config.paletteSource === 'character' && !config.characterPalette && (
+        <p className="text-[10px] text-gray-500 mt-2">
+          {config.imagePreviewUrl ? 'No clear subject colors found, using the style hue.' : 'Upload a character to extract its colors.'}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import { X, Library, Copy, Trash2, Pencil, Check, Play, Music, HardDrive, Loader2 } from 'lucide-react';
+import { STYLE_PRESETS } from '../constants';
+import {
+  LibraryEntry, StorageReport, listProjects, renameLibraryProject, duplicateLibraryProject,
+  deleteLibraryProject, getStorageReport, requestPersistentStorage
+} from '../services/projectLibrary';
+
+interface ProjectLibraryProps {
+  isOpen: boolean;
+  activeId: string | null;        // Project of the current session (autosaved)
+  refreshKey: number;             // Bumped by the app after each autosave
+  onOpen: (id: string) => void;
+  onDeleted: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+const formatDate = (time: number): string =>
+  new Date(time).toLocaleString(undefined, { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ isOpen, activeId, refreshKey, onOpen, onDeleted, onClose }) => {
+  const [entries, setEntries] = useState<LibraryEntry[] | null>(null);
+  const [storage, setStorage] = useState<StorageReport | null>(null);
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [nameDraft, setNameDraft] = useState('');
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [list, report] = await Promise.all([listProjects(), getStorageReport()]);
+      setEntries(list);
+      setStorage(report);
+      setError(null);
+    } catch (e: any) {
+      console.error("[Library] Listing failed:", e);
+      setError(e?.message || "The local library is not available in this browser.");
+      setEntries([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) refresh();
+  }, [isOpen, refreshKey, refresh]);
+
+  useEffect(() => {
+    if (!isOpen) { setRenaming(null); setConfirmDelete(null); }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (e: any) {
+      console.error("[Library] Action failed:", e);
+      setError(e?.message || "Library action failed");
+    }
+    refresh();
+  };
+
+  const commitRename = (id: string) => {
+    const name = nameDraft.trim();
+    setRenaming(null);
+    if (name) run(() => renameLibraryProject(id, name.slice(0, 120)));
+  };
+
+  const handleDelete = (id: string) => {
+    setConfirmDelete(null);
+    run(async () => { await deleteLibraryProject(id); onDeleted(id); });
+  };
+
+  const usage = storage && storage.quota > 0 ? storage.usage / storage.quota : 0;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 animate-fade-in">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-md" onClick={onClose} />
+      <div className="relative bg-dark-surface border border-dark-border rounded-2xl w-full max-w-3xl max-h-[85vh] flex flex-col shadow-[0_0_50px_rgba(0,0,0,0.5)] animate-zoom-out overflow-hidden">
+        <div className="flex justify-between items-center p-4 border-b border-dark-border bg-dark-bg/50">
+          <h3 className="text-lg font-bold text-white tracking-wide flex items-center gap-2"><Library size={18} /> PROJECT LIBRARY</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors hover:rotate-90 duration-300">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {error && <div className="mb-3 text-xs text-red-400 font-mono">{error}</div>}
+          {entries === null ? (
+            <div className="flex items-center justify-center py-16 text-gray-500"><Loader2 className="animate-spin" /></div>
+          ) : entries.length === 0 ? (
+            <div className="text-center py-16 text-gray-500 text-sm">No saved rigs yet. Generated rigs are saved here automatically.</div>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {entries.map(entry => {
+                const style = STYLE_PRESETS.find(s => s.id === entry.styleId);
+                const isActive = entry.id === activeId;
+                return (
+                  <div key={entry.id} className={`flex gap-3 p-3 rounded-xl border bg-black/30 ${isActive ? 'border-brand-400/60' : 'border-white/10'}`}>
+                    <button onClick={() => onOpen(entry.id)} className="w-20 h-20 shrink-0 rounded-lg overflow-hidden bg-[repeating-conic-gradient(#222_0%_25%,#111_0%_50%)] bg-[length:12px_12px] border border-white/10 hover:border-brand-400 transition-colors" title="Open in preview">
+                      {entry.thumbnail && <img src={entry.thumbnail} className="w-full h-full object-contain" />}
+                    </button>
+                    <div className="flex-1 min-w-0 flex flex-col">
+                      {renaming === entry.id ? (
+                        <input
+                          autoFocus
+                          value={nameDraft}
+                          onChange={(e) => setNameDraft(e.target.value)}
+                          onBlur={() => commitRename(entry.id)}
+                          onKeyDown={(e) => { if (e.key === 'Enter') commitRename(entry.id); if (e.key === 'Escape') setRenaming(null); }}
+                          className="bg-black/50 border border-white/20 focus:border-brand-400 rounded px-2 py-1 text-xs text-white outline-none"
+                        />
+                      ) : (
+                        <div className="text-sm font-bold text-white truncate" title={entry.name}>
+                          {entry.name}{isActive && <span className="ml-2 text-[9px] text-brand-300 font-mono">CURRENT</span>}
+                        </div>
+                      )}
+                      <div className="text-[10px] text-gray-400 font-mono mt-1">{formatDate(entry.createdAt)}</div>
+                      <div className="text-[10px] text-gray-500 font-mono flex items-center gap-2">
+                        <span className="truncate">{style?.name || entry.styleId}</span>
+                        <span>// {entry.frameCount} FRAMES</span>
+                        {entry.hasAudio && <Music size={10} className="text-brand-300 shrink-0" />}
+                      </div>
+                      <div className="flex items-center gap-1 mt-auto pt-2">
+                        <button onClick={() => onOpen(entry.id)} className="px-2 py-1 rounded bg-brand-600 hover:bg-brand-500 text-white text-[10px] font-bold flex items-center gap-1"><Play size={10} /> OPEN</button>
+                        <button onClick={() => { setRenaming(entry.id); setNameDraft(entry.name); }} title="Rename" className="p-1.5 rounded text-gray-400 hover:text-white hover:bg-white/10"><Pencil size={12} /></button>
+                        <button onClick={() => run(() => duplicateLibraryProject(entry.id))} title="Duplicate" className="p-1.5 rounded text-gray-400 hover:text-white hover:bg-white/10"><Copy size={12} /></button>
+                        {confirmDelete === entry.id ? (
+                          <button onClick={() => handleDelete(entry.id)} className="px-2 py-1 rounded bg-red-600 hover:bg-red-500 text-white text-[10px] font-bold flex items-center gap-1"><Check size={10} /> DELETE</button>
+                        ) : (
+                          <button onClick={() => setConfirmDelete(entry.id)} title="Delete" className="p-1.5 rounded text-gray-400 hover:text-red-400 hover:bg-white/10"><Trash2 size={12} /></button>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <div className="border-t border-dark-border p-4 bg-dark-bg/50 flex items-center gap-4 text-[10px] font-mono text-gray-400">
+          <HardDrive size={14} className="shrink-0" />
+          {storage ? (
+            <>
+              <div className="flex-1 h-1.5 bg-white/10 rounded-full overflow-hidden">
+                <div className={`h-full ${usage > 0.8 ? 'bg-red-500' : 'bg-brand-500'}`} style={{ width: `${Math.max(1, Math.round(usage * 100))}%` }} />
+              </div>
+              <span>{formatBytes(storage.usage)} / {formatBytes(storage.quota)}</span>
+              {storage.persisted
+                ? <span className="text-green-400">PERSISTENT</span>
+                : <button onClick={() => run(requestPersistentStorage)} className="text-yellow-400 hover:text-yellow-300" title="Ask the browser not to evict the library">MAKE PERSISTENT</button>}
+            </>
+          ) : (
+            <span>Storage usage is not reported by this browser.</span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { StylePreset } from '../types';
+import { HolographicParams, SceneParamDef } from './Visualizer/HolographicVisualizer';
+import { BACKGROUND_SCENES, SceneId, getScene, styleScene } from './Visualizer/scenes';
+
+interface SceneControlsProps {
+  style: StylePreset | undefined;
+  sceneId: SceneId | '';           // '' = the style's own scene
+  overrides: HolographicParams;    // Director tweaks on top of the preset
+  onSceneChange: (id: SceneId | '') => void;
+  onOverridesChange: (params: HolographicParams) => void;
+}
+
+const formatValue = (def: SceneParamDef, value: number) => def.step >= 1 ? String(Math.round(value)) : value.toFixed(2);
+
+// Background scene picker; the parameter controls are generated from the scene's schema
+export const SceneControls: React.FC<SceneControlsProps> = ({ style, sceneId, overrides, onSceneChange, onOverridesChange }) => {
+  const { scene, params } = styleScene(style, sceneId, overrides);
+  const styleSceneName = getScene(style?.scene).name;
+  const overridden = scene.params.filter(def => overrides[def.key] !== undefined);
+
+  const setParam = (key: string, value: number) => onOverridesChange({ ...overrides, [key]: value });
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <label className="text-xs font-bold text-gray-400 block uppercase tracking-wider">Background Scene</label>
+        {overridden.length > 0 && (
+          <button onClick={() => onOverridesChange({})} title="Back to the style's values"
+            className="flex items-center gap-1 text-[10px] font-bold text-gray-500 hover:text-white">
+            <RotateCcw size={10} /> RESET
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-1 mb-2">
+        <button onClick={() => onSceneChange('')}
+          className={`px-2 py-1 rounded text-[10px] font-bold border ${!sceneId ? 'bg-brand-500/20 border-brand-500 text-white' : 'bg-black/20 border-white/10 text-gray-500 hover:text-gray-300'}`}>
+          STYLE ({styleSceneName})
+        </button>
+        {BACKGROUND_SCENES.map(s => (
+          <button key={s.id} onClick={() => onSceneChange(s.id as SceneId)}
+            className={`px-2 py-1 rounded text-[10px] font-bold border ${sceneId === s.id ? 'bg-brand-500/20 border-brand-500 text-white' : 'bg-black/20 border-white/10 text-gray-500 hover:text-gray-300'}`}>
+            {s.name}
+          </button>
+        ))}
+      </div>
+      <p className="text-[10px] text-gray-500 mb-3">{scene.description}</p>
+
+      <div className="space-y-3">
+        {scene.params.map(def => {
+          const value = params[def.key] ?? def.default;
+          const changed = overrides[def.key] !== undefined;
+          return (
+            <div key={def.key}>
+              <div className="flex justify-between text-[10px] font-bold mb-1">
+                <span className={changed ? 'text-brand-300' : 'text-gray-400'}>{def.label.toUpperCase()}</span>
+                <span className="font-mono text-gray-500">{def.options ? def.options[Math.round(value)] : formatValue(def, value)}</span>
+              </div>
+              {def.options ? (
+                <div className="grid grid-cols-4 gap-1">
+                  {def.options.map((option, i) => (
+                    <button key={option} onClick={() => setParam(def.key, i)} title={option}
+                      className={`py-1 rounded text-[9px] font-bold border truncate px-1 ${Math.round(value) === i ? 'bg-brand-500/20 border-brand-500 text-white' : 'bg-black/20 border-white/5 text-gray-500 hover:text-gray-300'}`}>
+                      {option}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <input type="range" min={def.min} max={def.max} step={def.step} value={value}
+                  onChange={(e) => setParam(def.key, Number(e.target.value))}
+                  className="w-full h-1.5 bg-white/10 rounded-full accent-brand-400 cursor-pointer" />
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {scene.audio.length > 0 && (
+        <p className="text-[10px] text-gray-600 mt-3 font-mono">
+          AUDIO: {scene.audio.map(b => `${b.band} → ${b.param}`).join(' · ')}
+        </p>
+      )}
+    </div>
+  );
+};
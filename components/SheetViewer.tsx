@@ -0,0 +1,200 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Scissors, Loader2, Wand2, Minus, Plus } from 'lucide-react';
+import { SheetGrid, SheetGrids, SheetRole, SpriteSheets } from '../types';
+import { suggestSheetGrid, uniformLines } from '../services/spriteSlicer';
+
+interface SheetViewerProps {
+  sheets: SpriteSheets;
+  grids: SheetGrids;           // Grids the current frames were cut with (hand-adjusted ones)
+  onReslice: (role: SheetRole, grid: SheetGrid) => Promise<void>;
+  onClose: () => void;
+}
+
+const ROLES: SheetRole[] = ['base', 'alt', 'flourish'];
+const PLAN_SIZE = 4;           // Generation asks for a 4x4 sheet
+const MAX_CELLS = 8;           // Per axis
+const MIN_GAP = 0.02;          // Closest two lines may get (fraction of the sheet)
+const MAX_INSET = 0.3;
+
+type Drag = { axis: 'rows' | 'cols', index: number } | null;
+
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+
+export const SheetViewer: React.FC<SheetViewerProps> = ({ sheets, grids, onReslice, onClose }) => {
+  const roles = ROLES.filter(r => sheets[r]);
+  const [role, setRole] = useState<SheetRole>(roles[0] || 'base');
+  const [drafts, setDrafts] = useState<SheetGrids>({ ...grids });
+  const [drag, setDrag] = useState<Drag>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const surfaceRef = useRef<HTMLDivElement>(null);
+
+  const sheetUrl = sheets[role];
+  const grid = drafts[role];
+
+  // Sheets without a stored grid start from what the automatic slicer would do
+  useEffect(() => {
+    if (!sheetUrl || drafts[role]) return;
+    let cancelled = false;
+    suggestSheetGrid(sheetUrl, PLAN_SIZE, PLAN_SIZE)
+      .then(g => { if (!cancelled) setDrafts(prev => ({ ...prev, [role]: prev[role] || g })); })
+      .catch(() => { if (!cancelled) setDrafts(prev => ({ ...prev, [role]: prev[role] || { rows: uniformLines(PLAN_SIZE), cols: uniformLines(PLAN_SIZE), inset: 0.08 } })); });
+    return () => { cancelled = true; };
+  }, [role, sheetUrl, drafts]);
+
+  const update = (patch: Partial<SheetGrid>) => {
+    if (!grid) return;
+    setDrafts(prev => ({ ...prev, [role]: { ...grid, ...patch } }));
+    setError(null);
+  };
+
+  const resize = (axis: 'rows' | 'cols', delta: number) => {
+    if (!grid) return;
+    const count = clamp(grid[axis].length - 1 + delta, 1, MAX_CELLS);
+    update({ [axis]: uniformLines(count) });
+  };
+
+  const autoDetect = async () => {
+    if (!sheetUrl) return;
+    try {
+      update(await suggestSheetGrid(sheetUrl, PLAN_SIZE, PLAN_SIZE));
+    } catch (e: any) {
+      setError(e?.message || "Grid detection failed");
+    }
+  };
+
+  // --- LINE DRAGGING ---
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag || !grid || !surfaceRef.current) return;
+    const rect = surfaceRef.current.getBoundingClientRect();
+    const pos = drag.axis === 'cols' ? (e.clientX - rect.left) / rect.width : (e.clientY - rect.top) / rect.height;
+    const lines = [...grid[drag.axis]];
+    const min = drag.index > 0 ? lines[drag.index - 1] + MIN_GAP : 0;
+    const max = drag.index < lines.length - 1 ? lines[drag.index + 1] - MIN_GAP : 1;
+    lines[drag.index] = clamp(pos, min, max);
+    update({ [drag.axis]: lines });
+  };
+
+  const startDrag = (e: React.PointerEvent, axis: 'rows' | 'cols', index: number) => {
+    e.preventDefault();
+    surfaceRef.current?.setPointerCapture(e.pointerId);
+    setDrag({ axis, index });
+  };
+
+  const handleReslice = async () => {
+    if (!grid) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await onReslice(role, grid);
+    } catch (e: any) {
+      console.error("[Slicer] Re-slice failed:", e);
+      setError(e?.message || "Re-slice failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const rows = grid ? grid.rows.length - 1 : 0;
+  const cols = grid ? grid.cols.length - 1 : 0;
+
+  return (
+    <div className="absolute top-20 right-4 bottom-4 left-4 md:left-auto md:w-[36rem] z-40 bg-black/90 backdrop-blur-xl border border-white/20 rounded-2xl p-5 shadow-2xl animate-slide-in-right flex flex-col">
+      <div className="flex justify-between items-center mb-4 border-b border-white/10 pb-4">
+        <h4 className="text-white font-bold flex items-center gap-2"><Scissors size={18}/> SPRITE SHEETS</h4>
+        <button onClick={onClose}><X size={18} className="text-gray-400 hover:text-white"/></button>
+      </div>
+
+      {roles.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-center text-xs text-gray-500 px-6">
+          This rig has no original sheets. Sheets are kept for rigs generated or saved from now on.
+        </div>
+      ) : (
+        <>
+          <div className="grid gap-1 mb-4 bg-white/5 p-1 rounded-lg" style={{ gridTemplateColumns: `repeat(${roles.length}, minmax(0, 1fr))` }}>
+            {roles.map(r => (
+              <button key={r} onClick={() => { setRole(r); setError(null); }} disabled={busy}
+                className={`py-1.5 rounded text-[10px] font-bold uppercase ${role === r ? 'bg-brand-600 text-white' : 'text-gray-400 hover:text-white'}`}>
+                {r}{grids[r] ? ' *' : ''}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex-1 min-h-0 overflow-auto flex items-start justify-center">
+            <div
+              ref={surfaceRef}
+              className="relative select-none touch-none bg-white"
+              onPointerMove={handlePointerMove}
+              onPointerUp={() => setDrag(null)}
+              onPointerCancel={() => setDrag(null)}
+            >
+              <img src={sheetUrl} className="block max-w-full max-h-[60vh] pointer-events-none" draggable={false} />
+              {grid && (
+                <>
+                  {/* Crop boxes (cell minus inset) */}
+                  {grid.rows.slice(0, -1).map((y0, r) => grid.cols.slice(0, -1).map((x0, c) => {
+                    const w = grid.cols[c + 1] - x0;
+                    const h = grid.rows[r + 1] - y0;
+                    return (
+                      <div key={`${r}-${c}`} className="absolute border border-brand-400/80 bg-brand-500/10 pointer-events-none"
+                        style={{ left: `${(x0 + w * grid.inset) * 100}%`, top: `${(y0 + h * grid.inset) * 100}%`, width: `${w * (1 - 2 * grid.inset) * 100}%`, height: `${h * (1 - 2 * grid.inset) * 100}%` }} />
+                    );
+                  }))}
+                  {grid.cols.map((x, i) => (
+                    <div key={`c${i}`} onPointerDown={(e) => startDrag(e, 'cols', i)}
+                      className="absolute top-0 bottom-0 w-3 -ml-1.5 cursor-ew-resize flex justify-center group"
+                      style={{ left: `${x * 100}%` }}>
+                      <div className={`w-px h-full ${drag?.axis === 'cols' && drag.index === i ? 'bg-yellow-300' : 'bg-pink-500 group-hover:bg-yellow-300'}`} />
+                    </div>
+                  ))}
+                  {grid.rows.map((y, i) => (
+                    <div key={`r${i}`} onPointerDown={(e) => startDrag(e, 'rows', i)}
+                      className="absolute left-0 right-0 h-3 -mt-1.5 cursor-ns-resize flex items-center group"
+                      style={{ top: `${y * 100}%` }}>
+                      <div className={`h-px w-full ${drag?.axis === 'rows' && drag.index === i ? 'bg-yellow-300' : 'bg-pink-500 group-hover:bg-yellow-300'}`} />
+                    </div>
+                  ))}
+                </>
+              )}
+              {!grid && <div className="absolute inset-0 flex items-center justify-center"><Loader2 className="animate-spin text-brand-400" /></div>}
+            </div>
+          </div>
+
+          <div className="pt-4 mt-4 border-t border-white/10 space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              {(['rows', 'cols'] as const).map(axis => (
+                <div key={axis} className="flex items-center justify-between bg-white/5 rounded-lg px-2 py-1.5">
+                  <span className="text-[10px] text-gray-400 font-bold uppercase">{axis}</span>
+                  <div className="flex items-center gap-2">
+                    <button onClick={() => resize(axis, -1)} disabled={!grid || busy} className="p-1 rounded text-gray-400 hover:text-white hover:bg-white/10 disabled:opacity-30"><Minus size={12} /></button>
+                    <span className="text-xs font-mono text-white w-4 text-center">{axis === 'rows' ? rows : cols}</span>
+                    <button onClick={() => resize(axis, 1)} disabled={!grid || busy} className="p-1 rounded text-gray-400 hover:text-white hover:bg-white/10 disabled:opacity-30"><Plus size={12} /></button>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div>
+              <div className="flex justify-between text-[10px] text-gray-400 font-bold mb-1">
+                <span>INSET</span><span className="font-mono">{grid ? Math.round(grid.inset * 100) : 0}%</span>
+              </div>
+              <input type="range" min={0} max={MAX_INSET * 100} value={grid ? Math.round(grid.inset * 100) : 0} disabled={!grid || busy}
+                onChange={(e) => update({ inset: Number(e.target.value) / 100 })} className="w-full accent-brand-500" />
+            </div>
+            {error && <div className="text-[10px] text-red-400 font-mono">{error}</div>}
+            <div className="flex gap-2">
+              <button onClick={autoDetect} disabled={!grid || busy} title="Reset to the detected grid"
+                className="px-3 py-2.5 bg-white/5 hover:bg-white/10 rounded-xl text-[10px] font-bold text-gray-300 hover:text-white flex items-center gap-1 border border-white/10 disabled:opacity-40">
+                <Wand2 size={12} /> AUTO
+              </button>
+              <button onClick={handleReslice} disabled={!grid || busy}
+                className="flex-1 py-2.5 bg-brand-600 hover:bg-brand-500 rounded-xl text-xs font-bold text-white flex items-center justify-center gap-2 border border-brand-400/50 disabled:opacity-40">
+                {busy ? <Loader2 size={14} className="animate-spin" /> : <Scissors size={14} />} RE-SLICE {role.toUpperCase()} ({rows * cols} CELLS)
+              </button>
+            </div>
+            <p className="text-[10px] text-gray-500">Drag the lines to move cut edges. Re-slicing replaces this sheet's frames, no credits used.</p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,27 +1,59 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { Play, Pause, Video, Settings, Mic, MicOff, Maximize2, Minimize2, Upload, X, Loader2, Sliders, Package, Music, ChevronDown, ChevronUp, Activity, Download, FileVideo, Radio, Star, Camera } from 'lucide-react';
-import { AppState, EnergyLevel } from '../types';
+import { Play, Pause, Video, Settings, Mic, MicOff, Maximize2, Minimize2, Upload, X, Loader2, Sliders, Package, Music, ChevronDown, ChevronUp, Activity, Download, FileVideo, Radio, Star, Camera, Eraser, Grid, Dices, Repeat, LayoutGrid, Scissors, Wallpaper } from 'lucide-react';
+import { AppState, EnergyLevel, SectionType, FrameAnchor, FrameType, GeneratedFrame, OutputFormat, SheetRole, SheetGrid } from '../types';
 import { QuantumVisualizer } from './Visualizer/HolographicVisualizer';
+import { DEFAULT_SCENE_ID, styleScene } from './Visualizer/scenes';
 import { generatePlayerHTML } from '../services/playerExport';
-import { STYLE_PRESETS } from '../constants';
+import { computeReferenceAnchors } from '../services/frameAlign';
+import { drawCharacterLayers, stageScale } from '../services/characterRender';
+import { resolveOutputPreset, aspectRatio, outputDimensions, fitStage } from '../services/outputFormat';
+import { STYLE_PRESETS, OUTPUT_PRESETS } from '../constants';
+import { FrameManager } from './FrameManager';
+import { SheetViewer } from './SheetViewer';
+import { BackdropPanel } from './BackdropPanel';
+import { LoopExportPanel, LoopExportSettings } from './LoopExportPanel';
+import { AtlasExportPanel, AtlasExportSettings } from './AtlasExportPanel';
+import { frameDirection } from '../services/frameLibrary';
+import { ChoreographyEngine } from '../services/choreography';
+import { analysisMatchesFile } from '../services/audioAnalysis';
+import { mulberry32, deriveSeed, randomSeed, formatSeed, parseSeed } from '../services/random';
+import { VIDEO_RESOLUTIONS, VIDEO_BITRATES, recordComposite, pickRecorderMimeType, downloadBlob } from '../services/videoExport';
+import { renderOffline, isOfflineRenderSupported, prepareAudio } from '../services/offlineRender';
+import { exportLoop } from '../services/loopExport';
+import { buildAnimationTrack, exportSpriteAtlas, TRACK_FPS } from '../services/spriteAtlas';
+import { CharacterSprite } from '../services/characterRender';
+import { ProjectExportOptions } from '../services/projectContainer';
+import { BackdropMedia, loadBackdropMedia, drawBackdrop, backdropUsesVisualizer } from '../services/backdrop';
+import { sessionPalette } from '../services/palette';
 
 interface Step4Props {
   state: AppState;
   onGenerateMore: () => void;
   onSpendCredit: (amount: number) => boolean;
   onUploadAudio: (file: File) => void;
-  onSaveProject: () => void;
+  onUploadBackdrop: (file: File | null) => void; // null removes it
+  onSaveProject: (options: ProjectExportOptions) => void;
+  onResliceSheet: (role: SheetRole, grid: SheetGrid) => Promise<void>;
+  onUpdateConfig: (key: string, value: any) => void;
+  onRequestReplacements: () => Promise<GeneratedFrame[]>;
+  onUpdateFrames: (frames: GeneratedFrame[]) => void;
+  onUpdateSeed: (seed: number) => void;
+  onUpdateOutputFormat: (format: OutputFormat) => void;
 }
 
-export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSpendCredit, onUploadAudio, onSaveProject }) => {
+export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSpendCredit, onUploadAudio, onUploadBackdrop, onSaveProject, onResliceSheet, onRequestReplacements, onUpdateFrames, onUpdateSeed, onUpdateOutputFormat, onUpdateConfig }) => {
   // Canvases
   const bgCanvasRef = useRef<HTMLCanvasElement>(null);
+  const backdropCanvasRef = useRef<HTMLCanvasElement>(null); // Backdrop (+ blended visualizer) when one is set
   const charCanvasRef = useRef<HTMLCanvasElement>(null); 
   const containerRef = useRef<HTMLDivElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const stageRef = useRef<HTMLDivElement>(null); // Output-format frame inside the viewport
   const audioInputRef = useRef<HTMLInputElement>(null);
   
   // Systems
   const hologramRef = useRef<QuantumVisualizer | null>(null);
+  const backdropMediaRef = useRef<BackdropMedia | null>(null);
   
   // Audio Graph
   const audioRef = useRef<HTMLAudioElement | null>(null);
@@ -34,11 +66,9 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
   const startTimeRef = useRef<number>(0);
   const lastFrameTimeRef = useRef<number>(0);
   
-  // RHYTHM & BRAIN STATE
-  const lastSwitchTimeRef = useRef<number>(0); 
-  const lastBeatTimeRef = useRef<number>(0);
-  const lastSnareTimeRef = useRef<number>(0);
-  const beatCounterRef = useRef<number>(0); // Tracks 1-2-3-4 pattern
+  // Choreography Brain (shared with the exported player)
+  const engineRef = useRef<ChoreographyEngine | null>(null);
+  const fxRandomRef = useRef<() => number>(mulberry32(deriveSeed(state.seed, 'fx'))); // Render-only noise (tear slices)
   
   // Logic State
   const [brainState, setBrainState] = useState({
@@ -46,38 +76,14 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
       nextDir: 'LEFT' as 'LEFT' | 'RIGHT' | 'HOLD',
       confidence: 0,
       activePoseName: 'BASE',
+      section: null as SectionType | null,
   });
 
-  // Interpolation & Burst State
-  const targetPoseRef = useRef<string>('base'); 
-  const previousPoseRef = useRef<string>('base'); // For Virtual Frame Interp
-  const transitionStartRef = useRef<number>(0); // Timestamp of transition start
-  const transitionDurationRef = useRef<number>(100); // Dynamic interpolation time
-  const transitionModeRef = useRef<'CUT' | 'FLOW'>('CUT'); // Logic for blending
-  
-  const burstModeUntilRef = useRef<number>(0);
-  const lastMoveDirectionRef = useRef<'left' | 'right'>('right'); 
-  
-  // Virtual Camera & Physics
-  const camZoomRef = useRef<number>(1.0);
-  const camShakeXRef = useRef<number>(0);
-  const camShakeYRef = useRef<number>(0);
-  const camRotationRef = useRef<number>(0);
-  const camPanXRef = useRef<number>(0); 
-  const camPanYRef = useRef<number>(0);
-  const swayPhaseRef = useRef<number>(0); // Smooth idle sway
-  
-  // FX Refs
-  const moireAmountRef = useRef<number>(0); 
-  const tearAmountRef = useRef<number>(0); 
-  const flashIntensityRef = useRef<number>(0); // Lighting overlay intensity
-  
-  // Dynamic Frame Pools
-  const [framesByEnergy, setFramesByEnergy] = useState<Record<EnergyLevel, string[]>>({ low: [], mid: [], high: [] });
-  const [closeupFrames, setCloseupFrames] = useState<string[]>([]); 
-
   // Assets
   const poseImagesRef = useRef<Record<string, HTMLImageElement>>({}); 
+  const matteImagesRef = useRef<Record<string, HTMLCanvasElement>>({}); // Alpha silhouettes for matte view
+  const poseAnchorsRef = useRef<Record<string, { anchor?: FrameAnchor, type?: FrameType }>>({}); // Registration data
+  const referenceAnchorsRef = useRef<Record<FrameType, FrameAnchor>>({ body: { x: 0.5, y: 0.9 }, closeup: { x: 0.5, y: 0.5 } });
   const [imagesReady, setImagesReady] = useState(false);
   
   // UI State
@@ -85,10 +91,51 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
   const [showSettings, setShowSettings] = useState(false);
   const [isMicActive, setIsMicActive] = useState(false);
   const [isZenMode, setIsZenMode] = useState(false);
-  const [superCamActive, setSuperCamActive] = useState(true); 
+  const superCamActive = state.dynamicCamera;
+  const [showMatte, setShowMatte] = useState(false); // Preview the alpha matte instead of the color frames
+  const [showFrameManager, setShowFrameManager] = useState(false);
+  const [showSheetViewer, setShowSheetViewer] = useState(false);
+  const [showBackdropPanel, setShowBackdropPanel] = useState(false);
+  const [showVideoPanel, setShowVideoPanel] = useState(false);
+  const [showLoopPanel, setShowLoopPanel] = useState(false);
+  const [showAtlasPanel, setShowAtlasPanel] = useState(false);
+  const [isPackingAtlas, setIsPackingAtlas] = useState(false);
+  const [showSafeArea, setShowSafeArea] = useState(false);
+
+  // Output Format (stage is letterboxed to the preset's aspect)
+  const preset = resolveOutputPreset(state.outputFormat);
+  const stageRatio = aspectRatio(preset);
+  const [stageSize, setStageSize] = useState({ width: 0, height: 0 });
+
+  // Video Export
+  const [videoResolution, setVideoResolution] = useState(VIDEO_RESOLUTIONS[0].id);
+  const [videoBitrate, setVideoBitrate] = useState(VIDEO_BITRATES[1].id);
+  const [videoLength, setVideoLength] = useState<'duration' | 'track'>('duration');
+  const [videoMode, setVideoMode] = useState<'offline' | 'realtime'>(isOfflineRenderSupported() ? 'offline' : 'realtime');
+  const [renderProgress, setRenderProgress] = useState<number | null>(null);
+  const [renderLabel, setRenderLabel] = useState('RENDER');
+  const recordingRef = useRef<{ cancel: () => void } | null>(null);
+
+  // Performance settings live in AppState so projects can save them
+  const stutterChance = state.stutter;
+  const [embedAudio, setEmbedAudio] = useState(true);
+  const [webpFrames, setWebpFrames] = useState(true);
+  const [includeSheets, setIncludeSheets] = useState(true);
+
+  const hasSheets = Object.values(state.spriteSheets).some(Boolean);
+
+  const [seedDraft, setSeedDraft] = useState(formatSeed(state.seed));
+
+  // Frames on stage: the generated rig, or the source image alone before generation
+  const stageFrames = (): GeneratedFrame[] => state.generatedFrames.length > 0 
+      ? state.generatedFrames 
+      : (state.imagePreviewUrl ? [{ url: state.imagePreviewUrl, pose: 'base', energy: 'low' as EnergyLevel, type: 'body' as const }] : []);
+
+  const choreographyFrames = (frames: GeneratedFrame[]) =>
+      frames.map(f => ({ pose: f.pose, energy: f.energy, type: f.type, direction: frameDirection(f) }));
 
-  // Local Settings
-  const [stutterChance, setStutterChance] = useState(state.stutter);
+  // Offline beat grid, only trusted for the exact file it was computed from
+  const beatGrid = analysisMatchesFile(state.audioAnalysis, state.audioFile) ? state.audioAnalysis : null;
   
   // ---------------------------------------------------------------------------
   // 1. Initialize Hologram & Assets & Sort Frames
@@ -98,38 +145,25 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
     if (bgCanvasRef.current && !hologramRef.current) {
         try {
             hologramRef.current = new QuantumVisualizer(bgCanvasRef.current);
-            const style = STYLE_PRESETS.find(s => s.id === state.selectedStyleId);
-            if(style && style.hologramParams) {
-                hologramRef.current.params = {...style.hologramParams};
-            }
         } catch (e) {
             console.error("Failed to init hologram:", e);
         }
     }
 
     // Sort Frames
-    const sorted: Record<EnergyLevel, string[]> = { low: [], mid: [], high: [] };
-    const closeups: string[] = [];
+    const framesToLoad = stageFrames();
 
-    const framesToLoad = state.generatedFrames.length > 0 
-      ? state.generatedFrames 
-      : (state.imagePreviewUrl ? [{ url: state.imagePreviewUrl, pose: 'base', energy: 'low' as EnergyLevel, type: 'body' as const }] : []);
+    engineRef.current = new ChoreographyEngine(
+        choreographyFrames(framesToLoad),
+        { stutterChance, dynamicCamera: superCamActive, directional: state.subjectCategory !== 'TEXT', panLimit: preset.panLimit, random: mulberry32(deriveSeed(state.seed, 'choreo')) }
+    );
+    engineRef.current.setBeatGrid(beatGrid);
 
-    framesToLoad.forEach(f => {
-        if (f.type === 'closeup') {
-            closeups.push(f.pose);
-        } else {
-            if (sorted[f.energy]) sorted[f.energy].push(f.pose);
-        }
-    });
-    
-    // Fallbacks
-    if (sorted.low.length === 0 && framesToLoad.length > 0 && framesToLoad[0].type === 'body') sorted.low.push(framesToLoad[0].pose);
-    if (sorted.mid.length === 0) sorted.mid = [...sorted.low]; 
-    if (sorted.high.length === 0) sorted.high = [...sorted.mid]; 
-    
-    setFramesByEnergy(sorted);
-    setCloseupFrames(closeups);
+    // Registration: every frame is pinned to the shared reference anchor
+    const anchors: Record<string, { anchor?: FrameAnchor, type?: FrameType }> = {};
+    framesToLoad.forEach(f => { anchors[f.pose] = { anchor: 'anchor' in f ? f.anchor : undefined, type: f.type }; });
+    poseAnchorsRef.current = anchors;
+    referenceAnchorsRef.current = computeReferenceAnchors(framesToLoad);
 
     // Load Images
     let loaded = 0;
@@ -164,6 +198,88 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
     });
   }, [state.generatedFrames, state.imagePreviewUrl, state.selectedStyleId]);
 
+  useEffect(() => {
+    engineRef.current?.setBeatGrid(beatGrid);
+  }, [beatGrid]);
+
+  // Background scene of the style (or the director's pick) with its parameters
+  useEffect(() => {
+    if (!hologramRef.current) return;
+    const { scene, params } = styleScene(STYLE_PRESETS.find(s => s.id === state.selectedStyleId), state.backgroundScene, state.sceneParams);
+    hologramRef.current.setScene(scene);
+    hologramRef.current.params = params;
+    hologramRef.current.palette = sessionPalette(state);
+  }, [state.selectedStyleId, state.backgroundScene, state.sceneParams, state.paletteSource, state.characterPalette]);
+
+  // Backdrop media (videos loop muted for the whole session)
+  useEffect(() => {
+    if (!state.backdrop) return;
+    let cancelled = false;
+    let media: BackdropMedia | null = null;
+    loadBackdropMedia(state.backdrop).then(m => {
+        if (cancelled) return;
+        media = m;
+        backdropMediaRef.current = m;
+        if (m instanceof HTMLVideoElement) m.play().catch(() => { /* autoplay blocked: first frame stays */ });
+    }).catch(e => console.warn("[Backdrop]", e));
+    return () => {
+        cancelled = true;
+        if (media instanceof HTMLVideoElement) media.pause();
+        backdropMediaRef.current = null;
+    };
+  }, [state.backdrop]);
+
+  // Same seed + same track from the top = same dance
+  const resetPerformance = () => {
+    engineRef.current?.reset(mulberry32(deriveSeed(state.seed, 'choreo')));
+    fxRandomRef.current = mulberry32(deriveSeed(state.seed, 'fx'));
+  };
+
+  useEffect(() => {
+    resetPerformance();
+    setSeedDraft(formatSeed(state.seed));
+  }, [state.seed]);
+
+  const commitSeed = () => {
+    const parsed = parseSeed(seedDraft);
+    if (parsed === null) { setSeedDraft(formatSeed(state.seed)); return; }
+    onUpdateSeed(parsed);
+  };
+
+  useEffect(() => {
+    engineRef.current?.setOptions({ stutterChance, dynamicCamera: superCamActive, directional: state.subjectCategory !== 'TEXT', panLimit: preset.panLimit });
+  }, [stutterChance, superCamActive, state.subjectCategory, preset.panLimit]);
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const measure = () => setStageSize(fitStage(viewport.clientWidth, viewport.clientHeight, stageRatio));
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(viewport);
+    return () => observer.disconnect();
+  }, [stageRatio]);
+
+  // Matte View: white silhouettes built from each frame's alpha channel
+  useEffect(() => {
+    if (!showMatte || !imagesReady) return;
+    const mattes: Record<string, HTMLCanvasElement> = {};
+    Object.keys(poseImagesRef.current).forEach(pose => {
+        const img = poseImagesRef.current[pose];
+        const canvas = document.createElement('canvas');
+        canvas.width = img.width;
+        canvas.height = img.height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+        ctx.drawImage(img, 0, 0);
+        ctx.globalCompositeOperation = 'source-in';
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        mattes[pose] = canvas;
+    });
+    matteImagesRef.current = mattes;
+  }, [showMatte, imagesReady, state.generatedFrames]);
+
   useEffect(() => {
     return () => {
       if (micStreamRef.current) micStreamRef.current.getTracks().forEach(t => t.stop());
@@ -228,6 +344,23 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
       }
   };
 
+  const ensureAudioElement = (ctx: AudioContext) => {
+      if (audioRef.current || !state.audioPreviewUrl) return audioRef.current;
+      const audio = new Audio();
+      audio.crossOrigin = "anonymous";
+      audio.src = state.audioPreviewUrl;
+      audio.loop = true;
+      
+      const source = ctx.createMediaElementSource(audio);
+      if (analyserRef.current) {
+          analyserRef.current.disconnect(); 
+          analyserRef.current.connect(ctx.destination);
+          source.connect(analyserRef.current);
+      }
+      audioRef.current = audio;
+      return audio;
+  };
+
   const togglePlay = async () => {
       const ctx = initAudioContext();
       if (ctx.state === 'suspended') await ctx.resume();
@@ -238,24 +371,13 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
       }
 
       if (state.audioPreviewUrl) {
-          if (!audioRef.current) {
-              const audio = new Audio();
-              audio.crossOrigin = "anonymous";
-              audio.src = state.audioPreviewUrl;
-              audio.loop = true;
-              
-              const source = ctx.createMediaElementSource(audio);
-              if (analyserRef.current) {
-                  analyserRef.current.disconnect(); 
-                  analyserRef.current.connect(ctx.destination);
-                  source.connect(analyserRef.current);
-              }
-              audioRef.current = audio;
-          }
+          ensureAudioElement(ctx);
+          if (!audioRef.current) return;
 
           if (isPlaying) {
               audioRef.current.pause();
           } else {
+              if (audioRef.current.currentTime < 0.05) resetPerformance();
               audioRef.current.play();
           }
           setIsPlaying(!isPlaying);
@@ -264,6 +386,16 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
       }
   };
 
+  const spriteResolver = () => {
+      const images: Record<string, HTMLImageElement | HTMLCanvasElement> = showMatte ? matteImagesRef.current : poseImagesRef.current;
+      return (pose: string): CharacterSprite | null => {
+          const image = images[pose] || images['base'];
+          if (!image) return null;
+          const meta = poseAnchorsRef.current[pose];
+          return { image, anchor: meta?.anchor, reference: referenceAnchorsRef.current[meta?.type || 'body'] };
+      };
+  };
+
   // ---------------------------------------------------------------------------
   // 3. MAIN RENDER LOOP
   // ---------------------------------------------------------------------------
@@ -282,193 +414,48 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
         const bufferLength = analyserRef.current.frequencyBinCount;
         const dataArray = new Uint8Array(bufferLength);
         analyserRef.current.getByteFrequencyData(dataArray);
-        
-        // Tuned Ranges
-        bass = dataArray.slice(0, 8).reduce((a,b)=>a+b,0) / 8 / 255;  
-        mid = dataArray.slice(15, 60).reduce((a,b)=>a+b,0) / 45 / 255; 
-        high = dataArray.slice(100, 200).reduce((a,b)=>a+b,0) / 100 / 255; 
+        ({ bass, mid, high } = ChoreographyEngine.bandsFromSpectrum(dataArray));
     } else if (isPlaying && !state.audioPreviewUrl && !isMicActive) {
         // Fallback Clock
-        const bpm = 124;
-        const beatDur = 60 / bpm;
-        const now = time / 1000;
-        const beatPos = (now % beatDur) / beatDur;
-        bass = Math.pow(Math.max(0, 1 - beatPos * 4), 3); 
-        mid = (now % (beatDur*2) > beatDur) && (beatPos < 0.2) ? 0.6 : 0; 
-        high = Math.random() * 0.1;
+        ({ bass, mid, high } = ChoreographyEngine.metronome(time / 1000));
     }
 
-    // --- 2. Choreography Brain ---
+    // --- 2. Choreography Brain + Camera Physics ---
     const now = time;
-    const isBurst = now < burstModeUntilRef.current;
-    
-    // GATING
-    const poseLockTime = isBurst ? 60 : 150; 
-    const canSwitch = (now - lastSwitchTimeRef.current) > poseLockTime;
+    const engine = engineRef.current;
+    if (!engine) return;
+    const songTime = (!isMicActive && audioRef.current && !audioRef.current.paused) ? audioRef.current.currentTime : undefined;
+    const events = engine.update(now, dt, { bass, mid, high }, isPlaying, songTime);
 
-    // Reactivity Threshold
-    const beatThreshold = 0.35; 
-    const isBeatHit = bass > beatThreshold && canSwitch; 
-    
-    // Detect Snare (Mids) for Scanlines
-    const isSnare = mid > 0.6;
-
-    if (isPlaying) {
-        
-        // A. Standard Beat Hit
-        if (isBeatHit) {
-            lastBeatTimeRef.current = now;
-            lastSwitchTimeRef.current = now;
-            
-            // PATTERN ENGINE (The Rhythm Brain)
-            beatCounterRef.current = (beatCounterRef.current + 1) % 4;
-            const isPatternCut = beatCounterRef.current < 2; // Beats 0, 1 = CUT. Beats 2, 3 = FLOW.
-            
-            const isHardHit = bass > 0.8;
-            
-            // Ping-Pong Direction Logic
-            let nextDir: 'left' | 'right' = lastMoveDirectionRef.current === 'left' ? 'right' : 'left';
-            if (Math.random() < 0.3) nextDir = lastMoveDirectionRef.current; 
-            
-            // Pool Selection
-            let pool: string[] = [];
-            
-            if ((mid > 0.6 || high > 0.6) && closeupFrames.length > 0 && Math.random() > 0.5) {
-                pool = closeupFrames;
-            } else {
-                 if (isHardHit) pool = framesByEnergy.high.length > 0 ? framesByEnergy.high : framesByEnergy.mid;
-                 else pool = framesByEnergy.mid.length > 0 ? framesByEnergy.mid : framesByEnergy.low;
-            }
-            
-            const dirPool = pool.filter(p => p.toLowerCase().includes(nextDir));
-            const finalPool = dirPool.length > 0 ? dirPool : pool;
-            
-            if (finalPool.length > 0) {
-                 const nextPose = finalPool[Math.floor(Math.random() * finalPool.length)];
-                 
-                 // Trigger Virtual Frame Transition
-                 if (targetPoseRef.current !== nextPose) {
-                     previousPoseRef.current = targetPoseRef.current;
-                     targetPoseRef.current = nextPose;
-                     transitionStartRef.current = now;
-                     lastMoveDirectionRef.current = nextDir;
-                     
-                     // PATTERN LOGIC:
-                     if (isHardHit || isPatternCut) {
-                        transitionModeRef.current = 'CUT';
-                        transitionDurationRef.current = 0; // Hard Cut
-                     } else {
-                        transitionModeRef.current = 'FLOW';
-                        transitionDurationRef.current = 240; // Smooth Optical Flow Simulation
-                     }
-
-                     setBrainState(prev => ({
-                         ...prev,
-                         activePoseName: nextPose,
-                         intention: transitionModeRef.current === 'CUT' ? 'IMPACT (CUT)' : 'GLIDE (FLOW)',
-                         confidence: Math.round(bass * 100),
-                         nextDir: nextDir === 'left' ? 'RIGHT' : 'LEFT'
-                     }));
-                 }
-            }
-            
-            // Physics Impulse (Toned Down & More Rhythmic)
-            if (superCamActive) {
-                const shakeAmt = isHardHit ? 15 : 5; // Reduced shake
-                
-                // If cutting, we shake. If flowing, we don't shake, we Glide.
-                if (transitionModeRef.current === 'CUT') {
-                    camShakeXRef.current = (Math.random()-0.5) * shakeAmt;
-                    camShakeYRef.current = (Math.random()-0.5) * shakeAmt;
-                    camZoomRef.current = isHardHit ? 1.15 : 1.05; // Impact Zoom
-                } else {
-                    // During Flow, we add a velocity push to the Pan instead of shaking
-                    camPanXRef.current += (nextDir === 'left' ? -20 : 20); 
-                }
-                
-                // Lighting Flash triggered by beat
-                if(isHardHit) {
-                    flashIntensityRef.current = 0.8; 
-                }
-            }
-        } 
-        // B. Ambient / Idle Fallback
-        else if (now - lastBeatTimeRef.current > 1500 && canSwitch && now - lastSwitchTimeRef.current > 1000) {
-             lastSwitchTimeRef.current = now;
-             const pool = framesByEnergy.low;
-             if(pool.length > 0) {
-                 const nextPose = pool[Math.floor(Math.random() * pool.length)];
-                 if (targetPoseRef.current !== nextPose) {
-                     previousPoseRef.current = targetPoseRef.current;
-                     targetPoseRef.current = nextPose;
-                     transitionStartRef.current = now;
-                     transitionModeRef.current = 'FLOW';
-                     transitionDurationRef.current = 800; // Super slow morph
-                 }
-             }
-        }
-        
-        // C. Snare Logic (Reactive Scanlines)
-        if (isSnare && now - lastSnareTimeRef.current > 800) {
-             lastSnareTimeRef.current = now;
-             moireAmountRef.current = 1.2; // Trigger Scanline/RGB Split
-             if (Math.random() * 100 < stutterChance) {
-                 burstModeUntilRef.current = now + 400;
-             }
-        }
+    events.forEach(e => {
+        if (e.type === 'section') setBrainState(prev => ({ ...prev, section: e.section }));
+        if (e.type !== 'pose' || e.reason !== 'beat') return;
+        setBrainState(prev => ({
+            ...prev,
+            activePoseName: e.pose,
+            intention: e.mode === 'CUT' ? 'IMPACT (CUT)' : 'GLIDE (FLOW)',
+            confidence: e.confidence,
+            nextDir: e.direction === 'left' ? 'RIGHT' : 'LEFT'
+        }));
+    });
 
-        if (isBurst && canSwitch) {
-            lastSwitchTimeRef.current = now;
-            const pool = framesByEnergy.high.length > 0 ? framesByEnergy.high : framesByEnergy.mid;
-            if(pool.length > 0) {
-                 targetPoseRef.current = pool[Math.floor(Math.random() * pool.length)]; 
-                 previousPoseRef.current = targetPoseRef.current; 
-                 transitionModeRef.current = 'CUT';
-                 transitionDurationRef.current = 0;
-            }
-        }
-    }
+    const { camera, fx } = engine.state;
 
-    // --- 3. Physics & Camera ---
-    
-    const lerpSpeed = 6 * dt; 
-    
-    if (superCamActive) {
-        // Sway Logic (Stillness)
-        swayPhaseRef.current += dt * 0.5;
-        const sway = Math.sin(swayPhaseRef.current) * 5;
-        
-        const energyInfluence = Math.min(1, bass * 2);
-        
-        // Target Pan incorporates the Sway AND any flow-based velocity
-        const targetPanX = sway * (1 - energyInfluence);
-        
-        camPanXRef.current += (targetPanX - camPanXRef.current) * lerpSpeed;
-        
-        // Decay Impulses
-        camShakeXRef.current *= (1 - lerpSpeed * 2);
-        camShakeYRef.current *= (1 - lerpSpeed * 2);
-        
-        // Zoom Return
-        // If we are in FLOW mode, we might want to hold the zoom slightly longer or "breathe"
-        const targetZoom = (transitionModeRef.current === 'FLOW' && isPlaying) ? 1.05 : 1.0;
-        camZoomRef.current += (targetZoom - camZoomRef.current) * (lerpSpeed * 0.5);
-        
-        // Effects Decay
-        tearAmountRef.current *= 0.8;
-        moireAmountRef.current *= 0.85; // Decay scanlines
-        flashIntensityRef.current *= 0.85; // Decay lighting
-    } else {
-        camShakeXRef.current *= 0.9;
-        camShakeYRef.current *= 0.9;
-        camZoomRef.current += (1.0 - camZoomRef.current) * 0.1;
-        camPanXRef.current *= 0.9;
-    }
-
-    // --- 4. Render ---
-    if (hologramRef.current) {
+    // --- 3. Render ---
+    const backdrop = state.backdrop ? backdropMediaRef.current : null;
+    if (hologramRef.current && (!state.backdrop || backdropUsesVisualizer(state.backdropSettings))) {
         hologramRef.current.updateAudio({ bass, mid, high, energy: bass+mid });
-        hologramRef.current.render(0); 
+        hologramRef.current.render(-(fx.dolly * 1.5)); 
+    }
+    const backdropCanvas = backdropCanvasRef.current;
+    const backdropCtx = backdropCanvas?.getContext('2d');
+    if (state.backdrop && backdropCanvas && backdropCtx) {
+        const dpr = Math.min(window.devicePixelRatio || 1, 1.5);
+        const width = Math.floor(backdropCanvas.clientWidth * dpr);
+        const height = Math.floor(backdropCanvas.clientHeight * dpr);
+        if (backdropCanvas.width !== width || backdropCanvas.height !== height) { backdropCanvas.width = width; backdropCanvas.height = height; }
+        const overlay = backdropUsesVisualizer(state.backdropSettings) ? bgCanvasRef.current : null;
+        drawBackdrop(backdropCtx, backdrop, width, height, state.backdropSettings, bass, overlay);
     }
     
     // Character Draw
@@ -486,155 +473,245 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
         
         charCtx.clearRect(0,0, rect.width, rect.height);
         
-        const renderFrame = (pose: string, opacity: number, offsetX: number = 0) => {
-            if (opacity <= 0.01) return;
-            
-            const img = poseImagesRef.current[pose] || poseImagesRef.current['base'];
-            if (img) {
-                const cx = rect.width/2 + camShakeXRef.current + camPanXRef.current + offsetX;
-                const cy = rect.height/2 + camShakeYRef.current + camPanYRef.current;
-                const zoom = camZoomRef.current;
-                
-                const aspect = img.width / img.height;
-                let dw = rect.width;
-                let dh = dw / aspect;
-                if (dh > rect.height) { dh = rect.height; dw = dh * aspect; }
-                
-                charCtx.save();
-                charCtx.globalAlpha = opacity;
-                
-                // --- PASS 1: RGB SPLIT (Snare) ---
-                if (superCamActive && moireAmountRef.current > 0.05) {
-                    charCtx.save();
-                    charCtx.translate(cx - 5 * moireAmountRef.current, cy);
-                    charCtx.scale(zoom, zoom);
-                    charCtx.globalCompositeOperation = 'screen';
-                    charCtx.globalAlpha = 0.8 * moireAmountRef.current * opacity;
-                    charCtx.drawImage(img, -dw/2, -dh/2, dw, dh);
-                    charCtx.globalCompositeOperation = 'source-in';
-                    charCtx.fillStyle = '#ff0000';
-                    charCtx.fillRect(-dw/2, -dh/2, dw, dh);
-                    charCtx.restore();
-
-                    charCtx.save();
-                    charCtx.translate(cx + 5 * moireAmountRef.current, cy);
-                    charCtx.scale(zoom, zoom);
-                    charCtx.globalCompositeOperation = 'screen';
-                    charCtx.globalAlpha = 0.8 * moireAmountRef.current * opacity;
-                    charCtx.drawImage(img, -dw/2, -dh/2, dw, dh);
-                    charCtx.globalCompositeOperation = 'source-in';
-                    charCtx.fillStyle = '#0000ff';
-                    charCtx.fillRect(-dw/2, -dh/2, dw, dh);
-                    charCtx.restore();
-                    
-                    charCtx.save();
-                    charCtx.translate(cx, cy);
-                    charCtx.scale(zoom, zoom);
-                    charCtx.beginPath();
-                    for(let i=0; i<dh; i+=4) {
-                        charCtx.rect(-dw/2, -dh/2 + i, dw, 1);
-                    }
-                    charCtx.clip();
-                    charCtx.drawImage(img, -dw/2, -dh/2, dw, dh);
-                    charCtx.restore();
-                }
-
-                // --- PASS 2: MAIN IMAGE ---
-                charCtx.save();
-                charCtx.translate(cx, cy);
-                charCtx.scale(zoom, zoom);
-                
-                if (tearAmountRef.current > 0.1) {
-                     const slices = 8;
-                     const hSlice = dh / slices;
-                     const ihSlice = img.height / slices;
-                     for(let i=0; i<slices; i++) {
-                         const shift = (Math.random()-0.5) * 40 * tearAmountRef.current;
-                         charCtx.drawImage(
-                             img, 
-                             0, i*ihSlice, img.width, ihSlice, // Source
-                             -dw/2 + shift, -dh/2 + (i*hSlice), dw, hSlice // Dest
-                         );
-                     }
-                } else {
-                     charCtx.drawImage(img, -dw/2, -dh/2, dw, dh);
-                }
-                
-                // --- PASS 3: DYNAMIC LIGHTING ---
-                if (superCamActive && flashIntensityRef.current > 0.05) {
-                    charCtx.globalCompositeOperation = 'overlay'; 
-                    charCtx.globalAlpha = flashIntensityRef.current * opacity;
-                    charCtx.fillStyle = '#ffeebb'; 
-                    charCtx.fillRect(-dw/2, -dh/2, dw, dh);
-                    
-                    if (flashIntensityRef.current > 0.5) {
-                        charCtx.globalCompositeOperation = 'lighter';
-                        charCtx.globalAlpha = (flashIntensityRef.current - 0.5) * opacity;
-                        charCtx.drawImage(img, -dw/2, -dh/2, dw, dh);
-                    }
-                }
-
-                charCtx.restore();
-                charCtx.restore();
-            }
-        };
-        
-        // VIRTUAL FRAME INTERPOLATION
-        // Smart Rythmic Pattern Logic
-        const duration = transitionDurationRef.current;
-        let progress = 1;
-        
-        if (duration > 0) {
-            progress = Math.min(1, (now - transitionStartRef.current) / duration);
-        }
-        
-        if (progress < 1) {
-            // VIRTUAL FRAME LOGIC
-            if (transitionModeRef.current === 'FLOW') {
-                // OPTICAL FLOW SIMULATION via Cubic Ease + Slide
-                // We don't just fade, we slide the pixels to simulate movement direction
-                
-                // SmoothStep Ease: Smooth start and end
-                const ease = progress * progress * (3 - 2 * progress);
-                
-                // Directional Slide
-                const flowDir = lastMoveDirectionRef.current === 'left' ? -1 : 1;
-                const slideDist = 40; // Pixels
-                
-                // Outgoing Frame: Slides AWAY (offset increases)
-                renderFrame(previousPoseRef.current, 1 - ease, (slideDist * ease) * flowDir);
-                
-                // Incoming Frame: Slides IN (starts offset, moves to 0)
-                renderFrame(targetPoseRef.current, ease, (-slideDist * (1 - ease)) * flowDir);
-            } else {
-                // Cut/Fast Mode - Simple Crossfade (Standard)
-                renderFrame(previousPoseRef.current, 1 - progress);
-                renderFrame(targetPoseRef.current, progress);
-            }
-        } else {
-            // Static Frame
-            renderFrame(targetPoseRef.current, 1.0);
-        }
+        // VIRTUAL FRAME INTERPOLATION (CUT crossfade / FLOW slide)
+        drawCharacterLayers(charCtx, rect.width, rect.height, engine.layers(now), spriteResolver(), { camera, fx, zoom: engine.zoom(), superCam: superCamActive, random: fxRandomRef.current, scale: stageScale(rect.width, rect.height), fit: preset.fit });
     }
 
-  }, [isPlaying, framesByEnergy, closeupFrames, stutterChance, isMicActive, state.audioPreviewUrl, state.superMode, superCamActive]);
+  }, [isPlaying, isMicActive, state.audioPreviewUrl, state.superMode, superCamActive, showMatte, preset.fit, state.backdrop, state.backdropSettings]);
 
   useEffect(() => {
       requestRef.current = requestAnimationFrame(animate);
       return () => cancelAnimationFrame(requestRef.current);
   }, [animate]);
 
+  // ---------------------------------------------------------------------------
+  // 4. Video Export (offline WebCodecs / realtime MediaRecorder)
+  // ---------------------------------------------------------------------------
+  const waitForMetadata = (audio: HTMLAudioElement) => new Promise<void>(resolve => {
+      if (audio.readyState >= 1) { resolve(); return; }
+      audio.addEventListener('loadedmetadata', () => resolve(), { once: true });
+      audio.addEventListener('error', () => resolve(), { once: true });
+  });
+
+  const handleRenderVideo = () => videoMode === 'offline' ? handleRenderOffline() : handleRecordRealtime();
+
+  // Frame-exact render from the seed, the track and the current look; the preview keeps running
+  const handleRenderOffline = async () => {
+      if (renderProgress !== null) return;
+      const resolution = VIDEO_RESOLUTIONS.find(r => r.id === videoResolution) || VIDEO_RESOLUTIONS[0];
+      const bitrate = VIDEO_BITRATES.find(b => b.id === videoBitrate) || VIDEO_BITRATES[1];
+      const track = isMicActive ? null : state.audioFile;
+      const { width, height } = outputDimensions(state.outputFormat, resolution.shortSide);
+
+      setRenderProgress(0);
+      setRenderLabel('RENDER');
+      setShowVideoPanel(false);
+      try {
+          const render = renderOffline({
+              width,
+              height,
+              fps: 30,
+              videoBitsPerSecond: bitrate.bitsPerSecond,
+              duration: track && videoLength === 'track' ? null : state.duration,
+              audio: track,
+              frames: choreographyFrames(stageFrames()),
+              seed: state.seed,
+              beatGrid: track ? beatGrid : null,
+              stutterChance,
+              superCam: superCamActive,
+              directional: state.subjectCategory !== 'TEXT',
+              panLimit: preset.panLimit,
+              sprites: spriteResolver(),
+              fit: preset.fit,
+              hologramParams: hologramRef.current?.params || null,
+              backgroundScene: hologramRef.current?.scene?.id || DEFAULT_SCENE_ID,
+              palette: hologramRef.current?.palette || null,
+              backdrop: state.backdrop,
+              backdropSettings: state.backdropSettings,
+              showBackground: !showMatte
+          }, setRenderProgress);
+          recordingRef.current = render;
+          const { blob, container } = await render.done;
+          downloadBlob(blob, `DNCER_${formatSeed(state.seed)}.${container}`);
+      } catch (e: any) {
+          if (e?.message !== "Render cancelled") {
+              console.error("Offline render failed:", e);
+              alert(`Video render failed: ${e?.message || "Unknown error"}`);
+          }
+      } finally {
+          recordingRef.current = null;
+          setRenderProgress(null);
+      }
+  };
+
+  const handleRecordRealtime = async () => {
+      if (!stageRef.current || !bgCanvasRef.current || !charCanvasRef.current || renderProgress !== null) return;
+      const resolution = VIDEO_RESOLUTIONS.find(r => r.id === videoResolution) || VIDEO_RESOLUTIONS[0];
+      const bitrate = VIDEO_BITRATES.find(b => b.id === videoBitrate) || VIDEO_BITRATES[1];
+
+      const ctx = initAudioContext();
+      if (ctx.state === 'suspended') await ctx.resume();
+
+      // Record from the top of the track so the video starts on the song's first beat
+      let duration = state.duration;
+      const audio = isMicActive ? null : ensureAudioElement(ctx);
+      if (audio) {
+          await waitForMetadata(audio);
+          if (videoLength === 'track' && isFinite(audio.duration)) duration = audio.duration;
+          audio.pause();
+          audio.currentTime = 0;
+      }
+      resetPerformance();
+      if (audio) await audio.play();
+      setIsPlaying(true);
+
+      // Tap the analyser output (song or mic) for the recording
+      const tap = ctx.createMediaStreamDestination();
+      analyserRef.current?.connect(tap);
+
+      setRenderProgress(0);
+      setRenderLabel('REC');
+      setShowVideoPanel(false);
+      try {
+          const recording = recordComposite(
+              {
+                  viewport: stageRef.current,
+                  background: state.backdrop ? backdropCanvasRef.current : bgCanvasRef.current,
+                  character: charCanvasRef.current,
+                  backgroundVisible: () => !showMatte
+              },
+              tap.stream,
+              { ...outputDimensions(state.outputFormat, resolution.shortSide), fps: 30, videoBitsPerSecond: bitrate.bitsPerSecond, duration },
+              setRenderProgress
+          );
+          recordingRef.current = recording;
+          const blob = await recording.done;
+          downloadBlob(blob, `DNCER_${formatSeed(state.seed)}.webm`);
+      } catch (e: any) {
+          if (e?.message !== "Recording cancelled") {
+              console.error("Video export failed:", e);
+              alert(`Video export failed: ${e?.message || "Unknown error"}`);
+          }
+      } finally {
+          try { analyserRef.current?.disconnect(tap); } catch { /* already disconnected */ }
+          recordingRef.current = null;
+          setRenderProgress(null);
+      }
+  };
+
+  // Loop excerpt (GIF / WebP) rendered like the offline video, encoded in a worker
+  const handleExportLoop = async (settings: LoopExportSettings) => {
+      if (renderProgress !== null) return;
+      const track = isMicActive ? null : state.audioFile;
+      const { width, height } = outputDimensions(state.outputFormat, settings.shortSide);
+
+      setRenderProgress(0);
+      setRenderLabel(settings.format.toUpperCase());
+      setShowLoopPanel(false);
+      try {
+          const loop = exportLoop({
+              width,
+              height,
+              fps: settings.fps,
+              start: track ? settings.start : 0,
+              length: settings.length,
+              audio: track,
+              frames: choreographyFrames(stageFrames()),
+              seed: state.seed,
+              beatGrid: track ? beatGrid : null,
+              stutterChance,
+              superCam: superCamActive,
+              directional: state.subjectCategory !== 'TEXT',
+              panLimit: preset.panLimit,
+              sprites: spriteResolver(),
+              fit: preset.fit,
+              hologramParams: hologramRef.current?.params || null,
+              backgroundScene: hologramRef.current?.scene?.id || DEFAULT_SCENE_ID,
+              palette: hologramRef.current?.palette || null,
+              backdrop: state.backdrop,
+              backdropSettings: state.backdropSettings,
+              showBackground: !showMatte,
+              encode: {
+                  format: settings.format,
+                  colors: settings.colors,
+                  dither: settings.dither,
+                  quality: settings.quality,
+                  maxBytes: settings.maxBytes
+              }
+          }, setRenderProgress);
+          recordingRef.current = loop;
+          const result = await loop.done;
+          downloadBlob(result.blob, `DNCER_${formatSeed(state.seed)}.${result.format}`);
+          if (result.overTarget) {
+              alert(`The loop is ${(result.blob.size / 1024 / 1024).toFixed(1)} MB, still over the size limit. Try a shorter length, fewer FPS or fewer colors.`);
+          }
+      } catch (e: any) {
+          if (e?.message !== "Export cancelled") {
+              console.error("Loop export failed:", e);
+              alert(`Loop export failed: ${e?.message || "Unknown error"}`);
+          }
+      } finally {
+          recordingRef.current = null;
+          setRenderProgress(null);
+      }
+  };
+
+  // Texture atlas + engine descriptor, with the choreography replayed as pose keys
+  const handleExportAtlas = async (settings: AtlasExportSettings) => {
+      const frames = stageFrames();
+      if (frames.length === 0 || isPackingAtlas) return;
+      const track = isMicActive ? null : beatGrid;
+      const duration = settings.animation === 'track' && track ? track.duration : state.duration;
+
+      setIsPackingAtlas(true);
+      setShowAtlasPanel(false);
+      try {
+          // The song's band features drive pool choice like in the video export
+          const song = settings.animation !== 'none' && track && state.audioFile ? await prepareAudio(state.audioFile, duration, TRACK_FPS) : null;
+          const animation = settings.animation === 'none' ? null : buildAnimationTrack(frames, {
+              seed: state.seed,
+              duration,
+              beatGrid: track,
+              bpm: track?.bpm ?? null,
+              stutterChance,
+              superCam: superCamActive,
+              directional: state.subjectCategory !== 'TEXT',
+              features: song?.features ?? null
+          });
+          const baseName = `DNCER_${formatSeed(state.seed)}_atlas`;
+          const atlas = await exportSpriteAtlas(frames, {
+              format: settings.format,
+              padding: settings.padding,
+              removeBackground: settings.removeBackground ? state.matteTolerance : null,
+              animation
+          }, baseName);
+          downloadBlob(atlas.png, `${baseName}.png`);
+          downloadBlob(new Blob([atlas.json], { type: 'application/json' }), `${baseName}.json`);
+      } catch (e: any) {
+          console.error("Atlas export failed:", e);
+          alert(`Atlas export failed: ${e?.message || "Unknown error"}`);
+      } finally {
+          setIsPackingAtlas(false);
+      }
+  };
+
   // (Export logic remains the same)
   const handleExportPlayer = () => {
-      const style = STYLE_PRESETS.find(s => s.id === state.selectedStyleId);
+      const { scene, params } = styleScene(STYLE_PRESETS.find(s => s.id === state.selectedStyleId), state.backgroundScene, state.sceneParams);
       const framesToExport = state.generatedFrames.length > 0 
           ? state.generatedFrames 
           : [{ url: state.imagePreviewUrl || '', pose: 'base', energy: 'low' as EnergyLevel, type: 'body' as const }];
 
       const html = generatePlayerHTML(
           framesToExport, 
-          style?.hologramParams || {}, 
-          state.subjectCategory
+          params,
+          scene,
+          state.subjectCategory,
+          {
+              stutterChance, seed: state.seed, dynamicCamera: superCamActive, analysis: state.audioAnalysis,
+              format: { aspect: preset.aspect, fit: preset.fit, panLimit: preset.panLimit },
+              backdrop: state.backdrop, backdropSettings: state.backdropSettings, palette: sessionPalette(state)
+          }
       );
       
       const blob = new Blob([html], { type: 'text/html' });
@@ -668,6 +745,11 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
                  >
                      <Upload size={16} /> CHANGE SONG
                  </button>
+                 {state.missingAudio && (
+                     <span className="text-[10px] font-mono text-yellow-400 max-w-[180px] truncate" title={`This rig was saved with "${state.missingAudio.name}". Upload it to replay the saved performance.`}>
+                         MISSING: {state.missingAudio.name}
+                     </span>
+                 )}
                  <input type="file" ref={audioInputRef} onChange={(e) => { if(e.target.files?.[0]) onUploadAudio(e.target.files[0]) }} className="hidden" accept="audio/*"/>
              </div>
 
@@ -685,15 +767,53 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
                  
                  {/* DYNAMIC CAM TOGGLE */}
                  <button 
-                    onClick={() => setSuperCamActive(!superCamActive)}
+                    onClick={() => onUpdateConfig('dynamicCamera', !superCamActive)}
                     className={`p-3 rounded-full transition-all border ${superCamActive ? 'bg-brand-600 text-white border-brand-500 shadow-[0_0_15px_rgba(139,92,246,0.5)]' : 'bg-white/10 text-gray-400 border-transparent hover:text-white'}`}
                     title="Toggle Dynamic Camera"
                  >
                      <Camera size={20} />
                  </button>
 
+                 {/* MATTE VIEW TOGGLE */}
+                 <button 
+                    onClick={() => setShowMatte(!showMatte)}
+                    className={`p-3 rounded-full transition-all border ${showMatte ? 'bg-white text-black border-white' : 'bg-white/10 text-gray-400 border-transparent hover:text-white'}`}
+                    title="Show Alpha Matte"
+                 >
+                     <Eraser size={20} />
+                 </button>
+
+                 {/* FRAME LIBRARY */}
+                 <button 
+                    onClick={() => { setShowFrameManager(!showFrameManager); setShowSheetViewer(false); setShowBackdropPanel(false); setShowSettings(false); }}
+                    disabled={state.generatedFrames.length === 0}
+                    className={`p-3 rounded-full hover:bg-white/10 transition-all disabled:opacity-30 ${showFrameManager ? 'bg-white/10 text-white' : 'text-gray-400'}`}
+                    title="Frame Library"
+                 >
+                     <Grid size={20} />
+                 </button>
+
+                 {/* SHEET VIEWER (re-slice stored sheets) */}
                  <button 
-                    onClick={() => setShowSettings(!showSettings)}
+                    onClick={() => { setShowSheetViewer(!showSheetViewer); setShowFrameManager(false); setShowBackdropPanel(false); setShowSettings(false); }}
+                    disabled={!hasSheets}
+                    className={`p-3 rounded-full hover:bg-white/10 transition-all disabled:opacity-30 ${showSheetViewer ? 'bg-white/10 text-white' : 'text-gray-400'}`}
+                    title={hasSheets ? 'Sprite Sheets' : 'No original sheets stored with this rig'}
+                 >
+                     <Scissors size={20} />
+                 </button>
+
+                 {/* BACKDROP (uploaded image / video behind the dancer) */}
+                 <button 
+                    onClick={() => { setShowBackdropPanel(!showBackdropPanel); setShowFrameManager(false); setShowSheetViewer(false); setShowSettings(false); }}
+                    className={`p-3 rounded-full hover:bg-white/10 transition-all ${showBackdropPanel ? 'bg-white/10 text-white' : state.backdrop ? 'text-brand-300' : 'text-gray-400'}`}
+                    title="Backdrop"
+                 >
+                     <Wallpaper size={20} />
+                 </button>
+
+                 <button 
+                    onClick={() => { setShowSettings(!showSettings); setShowFrameManager(false); setShowSheetViewer(false); setShowBackdropPanel(false); }}
                     className={`p-3 rounded-full hover:bg-white/10 transition-all ${showSettings ? 'bg-white/10 text-white' : 'text-gray-400'}`}
                     title="Motion & Physics"
                  >
@@ -712,16 +832,57 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
                  >
                      <Package size={16} /> SAVE WIDGET
                  </button>
+                 <button 
+                    onClick={() => { setShowVideoPanel(!showVideoPanel); setShowLoopPanel(false); setShowAtlasPanel(false); setShowSettings(false); setShowFrameManager(false); setShowSheetViewer(false); setShowBackdropPanel(false); }}
+                    disabled={renderProgress !== null || (!pickRecorderMimeType() && !isOfflineRenderSupported())}
+                    className={`px-4 py-2.5 rounded-lg transition-all border flex items-center gap-2 text-xs font-bold disabled:opacity-40
+                        ${showVideoPanel ? 'bg-brand-600 text-white border-brand-400/50' : 'bg-white/5 hover:bg-white/10 text-gray-300 hover:text-brand-300 border-white/10 hover:border-brand-500/30'}`}
+                    title={pickRecorderMimeType() || isOfflineRenderSupported() ? 'Render Video' : 'Video export is not supported in this browser'}
+                 >
+                     <FileVideo size={16} /> RENDER VIDEO
+                 </button>
+                 <button 
+                    onClick={() => { setShowLoopPanel(!showLoopPanel); setShowVideoPanel(false); setShowAtlasPanel(false); setShowSettings(false); setShowFrameManager(false); setShowSheetViewer(false); setShowBackdropPanel(false); }}
+                    disabled={renderProgress !== null}
+                    className={`px-4 py-2.5 rounded-lg transition-all border flex items-center gap-2 text-xs font-bold disabled:opacity-40
+                        ${showLoopPanel ? 'bg-brand-600 text-white border-brand-400/50' : 'bg-white/5 hover:bg-white/10 text-gray-300 hover:text-brand-300 border-white/10 hover:border-brand-500/30'}`}
+                    title="Export a looping GIF / WebP"
+                 >
+                     <Repeat size={16} /> GIF / WEBP
+                 </button>
+                 <button 
+                    onClick={() => { setShowAtlasPanel(!showAtlasPanel); setShowVideoPanel(false); setShowLoopPanel(false); setShowSettings(false); setShowFrameManager(false); setShowSheetViewer(false); setShowBackdropPanel(false); }}
+                    disabled={isPackingAtlas || stageFrames().length === 0}
+                    className={`px-4 py-2.5 rounded-lg transition-all border flex items-center gap-2 text-xs font-bold disabled:opacity-40
+                        ${showAtlasPanel ? 'bg-brand-600 text-white border-brand-400/50' : 'bg-white/5 hover:bg-white/10 text-gray-300 hover:text-brand-300 border-white/10 hover:border-brand-500/30'}`}
+                    title="Export a sprite atlas for game engines"
+                 >
+                     {isPackingAtlas ? <Loader2 size={16} className="animate-spin" /> : <LayoutGrid size={16} />} ATLAS
+                 </button>
              </div>
           </div>
       )}
 
       {/* VIEWPORT */}
-      <div className="flex-1 relative overflow-hidden flex items-center justify-center bg-black perspective-1000">
-          <canvas ref={bgCanvasRef} className="absolute inset-0 w-full h-full object-cover z-0" />
+      <div ref={viewportRef} className="flex-1 relative overflow-hidden flex items-center justify-center bg-black perspective-1000">
+          <canvas ref={bgCanvasRef} className={`absolute inset-0 w-full h-full object-cover z-0 transition-opacity ${showMatte || state.backdrop ? 'opacity-0' : 'opacity-100'}`} />
+          {state.backdrop && <canvas ref={backdropCanvasRef} className={`absolute inset-0 w-full h-full z-0 transition-opacity ${showMatte ? 'opacity-0' : 'opacity-100'}`} />}
           
-          <div className="relative z-10 w-full max-w-2xl aspect-[9/16] pointer-events-none flex items-center justify-center transition-transform duration-100 ease-out will-change-transform">
+          <div ref={stageRef} style={{ width: stageSize.width, height: stageSize.height }} className="relative z-10 pointer-events-none flex items-center justify-center transition-transform duration-100 ease-out will-change-transform">
               <canvas ref={charCanvasRef} className="w-full h-full" />
+              {showSafeArea && !isZenMode && (
+                  <div
+                      className="absolute border border-dashed border-yellow-400/70 rounded-sm"
+                      style={{
+                          top: `${preset.safeArea.top * 100}%`,
+                          right: `${preset.safeArea.right * 100}%`,
+                          bottom: `${preset.safeArea.bottom * 100}%`,
+                          left: `${preset.safeArea.left * 100}%`
+                      }}
+                  >
+                      <span className="absolute -top-5 left-0 text-[9px] font-mono text-yellow-400/80 tracking-widest">SAFE AREA // {preset.hint.toUpperCase()}</span>
+                  </div>
+              )}
           </div>
           
           {isZenMode && (
@@ -733,6 +894,35 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
               </button>
           )}
 
+          {!isZenMode && showFrameManager && (
+              <FrameManager
+                  frames={state.generatedFrames}
+                  onRequestReplacements={onRequestReplacements}
+                  onUpdateFrames={onUpdateFrames}
+                  onClose={() => setShowFrameManager(false)}
+              />
+          )}
+
+          {!isZenMode && showSheetViewer && (
+              <SheetViewer
+                  sheets={state.spriteSheets}
+                  grids={state.sheetGrids}
+                  onReslice={onResliceSheet}
+                  onClose={() => setShowSheetViewer(false)}
+              />
+          )}
+
+          {!isZenMode && showBackdropPanel && (
+              <BackdropPanel
+                  backdrop={state.backdrop}
+                  settings={state.backdropSettings}
+                  onUpload={onUploadBackdrop}
+                  onRemove={() => onUploadBackdrop(null)}
+                  onUpdateSettings={(settings) => onUpdateConfig('backdropSettings', settings)}
+                  onClose={() => setShowBackdropPanel(false)}
+              />
+          )}
+
           {!isZenMode && showSettings && (
               <div className="absolute top-20 right-4 z-40 w-72 bg-black/90 backdrop-blur-xl border border-white/20 rounded-2xl p-5 shadow-2xl animate-slide-in-right">
                   <div className="flex justify-between items-center mb-6 border-b border-white/10 pb-4">
@@ -740,12 +930,79 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
                       <button onClick={() => setShowSettings(false)}><X size={18} className="text-gray-400 hover:text-white"/></button>
                   </div>
                   <div className="space-y-6">
+                      <div>
+                          <label className="text-xs text-gray-400 font-bold mb-2 block">FORMAT</label>
+                          <div className="grid grid-cols-5 gap-1">
+                              {OUTPUT_PRESETS.map(p => (
+                                  <button key={p.id} onClick={() => onUpdateOutputFormat({ ...state.outputFormat, presetId: p.id })} title={p.hint}
+                                      className={`py-2 rounded-lg text-[9px] font-bold border ${state.outputFormat.presetId === p.id ? 'bg-brand-600 border-brand-400 text-white' : 'bg-white/5 border-white/5 text-gray-400 hover:text-white'}`}>
+                                      {p.id === 'custom' ? 'W×H' : p.label}
+                                  </button>
+                              ))}
+                          </div>
+                          {state.outputFormat.presetId === 'custom' && (
+                              <div className="flex items-center gap-2 mt-2">
+                                  <input type="number" min={64} max={4096} value={state.outputFormat.customWidth}
+                                      onChange={(e) => onUpdateOutputFormat({ ...state.outputFormat, customWidth: Number(e.target.value) })}
+                                      className="flex-1 min-w-0 bg-black/50 border border-white/20 focus:border-brand-400 rounded-lg px-3 py-2 text-xs font-mono text-white outline-none" />
+                                  <span className="text-gray-500 text-xs">×</span>
+                                  <input type="number" min={64} max={4096} value={state.outputFormat.customHeight}
+                                      onChange={(e) => onUpdateOutputFormat({ ...state.outputFormat, customHeight: Number(e.target.value) })}
+                                      className="flex-1 min-w-0 bg-black/50 border border-white/20 focus:border-brand-400 rounded-lg px-3 py-2 text-xs font-mono text-white outline-none" />
+                              </div>
+                          )}
+                          <div className="flex justify-between items-center mt-2">
+                              <span className="text-[10px] text-gray-500">{preset.hint}</span>
+                              <button onClick={() => setShowSafeArea(!showSafeArea)}
+                                  className={`text-[10px] font-bold px-2 py-1 rounded border ${showSafeArea ? 'border-yellow-400/60 text-yellow-300' : 'border-white/10 text-gray-400 hover:text-white'}`}>
+                                  SAFE AREA
+                              </button>
+                          </div>
+                      </div>
                       <div>
                           <label className="text-xs text-gray-400 font-bold mb-2 block">STUTTER CHANCE</label>
-                          <input type="range" min="0" max="100" value={stutterChance} onChange={(e) => setStutterChance(Number(e.target.value))} className="w-full h-1.5 bg-white/20 rounded-lg appearance-none cursor-pointer accent-brand-500"/>
+                          <input type="range" min="0" max="100" value={stutterChance} onChange={(e) => onUpdateConfig('stutter', Number(e.target.value))} className="w-full h-1.5 bg-white/20 rounded-lg appearance-none cursor-pointer accent-brand-500"/>
+                      </div>
+                      <div>
+                          <label className="text-xs text-gray-400 font-bold mb-2 block">SEED</label>
+                          <div className="flex gap-2">
+                              <input
+                                  value={seedDraft}
+                                  onChange={(e) => setSeedDraft(e.target.value.toUpperCase())}
+                                  onBlur={commitSeed}
+                                  onKeyDown={(e) => { if (e.key === 'Enter') commitSeed(); }}
+                                  maxLength={8}
+                                  className="flex-1 min-w-0 bg-black/50 border border-white/20 focus:border-brand-400 rounded-lg px-3 py-2 text-xs font-mono text-white tracking-widest outline-none"
+                              />
+                              <button onClick={() => onUpdateSeed(randomSeed())} title="New seed" className="px-3 bg-white/5 hover:bg-white/10 rounded-lg border border-white/10 text-gray-300 hover:text-white">
+                                  <Dices size={14} />
+                              </button>
+                          </div>
+                          <p className="text-[10px] text-gray-500 mt-1">Same seed + same track = same dance.</p>
                       </div>
-                      <div className="pt-4 border-t border-white/10">
-                           <button onClick={onSaveProject} className="w-full py-3 bg-white/5 hover:bg-white/10 rounded-xl text-xs font-bold text-white flex items-center justify-center gap-2 border border-white/10">
+                      <div className="pt-4 border-t border-white/10 space-y-2">
+                           <div className="flex justify-between items-center">
+                               <span className="text-[10px] text-gray-500">{!state.audioFile ? (state.missingAudio ? 'Keeps the song reference' : 'No song loaded') : embedAudio ? 'Song embedded in the file' : 'Song referenced by hash only'}</span>
+                               <button onClick={() => setEmbedAudio(!embedAudio)} disabled={!state.audioFile}
+                                   className={`text-[10px] font-bold px-2 py-1 rounded border disabled:opacity-30 ${embedAudio && state.audioFile ? 'border-brand-400 text-brand-300' : 'border-white/10 text-gray-400 hover:text-white'}`}>
+                                   EMBED AUDIO
+                               </button>
+                           </div>
+                           <div className="flex justify-between items-center">
+                               <span className="text-[10px] text-gray-500">{webpFrames ? 'Frames re-encoded as WebP' : 'Frames kept as generated'}</span>
+                               <button onClick={() => setWebpFrames(!webpFrames)}
+                                   className={`text-[10px] font-bold px-2 py-1 rounded border ${webpFrames ? 'border-brand-400 text-brand-300' : 'border-white/10 text-gray-400 hover:text-white'}`}>
+                                   WEBP FRAMES
+                               </button>
+                           </div>
+                           <div className="flex justify-between items-center">
+                               <span className="text-[10px] text-gray-500">{hasSheets ? (includeSheets ? 'Original sheets included' : 'Sliced frames only') : 'No original sheets'}</span>
+                               <button onClick={() => setIncludeSheets(!includeSheets)} disabled={!hasSheets}
+                                   className={`text-[10px] font-bold px-2 py-1 rounded border disabled:opacity-30 ${includeSheets && hasSheets ? 'border-brand-400 text-brand-300' : 'border-white/10 text-gray-400 hover:text-white'}`}>
+                                   SHEETS
+                               </button>
+                           </div>
+                           <button onClick={() => onSaveProject({ embedAudio, webpFrames, includeSheets })} className="w-full py-3 bg-white/5 hover:bg-white/10 rounded-xl text-xs font-bold text-white flex items-center justify-center gap-2 border border-white/10">
                                <Music size={14} /> SAVE PROJECT FILE
                            </button>
                       </div>
@@ -753,6 +1010,106 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
               </div>
           )}
 
+          {!isZenMode && showVideoPanel && (
+              <div className="absolute top-20 right-4 z-40 w-72 bg-black/90 backdrop-blur-xl border border-white/20 rounded-2xl p-5 shadow-2xl animate-slide-in-right">
+                  <div className="flex justify-between items-center mb-6 border-b border-white/10 pb-4">
+                      <h4 className="text-white font-bold flex items-center gap-2"><FileVideo size={18}/> RENDER VIDEO</h4>
+                      <button onClick={() => setShowVideoPanel(false)}><X size={18} className="text-gray-400 hover:text-white"/></button>
+                  </div>
+                  <div className="space-y-5">
+                      <div>
+                          <label className="text-xs text-gray-400 font-bold mb-2 block">MODE</label>
+                          <div className="grid grid-cols-2 gap-1">
+                              <button onClick={() => setVideoMode('offline')} disabled={!isOfflineRenderSupported()}
+                                  className={`py-2 rounded-lg text-[10px] font-bold border disabled:opacity-30 ${videoMode === 'offline' ? 'bg-brand-600 border-brand-400 text-white' : 'bg-white/5 border-white/5 text-gray-400 hover:text-white'}`}>
+                                  OFFLINE (EXACT)
+                              </button>
+                              <button onClick={() => setVideoMode('realtime')} disabled={!pickRecorderMimeType()}
+                                  className={`py-2 rounded-lg text-[10px] font-bold border disabled:opacity-30 ${videoMode === 'realtime' ? 'bg-brand-600 border-brand-400 text-white' : 'bg-white/5 border-white/5 text-gray-400 hover:text-white'}`}>
+                                  REALTIME
+                              </button>
+                          </div>
+                      </div>
+                      <div>
+                          <label className="text-xs text-gray-400 font-bold mb-2 block">RESOLUTION</label>
+                          <div className="space-y-1">
+                              {VIDEO_RESOLUTIONS.filter(r => r.shortSide !== null || preset.id === 'custom').map(r => {
+                                  const size = outputDimensions(state.outputFormat, r.shortSide);
+                                  return (
+                                      <button key={r.id} onClick={() => setVideoResolution(r.id)}
+                                          className={`w-full py-2 px-3 rounded-lg text-[10px] font-bold border text-left flex justify-between ${videoResolution === r.id ? 'bg-brand-600 border-brand-400 text-white' : 'bg-white/5 border-white/5 text-gray-400 hover:text-white'}`}>
+                                          <span>{r.label}</span><span className="font-mono opacity-70">{size.width} x {size.height}</span>
+                                      </button>
+                                  );
+                              })}
+                          </div>
+                      </div>
+                      <div>
+                          <label className="text-xs text-gray-400 font-bold mb-2 block">BITRATE</label>
+                          <div className="space-y-1">
+                              {VIDEO_BITRATES.map(b => (
+                                  <button key={b.id} onClick={() => setVideoBitrate(b.id)}
+                                      className={`w-full py-2 px-3 rounded-lg text-[10px] font-bold border text-left ${videoBitrate === b.id ? 'bg-brand-600 border-brand-400 text-white' : 'bg-white/5 border-white/5 text-gray-400 hover:text-white'}`}>
+                                      {b.label}
+                                  </button>
+                              ))}
+                          </div>
+                      </div>
+                      <div>
+                          <label className="text-xs text-gray-400 font-bold mb-2 block">LENGTH</label>
+                          <div className="grid grid-cols-2 gap-1">
+                              <button onClick={() => setVideoLength('duration')}
+                                  className={`py-2 rounded-lg text-[10px] font-bold border ${videoLength === 'duration' ? 'bg-brand-600 border-brand-400 text-white' : 'bg-white/5 border-white/5 text-gray-400 hover:text-white'}`}>
+                                  {state.duration}s
+                              </button>
+                              <button onClick={() => setVideoLength('track')} disabled={!state.audioPreviewUrl || isMicActive}
+                                  className={`py-2 rounded-lg text-[10px] font-bold border disabled:opacity-30 ${videoLength === 'track' ? 'bg-brand-600 border-brand-400 text-white' : 'bg-white/5 border-white/5 text-gray-400 hover:text-white'}`}>
+                                  FULL TRACK
+                              </button>
+                          </div>
+                      </div>
+                      <p className="text-[10px] text-gray-500">
+                          {videoMode === 'offline'
+                              ? 'Renders frame by frame from the seed: no dropped frames, MP4 when supported.'
+                              : 'Records in realtime: keep this tab visible until it finishes.'}
+                      </p>
+                      <button onClick={handleRenderVideo} className="w-full py-3 bg-brand-600 hover:bg-brand-500 rounded-xl text-xs font-bold text-white flex items-center justify-center gap-2 border border-brand-400/50">
+                          <Video size={14} /> {videoMode === 'offline' ? 'START RENDER' : 'START RECORDING'}
+                      </button>
+                  </div>
+              </div>
+          )}
+
+          {!isZenMode && showLoopPanel && (
+              <LoopExportPanel
+                  outputFormat={state.outputFormat}
+                  beatGrid={isMicActive ? null : beatGrid}
+                  onStart={handleExportLoop}
+                  onClose={() => setShowLoopPanel(false)}
+              />
+          )}
+
+          {!isZenMode && showAtlasPanel && (
+              <AtlasExportPanel
+                  frameCount={stageFrames().length}
+                  duration={state.duration}
+                  hasTrack={!isMicActive && !!beatGrid}
+                  onStart={handleExportAtlas}
+                  onClose={() => setShowAtlasPanel(false)}
+              />
+          )}
+
+          {renderProgress !== null && (
+              <div className="absolute top-4 left-1/2 -translate-x-1/2 z-50 bg-black/80 backdrop-blur-md px-5 py-3 rounded-xl border border-red-500/40 flex items-center gap-4 text-xs font-mono">
+                  <span className="flex items-center gap-2 text-red-400 font-bold"><Radio size={14} className="animate-pulse" /> {renderLabel}</span>
+                  <div className="w-40 h-1.5 bg-white/10 rounded-full overflow-hidden">
+                      <div className="h-full bg-red-500 transition-all duration-200" style={{ width: `${Math.round(renderProgress * 100)}%` }} />
+                  </div>
+                  <span className="text-gray-300 w-10 text-right">{Math.round(renderProgress * 100)}%</span>
+                  <button onClick={() => recordingRef.current?.cancel()} className="text-gray-400 hover:text-white"><X size={14} /></button>
+              </div>
+          )}
+
           {!isZenMode && (
               <div className="absolute bottom-4 left-4 z-30 pointer-events-none opacity-50 hover:opacity-100 transition-opacity">
                   <div className="bg-black/60 backdrop-blur-md p-3 rounded-xl border border-white/10 text-xs font-mono space-y-1">
@@ -760,6 +1117,8 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
                           <Activity size={12} /> {brainState.activePoseName}
                       </div>
                       <div className="text-gray-400">{brainState.intention}</div>
+                      {beatGrid && !isMicActive && <div className="text-green-400">{beatGrid.bpm} BPM // BEAT GRID{brainState.section ? ` // ${brainState.section.toUpperCase()}` : ''}</div>}
+                      {state.isAnalyzingAudio && <div className="text-gray-500 animate-pulse">ANALYZING TRACK...</div>}
                       <div className="flex items-center gap-2 mt-1">
                           <span className={`transition-colors ${brainState.nextDir === 'LEFT' ? 'text-white' : 'text-gray-600'}`}>L</span>
                           <div className="w-10 h-1 bg-gray-700 rounded-full overflow-hidden">
@@ -3,6 +3,9 @@ import React, { useRef, useState, useMemo, useEffect } from 'react';
 import { Music, Play, Pause, Check, Wand2, Zap, Film, Coins, CreditCard, Image as ImageIcon, Shuffle, ChevronDown, ChevronUp, Sparkles, Rocket, Mic, Layers, Grid, Sliders, Activity, ArrowRight, Star, X, User, Type, Box } from 'lucide-react';
 import { AppState, StyleCategory, StylePreset, SubjectCategory } from '../types';
 import { STYLE_PRESETS, CREDITS_PACK_PRICE } from '../constants';
+import { SPRITE_PROVIDERS } from '../services/spriteProviders';
+import { SceneControls } from './SceneControls';
+import { PaletteControls } from './PaletteControls';
 
 /* -------------------------------------------------------------------------- */
 /*                                UTILITIES                                   */
@@ -188,7 +191,10 @@ export const Step1Assets: React.FC<Step1Props> = ({ state, onUploadImage, onUplo
                     <div className="w-32 h-32 bg-green-500 rounded-full flex items-center justify-center mx-auto mb-8 shadow-[0_0_50px_rgba(34,197,94,0.4)] animate-pulse-fast border-4 border-black/30 group-hover:scale-110 transition-transform">
                         <Music size={50} className="text-white drop-shadow-md" />
                     </div>
-                    <p className="text-white font-bold text-xl mb-6 truncate px-8 drop-shadow-md font-mono">{state.audioFile.name}</p>
+                    <p className="text-white font-bold text-xl mb-2 truncate px-8 drop-shadow-md font-mono">{state.audioFile.name}</p>
+                    <p className="text-green-300 text-xs font-mono tracking-widest mb-6 h-4">
+                        {state.isAnalyzingAudio ? 'ANALYZING BEATS...' : state.audioAnalysis ? `${state.audioAnalysis.bpm} BPM // ${state.audioAnalysis.beats.length} BEATS` : ''}
+                    </p>
                     
                     <div className="flex gap-4 justify-center">
                         <button 
@@ -249,7 +255,7 @@ export const Step1Assets: React.FC<Step1Props> = ({ state, onUploadImage, onUplo
 /* -------------------------------------------------------------------------- */
 
 interface Step2Props {
-  config: Pick<AppState, 'selectedStyleId' | 'intensity' | 'duration' | 'motionPrompt' | 'credits' | 'motionPreset' | 'useTurbo' | 'secondaryStyleId' | 'morphIntensity' | 'reactivity' | 'superMode'>;
+  config: Pick<AppState, 'selectedStyleId' | 'intensity' | 'duration' | 'motionPrompt' | 'credits' | 'motionPreset' | 'useTurbo' | 'secondaryStyleId' | 'morphIntensity' | 'reactivity' | 'backgroundScene' | 'sceneParams' | 'superMode' | 'spriteProvider' | 'removeBackground' | 'matteTolerance'>;
   onUpdate: (key: string, value: any) => void;
   onBuyCredits: () => void;
 }
@@ -421,7 +427,7 @@ export const Step2Director: React.FC<Step2Props> = ({ config, onUpdate, onBuyCre
               {showAdvanced ? <ChevronUp size={20} className="text-gray-400" /> : <ChevronDown size={20} className="text-gray-400" />}
           </button>
           
-          <div className={`transition-all duration-500 ease-in-out ${showAdvanced ? 'max-h-[600px] opacity-100' : 'max-h-0 opacity-0'}`}>
+          <div className={`transition-all duration-500 ease-in-out ${showAdvanced ? 'max-h-[900px] opacity-100' : 'max-h-0 opacity-0'}`}>
               <div className="p-8 grid grid-cols-1 md:grid-cols-2 gap-8 border-t border-white/5 bg-black/20">
                   
                   {/* LEFT COL: MOTION & GENERATION */}
@@ -482,6 +488,27 @@ export const Step2Director: React.FC<Step2Props> = ({ config, onUpdate, onBuyCre
                             <div className="text-right text-xs text-brand-300 font-mono mt-1">{config.intensity}%</div>
                         </div>
                       </div>
+
+                      {/* Generator Backend */}
+                      <div>
+                        <label className="text-xs font-bold text-gray-400 mb-3 block uppercase tracking-wider">Generator Backend</label>
+                        <div className="grid grid-cols-2 gap-2">
+                            {SPRITE_PROVIDERS.map(p => (
+                                <button
+                                    key={p.id}
+                                    onClick={() => onUpdate('spriteProvider', p.id)}
+                                    className={`
+                                        px-3 py-2 rounded-lg text-xs font-bold border transition-all text-left truncate
+                                        ${config.spriteProvider === p.id 
+                                            ? 'bg-brand-500/20 border-brand-500 text-white' 
+                                            : 'bg-black/20 border-white/5 text-gray-500 hover:border-white/20 hover:text-gray-300'}
+                                    `}
+                                >
+                                    {p.label}
+                                </button>
+                            ))}
+                        </div>
+                      </div>
                   </div>
 
                   {/* RIGHT COL: MORPHING & VISUALIZER */}
@@ -522,6 +549,46 @@ export const Step2Director: React.FC<Step2Props> = ({ config, onUpdate, onBuyCre
                            )}
                        </div>
 
+                       {/* Background Scene */}
+                       <SceneControls
+                            style={STYLE_PRESETS.find(s => s.id === config.selectedStyleId)}
+                            sceneId={config.backgroundScene}
+                            overrides={config.sceneParams}
+                            onSceneChange={(id) => onUpdate('backgroundScene', id)}
+                            onOverridesChange={(params) => onUpdate('sceneParams', params)}
+                       />
+
+                       {/* Hologram Colors */}
+                       <PaletteControls
+                            style={STYLE_PRESETS.find(s => s.id === config.selectedStyleId)}
+                            config={config}
+                            onSourceChange={(source) => onUpdate('paletteSource', source)}
+                       />
+
+                       {/* Background Removal */}
+                       <div>
+                            <div className="flex items-center justify-between mb-3">
+                                <label className="text-xs font-bold text-gray-400 block uppercase tracking-wider">Background Removal</label>
+                                <button
+                                    onClick={() => onUpdate('removeBackground', !config.removeBackground)}
+                                    className={`px-3 py-1 rounded-full text-[10px] font-bold border transition-all ${config.removeBackground ? 'bg-brand-500/20 border-brand-500 text-white' : 'bg-black/20 border-white/10 text-gray-500'}`}
+                                >
+                                    {config.removeBackground ? 'TRANSPARENT' : 'OFF'}
+                                </button>
+                            </div>
+                            {config.removeBackground && (
+                                <div className="animate-fade-in">
+                                    <input 
+                                        type="range" min="0" max="100" 
+                                        value={config.matteTolerance} 
+                                        onChange={(e) => onUpdate('matteTolerance', Number(e.target.value))}
+                                        className="w-full h-1.5 bg-white/10 rounded-full accent-brand-400 cursor-pointer"
+                                    />
+                                    <div className="text-right text-xs text-brand-300 font-mono mt-1">{config.matteTolerance}% Tolerance</div>
+                                </div>
+                            )}
+                       </div>
+
                        {/* Audio Reactivity */}
                        <div>
                             <label className="text-xs font-bold text-gray-400 mb-3 block uppercase tracking-wider">Audio Reactivity</label>
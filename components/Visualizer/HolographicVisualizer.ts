@@ -4,14 +4,17 @@
  * 
  * Advanced KIFS (Kaleidoscopic Iterated Function System) Renderer.
  * Features:
- * - Tetrahedral Fractal Geometry (Quantum Faceted)
+ * - Seven Geometries (KIFS, Box Fold, Menger, Ring Tunnel, Hex Grid, Wave Field, Fog)
+ *   with distance-field cross-fades between them
  * - Inverse Density Reactivity (Interaction clears the chaos)
  * - Interactive 4D Rotation via Mouse/Touch
  * - Full Spectrum Reactivity (Bass=Pulse, Mid=Structure, High=Shimmer/Sparkles)
  */
 
 export interface HolographicParams {
-    geometryType?: number; // 0=Tetra, 1=Box, 2=Sponge
+    geometryType?: number; // 0-6, see GEOMETRY_TYPES. Changes cross-fade over GEOMETRY_FADE_SECONDS
+    geometryTarget?: number; // Second geometry blended in by geometryMix (style morphing)
+    geometryMix?: number; // 0-1
     density?: number;
     speed?: number;
     chaos?: number;
@@ -20,6 +23,7 @@ export interface HolographicParams {
     saturation?: number;
     intensity?: number;
     gridOpacity?: number; 
+    [key: string]: number | undefined; // Parameters of other background scenes (see scenes.ts)
 }
 
 export interface AudioData {
@@ -29,6 +33,44 @@ export interface AudioData {
     energy: number;
 }
 
+// --- BACKGROUND SCENES ---
+// A scene is a fragment shader plus the schema of the parameters it reads. The registry
+// lives in scenes.ts; the renderer only needs this shape. Every scene gets the shared
+// uniforms (resolution, time, color, intensity, speed, camera, audio bands) and one
+// u_<key> float per parameter of its own.
+
+export type AudioBand = 'bass' | 'mid' | 'high' | 'energy';
+
+export interface SceneParamDef {
+    key: string;
+    label: string;
+    min: number;
+    max: number;
+    step: number;
+    default: number;
+    options?: string[]; // Names of the integer values (discrete parameters)
+}
+
+// Adds `band * amount` to a parameter every frame
+export interface SceneAudioBinding {
+    band: AudioBand;
+    param: string;
+    amount: number;
+}
+
+export interface BackgroundScene {
+    id: string;
+    name: string;
+    description: string;
+    fragment: string;
+    params: SceneParamDef[];
+    audio: SceneAudioBinding[];
+}
+
+// Index = geometryType
+export const GEOMETRY_TYPES = ['Tetra KIFS', 'Box Fold', 'Menger Sponge', 'Ring Tunnel', 'Hex Grid', 'Wave Field', 'Minimal Fog'];
+export const GEOMETRY_FADE_SECONDS = 1.2;
+
 export const VERTEX_SHADER = `
     attribute vec2 a_position;
     void main() {
@@ -44,10 +86,14 @@ export const FRAGMENT_SHADER = `
     uniform vec2 u_mouse;
     
     // Params
-    uniform float u_geometryType;
+    uniform float u_geometryType;   // Geometry shown (0-6)
+    uniform float u_geometryTarget; // Geometry being faded in
+    uniform float u_geometryMix;    // 0 = u_geometryType only, 1 = u_geometryTarget only
     uniform float u_density;
     uniform float u_speed;
-    uniform vec3 u_color;
+    uniform vec3 u_colorPrimary;   // Palette (see hologramPalette / services/palette.ts)
+    uniform vec3 u_colorSecondary;
+    uniform vec3 u_colorHighlight;
     uniform float u_intensity;
     uniform float u_chaos;
     uniform float u_morph;
@@ -76,7 +122,21 @@ export const FRAGMENT_SHADER = `
         return fract( p.x*p.y*p.z*(p.x+p.y+p.z) );
     }
 
-    // --- KIFS (Kaleidoscopic IFS) FRACTAL ---
+    float sdBox(vec3 p, vec3 b) {
+        vec3 q = abs(p) - b;
+        return length(max(q, 0.0)) + min(max(q.x, max(q.y, q.z)), 0.0);
+    }
+
+    // Interaction Rotation (4D Spin) shared by the object geometries
+    // REACTIVITY: Highs add jitter/vibration to rotation
+    vec3 spin(vec3 p) {
+        float jitter = u_audioHigh * 0.1;
+        p.xz *= rot(u_time * 0.1 + u_mouse.x * 2.0 + jitter);
+        p.yz *= rot(u_mouse.y * 2.0 - jitter);
+        return p;
+    }
+
+    // --- 0: KIFS (Kaleidoscopic IFS) FRACTAL ---
     float sdQuantumFractal(vec3 p) {
         float s = 1.0;
         
@@ -86,11 +146,7 @@ export const FRAGMENT_SHADER = `
         // REACTIVITY: Mids shift the fractal offset, changing internal geometry
         vec3 offset = vec3(1.0, 1.0, 1.0) * (0.8 + u_morph + (u_audioMid * 0.15));
         
-        // Interaction Rotation (4D Spin)
-        // REACTIVITY: Highs add jitter/vibration to rotation
-        float jitter = u_audioHigh * 0.1;
-        p.xz *= rot(u_time * 0.1 + u_mouse.x * 2.0 + jitter);
-        p.yz *= rot(u_mouse.y * 2.0 - jitter);
+        p = spin(p);
 
         // Fold Iterations
         for(int i=0; i<5; i++) {
@@ -118,6 +174,130 @@ export const FRAGMENT_SHADER = `
         return length(p) / s;
     }
 
+    // --- 1: BOX FOLD ---
+    // Mandelbox-style clamp fold: blocky, architectural fractal
+    float sdBoxFold(vec3 p) {
+        p = spin(p);
+        float s = 1.0;
+        // REACTIVITY: Bass pumps the fold scale, Mids push the offset
+        float scale = 2.0 + u_audioBass * 0.15;
+        vec3 offset = vec3(1.0) * (0.9 + u_morph * 0.5 + u_audioMid * 0.1);
+        for(int i=0; i<5; i++) {
+            p = clamp(p, -1.0, 1.0) * 2.0 - p;
+            p = abs(p);
+            if(p.x < p.y) p.xy = p.yx;
+            p = p * scale - offset * (scale - 1.0);
+            s *= scale;
+            if (i > 1) {
+                p.xz *= rot(u_chaos * 0.5 + u_audioHigh * 0.2);
+            }
+        }
+        return sdBox(p, vec3(1.2)) / s;
+    }
+
+    // --- 2: MENGER SPONGE ---
+    float sdMenger(vec3 p) {
+        p = spin(p);
+        // REACTIVITY: Bass breathes the cube, morph widens the holes
+        float size = 0.9 + u_audioBass * 0.08;
+        p /= size;
+        float d = sdBox(p, vec3(1.0));
+        float s = 1.0;
+        for(int m=0; m<4; m++) {
+            vec3 a = mod(p * s, 2.0) - 1.0;
+            s *= 3.0;
+            vec3 r = abs(1.0 - 3.0 * abs(a));
+            float da = max(r.x, r.y);
+            float db = max(r.y, r.z);
+            float dc = max(r.z, r.x);
+            float c = (min(da, min(db, dc)) - 1.0 + u_morph * 0.2) / s;
+            d = max(d, c);
+        }
+        return d * size;
+    }
+
+    // --- 3: RING TUNNEL ---
+    // Camera flies through repeated tori inside a tube
+    float sdRingTunnel(vec3 p) {
+        p.xy *= rot(p.z * u_chaos * 0.3 + u_mouse.x * 0.5);
+        float travel = u_time * (0.5 + u_speed);
+        float spacing = 0.8;
+        float index = floor((p.z + travel) / spacing);
+        vec3 q = p;
+        q.z = mod(q.z + travel, spacing) - spacing * 0.5;
+        // REACTIVITY: Bass widens the rings, Mids thicken them
+        float radius = 1.1 + u_audioBass * 0.15 + sin(index * 1.7) * 0.1 * u_morph;
+        float ring = length(vec2(length(q.xy) - radius, q.z)) - (0.05 + u_audioMid * 0.04);
+        float wall = 1.8 - length(p.xy);
+        return min(ring, wall);
+    }
+
+    // --- 4: HEX GRID ---
+    // Field of hexagonal columns, heights ride a travelling wave + the bass
+    vec4 hexCell(vec2 p) {
+        const vec2 s = vec2(1.0, 1.7320508);
+        vec4 c = floor(vec4(p, p - vec2(0.5, 1.0)) / s.xyxy) + 0.5;
+        vec4 h = vec4(p - c.xy * s, p - (c.zw + 0.5) * s);
+        return dot(h.xy, h.xy) < dot(h.zw, h.zw) ? vec4(h.xy, c.xy) : vec4(h.zw, c.zw + 0.5);
+    }
+
+    float sdHexagon(vec2 p, float r) {
+        const vec3 k = vec3(-0.866025404, 0.5, 0.577350269);
+        p = abs(p);
+        p -= 2.0 * min(dot(k.xy, p), 0.0) * k.xy;
+        p -= vec2(clamp(p.x, -k.z * r, k.z * r), r);
+        return length(p) * sign(p.y);
+    }
+
+    float sdHexGrid(vec3 p) {
+        p.yz *= rot(-0.9 + u_mouse.y * 0.2); // Tilt the field towards the camera
+        p.y += 1.2;
+        float scale = 2.5;
+        vec4 cell = hexCell(p.xz * scale);
+        float wave = sin(cell.z * 0.9 + u_time * (0.5 + u_speed)) * cos(cell.w * 0.7 - u_time * 0.4);
+        float h = 0.15 + (wave * 0.5 + 0.5) * (0.2 + u_morph * 0.3) + u_audioBass * 0.35 * hash(vec3(cell.zw, 1.0));
+        float d2 = sdHexagon(cell.yx, 0.45) / scale; // .yx: flat sides face the neighbouring cells
+        vec2 w = vec2(d2, abs(p.y - h * 0.5) - h * 0.5);
+        float column = min(max(w.x, w.y), 0.0) + length(max(w, 0.0));
+        // Columns are cut per cell, so step conservatively
+        return min(column, p.y) * 0.6;
+    }
+
+    // --- 5: WAVE FIELD ---
+    // Rolling height field below, its echo above
+    float sdWaveField(vec3 p) {
+        float t = u_time * (0.6 + u_speed);
+        p.xz *= rot(u_mouse.x * 0.3);
+        // REACTIVITY: Bass raises the swell, Mids the ripples, chaos adds chop
+        float amp = 0.18 + u_morph * 0.15 + u_audioBass * 0.25;
+        float h = sin(p.x * 2.0 + t) * cos(p.z * 1.5 - t * 0.7) * amp
+                + sin(length(p.xz) * 5.0 - t * 3.0) * 0.05 * (1.0 + u_audioMid * 2.0)
+                + sin(p.x * 7.0 + p.z * 5.0 + t * 4.0) * 0.02 * u_chaos;
+        float floorD = p.y + 0.9 - h;
+        float ceilD = 0.9 - p.y - h * 0.6;
+        return min(floorD, ceilD) * 0.5;
+    }
+
+    // --- 6: MINIMAL FOG ---
+    // Nothing solid: a drifting blob that only the volumetric glow pass picks up.
+    // The floor of 0.3 keeps rays from ever registering a surface hit.
+    float sdFog(vec3 p) {
+        float t = u_time * (0.2 + u_speed * 0.5);
+        vec3 q = p + vec3(sin(t), cos(t * 0.7), sin(t * 0.5)) * 0.6;
+        float blob = length(q) - 0.8 - u_audioBass * 0.3;
+        return max(blob, 0.3);
+    }
+
+    float sdGeometry(vec3 p, float type) {
+        if (type < 0.5) return sdQuantumFractal(p);
+        if (type < 1.5) return sdBoxFold(p);
+        if (type < 2.5) return sdMenger(p);
+        if (type < 3.5) return sdRingTunnel(p);
+        if (type < 4.5) return sdHexGrid(p);
+        if (type < 5.5) return sdWaveField(p);
+        return sdFog(p);
+    }
+
     // --- SCENE MAP ---
     float GetDist(vec3 p) {
         // REACTIVITY: Bass warps the domain significantly (Shockwave)
@@ -125,7 +305,11 @@ export const FRAGMENT_SHADER = `
         p.z += warp;
         p.x += sin(p.z * 3.0) * (u_audioBass * 0.08);
         
-        float d = sdQuantumFractal(p);
+        float d = sdGeometry(p, u_geometryType);
+        // Cross-fade: blending the distance fields melts one shape into the other
+        if (u_geometryMix > 0.001) {
+            d = mix(d, sdGeometry(p, u_geometryTarget), u_geometryMix);
+        }
         return d;
     }
 
@@ -175,19 +359,19 @@ export const FRAGMENT_SHADER = `
             float fresnel = pow(1.0 - max(dot(n, -rd), 0.0), 3.0);
             
             // REACTIVITY: Highs shift the base color (Spectral Shimmer)
-            vec3 tint = u_color + (vec3(u_audioHigh) * 0.4);
+            vec3 tint = u_colorPrimary + (vec3(u_audioHigh) * 0.4);
             col = tint + (n * 0.1); 
             
-            // Add Highlight (Gold/White)
+            // Add Highlight
             // REACTIVITY: Bass boosts specular highlights massively
             float shine = 2.0 + (u_audioBass * 6.0);
-            col += vec3(1.0, 0.95, 0.8) * fresnel * shine;
+            col += u_colorHighlight * fresnel * shine;
             
             // Facet Edges
             // REACTIVITY: Mids make edges sharper/brighter
             float edgeWidth = 0.05 + (u_audioMid * 0.08);
             float edge = smoothstep(edgeWidth, 0.0, GetDist(p + n*0.02));
-            col += vec3(0.0, 1.0, 1.0) * edge * (1.0 + u_audioHigh * 2.0);
+            col += u_colorSecondary * edge * (1.0 + u_audioHigh * 2.0);
             
             // Chromatic Aberration at edges based on Highs
             col.r += u_audioHigh * 0.2 * fresnel;
@@ -220,10 +404,10 @@ export const FRAGMENT_SHADER = `
         glow *= finalDensity; 
         
         // REACTIVITY: Bass drives the global intensity of the glow
-        col += u_color * glow * u_intensity * (0.6 + u_audioBass * 0.8);
+        col += u_colorPrimary * glow * u_intensity * (0.6 + u_audioBass * 0.8);
 
         // Audio Flash (Global brightness kick on bass)
-        col += u_color * u_audioBass * 0.15;
+        col += u_colorPrimary * u_audioBass * 0.15;
 
         // Final Tone Mapping
         col = pow(col, vec3(0.4545)); // Gamma correction
@@ -235,12 +419,154 @@ export const FRAGMENT_SHADER = `
     }
 `;
 
+// --- SHARED UNIFORM BINDING ---
+// Used by QuantumVisualizer and by the exported player, so the widget renders every
+// parameter exactly like the app.
+// NOTE: Serialized with toString() into the exported player, keep them self-contained.
+
+export type HologramUniforms = Record<string, WebGLUniformLocation | null>;
+
+// Cross-fade state between geometries. `to < 0` = not started (first frame snaps).
+export interface GeometryFade {
+    from: number;
+    to: number;
+    mix: number;
+    clock: number | null;
+}
+
+// Linear RGB (0-1) colors the shaders light with: from the preset hue, or from the character
+export interface HologramPalette {
+    primary: [number, number, number];
+    secondary: [number, number, number];
+    highlight: [number, number, number];
+}
+
+// Per-frame values that do not come from HolographicParams
+export interface HologramFrame {
+    width: number;
+    height: number;
+    time: number;
+    mouse: { x: number, y: number };
+    cameraZ: number;
+    palette: HologramPalette;
+    geometry: [number, number, number]; // from, to, mix (see stepGeometryFade)
+}
+
+// Scene parameters the shared binding does not cover get a 'scene:<key>' slot
+export const getHologramUniforms = (gl: WebGLRenderingContext, program: WebGLProgram, sceneKeys: string[] = []): HologramUniforms => {
+    const names = [
+        'resolution', 'time', 'mouse', 'geometryType', 'geometryTarget', 'geometryMix',
+        'density', 'speed', 'colorPrimary', 'colorSecondary', 'colorHighlight', 'intensity', 'chaos', 'morph', 'cameraZ',
+        'audioBass', 'audioMid', 'audioHigh'
+    ];
+    const uniforms: HologramUniforms = {};
+    names.forEach(name => { uniforms[name] = gl.getUniformLocation(program, 'u_' + name); });
+    sceneKeys.filter(key => !names.includes(key)).forEach(key => { uniforms['scene:' + key] = gl.getUniformLocation(program, 'u_' + key); });
+    return uniforms;
+};
+
+// Palette from the preset hue: the hue itself (lightness 0.6), a neighbour 20 degrees down
+// for edges and a pale complement for highlights. At the default hue this is the fractal's
+// original cyan edges and warm white shine. Saturation 0 = grayscale.
+export const hologramPalette = (params: HolographicParams): HologramPalette => {
+    const hsl = (h: number, s: number, l: number): [number, number, number] => {
+        const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+        const p = 2 * l - q;
+        const hue2rgb = (t: number) => {
+            t -= Math.floor(t);
+            if (t < 1 / 6) return p + (q - p) * 6 * t;
+            if (t < 1 / 2) return q;
+            if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+            return p;
+        };
+        return [hue2rgb(h + 1 / 3), hue2rgb(h), hue2rgb(h - 1 / 3)];
+    };
+    const h = (params.hue ?? 200) / 360;
+    const s = params.saturation ?? 0.8;
+    return {
+        primary: hsl(h, s, 0.6),
+        secondary: hsl(h - 20 / 360, s, 0.5),
+        highlight: hsl(h + 0.5, s * 0.5, 0.9)
+    };
+};
+
+// Schema defaults for whatever is unset, plus the scene's audio bindings for this frame
+export const resolveSceneParams = (scene: BackgroundScene | null, params: HolographicParams, audio: AudioData): HolographicParams => {
+    if (!scene) return params;
+    const resolved: HolographicParams = { ...params };
+    scene.params.forEach(def => { if (resolved[def.key] === undefined) resolved[def.key] = def.default; });
+    scene.audio.forEach(binding => { resolved[binding.param] = (resolved[binding.param] ?? 0) + audio[binding.band] * binding.amount; });
+    return resolved;
+};
+
+export const createGeometryFade = (): GeometryFade => ({ from: -1, to: -1, mix: 0, clock: null });
+
+// Resolves the (from, to, mix) geometry uniforms for this frame. A new geometryType fades
+// in over `fadeSeconds`; reversing mid-fade turns around from the current blend.
+// An explicit geometryTarget / geometryMix (style morph) applies once no fade is running.
+export const stepGeometryFade = (fade: GeometryFade, params: HolographicParams, time: number, fadeSeconds: number, typeCount: number): [number, number, number] => {
+    const clampType = (t: number | undefined) => Math.max(0, Math.min(typeCount - 1, Math.round(t || 0)));
+    const target = clampType(params.geometryType);
+    const dt = fade.clock === null ? 0 : Math.max(0, time - fade.clock);
+    fade.clock = time;
+
+    if (fade.to < 0) { fade.from = target; fade.to = target; fade.mix = 0; }
+    if (target !== fade.to) {
+        if (target === fade.from) {
+            fade.from = fade.to;
+            fade.mix = 1 - fade.mix;
+        } else {
+            fade.from = fade.mix < 0.5 ? fade.from : fade.to;
+            fade.mix = 0;
+        }
+        fade.to = target;
+    }
+    if (fade.from !== fade.to) {
+        fade.mix = Math.min(1, fade.mix + dt / fadeSeconds);
+        if (fade.mix >= 1) { fade.from = fade.to; fade.mix = 0; }
+        return [fade.from, fade.to, fade.mix];
+    }
+
+    const mix = Math.max(0, Math.min(1, params.geometryMix || 0));
+    if (params.geometryTarget !== undefined && mix > 0) return [fade.to, clampType(params.geometryTarget), mix];
+    return [fade.to, fade.to, 0];
+};
+
+export const setHologramUniforms = (gl: WebGLRenderingContext, uniforms: HologramUniforms, frame: HologramFrame, params: HolographicParams, audio: AudioData) => {
+    gl.uniform2f(uniforms.resolution, frame.width, frame.height);
+    gl.uniform1f(uniforms.time, frame.time);
+    gl.uniform2f(uniforms.mouse, frame.mouse.x, frame.mouse.y);
+
+    gl.uniform1f(uniforms.geometryType, frame.geometry[0]);
+    gl.uniform1f(uniforms.geometryTarget, frame.geometry[1]);
+    gl.uniform1f(uniforms.geometryMix, frame.geometry[2]);
+    gl.uniform1f(uniforms.density, params.density ?? 2.0);
+    gl.uniform1f(uniforms.speed, params.speed ?? 0.1);
+    gl.uniform3f(uniforms.colorPrimary, frame.palette.primary[0], frame.palette.primary[1], frame.palette.primary[2]);
+    gl.uniform3f(uniforms.colorSecondary, frame.palette.secondary[0], frame.palette.secondary[1], frame.palette.secondary[2]);
+    gl.uniform3f(uniforms.colorHighlight, frame.palette.highlight[0], frame.palette.highlight[1], frame.palette.highlight[2]);
+    gl.uniform1f(uniforms.intensity, params.intensity ?? 0.5);
+    gl.uniform1f(uniforms.chaos, params.chaos ?? 0.0);
+    gl.uniform1f(uniforms.morph, params.morph ?? 0.0);
+    gl.uniform1f(uniforms.cameraZ, frame.cameraZ);
+
+    gl.uniform1f(uniforms.audioBass, audio.bass);
+    gl.uniform1f(uniforms.audioMid, audio.mid);
+    gl.uniform1f(uniforms.audioHigh, audio.high);
+};
+
+export const setSceneUniforms = (gl: WebGLRenderingContext, uniforms: HologramUniforms, params: HolographicParams) => {
+    Object.keys(uniforms).forEach(name => {
+        if (name.startsWith('scene:')) gl.uniform1f(uniforms[name], params[name.slice(6)] ?? 0);
+    });
+};
+
 export class QuantumVisualizer {
     canvas: HTMLCanvasElement;
     gl: WebGLRenderingContext;
     program: WebGLProgram | null = null;
     startTime: number;
-    uniforms: any = {};
+    uniforms: HologramUniforms = {};
     
     // Interaction State
     mouse: { x: number, y: number } = { x: 0, y: 0 };
@@ -261,7 +587,12 @@ export class QuantumVisualizer {
     
     audioData: AudioData = { bass: 0, mid: 0, high: 0, energy: 0 };
 
-    constructor(canvas: HTMLCanvasElement) {
+    geometryFade: GeometryFade = createGeometryFade();
+    scene: BackgroundScene | null = null; // null = the built-in fractal without a schema
+    palette: HologramPalette | null = null; // null = derived from the hue / saturation params
+
+    // Offline renderers pass interactive: false so the mouse never leaks into a render
+    constructor(canvas: HTMLCanvasElement, options: { interactive?: boolean } = {}) {
         this.canvas = canvas;
         const gl = this.canvas.getContext('webgl', { 
             preserveDrawingBuffer: true,
@@ -281,7 +612,7 @@ export class QuantumVisualizer {
         this.startTime = Date.now();
         this.initShaders();
         this.initBuffers();
-        this.initInteraction();
+        if (options.interactive !== false) this.initInteraction();
         this.resize();
     }
 
@@ -326,23 +657,7 @@ export class QuantumVisualizer {
         this.program = this.createProgram(VERTEX_SHADER, FRAGMENT_SHADER);
         if (!this.program) return;
 
-        this.uniforms = {
-            resolution: this.gl.getUniformLocation(this.program, 'u_resolution'),
-            time: this.gl.getUniformLocation(this.program, 'u_time'),
-            mouse: this.gl.getUniformLocation(this.program, 'u_mouse'),
-            
-            density: this.gl.getUniformLocation(this.program, 'u_density'),
-            speed: this.gl.getUniformLocation(this.program, 'u_speed'),
-            color: this.gl.getUniformLocation(this.program, 'u_color'),
-            intensity: this.gl.getUniformLocation(this.program, 'u_intensity'),
-            chaos: this.gl.getUniformLocation(this.program, 'u_chaos'),
-            morph: this.gl.getUniformLocation(this.program, 'u_morph'),
-            cameraZ: this.gl.getUniformLocation(this.program, 'u_cameraZ'),
-            
-            audioBass: this.gl.getUniformLocation(this.program, 'u_audioBass'),
-            audioMid: this.gl.getUniformLocation(this.program, 'u_audioMid'),
-            audioHigh: this.gl.getUniformLocation(this.program, 'u_audioHigh'),
-        };
+        this.uniforms = getHologramUniforms(this.gl, this.program);
     }
     
     createProgram(vertexSource: string, fragmentSource: string) {
@@ -374,61 +689,58 @@ export class QuantumVisualizer {
         return shader;
     }
     
+    // Swaps the fragment shader for a registry scene. Params, clock and mouse carry over.
+    setScene(scene: BackgroundScene) {
+        if (this.scene?.id === scene.id) return;
+        const program = this.createProgram(VERTEX_SHADER, scene.fragment);
+        if (!program || !this.gl.getProgramParameter(program, this.gl.LINK_STATUS)) {
+            console.error(`[Visualizer] Scene "${scene.id}" failed to link`);
+            return;
+        }
+        if (this.program) this.gl.deleteProgram(this.program);
+        this.program = program;
+        this.scene = scene;
+        this.uniforms = getHologramUniforms(this.gl, program, scene.params.map(p => p.key));
+        this.bindPosition();
+    }
     initBuffers() {
         if (!this.program) return;
         const positions = new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]);
         const buffer = this.gl.createBuffer();
         this.gl.bindBuffer(this.gl.ARRAY_BUFFER, buffer);
         this.gl.bufferData(this.gl.ARRAY_BUFFER, positions, this.gl.STATIC_DRAW);
+        this.bindPosition();
+    }
+    bindPosition() {
+        if (!this.program) return;
         const positionLocation = this.gl.getAttribLocation(this.program, 'a_position');
         this.gl.enableVertexAttribArray(positionLocation);
         this.gl.vertexAttribPointer(positionLocation, 2, this.gl.FLOAT, false, 0, 0);
     }
 
-    render(cameraZOffset: number = 0.0) {
+    // `clock` (seconds) overrides the wall clock, so offline renders step the shader at a fixed frame rate
+    render(cameraZOffset: number = 0.0, clock?: number) {
         if (!this.program) return;
         this.resize();
         this.gl.useProgram(this.program);
         
-        const time = (Date.now() - this.startTime) / 1000;
+        const time = clock ?? (Date.now() - this.startTime) / 1000;
         
         // Mouse Smoothing
         this.mouse.x += (this.targetMouse.x - this.mouse.x) * 0.1;
         this.mouse.y += (this.targetMouse.y - this.mouse.y) * 0.1;
 
-        // Colors logic embedded in main loop to handle param changes
-        const h = (this.params.hue || 0) / 360;
-        const s = this.params.saturation || 0.8;
-        const l = 0.6;
-        const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
-        const p = 2 * l - q;
-        const hue2rgb = (p: number, q: number, t: number) => {
-            if(t < 0) t += 1;
-            if(t > 1) t -= 1;
-            if(t < 1/6) return p + (q - p) * 6 * t;
-            if(t < 1/2) return q;
-            if(t < 2/3) return p + (q - p) * (2/3 - t) * 6;
-            return p;
-        };
-        const r = hue2rgb(p, q, h + 1/3);
-        const g = hue2rgb(p, q, h);
-        const b = hue2rgb(p, q, h - 1/3);
-
-        this.gl.uniform2f(this.uniforms.resolution, this.canvas.width, this.canvas.height);
-        this.gl.uniform1f(this.uniforms.time, time);
-        this.gl.uniform2f(this.uniforms.mouse, this.mouse.x, this.mouse.y);
-        
-        this.gl.uniform1f(this.uniforms.density, this.params.density || 2.0);
-        this.gl.uniform1f(this.uniforms.speed, this.params.speed || 0.1);
-        this.gl.uniform3f(this.uniforms.color, r, g, b);
-        this.gl.uniform1f(this.uniforms.intensity, this.params.intensity || 0.5);
-        this.gl.uniform1f(this.uniforms.chaos, this.params.chaos || 0.0);
-        this.gl.uniform1f(this.uniforms.morph, this.params.morph || 0.0);
-        this.gl.uniform1f(this.uniforms.cameraZ, cameraZOffset); // Pass camera offset
-        
-        this.gl.uniform1f(this.uniforms.audioBass, this.audioData.bass);
-        this.gl.uniform1f(this.uniforms.audioMid, this.audioData.mid);
-        this.gl.uniform1f(this.uniforms.audioHigh, this.audioData.high);
+        const params = resolveSceneParams(this.scene, this.params, this.audioData);
+        setHologramUniforms(this.gl, this.uniforms, {
+            width: this.canvas.width,
+            height: this.canvas.height,
+            time,
+            mouse: this.mouse,
+            cameraZ: cameraZOffset,
+            palette: this.palette || hologramPalette(params),
+            geometry: stepGeometryFade(this.geometryFade, params, time, GEOMETRY_FADE_SECONDS, GEOMETRY_TYPES.length)
+        }, params, this.audioData);
+        setSceneUniforms(this.gl, this.uniforms, params);
         
         this.gl.drawArrays(this.gl.TRIANGLE_STRIP, 0, 4);
     }
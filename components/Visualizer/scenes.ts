@@ -0,0 +1,232 @@
+import { BackgroundScene, SceneParamDef, HolographicParams, FRAGMENT_SHADER, GEOMETRY_TYPES } from './HolographicVisualizer';
+import { StylePreset } from '../../types';
+
+/**
+ * BACKGROUND SCENE REGISTRY
+ *
+ * Each scene declares its fragment shader, the schema of its parameters (ranges, defaults,
+ * labels; the director panel builds its controls from it) and its audio bindings. Styles
+ * pick a scene with `scene` and set its parameters in `hologramParams`.
+ * To add a scene: write the shader against SCENE_UNIFORMS, declare u_<key> for each of
+ * its own parameters and append it to BACKGROUND_SCENES.
+ */
+
+export type SceneId = 'quantum' | 'spectrum-tunnel' | 'starfield' | 'gradient-mesh';
+
+export const DEFAULT_SCENE_ID: SceneId = 'quantum';
+
+// Shared uniforms, bound for every scene (see setHologramUniforms)
+const SCENE_UNIFORMS = `
+    precision highp float;
+    uniform vec2 u_resolution;
+    uniform float u_time;
+    uniform vec2 u_mouse;
+    uniform vec3 u_colorPrimary;
+    uniform vec3 u_colorSecondary;
+    uniform vec3 u_colorHighlight;
+    uniform float u_intensity;
+    uniform float u_speed;
+    uniform float u_cameraZ;
+    uniform float u_audioBass;
+    uniform float u_audioMid;
+    uniform float u_audioHigh;
+`;
+
+// --- SHARED PARAMETERS ---
+// Same key = same meaning in every scene, so style colors survive a scene switch
+
+const HUE: SceneParamDef = { key: 'hue', label: 'Hue', min: 0, max: 360, step: 1, default: 200 };
+const SATURATION: SceneParamDef = { key: 'saturation', label: 'Saturation', min: 0, max: 1, step: 0.01, default: 0.8 };
+const INTENSITY: SceneParamDef = { key: 'intensity', label: 'Intensity', min: 0, max: 1.5, step: 0.01, default: 0.5 };
+const speed = (max: number, fallback: number): SceneParamDef => ({ key: 'speed', label: 'Speed', min: 0, max, step: 0.01, default: fallback });
+
+// --- SPECTRUM TUNNEL ---
+// Rings rushing past the camera; each third of the circle lights up with one audio band
+
+const SPECTRUM_TUNNEL = SCENE_UNIFORMS + `
+    uniform float u_rings;
+    uniform float u_twist;
+    uniform float u_glow;
+
+    void main() {
+        vec2 uv = (gl_FragCoord.xy - 0.5 * u_resolution.xy) / min(u_resolution.x, u_resolution.y);
+        float r = length(uv) + 0.001;
+        float depth = 0.3 / r + u_time * u_speed * 2.0 - u_cameraZ;
+        float angle = atan(uv.y, uv.x) / 6.28318 + 0.5 + u_twist * depth * 0.1;
+
+        // Mirrored around the circle: bass at the sides, highs at top and bottom
+        float side = abs(fract(angle * 2.0) * 2.0 - 1.0);
+        float band = side < 0.333 ? u_audioBass : (side < 0.666 ? u_audioMid : u_audioHigh);
+
+        float ring = abs(fract(depth * u_rings * 0.1) - 0.5) * 2.0;
+        float lines = smoothstep(0.85 - band * 0.5, 1.0, ring);
+        float spokes = smoothstep(0.9, 1.0, abs(fract(angle * 24.0) - 0.5) * 2.0) * 0.3;
+        float vignette = smoothstep(0.0, 0.25, r);
+
+        vec3 col = (u_colorPrimary * lines + u_colorSecondary * spokes) * vignette * (0.5 + u_glow);
+        col += u_colorHighlight * 0.15 * band / (r * 4.0 + 0.5);
+        gl_FragColor = vec4(col * u_intensity * 1.6, 1.0);
+    }
+`;
+
+// --- STARFIELD ---
+// Six parallax layers of hashed stars flying at the camera, streaking with warp
+
+const STARFIELD = SCENE_UNIFORMS + `
+    uniform float u_stars;
+    uniform float u_warp;
+    uniform float u_twinkle;
+
+    float hash(vec2 p) {
+        p = fract(p * vec2(123.34, 456.21));
+        p += dot(p, p + 45.32);
+        return fract(p.x * p.y);
+    }
+
+    void main() {
+        vec2 uv = (gl_FragCoord.xy - 0.5 * u_resolution.xy) / min(u_resolution.x, u_resolution.y);
+        vec2 dir = normalize(uv + 0.0001);
+        float t = u_time * u_speed;
+        vec3 col = vec3(0.0);
+
+        for (int i = 0; i < 6; i++) {
+            float layer = float(i);
+            float depth = fract(layer / 6.0 + t * 0.1 - u_cameraZ * 0.05);
+            float fade = depth * smoothstep(1.0, 0.9, depth);
+            vec2 p = uv * mix(20.0, 0.5, depth) * u_stars + layer * 17.3;
+            vec2 id = floor(p);
+            float h = hash(id + layer);
+            vec2 d = fract(p) - 0.5 - (vec2(hash(id + 3.1), hash(id + 7.7)) - 0.5) * 0.6;
+
+            // Stretch along the flight direction
+            float along = dot(d, dir);
+            float across = length(d - dir * along);
+            float streak = 1.0 + u_warp * 8.0 * depth;
+            float star = min(0.02 / length(vec2(along / streak, across)), 2.0) * step(0.75, h);
+            float twinkle = 0.6 + 0.4 * sin(u_time * (2.0 + h * 6.0) * u_twinkle + h * 6.28);
+            vec3 tint = h > 0.95 ? u_colorSecondary : u_colorPrimary;
+            col += mix(u_colorHighlight, tint, h) * star * twinkle * fade;
+        }
+
+        col += u_colorPrimary * u_audioBass * 0.08;
+        gl_FragColor = vec4(col * u_intensity, 1.0);
+    }
+`;
+
+// --- GRADIENT MESH ---
+// Four drifting color points (primary, secondary, primary, highlight), hue-spread and
+// blended by inverse distance
+
+const GRADIENT_MESH = SCENE_UNIFORMS + `
+    uniform float u_spread;
+    uniform float u_softness;
+    uniform float u_grain;
+
+    // Rotation around the gray axis
+    vec3 hueShift(vec3 c, float a) {
+        vec3 k = vec3(0.57735);
+        float ca = cos(a);
+        return c * ca + cross(k, c) * sin(a) + k * dot(k, c) * (1.0 - ca);
+    }
+
+    void main() {
+        vec2 uv = gl_FragCoord.xy / u_resolution.xy;
+        float t = u_time * u_speed;
+        vec3 col = vec3(0.0);
+        float total = 0.0;
+
+        for (int i = 0; i < 4; i++) {
+            float k = float(i);
+            vec2 center = vec2(0.5) + 0.35 * vec2(sin(t * 0.7 + k * 1.7), cos(t * 0.9 + k * 2.3));
+            float w = 1.0 / pow(length(uv - center) + 0.05, 1.0 + 3.0 * (1.0 - u_softness));
+            vec3 base = i == 1 ? u_colorSecondary : (i == 3 ? u_colorHighlight : u_colorPrimary);
+            col += hueShift(base, (k - 1.5) * u_spread * 0.5) * w;
+            total += w;
+        }
+        col /= total;
+
+        float grain = fract(sin(dot(gl_FragCoord.xy + u_time, vec2(12.9898, 78.233))) * 43758.5453) - 0.5;
+        col += grain * u_grain * 0.1;
+        gl_FragColor = vec4(col * u_intensity * 1.2, 1.0);
+    }
+`;
+
+// --- REGISTRY ---
+
+export const BACKGROUND_SCENES: BackgroundScene[] = [
+    {
+        id: 'quantum',
+        name: 'Quantum Flux',
+        description: 'Raymarched fractal geometries (the original hologram).',
+        fragment: FRAGMENT_SHADER,
+        params: [
+            { key: 'geometryType', label: 'Geometry', min: 0, max: GEOMETRY_TYPES.length - 1, step: 1, default: 0, options: GEOMETRY_TYPES },
+            HUE, SATURATION, INTENSITY, speed(2, 0.1),
+            { key: 'density', label: 'Density', min: 0.2, max: 3, step: 0.01, default: 2.0 },
+            { key: 'chaos', label: 'Chaos', min: 0, max: 1, step: 0.01, default: 0 },
+            { key: 'morph', label: 'Morph', min: 0, max: 1, step: 0.01, default: 0 }
+        ],
+        audio: [] // The fractal reads the u_audio* bands itself
+    },
+    {
+        id: 'spectrum-tunnel',
+        name: 'Spectrum Tunnel',
+        description: 'Rings rushing at the camera, lit by the audio bands.',
+        fragment: SPECTRUM_TUNNEL,
+        params: [
+            HUE, SATURATION, INTENSITY, speed(2, 0.4),
+            { key: 'rings', label: 'Rings', min: 2, max: 24, step: 1, default: 10 },
+            { key: 'twist', label: 'Twist', min: -2, max: 2, step: 0.01, default: 0.3 },
+            { key: 'glow', label: 'Glow', min: 0, max: 1.5, step: 0.01, default: 0.5 }
+        ],
+        audio: [
+            { band: 'bass', param: 'glow', amount: 0.8 },
+            { band: 'high', param: 'twist', amount: 0.3 }
+        ]
+    },
+    {
+        id: 'starfield',
+        name: 'Starfield',
+        description: 'Parallax star layers that warp on the beat.',
+        fragment: STARFIELD,
+        params: [
+            HUE, SATURATION, INTENSITY, speed(3, 0.5),
+            { key: 'stars', label: 'Star Density', min: 0.3, max: 3, step: 0.01, default: 1 },
+            { key: 'warp', label: 'Warp', min: 0, max: 1, step: 0.01, default: 0.1 },
+            { key: 'twinkle', label: 'Twinkle', min: 0, max: 2, step: 0.01, default: 1 }
+        ],
+        audio: [
+            { band: 'bass', param: 'warp', amount: 0.6 },
+            { band: 'high', param: 'intensity', amount: 0.4 }
+        ]
+    },
+    {
+        id: 'gradient-mesh',
+        name: 'Gradient Mesh',
+        description: 'Soft drifting color fields in the palette colors.',
+        fragment: GRADIENT_MESH,
+        params: [
+            HUE, SATURATION, INTENSITY, speed(1, 0.2),
+            { key: 'spread', label: 'Hue Spread', min: 0, max: 3.14, step: 0.01, default: 0.8 },
+            { key: 'softness', label: 'Softness', min: 0, max: 1, step: 0.01, default: 0.5 },
+            { key: 'grain', label: 'Grain', min: 0, max: 1, step: 0.01, default: 0.2 }
+        ],
+        audio: [
+            { band: 'bass', param: 'intensity', amount: 0.3 },
+            { band: 'mid', param: 'spread', amount: 0.5 }
+        ]
+    }
+];
+
+export const getScene = (id: string | undefined): BackgroundScene =>
+    BACKGROUND_SCENES.find(s => s.id === id) || BACKGROUND_SCENES.find(s => s.id === DEFAULT_SCENE_ID)!;
+
+export const sceneDefaults = (scene: BackgroundScene): HolographicParams =>
+    Object.fromEntries(scene.params.map(p => [p.key, p.default]));
+
+// Scene and params a style renders with: the director's scene choice ('' = the style's own),
+// then schema defaults < preset < director overrides
+export const styleScene = (style: StylePreset | undefined, sceneId: SceneId | '', overrides: HolographicParams): { scene: BackgroundScene, params: HolographicParams } => {
+    const scene = getScene(sceneId || style?.scene);
+    return { scene, params: { ...sceneDefaults(scene), ...style?.hologramParams, ...overrides } };
+};
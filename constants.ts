@@ -1,5 +1,5 @@
 
-import { StylePreset } from "./types";
+import { StylePreset, OutputPreset } from "./types";
 
 export const CREDIT_COST_PER_SONG = 1;
 export const CREDITS_PACK_PRICE = 5;
@@ -18,6 +18,55 @@ export const TIER_LIMITS = {
   }
 };
 
+// Social output formats. Safe areas follow the platforms' caption / button overlays.
+export const OUTPUT_PRESETS: OutputPreset[] = [
+  {
+    id: 'vertical',
+    label: '9:16',
+    hint: 'Reels / TikTok / Shorts',
+    aspect: [9, 16],
+    safeArea: { top: 0.1, right: 0.12, bottom: 0.2, left: 0.05 },
+    fit: 1.0,
+    panLimit: 40
+  },
+  {
+    id: 'portrait',
+    label: '4:5',
+    hint: 'Instagram Feed',
+    aspect: [4, 5],
+    safeArea: { top: 0.05, right: 0.05, bottom: 0.08, left: 0.05 },
+    fit: 0.95,
+    panLimit: 50
+  },
+  {
+    id: 'square',
+    label: '1:1',
+    hint: 'Feed / Profile',
+    aspect: [1, 1],
+    safeArea: { top: 0.05, right: 0.05, bottom: 0.05, left: 0.05 },
+    fit: 0.9,
+    panLimit: 60
+  },
+  {
+    id: 'landscape',
+    label: '16:9',
+    hint: 'YouTube / Desktop',
+    aspect: [16, 9],
+    safeArea: { top: 0.05, right: 0.05, bottom: 0.1, left: 0.05 },
+    fit: 0.9,
+    panLimit: 120
+  },
+  {
+    id: 'custom',
+    label: 'CUSTOM',
+    hint: 'Any size',
+    aspect: [1080, 1350],
+    safeArea: { top: 0.05, right: 0.05, bottom: 0.05, left: 0.05 },
+    fit: 0.9,
+    panLimit: 60
+  }
+];
+
 export const STYLE_PRESETS: StylePreset[] = [
   // --- CINEMATIC (4 Options) ---
   {
@@ -74,7 +123,8 @@ export const STYLE_PRESETS: StylePreset[] = [
     description: 'Sharp lines, manga style, ink, red & black.',
     promptModifier: 'manga art style, ink lines, stark black and white with red accents, aggressive strokes, dynamic shading, Akira style.',
     thumbnail: 'https://picsum.photos/id/433/100/100',
-    hologramParams: { geometryType: 0, hue: 0, chaos: 0.4, density: 1.0, speed: 1.5, intensity: 0.9 }
+    hologramParams: { geometryType: 0, hue: 0, chaos: 0.4, density: 1.0, speed: 1.5, intensity: 0.9, warp: 0.2 },
+    scene: 'starfield'
   },
   {
     id: 'pixel-art',
@@ -92,7 +142,8 @@ export const STYLE_PRESETS: StylePreset[] = [
     description: 'Clean, minimal, flat colors.',
     promptModifier: 'flat vector art, kurzgesagt style, clean lines, minimal shading, vibrant flat colors, modern graphic design.',
     thumbnail: 'https://picsum.photos/id/106/100/100',
-    hologramParams: { geometryType: 2, hue: 180, chaos: 0.0, density: 0.3, speed: 0.2, intensity: 0.7 }
+    hologramParams: { geometryType: 2, hue: 180, chaos: 0.0, density: 0.3, speed: 0.2, intensity: 0.7, spread: 1.2 },
+    scene: 'gradient-mesh'
   },
 
   // --- DIGITAL / GLITCH (4 Options) ---
@@ -112,7 +163,8 @@ export const STYLE_PRESETS: StylePreset[] = [
     description: 'Pink/Blue pastels, statues, grid.',
     promptModifier: 'vaporwave aesthetic, pastel pink and blue gradient, greek statue elements, 80s computer graphics, grid background, nostalgic.',
     thumbnail: 'https://picsum.photos/id/321/100/100',
-    hologramParams: { geometryType: 3, hue: 300, chaos: 0.0, density: 0.6, speed: 0.2, intensity: 0.5 }
+    hologramParams: { geometryType: 3, hue: 300, chaos: 0.0, density: 0.6, speed: 0.2, intensity: 0.5, rings: 14, twist: 0.5 },
+    scene: 'spectrum-tunnel'
   },
   {
     id: 'crt-terminal',
@@ -141,7 +193,8 @@ export const STYLE_PRESETS: StylePreset[] = [
     description: 'Fluid strokes, vivid colors.',
     promptModifier: 'impasto oil painting, thick brush strokes, vivid colors, dreamy atmosphere, swirling patterns, expressionist art.',
     thumbnail: 'https://picsum.photos/id/456/100/100',
-    hologramParams: { geometryType: 3, hue: 200, chaos: 0.0, density: 0.6, speed: 0.2, intensity: 0.6, morph: 0.8 }
+    hologramParams: { geometryType: 3, hue: 200, chaos: 0.0, density: 0.6, speed: 0.2, intensity: 0.6, morph: 0.8, softness: 0.8, grain: 0.4 },
+    scene: 'gradient-mesh'
   },
   {
     id: 'claymation',
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import {
+    BandSignals, analyzeSignals, estimateTempo, findDownbeatPhase, findLoopPhrase, onsetStrength, rmsEnvelope, segmentSections, trackBeats
+} from './audioAnalysis';
+import { mulberry32 } from './random';
+
+const RATE = 22050;
+const FPS = 50;
+
+// Onset curve with a unit click every `period` frames from `offset`
+const clicks = (length: number, period: number, offset: number): Float32Array => {
+    const curve = new Float32Array(length);
+    for (let i = offset; i < length; i += period) curve[i] = 1;
+    return curve;
+};
+
+// Kick on every beat (accented on the first of each bar), snare on 2 and 4, hats on every
+// beat. Everything jumps from 35% to full level at `stepAt` seconds.
+const clickTrack = (seconds: number, bpm: number, offset: number, stepAt: number): BandSignals => {
+    const n = Math.round(seconds * RATE);
+    const bass = new Float32Array(n), mid = new Float32Array(n), high = new Float32Array(n), full = new Float32Array(n);
+    const noise = mulberry32(1);
+    for (let b = 0; offset + b * 60 / bpm < seconds; b++) {
+        const time = offset + b * 60 / bpm;
+        const start = Math.round(time * RATE);
+        const level = time >= stepAt ? 1 : 0.35;
+        const accent = b % 4 === 0 ? 1 : 0.6;
+        for (let i = 0; i < 0.08 * RATE && start + i < n; i++) {
+            const env = Math.exp(-i / (0.02 * RATE));
+            bass[start + i] += level * accent * env * Math.sin(2 * Math.PI * 60 * i / RATE);
+            if (b % 2 === 1) mid[start + i] += level * 0.5 * env * (noise() * 2 - 1);
+            high[start + i] += level * 0.2 * env * (noise() * 2 - 1);
+        }
+    }
+    for (let i = 0; i < n; i++) full[i] = bass[i] + mid[i] + high[i];
+    return { sampleRate: RATE, full, bass, mid, high };
+};
+
+describe('rmsEnvelope', () => {
+    it('measures the RMS of each full hop', () => {
+        const sine = Float32Array.from({ length: 1000 }, (_, i) => Math.sin(2 * Math.PI * i / 100));
+        const env = rmsEnvelope(sine, 300);
+        expect(env).toHaveLength(3);
+        env.forEach(v => expect(v).toBeCloseTo(Math.SQRT1_2, 2));
+    });
+});
+
+describe('onsetStrength', () => {
+    it('responds to rises in level only', () => {
+        const envelope = Float32Array.from({ length: 10 }, (_, i) => i >= 4 && i < 7 ? 0.8 : 0.1);
+        const onset = onsetStrength(envelope);
+        expect(Array.from(onset).map(v => Math.round(v * 100) / 100)).toEqual([0, 0, 0, 0, 1, 0, 0, 0, 0, 0]);
+    });
+});
+
+describe('estimateTempo', () => {
+    it.each([[25, 120], [30, 100], [40, 75]])('finds a click every %i frames as %i BPM', (period, bpm) => {
+        const tempo = estimateTempo(clicks(800, period, 3), FPS);
+        expect(tempo.bpm).toBeCloseTo(bpm, 1);
+        expect(tempo.period).toBeCloseTo(period, 1);
+    });
+});
+
+describe('trackBeats', () => {
+    it('lands on every click', () => {
+        expect(trackBeats(clicks(500, 25, 7), 25)).toEqual(Array.from({ length: 20 }, (_, i) => 7 + i * 25));
+    });
+
+    it('returns nothing without a usable period', () => {
+        expect(trackBeats(clicks(100, 25, 0), 0)).toEqual([]);
+        expect(trackBeats(new Float32Array(0), 25)).toEqual([]);
+    });
+});
+
+describe('findDownbeatPhase', () => {
+    it('picks the beat that carries the bass accent', () => {
+        const beats = Array.from({ length: 16 }, (_, i) => 10 + i * 25);
+        const bass = new Float32Array(420);
+        beats.forEach((f, i) => { bass[f + 1] = i % 4 === 2 ? 1 : 0.4; });
+        expect(findDownbeatPhase(beats, bass)).toBe(2);
+    });
+});
+
+describe('segmentSections', () => {
+    it('places a boundary at an energy step', () => {
+        // 16 bars of 100 frames, twice as loud from bar 8 on
+        const energy = Float32Array.from({ length: 1600 }, (_, i) => i < 800 ? 0.3 : 0.9);
+        const downbeats = Array.from({ length: 16 }, (_, i) => i * 100);
+        expect(segmentSections({ energy, spectral: [] }, downbeats, FPS)).toEqual([
+            { type: 'intro', start: 0, end: 16, energy: 0 },
+            { type: 'drop', start: 16, end: 32, energy: 1 }
+        ]);
+    });
+
+    it('returns nothing for an empty track', () => {
+        expect(segmentSections({ energy: new Float32Array(0), spectral: [] }, [], FPS)).toEqual([]);
+    });
+});
+
+describe('analyzeSignals', () => {
+    const analysis = analyzeSignals(clickTrack(32, 120, 0.25, 16), { name: 'click.wav', size: 1 });
+
+    it('recovers the tempo and a beat on every click', () => {
+        expect(analysis.bpm).toBe(120);
+        expect(analysis.duration).toBe(32);
+        expect(analysis.beats).toHaveLength(64);
+        analysis.beats.forEach((t, i) => expect(Math.abs(t - (0.25 + i * 0.5))).toBeLessThanOrEqual(0.02));
+    });
+
+    it('puts the downbeats on the accented kicks', () => {
+        expect(analysis.downbeats).toHaveLength(16);
+        analysis.downbeats.forEach((t, i) => expect(Math.abs(t - (0.25 + i * 2))).toBeLessThanOrEqual(0.02));
+        expect(analysis.beatStrength[0]).toBeGreaterThan(analysis.beatStrength[1]);
+    });
+
+    it('splits the sections where the level steps up', () => {
+        expect(analysis.sections!.map(s => s.type)).toEqual(['intro', 'drop']);
+        expect(Math.abs(analysis.sections![1].start - 16.25)).toBeLessThanOrEqual(0.02);
+    });
+});
+
+describe('findLoopPhrase', () => {
+    const downbeats = Array.from({ length: 16 }, (_, i) => 0.25 + i * 2);
+    const sections = [
+        { type: 'intro' as const, start: 0, end: 16.25, energy: 0 },
+        { type: 'drop' as const, start: 16.25, end: 32, energy: 1 }
+    ];
+
+    it('starts on the first downbeat of the drop', () => {
+        expect(findLoopPhrase({ bpm: 120, downbeats, duration: 32, sections }, 2)).toEqual({ start: 16.25, end: 20.25 });
+    });
+
+    it('extends past the last downbeat with the nominal bar length, within the track', () => {
+        expect(findLoopPhrase({ bpm: 120, downbeats, duration: 32, sections: [{ ...sections[1], start: 28 }] }, 4))
+            .toEqual({ start: 28.25, end: 32 });
+    });
+
+    it('falls back to the loudest section, then the start of the track', () => {
+        expect(findLoopPhrase({ bpm: 120, downbeats, duration: 32, sections: [{ ...sections[1], type: 'verse' }] }, 1))
+            .toEqual({ start: 16.25, end: 18.25 });
+        expect(findLoopPhrase({ bpm: 120, downbeats, duration: 32 }, 1)).toEqual({ start: 0.25, end: 2.25 });
+    });
+
+    it('needs a beat grid', () => {
+        expect(findLoopPhrase({ bpm: 120, downbeats: [], duration: 32 })).toBeNull();
+    });
+});
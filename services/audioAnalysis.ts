@@ -0,0 +1,450 @@
+import { AudioAnalysis, SectionType, SongSection } from "../types";
+
+// --- OFFLINE TRACK ANALYSIS ---
+// Runs once per upload instead of thresholding a realtime AnalyserNode:
+// 1. decodeAudioData, then an OfflineAudioContext renders bass / mid / high band passes
+// 2. RMS envelopes per band -> log-compressed, rectified onset strength curves
+// 3. Tempo from the autocorrelation of the combined onset curve (weighted towards ~120 BPM)
+// 4. Beat grid via dynamic programming (Ellis 2007), downbeats by bass emphasis per bar phase
+// 5. Song sections from bar-level energy + spectral balance novelty, labeled by relative energy
+
+const ANALYSIS_SAMPLE_RATE = 22050;
+const FRAME_RATE = 50;          // Envelope frames per second (hop of 441 samples)
+const MIN_BPM = 70;
+const MAX_BPM = 180;
+const TEMPO_CENTER_BPM = 120;   // Prior for octave errors (60 vs 120 vs 240)
+const TIGHTNESS = 100;          // How strongly beat spacing sticks to the tempo
+const MIN_SECTION_BARS = 4;     // Shortest section the segmenter will emit
+const FALLBACK_BAR_SECONDS = 2; // Window size when no downbeats were found
+
+// Keep the stored project small: 3 decimals is plenty for 0-1 curves.
+const round3 = (values: ArrayLike<number>): number[] => Array.from(values, v => Math.round(v * 1000) / 1000);
+
+// --- ENVELOPES ---
+export const rmsEnvelope = (samples: Float32Array, hop: number): Float32Array => {
+    const frames = Math.floor(samples.length / hop);
+    const env = new Float32Array(frames);
+    for (let f = 0; f < frames; f++) {
+        let sum = 0;
+        const start = f * hop;
+        for (let i = start; i < start + hop; i++) sum += samples[i] * samples[i];
+        env[f] = Math.sqrt(sum / hop);
+    }
+    return env;
+};
+
+// Value below which `fraction` of the curve sits; robust normalizer against single spikes.
+const percentile = (values: Float32Array, fraction: number): number => {
+    if (values.length === 0) return 0;
+    const sorted = Float32Array.from(values).sort();
+    return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))];
+};
+
+const normalize = (values: Float32Array, fraction: number = 0.99): Float32Array => {
+    const ref = percentile(values, fraction) || 1;
+    return values.map(v => Math.min(1, v / ref));
+};
+
+// Rectified first difference of the log envelope: rises in loudness, not loudness itself.
+export const onsetStrength = (envelope: Float32Array): Float32Array => {
+    const onset = new Float32Array(envelope.length);
+    let prev = Math.log1p(100 * (envelope[0] || 0));
+    for (let i = 1; i < envelope.length; i++) {
+        const cur = Math.log1p(100 * envelope[i]);
+        onset[i] = Math.max(0, cur - prev);
+        prev = cur;
+    }
+    return normalize(onset);
+};
+
+// --- TEMPO ---
+// Returns the beat period in frames (fractional) and the matching BPM.
+export const estimateTempo = (onset: Float32Array, frameRate: number): { period: number, bpm: number } => {
+    const n = onset.length;
+    let mean = 0;
+    for (let i = 0; i < n; i++) mean += onset[i];
+    mean /= Math.max(1, n);
+
+    const minLag = Math.floor(frameRate * 60 / MAX_BPM);
+    const maxLag = Math.ceil(frameRate * 60 / MIN_BPM);
+    const scores = new Float32Array(maxLag + 2);
+
+    for (let lag = minLag; lag <= maxLag + 1 && lag < n; lag++) {
+        let acc = 0;
+        for (let i = lag; i < n; i++) acc += (onset[i] - mean) * (onset[i - lag] - mean);
+        // Log-gaussian tempo prior around TEMPO_CENTER_BPM (one octave ~ one sigma)
+        const bpm = frameRate * 60 / lag;
+        const octaves = Math.log2(bpm / TEMPO_CENTER_BPM);
+        scores[lag] = acc * Math.exp(-0.5 * octaves * octaves);
+    }
+
+    let best = minLag;
+    for (let lag = minLag; lag <= maxLag; lag++) if (scores[lag] > scores[best]) best = lag;
+
+    // Parabolic interpolation for a sub-frame period
+    let period = best;
+    const a = scores[best - 1] || 0, b = scores[best], c = scores[best + 1] || 0;
+    const denom = a - 2 * b + c;
+    if (denom !== 0) period = best + Math.max(-0.5, Math.min(0.5, 0.5 * (a - c) / denom));
+
+    return { period, bpm: frameRate * 60 / period };
+};
+
+// --- BEAT TRACKING ---
+// Dynamic programming: every frame's score is its onset plus the best predecessor one
+// period back, penalized by how far the spacing strays from the tempo. Backtracking
+// from the best final frame yields a grid that follows tempo drift and real onsets.
+export const trackBeats = (onset: Float32Array, period: number): number[] => {
+    const n = onset.length;
+    if (n === 0 || !isFinite(period) || period <= 0) return [];
+
+    const score = new Float32Array(n);
+    const backlink = new Int32Array(n).fill(-1);
+    const minBack = Math.max(1, Math.round(period / 2));
+    const maxBack = Math.round(period * 2);
+
+    for (let t = 0; t < n; t++) {
+        let bestScore = 0;
+        let bestPrev = -1;
+        for (let prev = t - maxBack; prev <= t - minBack; prev++) {
+            if (prev < 0) continue;
+            const dev = Math.log((t - prev) / period);
+            const candidate = score[prev] - TIGHTNESS * dev * dev;
+            if (bestPrev < 0 || candidate > bestScore) { bestScore = candidate; bestPrev = prev; }
+        }
+        score[t] = onset[t] + Math.max(0, bestPrev >= 0 ? bestScore : 0);
+        backlink[t] = bestScore > 0 ? bestPrev : -1;
+    }
+
+    // Start from the best-scoring frame within the last period
+    let t = n - 1;
+    for (let i = Math.max(0, n - Math.round(period)); i < n; i++) if (score[i] > score[t]) t = i;
+
+    const beats: number[] = [];
+    while (t >= 0) {
+        beats.push(t);
+        t = backlink[t];
+    }
+    return beats.reverse();
+};
+
+// Picks the bar phase (0-3) whose beats carry the most bass onset.
+export const findDownbeatPhase = (beatFrames: number[], bassOnset: Float32Array): number => {
+    const sums = [0, 0, 0, 0];
+    beatFrames.forEach((f, i) => { sums[i % 4] += peakNear(bassOnset, f, 2); });
+    return sums.indexOf(Math.max(...sums));
+};
+
+const peakNear = (curve: Float32Array, frame: number, radius: number): number => {
+    let peak = 0;
+    for (let i = Math.max(0, frame - radius); i <= Math.min(curve.length - 1, frame + radius); i++) peak = Math.max(peak, curve[i]);
+    return peak;
+};
+
+// --- SONG STRUCTURE ---
+// Bars are the unit of structure: features are averaged per bar, a boundary is placed
+// where the K bars before and after differ most (Foote-style novelty), and each segment
+// is labeled from its energy relative to the rest of the track and its neighbours.
+
+const mean = (values: ArrayLike<number>, start: number, end: number): number => {
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += values[i];
+    return end > start ? sum / (end - start) : 0;
+};
+
+const barEdges = (downbeatFrames: number[], totalFrames: number, frameRate: number): number[] => {
+    let edges: number[];
+    if (downbeatFrames.length >= 4) {
+        edges = [0, ...downbeatFrames.filter(f => f > 0 && f < totalFrames), totalFrames];
+    } else {
+        const step = Math.round(FALLBACK_BAR_SECONDS * frameRate);
+        edges = [];
+        for (let f = 0; f < totalFrames; f += step) edges.push(f);
+        edges.push(totalFrames);
+    }
+    return edges.filter((e, i) => i === 0 || e > edges[i - 1]);
+};
+
+// Per-bar feature vectors, each dimension min-max normalized across the track.
+const barFeatures = (curves: ArrayLike<number>[], edges: number[]): number[][] => {
+    const bars = edges.slice(0, -1).map((start, b) => curves.map(c => mean(c, start, edges[b + 1])));
+    for (let d = 0; d < curves.length; d++) {
+        const col = bars.map(v => v[d]);
+        const lo = Math.min(...col);
+        const range = (Math.max(...col) - lo) || 1;
+        bars.forEach(v => { v[d] = (v[d] - lo) / range; });
+    }
+    return bars;
+};
+
+export const noveltyCurve = (features: number[][], window: number = 4): number[] => {
+    const n = features.length;
+    const novelty = new Array<number>(n).fill(0);
+    for (let b = 1; b < n; b++) {
+        const k = Math.min(window, b, n - b);
+        let dist = 0;
+        for (let d = 0; d < features[b].length; d++) {
+            let before = 0, after = 0;
+            for (let i = 0; i < k; i++) { before += features[b - 1 - i][d]; after += features[b + i][d]; }
+            dist += ((after - before) / k) ** 2;
+        }
+        novelty[b] = Math.sqrt(dist);
+    }
+    return novelty;
+};
+
+// Strongest novelty peaks first, keeping every section at least MIN_SECTION_BARS long.
+const pickBoundaries = (novelty: number[]): number[] => {
+    const n = novelty.length;
+    const avg = novelty.reduce((a, b) => a + b, 0) / Math.max(1, n);
+    const std = Math.sqrt(novelty.reduce((a, b) => a + (b - avg) ** 2, 0) / Math.max(1, n));
+    const candidates = novelty
+        .map((v, b) => ({ v, b }))
+        .filter(({ v, b }) => b >= MIN_SECTION_BARS && b <= n - MIN_SECTION_BARS && v > avg + 0.5 * std)
+        .sort((a, b) => b.v - a.v);
+
+    const chosen: number[] = [];
+    candidates.forEach(({ b }) => {
+        if (chosen.every(c => Math.abs(c - b) >= MIN_SECTION_BARS)) chosen.push(b);
+    });
+    return [0, ...chosen.sort((a, b) => a - b), n];
+};
+
+// A gradual ramp into a louder section produces no sharp novelty peak, so the ramp is
+// split off explicitly: it starts after the last bar still at the segment's resting level.
+const splitRisingTails = (bounds: number[], barEnergy: number[]): number[] => {
+    const result = [bounds[0]];
+    for (let i = 0; i < bounds.length - 1; i++) {
+        const a = bounds[i], b = bounds[i + 1];
+        const next = bounds[i + 2];
+        const louderNext = next !== undefined && mean(barEnergy, b, next) > mean(barEnergy, a, b) * 1.2;
+        if (louderNext && b - a >= MIN_SECTION_BARS * 2) {
+            const resting = [...barEnergy.slice(a, Math.floor((a + b) / 2))].sort((x, y) => x - y);
+            const level = resting[Math.floor(resting.length / 2)];
+            let j = b - 1;
+            while (j > a && barEnergy[j] > level * 1.05) j--;
+            j = Math.max(a + MIN_SECTION_BARS, Math.min(b - MIN_SECTION_BARS, j + 1));
+            if (mean(barEnergy, j, b) > level * 1.15) result.push(j);
+        }
+        result.push(b);
+    }
+    return result;
+};
+
+export const labelSections = (energies: number[], slopes: number[]): SectionType[] => {
+    const lo = Math.min(...energies);
+    const range = (Math.max(...energies) - lo) || 1;
+    const rel = energies.map(e => (e - lo) / range);
+    const last = rel.length - 1;
+
+    // A quiet stretch is only a breakdown if something louder came before it
+    const types: SectionType[] = rel.map((r, i) => {
+        if (r >= 0.7) return 'drop';
+        if (r <= 0.3 && rel.slice(0, i).some(p => p >= 0.5)) return 'breakdown';
+        return 'verse';
+    });
+    if (types.length === 1) return ['verse'];
+
+    // Rising material right before a drop is a build (slopes are relative to the segment level)
+    for (let i = 0; i < last; i++) {
+        if (types[i + 1] === 'drop' && types[i] !== 'drop' && slopes[i] > 0.1) types[i] = 'build';
+    }
+    if (rel[0] < 0.5) types[0] = 'intro';
+    if (rel[last] < 0.5) types[last] = 'outro';
+    return types;
+};
+
+export const segmentSections = (
+    curves: { energy: ArrayLike<number>, spectral: ArrayLike<number>[] },
+    downbeatFrames: number[],
+    frameRate: number
+): SongSection[] => {
+    const totalFrames = curves.energy.length;
+    if (totalFrames === 0) return [];
+
+    const edges = barEdges(downbeatFrames, totalFrames, frameRate);
+    const features = barFeatures([curves.energy, ...curves.spectral], edges);
+    const barEnergy = edges.slice(0, -1).map((start, b) => mean(curves.energy, start, edges[b + 1]));
+    const bounds = splitRisingTails(pickBoundaries(noveltyCurve(features)), barEnergy);
+
+    const segments = bounds.slice(0, -1).map((startBar, i) => {
+        const start = edges[startBar];
+        const end = edges[bounds[i + 1]];
+        const half = Math.floor((start + end) / 2);
+        return {
+            start, end,
+            energy: mean(curves.energy, start, end),
+            slope: (mean(curves.energy, half, end) - mean(curves.energy, start, half)) / (mean(curves.energy, start, end) || 1)
+        };
+    });
+
+    const types = labelSections(segments.map(s => s.energy), segments.map(s => s.slope));
+    const lo = Math.min(...segments.map(s => s.energy));
+    const range = (Math.max(...segments.map(s => s.energy)) - lo) || 1;
+
+    // Merge neighbours that ended up with the same label
+    const sections: SongSection[] = [];
+    segments.forEach((seg, i) => {
+        const prev = sections[sections.length - 1];
+        const section: SongSection = {
+            type: types[i],
+            start: Math.round(seg.start / frameRate * 1000) / 1000,
+            end: Math.round(seg.end / frameRate * 1000) / 1000,
+            energy: Math.round((seg.energy - lo) / range * 1000) / 1000
+        };
+        if (prev && prev.type === section.type) {
+            prev.energy = Math.round((prev.energy + section.energy) / 2 * 1000) / 1000;
+            prev.end = section.end;
+        } else {
+            sections.push(section);
+        }
+    });
+    return sections;
+};
+
+// --- PIPELINE (pure) ---
+export interface BandSignals {
+    sampleRate: number;
+    full: Float32Array;
+    bass: Float32Array;
+    mid: Float32Array;
+    high: Float32Array;
+}
+
+export const analyzeSignals = (signals: BandSignals, source: AudioAnalysis['source']): AudioAnalysis => {
+    const hop = Math.round(signals.sampleRate / FRAME_RATE);
+    const frameRate = signals.sampleRate / hop;
+
+    const energy = normalize(rmsEnvelope(signals.full, hop));
+    const bassEnv = rmsEnvelope(signals.bass, hop);
+    const midEnv = rmsEnvelope(signals.mid, hop);
+    const highEnv = rmsEnvelope(signals.high, hop);
+    const bass = onsetStrength(bassEnv);
+    const mid = onsetStrength(midEnv);
+    const high = onsetStrength(highEnv);
+
+    // Kick-driven music: bass dominates the combined curve used for tempo + beats
+    const combined = new Float32Array(bass.length);
+    for (let i = 0; i < combined.length; i++) combined[i] = 0.5 * bass[i] + 0.3 * mid[i] + 0.2 * high[i];
+
+    const { period, bpm } = estimateTempo(combined, frameRate);
+    const beatFrames = trackBeats(combined, period);
+    const phase = findDownbeatPhase(beatFrames, bass);
+
+    const rawStrength = beatFrames.map(f => peakNear(bass, f, 2));
+    const maxStrength = Math.max(0.001, ...rawStrength);
+
+    // Spectral balance per band (share of total band energy) + onset density describe "what kind" of music plays
+    const spectralShare = (band: Float32Array) => band.map((v, i) => v / ((bassEnv[i] + midEnv[i] + highEnv[i]) || 1));
+    const sections = segmentSections(
+        { energy, spectral: [spectralShare(bassEnv), spectralShare(midEnv), spectralShare(highEnv), bass, mid, high] },
+        beatFrames.filter((_, i) => i % 4 === phase),
+        frameRate
+    );
+
+    return {
+        source,
+        duration: signals.full.length / signals.sampleRate,
+        frameRate,
+        bpm: Math.round(bpm * 10) / 10,
+        beats: beatFrames.map(f => Math.round(f / frameRate * 1000) / 1000),
+        downbeats: beatFrames.filter((_, i) => i % 4 === phase).map(f => Math.round(f / frameRate * 1000) / 1000),
+        beatStrength: round3(rawStrength.map(v => v / maxStrength)),
+        energy: round3(energy),
+        onsets: { bass: round3(bass), mid: round3(mid), high: round3(high) },
+        sections
+    };
+};
+
+// --- LOOP PHRASES ---
+// A short, bar-aligned excerpt for GIF / sticker loops: `bars` bars starting on the first
+// downbeat of the drop (or the loudest section), so the loop lands on the hook.
+export const findLoopPhrase = (
+    analysis: Pick<AudioAnalysis, 'bpm' | 'downbeats' | 'duration' | 'sections'>,
+    bars: number = 4
+): { start: number, end: number } | null => {
+    if (analysis.downbeats.length === 0 || analysis.bpm <= 0) return null;
+    const sections = analysis.sections || [];
+    const target = sections.find(s => s.type === 'drop')
+        || [...sections].sort((a, b) => b.energy - a.energy)[0];
+
+    const from = target ? target.start : 0;
+    let index = analysis.downbeats.findIndex(t => t >= from - 0.05);
+    if (index < 0) index = analysis.downbeats.length - 1;
+    const start = analysis.downbeats[index];
+
+    // Prefer real downbeats (tempo drift), fall back to the nominal bar length near the end
+    const end = analysis.downbeats[index + bars] ?? start + bars * 4 * 60 / analysis.bpm;
+    return { start, end: Math.min(end, analysis.duration) };
+};
+
+// --- BROWSER ENTRY ---
+const mixToMono = (buffer: AudioBuffer): Float32Array => {
+    const mono = new Float32Array(buffer.length);
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+        const data = buffer.getChannelData(c);
+        for (let i = 0; i < data.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+    }
+    return mono;
+};
+
+// Renders the three filter bands (plus the unfiltered mix) offline at the analysis rate.
+const renderBands = async (decoded: AudioBuffer): Promise<BandSignals> => {
+    const length = Math.ceil(decoded.duration * ANALYSIS_SAMPLE_RATE);
+    const ctx = new OfflineAudioContext(4, length, ANALYSIS_SAMPLE_RATE);
+    const source = ctx.createBufferSource();
+    source.buffer = decoded;
+
+    const merger = ctx.createChannelMerger(4);
+    const band = (type: BiquadFilterType, frequency: number, q: number = 0.707) => {
+        const filter = ctx.createBiquadFilter();
+        filter.type = type;
+        filter.frequency.value = frequency;
+        filter.Q.value = q;
+        source.connect(filter);
+        return filter;
+    };
+
+    // Mono downmix of the source for the unfiltered energy channel
+    const dry = ctx.createGain();
+    source.connect(dry);
+    dry.connect(merger, 0, 0);
+    band('lowpass', 150).connect(merger, 0, 1);
+    band('bandpass', 1200, 0.8).connect(merger, 0, 2);
+    band('highpass', 5000).connect(merger, 0, 3);
+    merger.connect(ctx.destination);
+
+    source.start(0);
+    const rendered = await ctx.startRendering();
+    return {
+        sampleRate: ANALYSIS_SAMPLE_RATE,
+        full: rendered.getChannelData(0),
+        bass: rendered.getChannelData(1),
+        mid: rendered.getChannelData(2),
+        high: rendered.getChannelData(3)
+    };
+};
+
+export const decodeAudioFile = async (file: File): Promise<AudioBuffer> => {
+    const bytes = await file.arrayBuffer();
+    // A 1-sample offline context is enough to decode without touching the audio hardware
+    const decoder = new OfflineAudioContext(1, 1, 44100);
+    return decoder.decodeAudioData(bytes);
+};
+
+export const analyzeAudioFile = async (file: File): Promise<AudioAnalysis> => {
+    const started = performance.now();
+    const decoded = await decodeAudioFile(file);
+
+    // Merged channels sum into the destination; feed the renderer a mono buffer so levels match
+    const mono = new AudioBuffer({ length: decoded.length, sampleRate: decoded.sampleRate, numberOfChannels: 1 });
+    mono.copyToChannel(mixToMono(decoded), 0);
+
+    const signals = await renderBands(mono);
+    const analysis = analyzeSignals(signals, { name: file.name, size: file.size });
+    console.log(`[Audio] ${analysis.bpm} BPM, ${analysis.beats.length} beats, ${analysis.sections?.length ?? 0} sections in ${analysis.duration.toFixed(1)}s (analyzed in ${Math.round(performance.now() - started)}ms)`);
+    return analysis;
+};
+
+export const analysisMatchesFile = (analysis: AudioAnalysis | null | undefined, file: File | null): boolean =>
+    !!analysis && !!file && analysis.source.name === file.name && analysis.source.size === file.size;
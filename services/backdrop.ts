@@ -0,0 +1,115 @@
+import { Backdrop, BackdropSettings } from "../types";
+
+// --- BACKDROP ---
+// An uploaded image or looping video drawn under the character canvas instead of the
+// visualizer. The visualizer can still be composited on top with a canvas blend mode.
+// The preview, the offline renders and the exported player all draw through drawBackdrop.
+
+export const MAX_BACKDROP_BYTES = 40 * 1024 * 1024;
+
+export type BackdropMedia = HTMLImageElement | HTMLVideoElement;
+
+export const backdropKind = (type: string): Backdrop['kind'] | null =>
+    type.startsWith('image/') ? 'image' : type.startsWith('video/') ? 'video' : null;
+
+const fileToDataUrl = (file: File): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+});
+
+export const readBackdropFile = async (file: File): Promise<Backdrop> => {
+    const kind = backdropKind(file.type);
+    if (!kind) throw new Error(`${file.name} is not an image or video`);
+    if (file.size > MAX_BACKDROP_BYTES) throw new Error(`${file.name} is ${(file.size / 1024 / 1024).toFixed(0)} MB, the limit is ${MAX_BACKDROP_BYTES / 1024 / 1024} MB`);
+    return { kind, name: file.name, type: file.type, url: await fileToDataUrl(file) };
+};
+
+// Videos come back muted and looping, paused on their first frame (callers decide to play or seek)
+export const loadBackdropMedia = (backdrop: Backdrop): Promise<BackdropMedia> => new Promise((resolve, reject) => {
+    if (backdrop.kind === 'image') {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error(`Backdrop image failed to load: ${backdrop.name}`));
+        img.src = backdrop.url;
+        return;
+    }
+    const video = document.createElement('video');
+    video.muted = true;
+    video.loop = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error(`Backdrop video failed to load: ${backdrop.name}`));
+    video.src = backdrop.url;
+});
+
+// Frame-accurate video for offline renders: the loop position of time t
+export const seekBackdrop = (media: BackdropMedia, time: number): Promise<void> => {
+    if (!(media instanceof HTMLVideoElement) || !(media.duration > 0)) return Promise.resolve();
+    const target = time % media.duration;
+    if (Math.abs(media.currentTime - target) < 1e-3) return Promise.resolve();
+    return new Promise(resolve => {
+        media.addEventListener('seeked', () => resolve(), { once: true });
+        media.currentTime = target;
+    });
+};
+
+// NOTE: Serialized with toString() into the exported player, keep it self-contained.
+// Clears the frame, draws the media fitted and effected, then blends `overlay` (the
+// visualizer canvas) on top when the settings ask for it. `bass` is 0-1.
+export const drawBackdrop = (
+    ctx: CanvasRenderingContext2D,
+    media: BackdropMedia | null,
+    width: number,
+    height: number,
+    settings: BackdropSettings,
+    bass: number,
+    overlay: CanvasImageSource | null
+) => {
+    ctx.save();
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, width, height);
+
+    const mediaWidth = media ? ('videoWidth' in media ? media.videoWidth : media.naturalWidth) : 0;
+    const mediaHeight = media ? ('videoHeight' in media ? media.videoHeight : media.naturalHeight) : 0;
+    if (media && mediaWidth > 0 && mediaHeight > 0) {
+        const fit = settings.fit === 'contain'
+            ? Math.min(width / mediaWidth, height / mediaHeight)
+            : Math.max(width / mediaWidth, height / mediaHeight);
+        const scale = fit * (1 + settings.zoom * 0.15 * bass);   // Up to +15% on full bass
+        const blur = settings.blur * width * 0.02;                // Up to 2% of the frame width
+        // Blur pulls in black from the edges, overscan a little to hide it
+        const pad = settings.fit === 'cover' ? blur * 2 : 0;
+        const w = mediaWidth * scale + pad * 2;
+        const h = mediaHeight * scale + pad * 2;
+        if (blur >= 0.5) ctx.filter = `blur(${blur}px)`;
+        ctx.drawImage(media, (width - w) / 2, (height - h) / 2, w, h);
+        ctx.filter = 'none';
+    }
+
+    const shade = Math.max(0, settings.dim - settings.pulse * bass * 0.5);
+    if (shade > 0) {
+        ctx.fillStyle = `rgba(0,0,0,${shade})`;
+        ctx.fillRect(0, 0, width, height);
+    }
+    if (settings.pulse > 0 && bass > 0) {
+        ctx.globalCompositeOperation = 'lighter';
+        ctx.fillStyle = `rgba(255,255,255,${Math.min(1, settings.pulse * bass * 0.15)})`;
+        ctx.fillRect(0, 0, width, height);
+    }
+
+    if (overlay && settings.blend !== 'none' && settings.blendAmount > 0) {
+        ctx.globalCompositeOperation = settings.blend as GlobalCompositeOperation;
+        ctx.globalAlpha = settings.blendAmount;
+        ctx.drawImage(overlay, 0, 0, width, height);
+    }
+    ctx.restore();
+};
+
+// Whether the visualizer has to be rendered under these settings
+export const backdropUsesVisualizer = (settings: BackdropSettings): boolean =>
+    settings.blend !== 'none' && settings.blendAmount > 0;
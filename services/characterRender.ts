@@ -0,0 +1,135 @@
+import { FrameAnchor } from "../types";
+import { ChoreographyState, RenderLayer } from "./choreography";
+
+// --- CHARACTER LAYER RENDERING ---
+// Draws the choreography's render layers (crossfades / flow slides) with camera
+// physics and super-cam FX. Shared by the live preview, the offline video renderer and
+// the exported player so all of them produce the same picture.
+
+// Camera impulses and FX offsets are authored in "stage" pixels: the short side of the
+// character canvas in the preview. Renders scale them to their own size (stageScale).
+export const STAGE_WIDTH = 540;
+
+export const stageScale = (width: number, height: number): number => Math.min(width, height) / STAGE_WIDTH;
+
+export interface CharacterSprite {
+    image: HTMLImageElement | HTMLCanvasElement;
+    anchor?: FrameAnchor;      // Subject anchor of this frame
+    reference: FrameAnchor;    // Where anchors are pinned for this frame type
+}
+
+export interface CharacterLook {
+    camera: ChoreographyState['camera'];
+    fx: ChoreographyState['fx'];
+    zoom: number;
+    superCam: boolean;         // RGB split + flash passes
+    random: () => number;      // Tear slice jitter
+    scale?: number;            // Stage pixels -> canvas pixels (default 1)
+    fit?: number;              // Share of the canvas the figure may fill (default 1)
+}
+
+// NOTE: Serialized with toString() into the exported player, keep it self-contained.
+export const drawCharacterLayers = (
+    ctx: CanvasRenderingContext2D,
+    width: number,
+    height: number,
+    layers: RenderLayer[],
+    resolve: (pose: string) => CharacterSprite | null,
+    look: CharacterLook
+) => {
+    const { camera, fx, zoom, superCam } = look;
+    const scale = look.scale ?? 1;
+    const fit = look.fit ?? 1;
+
+    layers.forEach(layer => {
+        if (layer.opacity <= 0.01) return;
+        const sprite = resolve(layer.pose);
+        if (!sprite) return;
+        const img = sprite.image;
+        const opacity = layer.opacity;
+
+        const aspect = img.width / img.height;
+        let dw = width * fit;
+        let dh = dw / aspect;
+        if (dh > height * fit) { dh = height * fit; dw = dh * aspect; }
+
+        // Anchor the subject instead of the cell center (kills inter-pose jitter): move the
+        // frame's anchor onto the reference anchor, in drawn pixels before camera zoom
+        const anchorShift = sprite.anchor
+            ? { x: (sprite.reference.x - sprite.anchor.x) * dw, y: (sprite.reference.y - sprite.anchor.y) * dh }
+            : { x: 0, y: 0 };
+
+        const cx = width / 2 + (camera.shakeX + camera.panX + layer.offsetX) * scale + anchorShift.x * zoom;
+        const cy = height / 2 + (camera.shakeY + camera.panY) * scale + anchorShift.y * zoom;
+
+        ctx.save();
+        ctx.globalAlpha = opacity;
+
+        // --- PASS 1: RGB SPLIT (Snare) ---
+        if (superCam && fx.moire > 0.05) {
+            const split = 5 * fx.moire * scale;
+            [[-split, '#ff0000'], [split, '#0000ff']].forEach(([dx, color]) => {
+                ctx.save();
+                ctx.translate(cx + (dx as number), cy);
+                ctx.scale(zoom, zoom);
+                ctx.globalCompositeOperation = 'screen';
+                ctx.globalAlpha = 0.8 * fx.moire * opacity;
+                ctx.drawImage(img, -dw / 2, -dh / 2, dw, dh);
+                ctx.globalCompositeOperation = 'source-in';
+                ctx.fillStyle = color as string;
+                ctx.fillRect(-dw / 2, -dh / 2, dw, dh);
+                ctx.restore();
+            });
+
+            ctx.save();
+            ctx.translate(cx, cy);
+            ctx.scale(zoom, zoom);
+            ctx.beginPath();
+            const line = 4 * scale;
+            for (let i = 0; i < dh; i += line) {
+                ctx.rect(-dw / 2, -dh / 2 + i, dw, scale);
+            }
+            ctx.clip();
+            ctx.drawImage(img, -dw / 2, -dh / 2, dw, dh);
+            ctx.restore();
+        }
+
+        // --- PASS 2: MAIN IMAGE ---
+        ctx.save();
+        ctx.translate(cx, cy);
+        ctx.scale(zoom, zoom);
+
+        if (fx.tear > 0.1) {
+            const slices = 8;
+            const hSlice = dh / slices;
+            const ihSlice = img.height / slices;
+            for (let i = 0; i < slices; i++) {
+                const shift = (look.random() - 0.5) * 40 * fx.tear * scale;
+                ctx.drawImage(
+                    img,
+                    0, i * ihSlice, img.width, ihSlice, // Source
+                    -dw / 2 + shift, -dh / 2 + (i * hSlice), dw, hSlice // Dest
+                );
+            }
+        } else {
+            ctx.drawImage(img, -dw / 2, -dh / 2, dw, dh);
+        }
+
+        // --- PASS 3: DYNAMIC LIGHTING ---
+        if (superCam && fx.flash > 0.05) {
+            ctx.globalCompositeOperation = 'overlay';
+            ctx.globalAlpha = fx.flash * opacity;
+            ctx.fillStyle = '#ffeebb';
+            ctx.fillRect(-dw / 2, -dh / 2, dw, dh);
+
+            if (fx.flash > 0.5) {
+                ctx.globalCompositeOperation = 'lighter';
+                ctx.globalAlpha = (fx.flash - 0.5) * opacity;
+                ctx.drawImage(img, -dw / 2, -dh / 2, dw, dh);
+            }
+        }
+
+        ctx.restore();
+        ctx.restore();
+    });
+};
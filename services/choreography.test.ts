@@ -0,0 +1,225 @@
+import { describe, expect, it } from 'vitest';
+import { AudioFeatures, BeatGrid, ChoreographyEngine, ChoreographyEvent, ChoreographyFrame, PoseEvent } from './choreography';
+import { deriveSeed, mulberry32 } from './random';
+
+const frame = (pose: string, energy: ChoreographyFrame['energy'], direction: ChoreographyFrame['direction'] = 'neutral'): ChoreographyFrame =>
+    ({ pose, energy, direction });
+
+const RIG: ChoreographyFrame[] = [
+    frame('rest', 'low'),
+    frame('groove_a', 'mid', 'left'),
+    frame('groove_b', 'mid', 'right'),
+    frame('groove_c', 'mid', 'left'),
+    frame('groove_d', 'mid', 'right'),
+    frame('jump', 'high')
+];
+const FACING = Object.fromEntries(RIG.map(f => [f.pose, f.direction]));
+const MID_POOL = ['groove_a', 'groove_b', 'groove_c', 'groove_d'];
+
+const SILENCE: AudioFeatures = { bass: 0, mid: 0, high: 0 };
+const KICK: AudioFeatures = { bass: 0.5, mid: 0, high: 0 };
+
+const engineFor = (options: Partial<ChoreographyEngine['options']> = {}) =>
+    new ChoreographyEngine(RIG, { random: mulberry32(42), ...options });
+
+const poseEvents = (events: ChoreographyEvent[]) => events.filter((e): e is PoseEvent => e.type === 'pose');
+
+// Live-threshold kicks 200 ms apart (past the pose lock), one update each
+const kicks = (engine: ChoreographyEngine, count: number): PoseEvent[] =>
+    Array.from({ length: count }, (_, i) => poseEvents(engine.update(200 * (i + 1), 0.016, KICK, true))).flat();
+
+describe('ChoreographyEngine pose selection', () => {
+    it('plays every pose of a pool once before any repeats', () => {
+        const poses = kicks(engineFor({ directional: false }), 12).map(e => e.pose);
+        expect(poses).toHaveLength(12);
+        for (let cycle = 0; cycle < 3; cycle++) {
+            expect(poses.slice(cycle * 4, cycle * 4 + 4).sort()).toEqual(MID_POOL);
+        }
+    });
+
+    it('never repeats the pose on screen when a fresh deck starts', () => {
+        for (let seed = 0; seed < 50; seed++) {
+            const poses = kicks(engineFor({ directional: false, random: mulberry32(seed) }), 8).map(e => e.pose);
+            poses.forEach((pose, i) => { if (i > 0) expect(pose).not.toBe(poses[i - 1]); });
+        }
+    });
+
+    it('draws poses that face the way the beat moves', () => {
+        const events = kicks(engineFor(), 20);
+        expect(events.length).toBeGreaterThan(10);
+        events.forEach(e => expect(FACING[e.pose]).toBe(e.direction));
+    });
+
+    it('exposes the transition through layers()', () => {
+        const engine = engineFor({ directional: false });
+        const [first, second, third] = kicks(engine, 3);
+        expect([first.mode, second.mode, third.mode]).toEqual(['CUT', 'FLOW', 'FLOW']);
+
+        // Halfway through the 240 ms flow of the third kick: crossfade of the last two poses
+        const layers = engine.layers(600 + 120);
+        expect(layers.map(l => l.pose)).toEqual([second.pose, third.pose]);
+        expect(layers[0].opacity + layers[1].opacity).toBeCloseTo(1);
+        expect(engine.layers(600 + 240)).toEqual([{ pose: third.pose, opacity: 1, offsetX: 0 }]);
+    });
+});
+
+describe('ChoreographyEngine song sections', () => {
+    const sectionGrid = (type: 'verse' | 'drop'): BeatGrid => ({
+        beats: [1, 1.5], downbeats: [1], beatStrength: [0.4, 0.4],
+        sections: [{ type, start: 0, end: 10 }]
+    });
+
+    const firstBeat = (type: 'verse' | 'drop') => {
+        const engine = engineFor();
+        engine.setBeatGrid(sectionGrid(type));
+        const sync = engine.update(1000, 0.016, SILENCE, true, 0.9);
+        const [hit] = poseEvents(engine.update(1200, 0.016, SILENCE, true, 1.02));
+        return { engine, sync, hit };
+    };
+
+    it('announces the section it enters', () => {
+        expect(firstBeat('drop').sync).toEqual([{ type: 'section', section: 'drop' }]);
+    });
+
+    it('draws regular beats from the high pool in a drop', () => {
+        expect(firstBeat('drop').hit.pose).toBe('jump');
+        expect(MID_POOL).toContain(firstBeat('verse').hit.pose);
+    });
+
+    it('hits the camera harder in a drop', () => {
+        const zoom = (type: 'verse' | 'drop') => firstBeat(type).engine.state.camera.zoom;
+        expect(zoom('drop')).toBeGreaterThan(zoom('verse'));
+    });
+});
+
+describe('ChoreographyEngine camera physics', () => {
+    // now = 0 keeps the pose lock closed, so updates only step the physics
+    const step = (engine: ChoreographyEngine, dt: number, times = 1) => {
+        for (let i = 0; i < times; i++) engine.update(0, dt, SILENCE, true);
+    };
+
+    it('decays camera impulses and FX envelopes', () => {
+        const engine = engineFor({ dynamicCamera: false });
+        Object.assign(engine.state.camera, { shakeX: 10, shakeY: -10, zoom: 1.5, panX: 20 });
+        Object.assign(engine.state.fx, { tear: 1, moire: 1, flash: 1, dolly: 1 });
+        step(engine, 0.1);
+
+        const { camera, fx } = engine.state;
+        expect(camera.shakeX).toBeCloseTo(9);
+        expect(camera.shakeY).toBeCloseTo(-9);
+        expect(camera.zoom).toBeCloseTo(1.45);
+        expect(camera.panX).toBeCloseTo(18);
+        expect(fx.tear).toBeCloseTo(0.8);
+        expect(fx.moire).toBeCloseTo(0.85);
+        expect(fx.flash).toBeCloseTo(0.85);
+        expect(fx.dolly).toBeCloseTo(Math.exp(-0.3));
+    });
+
+    it('springs the dynamic camera back to rest after a hard hit', () => {
+        const engine = engineFor();
+        engine.update(200, 0.016, { bass: 0.9, mid: 0, high: 0 }, true);
+        // The same update already started the spring back from 1.15 / 0.8
+        expect(engine.state.camera.zoom).toBeGreaterThan(1.14);
+        expect(engine.state.fx.flash).toBeCloseTo(0.8 * 0.85);
+        expect(engine.zoom()).toBeGreaterThan(1);
+
+        step(engine, 1 / 60, 120);
+        expect(Math.abs(engine.state.camera.shakeX)).toBeLessThan(0.01);
+        expect(engine.state.camera.zoom).toBeCloseTo(1, 1);
+    });
+
+    it('holds the zoom slightly during a flow transition', () => {
+        const engine = engineFor();
+        engine.state.transitionMode = 'FLOW';
+        step(engine, 1 / 60, 600);
+        expect(engine.state.camera.zoom).toBeCloseTo(1.05, 3);
+    });
+
+    it('clamps the pan to the format limit', () => {
+        const engine = engineFor({ panLimit: 10 });
+        engine.state.camera.panX = -80;
+        step(engine, 1 / 60);
+        expect(engine.state.camera.panX).toBe(-10);
+    });
+});
+
+describe('ChoreographyEngine beat source', () => {
+    const grid: BeatGrid = {
+        beats: [1, 1.5, 2, 2.5],
+        downbeats: [1],
+        beatStrength: [0.9, 0.4, 0.5, 0.4]
+    };
+
+    it('fires on grid beats regardless of the bass level', () => {
+        const engine = engineFor();
+        engine.setBeatGrid(grid);
+        expect(engine.update(1000, 0.016, SILENCE, true, 0.9)).toEqual([]);  // Syncs the cursor
+
+        const [hit] = poseEvents(engine.update(1200, 0.016, SILENCE, true, 1.02));
+        expect(hit).toMatchObject({ reason: 'beat', mode: 'CUT', confidence: 90 });
+        expect(engine.state.beatCounter).toBe(0);
+
+        // Loud bass between grid beats does not trigger anything
+        expect(poseEvents(engine.update(1400, 0.016, { bass: 1, mid: 0, high: 0 }, true, 1.2))).toEqual([]);
+    });
+
+    it('re-syncs without firing when the song clock jumps', () => {
+        const engine = engineFor();
+        engine.setBeatGrid(grid);
+        engine.update(1000, 0.016, SILENCE, true, 0.9);
+        expect(poseEvents(engine.update(1200, 0.016, SILENCE, true, 2.1))).toEqual([]);
+        expect(poseEvents(engine.update(1400, 0.016, SILENCE, true, 2.6))).toHaveLength(1);
+    });
+
+    it('falls back to the bass threshold without a song clock', () => {
+        const engine = engineFor();
+        engine.setBeatGrid(grid);
+        expect(poseEvents(engine.update(1000, 0.016, { bass: 0.3, mid: 0, high: 0 }, true))).toEqual([]);
+
+        const [hit] = poseEvents(engine.update(1200, 0.016, KICK, true));
+        expect(hit).toMatchObject({ reason: 'beat', confidence: 50 });
+        expect(engine.state.beatCounter).toBe(1);
+    });
+
+    it('ignores the grid while paused', () => {
+        const engine = engineFor();
+        engine.setBeatGrid(grid);
+        engine.update(1000, 0.016, SILENCE, false, 0.9);
+        expect(engine.update(1200, 0.016, SILENCE, false, 1.02)).toEqual([]);
+    });
+});
+
+describe('ChoreographyEngine seeded replay', () => {
+    // 8 seconds at 60 fps: kicks every half second, snares on the off beats and bright hats,
+    // so pool, direction, closeup and burst decisions all draw from the PRNG
+    const song = (t: number): AudioFeatures => {
+        const beat = (t % 0.5) / 0.5;
+        const offBeat = t % 1 >= 0.5;
+        return {
+            bass: Math.max(0, 1 - beat * 4) * (Math.floor(t / 2) % 2 ? 0.9 : 0.6),
+            mid: offBeat && beat < 0.1 ? 0.7 : 0.1,
+            high: beat < 0.1 ? 0.65 : 0.05
+        };
+    };
+
+    const perform = (seed: number): ChoreographyEvent[] => {
+        const engine = new ChoreographyEngine(
+            [...RIG, { pose: 'face', energy: 'high', type: 'closeup', direction: 'neutral' }],
+            { stutterChance: 60, random: mulberry32(deriveSeed(seed, 'choreo')) }
+        );
+        const events: ChoreographyEvent[] = [];
+        for (let i = 0; i < 8 * 60; i++) events.push(...engine.update(i * 1000 / 60, 1 / 60, song(i / 60), true));
+        return events;
+    };
+
+    it('replays the same events for the same seed', () => {
+        const events = perform(0xC0FFEE);
+        expect(poseEvents(events).length).toBeGreaterThan(10);
+        expect(events.some(e => e.type === 'snare')).toBe(true);
+        expect(perform(0xC0FFEE)).toEqual(events);
+    });
+
+    it('performs differently with another seed', () => {
+        expect(perform(0xC0FFEF)).not.toEqual(perform(0xC0FFEE));
+    });
+});
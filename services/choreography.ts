@@ -0,0 +1,488 @@
+import { EnergyLevel, FrameDirection, FrameType, SectionType } from "../types";
+
+// --- CHOREOGRAPHY ENGINE ---
+// The beat -> pose brain shared by the in-app preview and the exported player.
+// It consumes per-frame audio features and a clock, and owns every piece of
+// choreography state: pose pools, transitions, camera physics and FX envelopes.
+// Renderers only read `state` / `layers()` and draw.
+//
+// NOTE: The class is serialized with toString() into the exported player, so it must
+// stay self-contained (no references to other module symbols, types are fine).
+
+export interface ChoreographyFrame {
+    pose: string;
+    energy: EnergyLevel;
+    type?: FrameType;
+    direction: FrameDirection;   // Resolved by the caller (see frameDirection)
+}
+
+export interface AudioFeatures {
+    bass: number;   // 0..1
+    mid: number;    // 0..1
+    high: number;   // 0..1
+}
+
+// Offline beat grid (subset of AudioAnalysis). When present and the song clock is
+// known, beats come from the grid instead of the live bass threshold.
+export interface BeatGrid {
+    beats: number[];        // seconds
+    downbeats: number[];    // seconds, subset of beats
+    beatStrength: number[]; // 0-1 per beat
+    sections?: { type: SectionType, start: number, end: number }[];
+}
+
+// How a song section shapes the dance (see sectionProfile)
+export interface SectionProfile {
+    pool: EnergyLevel;      // Pool for regular beats
+    hardPool: EnergyLevel;  // Pool for hard hits
+    camera: number;         // Impulse scale for shake / zoom / pan / flash
+    burst: number;          // Multiplier on the stutter chance
+}
+
+export interface ChoreographyOptions {
+    stutterChance: number;      // 0..100, chance that a snare triggers a burst
+    dynamicCamera: boolean;     // Shake / zoom / pan impulses
+    directional: boolean;       // Filter pools by facing (off for TEXT rigs)
+    panLimit: number;           // Max |panX| in stage pixels (narrow formats pan less)
+    random: () => number;       // Seeded PRNG (services/random.ts) so a seed replays the same dance
+}
+
+export type TransitionMode = 'CUT' | 'FLOW';
+export type PoseReason = 'beat' | 'idle' | 'burst';
+
+export interface PoseEvent {
+    type: 'pose';
+    reason: PoseReason;
+    pose: string;
+    previous: string;
+    mode: TransitionMode;
+    duration: number;            // ms
+    direction: 'left' | 'right';
+    confidence: number;          // 0..100, bass strength at the hit
+}
+
+export interface SnareEvent {
+    type: 'snare';
+    burst: boolean;
+}
+
+export interface SectionEvent {
+    type: 'section';
+    section: SectionType | null;
+}
+
+export type ChoreographyEvent = PoseEvent | SnareEvent | SectionEvent;
+
+export interface ChoreographyState {
+    targetPose: string;
+    previousPose: string;
+    transitionStart: number;
+    transitionDuration: number;
+    transitionMode: TransitionMode;
+    lastDirection: 'left' | 'right';
+    lastBeat: number;
+    lastSwitch: number;
+    lastSnare: number;
+    beatCounter: number;          // 0-3, position in the CUT CUT FLOW FLOW pattern
+    burstUntil: number;
+    section: SectionType | null;  // Current song section (grid playback only)
+    camera: { zoom: number, shakeX: number, shakeY: number, panX: number, panY: number, swayPhase: number };
+    fx: { moire: number, tear: number, flash: number, dolly: number };
+}
+
+export interface RenderLayer {
+    pose: string;
+    opacity: number;
+    offsetX: number;              // Flow slide in CSS pixels
+}
+
+export class ChoreographyEngine {
+    state: ChoreographyState;
+    options: ChoreographyOptions;
+    private pools: Record<EnergyLevel, string[]>;
+    private closeups: string[];
+    private directions: Record<string, FrameDirection>;
+    private decks: Record<string, string[]>;
+    private grid: BeatGrid | null;
+    private gridCursor: number;      // Index of the next beat to fire
+    private lastSongTime: number;
+    private restPose: string;
+
+    constructor(frames: ChoreographyFrame[], options: Partial<ChoreographyOptions> = {}) {
+        this.options = {
+            stutterChance: 25,
+            dynamicCamera: true,
+            directional: true,
+            panLimit: 40,
+            random: Math.random,
+            ...options
+        };
+
+        this.pools = { low: [], mid: [], high: [] };
+        this.closeups = [];
+        this.directions = {};
+        this.decks = {};
+        this.grid = null;
+        this.gridCursor = 0;
+        this.lastSongTime = -1;
+
+        frames.forEach(f => {
+            this.directions[f.pose] = f.direction;
+            if (f.type === 'closeup') this.closeups.push(f.pose);
+            else if (this.pools[f.energy]) this.pools[f.energy].push(f.pose);
+        });
+
+        // Fallbacks
+        if (this.pools.low.length === 0 && frames.length > 0 && frames[0].type !== 'closeup') this.pools.low.push(frames[0].pose);
+        if (this.pools.mid.length === 0) this.pools.mid = [...this.pools.low];
+        if (this.pools.high.length === 0) this.pools.high = [...this.pools.mid];
+
+        this.restPose = this.pools.low[0] || (frames[0] && frames[0].pose) || 'base';
+        this.state = this.initialState();
+    }
+
+    private initialState(): ChoreographyState {
+        return {
+            targetPose: this.restPose,
+            previousPose: this.restPose,
+            transitionStart: 0,
+            transitionDuration: 0,
+            transitionMode: 'CUT',
+            lastDirection: 'right',
+            lastBeat: 0,
+            lastSwitch: 0,
+            lastSnare: 0,
+            beatCounter: 0,
+            burstUntil: 0,
+            section: null,
+            camera: { zoom: 1, shakeX: 0, shakeY: 0, panX: 0, panY: 0, swayPhase: 0 },
+            fx: { moire: 0, tear: 0, flash: 0, dolly: 0 }
+        };
+    }
+
+    // Back to the first frame of the performance. With a fresh PRNG of the same seed,
+    // the same audio replays the same decisions.
+    reset(random?: () => number) {
+        if (random) this.options.random = random;
+        this.state = this.initialState();
+        this.decks = {};
+        this.gridCursor = 0;
+        this.lastSongTime = -1;
+    }
+
+    setOptions(options: Partial<ChoreographyOptions>) {
+        this.options = { ...this.options, ...options };
+    }
+
+    setBeatGrid(grid: BeatGrid | null) {
+        this.grid = grid && grid.beats.length > 0 ? grid : null;
+        this.gridCursor = 0;
+        this.lastSongTime = -1;
+    }
+
+    // Beat from the offline grid crossed since the previous update, if any.
+    // Seeking or looping (clock jumps) re-syncs the cursor without firing.
+    private gridBeat(songTime: number): { strength: number, barPosition: number } | null {
+        const grid = this.grid;
+        if (!grid) return null;
+        const beats = grid.beats;
+
+        const jumped = songTime < this.lastSongTime || songTime - this.lastSongTime > 0.5;
+        if (this.lastSongTime < 0 || jumped) {
+            let lo = 0, hi = beats.length;
+            while (lo < hi) { const m = (lo + hi) >> 1; if (beats[m] < songTime) lo = m + 1; else hi = m; }
+            this.gridCursor = lo;
+            this.lastSongTime = songTime;
+            return null;
+        }
+        this.lastSongTime = songTime;
+
+        // Several beats can pass in one long frame; only the latest one counts
+        let hit = -1;
+        while (this.gridCursor < beats.length && beats[this.gridCursor] <= songTime) hit = this.gridCursor++;
+        if (hit < 0) return null;
+
+        // Position inside the bar, counted from the latest downbeat at or before this beat
+        let barPosition = hit % 4;
+        for (let i = grid.downbeats.length - 1; i >= 0; i--) {
+            if (grid.downbeats[i] <= beats[hit] + 0.001) {
+                const start = beats.indexOf(grid.downbeats[i]);
+                if (start >= 0) barPosition = (hit - start) % 4;
+                break;
+            }
+        }
+        return { strength: grid.beatStrength[hit] ?? 0.5, barPosition };
+    }
+
+    private sectionAt(songTime: number): SectionType | null {
+        const sections = this.grid && this.grid.sections;
+        if (!sections) return null;
+        for (let i = 0; i < sections.length; i++) {
+            if (songTime >= sections[i].start && songTime < sections[i].end) return sections[i].type;
+        }
+        return null;
+    }
+
+    // Per-section choreography. Without structure info every beat behaves like before (verse-ish).
+    sectionProfile(section: SectionType | null): SectionProfile {
+        switch (section) {
+            case 'intro':     return { pool: 'low', hardPool: 'mid', camera: 0.4, burst: 0.25 };
+            case 'verse':     return { pool: 'mid', hardPool: 'high', camera: 0.8, burst: 0.7 };
+            case 'build':     return { pool: 'mid', hardPool: 'high', camera: 1.1, burst: 1.5 };
+            case 'drop':      return { pool: 'high', hardPool: 'high', camera: 1.5, burst: 2 };
+            case 'breakdown': return { pool: 'low', hardPool: 'mid', camera: 0.5, burst: 0.3 };
+            case 'outro':     return { pool: 'low', hardPool: 'low', camera: 0.3, burst: 0.1 };
+            default:          return { pool: 'mid', hardPool: 'high', camera: 1, burst: 1 };
+        }
+    }
+
+    // Energy pool with the old fallback chain (high -> mid -> low) for sparse rigs.
+    private energyPool(level: EnergyLevel): string[] {
+        if (level === 'high' && this.pools.high.length > 0) return this.pools.high;
+        if (level !== 'low' && this.pools.mid.length > 0) return this.pools.mid;
+        return this.pools.low.length > 0 ? this.pools.low : this.pools.mid;
+    }
+
+    // Average band levels from an AnalyserNode byte spectrum (fftSize 1024).
+    static bandsFromSpectrum(data: Uint8Array): AudioFeatures {
+        const avg = (from: number, to: number) => {
+            let sum = 0;
+            for (let i = from; i < to; i++) sum += data[i] || 0;
+            return sum / (to - from) / 255;
+        };
+        return { bass: avg(0, 8), mid: avg(15, 60), high: avg(100, 200) };
+    }
+
+    // Synthetic 124 BPM kick/snare pattern for rigs previewed without a track.
+    static metronome(seconds: number): AudioFeatures {
+        const beatDur = 60 / 124;
+        const beatPos = (seconds % beatDur) / beatDur;
+        return {
+            bass: Math.pow(Math.max(0, 1 - beatPos * 4), 3),
+            mid: (seconds % (beatDur * 2) > beatDur) && (beatPos < 0.2) ? 0.6 : 0,
+            high: 0.05 + 0.05 * Math.sin(seconds * 37.0)
+        };
+    }
+
+    // Advance the brain. `now` is in ms, `dt` in seconds (clamped by the caller).
+    // `songTime` (seconds into the track) enables the offline beat grid.
+    update(now: number, dt: number, audio: AudioFeatures, playing: boolean, songTime?: number): ChoreographyEvent[] {
+        const s = this.state;
+        const rnd = this.options.random;
+        const events: ChoreographyEvent[] = [];
+        const { bass, mid } = audio;
+        const isBurst = now < s.burstUntil;
+
+        // GATING
+        const poseLockTime = isBurst ? 60 : 150;
+        const canSwitch = (now - s.lastSwitch) > poseLockTime;
+
+        // Beat source: offline grid when synced to the track, else the live reactivity threshold
+        const useGrid = playing && this.grid !== null && songTime !== undefined;
+        const gridHit = useGrid ? this.gridBeat(songTime as number) : null;
+        const isBeatHit = (useGrid ? gridHit !== null : bass > 0.35) && canSwitch;
+        const hitStrength = gridHit ? gridHit.strength : bass;
+
+        // Song structure
+        const section = useGrid ? this.sectionAt(songTime as number) : null;
+        if (section !== s.section) {
+            s.section = section;
+            events.push({ type: 'section', section });
+        }
+        const profile = this.sectionProfile(section);
+
+        // Detect Snare (Mids) for Scanlines
+        const isSnare = mid > 0.6;
+
+        if (playing) {
+            // A. Standard Beat Hit
+            if (isBeatHit) {
+                s.lastBeat = now;
+                s.lastSwitch = now;
+
+                // PATTERN ENGINE: Beats 0, 1 = CUT. Beats 2, 3 = FLOW. The grid knows the real bar position.
+                s.beatCounter = gridHit ? gridHit.barPosition : (s.beatCounter + 1) % 4;
+                const isPatternCut = s.beatCounter < 2;
+                const isHardHit = hitStrength > 0.8;
+
+                // Ping-Pong Direction Logic
+                let nextDir: 'left' | 'right' = s.lastDirection === 'left' ? 'right' : 'left';
+                if (rnd() < 0.3) nextDir = s.lastDirection;
+
+                // Pool Selection
+                let poolKey: string;
+                let pool: string[];
+                if ((mid > 0.6 || audio.high > 0.6) && this.closeups.length > 0 && rnd() > 0.5) {
+                    poolKey = 'closeup';
+                    pool = this.closeups;
+                } else {
+                    poolKey = isHardHit ? profile.hardPool : profile.pool;
+                    pool = this.energyPool(poolKey as EnergyLevel);
+                }
+
+                const nextPose = this.draw(poolKey, pool, nextDir);
+                if (nextPose && nextPose !== s.targetPose) {
+                    const mode: TransitionMode = (isHardHit || isPatternCut) ? 'CUT' : 'FLOW';
+                    this.startTransition(now, nextPose, mode, mode === 'CUT' ? 0 : 240);
+                    s.lastDirection = nextDir;
+                    events.push({
+                        type: 'pose', reason: 'beat', pose: nextPose, previous: s.previousPose,
+                        mode, duration: s.transitionDuration, direction: nextDir, confidence: Math.round(hitStrength * 100)
+                    });
+                }
+
+                // Physics Impulse: cuts shake, flows glide
+                if (this.options.dynamicCamera) {
+                    const aggression = profile.camera;
+                    const shakeAmt = (isHardHit ? 15 : 5) * aggression;
+                    if (s.transitionMode === 'CUT') {
+                        s.camera.shakeX = (rnd() - 0.5) * shakeAmt;
+                        s.camera.shakeY = (rnd() - 0.5) * shakeAmt;
+                        s.camera.zoom = 1 + (isHardHit ? 0.15 : 0.05) * aggression;
+                    } else {
+                        s.camera.panX += (nextDir === 'left' ? -20 : 20) * aggression;
+                    }
+                    if (isHardHit) s.fx.flash = Math.min(1, 0.8 * aggression);
+                }
+            }
+            // B. Ambient / Idle Fallback
+            else if (now - s.lastBeat > 1500 && canSwitch && now - s.lastSwitch > 1000) {
+                s.lastSwitch = now;
+                const nextPose = this.draw('low', this.pools.low, null);
+                if (nextPose && nextPose !== s.targetPose) {
+                    this.startTransition(now, nextPose, 'FLOW', 800); // Super slow morph
+                    events.push({
+                        type: 'pose', reason: 'idle', pose: nextPose, previous: s.previousPose,
+                        mode: 'FLOW', duration: 800, direction: s.lastDirection, confidence: 0
+                    });
+                }
+            }
+
+            // C. Snare Logic (Reactive Scanlines)
+            if (isSnare && now - s.lastSnare > 800) {
+                s.lastSnare = now;
+                s.fx.moire = 1.2;
+                s.fx.dolly = 0.5;
+                const burst = rnd() * 100 < this.options.stutterChance * profile.burst;
+                if (burst) s.burstUntil = now + 400;
+                events.push({ type: 'snare', burst });
+            }
+
+            // D. Burst: rapid hard cuts through the high pool
+            if (isBurst && canSwitch) {
+                s.lastSwitch = now;
+                const nextPose = this.draw('high', this.energyPool('high'), null);
+                if (nextPose) {
+                    const changed = nextPose !== s.targetPose;
+                    s.targetPose = nextPose;
+                    s.previousPose = nextPose;
+                    s.transitionMode = 'CUT';
+                    s.transitionDuration = 0;
+                    if (changed) events.push({
+                        type: 'pose', reason: 'burst', pose: nextPose, previous: nextPose,
+                        mode: 'CUT', duration: 0, direction: s.lastDirection, confidence: Math.round(bass * 100)
+                    });
+                }
+            }
+        }
+
+        this.stepPhysics(dt, audio, playing);
+        return events;
+    }
+
+    // Poses to draw this frame, back to front.
+    layers(now: number): RenderLayer[] {
+        const s = this.state;
+        const progress = s.transitionDuration > 0 ? Math.min(1, (now - s.transitionStart) / s.transitionDuration) : 1;
+        if (progress >= 1) return [{ pose: s.targetPose, opacity: 1, offsetX: 0 }];
+
+        if (s.transitionMode === 'FLOW') {
+            // Optical flow simulation: smoothstep crossfade + directional slide
+            const ease = progress * progress * (3 - 2 * progress);
+            const flowDir = s.lastDirection === 'left' ? -1 : 1;
+            const slideDist = 40;
+            return [
+                { pose: s.previousPose, opacity: 1 - ease, offsetX: slideDist * ease * flowDir },
+                { pose: s.targetPose, opacity: ease, offsetX: -slideDist * (1 - ease) * flowDir }
+            ];
+        }
+        return [
+            { pose: s.previousPose, opacity: 1 - progress, offsetX: 0 },
+            { pose: s.targetPose, opacity: progress, offsetX: 0 }
+        ];
+    }
+
+    // Combined camera + snare dolly zoom applied to the character layer.
+    zoom(): number {
+        return this.state.camera.zoom * (1 + this.state.fx.dolly * 0.2);
+    }
+
+    private startTransition(now: number, pose: string, mode: TransitionMode, duration: number) {
+        const s = this.state;
+        s.previousPose = s.targetPose;
+        s.targetPose = pose;
+        s.transitionStart = now;
+        s.transitionMode = mode;
+        s.transitionDuration = duration;
+    }
+
+    // Shuffle-deck draw: every pose in the (direction-filtered) pool plays once before any repeats.
+    private draw(poolKey: string, pool: string[], dir: 'left' | 'right' | null): string | null {
+        if (pool.length === 0) return null;
+        const dirPool = (dir && this.options.directional) ? pool.filter(p => this.directions[p] === dir) : [];
+        const active = dirPool.length > 0 ? dirPool : pool;
+        const deckKey = poolKey + '_' + (dirPool.length > 0 ? dir : 'any');
+
+        let deck = this.decks[deckKey];
+        if (!deck || deck.length === 0) {
+            deck = [...active];
+            for (let i = deck.length - 1; i > 0; i--) {
+                const j = Math.floor(this.options.random() * (i + 1));
+                [deck[i], deck[j]] = [deck[j], deck[i]];
+            }
+            // Avoid drawing the pose that is already on screen when a fresh deck starts
+            if (deck.length > 1 && deck[deck.length - 1] === this.state.targetPose) {
+                [deck[0], deck[deck.length - 1]] = [deck[deck.length - 1], deck[0]];
+            }
+            this.decks[deckKey] = deck;
+        }
+        return deck.pop() || null;
+    }
+
+    private stepPhysics(dt: number, audio: AudioFeatures, playing: boolean) {
+        const s = this.state;
+        const cam = s.camera;
+        const lerpSpeed = 6 * dt;
+
+        if (this.options.dynamicCamera) {
+            // Sway Logic (Stillness)
+            cam.swayPhase += dt * 0.5;
+            const sway = Math.sin(cam.swayPhase) * 5;
+            const energyInfluence = Math.min(1, audio.bass * 2);
+
+            // Target pan incorporates the sway AND any flow-based velocity
+            const targetPanX = sway * (1 - energyInfluence);
+            cam.panX += (targetPanX - cam.panX) * lerpSpeed;
+
+            // Decay Impulses
+            cam.shakeX *= (1 - lerpSpeed * 2);
+            cam.shakeY *= (1 - lerpSpeed * 2);
+
+            // Zoom Return: FLOW holds the zoom slightly ("breathing")
+            const targetZoom = (s.transitionMode === 'FLOW' && playing) ? 1.05 : 1.0;
+            cam.zoom += (targetZoom - cam.zoom) * (lerpSpeed * 0.5);
+        } else {
+            cam.shakeX *= 0.9;
+            cam.shakeY *= 0.9;
+            cam.zoom += (1.0 - cam.zoom) * 0.1;
+            cam.panX *= 0.9;
+        }
+        cam.panX = Math.max(-this.options.panLimit, Math.min(this.options.panLimit, cam.panX));
+
+        // Effects Decay
+        s.fx.tear *= 0.8;
+        s.fx.moire *= 0.85;
+        s.fx.flash *= 0.85;
+        s.fx.dolly *= Math.exp(-3 * dt);
+    }
+}
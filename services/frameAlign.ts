@@ -0,0 +1,125 @@
+import { FrameAnchor, FrameBox, FrameType, GeneratedFrame } from "../types";
+import { PixelBuffer, estimateBackground } from "./spriteSlicer";
+
+// --- FRAME REGISTRATION ---
+// The model places subjects at slightly different offsets inside each cell, so drawing
+// every frame centered makes the feet and head jump between poses. We measure the subject
+// in each frame and store an anchor (ground contact point for bodies, center of mass for
+// closeups). Renderers then pin that anchor to one shared reference point.
+
+export interface SubjectMetrics {
+    bounds: FrameBox;              // Normalized 0-1 bounding box of the subject
+    centerOfMass: { x: number, y: number }; // Normalized
+    groundLine: number;            // Normalized y of the lowest solid row
+}
+
+// Ignore stray specks: the ground line is where 99.5% of the subject mass sits above.
+const GROUND_MASS = 0.995;
+
+export const measureSubject = (px: PixelBuffer, tolerance: number = 24): SubjectMetrics | null => {
+    const { data, width, height } = px;
+
+    // Matted frames carry alpha; plain frames are keyed against the border color
+    let hasAlpha = false;
+    for (let i = 3; i < data.length; i += 4 * 7) { if (data[i] < 250) { hasAlpha = true; break; } }
+    const bg = estimateBackground(px);
+
+    let minX = width, minY = height, maxX = -1, maxY = -1;
+    let mass = 0, sumX = 0, sumY = 0;
+    const rowMass = new Float64Array(height);
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            let weight: number;
+            if (hasAlpha) {
+                weight = data[i + 3] / 255;
+            } else {
+                const diff = Math.max(Math.abs(data[i] - bg[0]), Math.abs(data[i + 1] - bg[1]), Math.abs(data[i + 2] - bg[2]));
+                weight = diff > tolerance ? 1 : 0;
+            }
+            if (weight < 0.1) continue;
+
+            mass += weight;
+            sumX += x * weight;
+            sumY += y * weight;
+            rowMass[y] += weight;
+            if (x < minX) minX = x;
+            if (x > maxX) maxX = x;
+            if (y < minY) minY = y;
+            if (y > maxY) maxY = y;
+        }
+    }
+
+    if (mass === 0 || maxX < 0) return null;
+
+    let acc = 0;
+    let ground = maxY;
+    for (let y = 0; y < height; y++) {
+        acc += rowMass[y];
+        if (acc >= mass * GROUND_MASS) { ground = y; break; }
+    }
+
+    return {
+        bounds: { x: minX / width, y: minY / height, w: (maxX - minX + 1) / width, h: (maxY - minY + 1) / height },
+        centerOfMass: { x: sumX / mass / width, y: sumY / mass / height },
+        groundLine: (ground + 1) / height
+    };
+};
+
+export const anchorFromMetrics = (metrics: SubjectMetrics, type: FrameType = 'body'): FrameAnchor => {
+    if (type === 'closeup') return { x: metrics.centerOfMass.x, y: metrics.centerOfMass.y };
+    return { x: metrics.centerOfMass.x, y: metrics.groundLine };
+};
+
+export const mirrorAnchor = (anchor: FrameAnchor): FrameAnchor => ({ x: 1 - anchor.x, y: anchor.y });
+
+export const mirrorBounds = (bounds: FrameBox): FrameBox => ({ ...bounds, x: 1 - bounds.x - bounds.w });
+
+export const measureFrame = (dataUrl: string): Promise<SubjectMetrics | null> => {
+    return new Promise((resolve) => {
+        const img = new Image();
+        img.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = img.width;
+            canvas.height = img.height;
+            const ctx = canvas.getContext('2d', { willReadFrequently: true });
+            if (!ctx) { resolve(null); return; }
+            ctx.drawImage(img, 0, 0);
+            resolve(measureSubject(ctx.getImageData(0, 0, canvas.width, canvas.height)));
+        };
+        img.onerror = () => resolve(null);
+        img.src = dataUrl;
+    });
+};
+
+// Alignment pass for frames that were generated or imported without an anchor.
+export const alignFrames = async (frames: GeneratedFrame[]): Promise<GeneratedFrame[]> => {
+    return Promise.all(frames.map(async f => {
+        if (f.anchor) return f;
+        const metrics = await measureFrame(f.url);
+        if (!metrics) return f;
+        return { ...f, anchor: anchorFromMetrics(metrics, f.type), subjectBounds: metrics.bounds };
+    }));
+};
+
+// --- RENDER HELPER ---
+// NOTE: Serialized with toString() into the exported player,
+// so it must stay self-contained (no references to other module symbols).
+
+// Median anchor per frame type; frames are pinned to this point so the rig stays where the model put it on average.
+export const computeReferenceAnchors = (frames: { anchor?: { x: number, y: number }, type?: string }[]) => {
+    const median = (values: number[], fallback: number) => {
+        if (values.length === 0) return fallback;
+        const sorted = [...values].sort((a, b) => a - b);
+        return sorted[Math.floor(sorted.length / 2)];
+    };
+    const pick = (type: string) => {
+        const anchored = frames.filter(f => f.anchor && (f.type || 'body') === type);
+        return {
+            x: median(anchored.map(f => f.anchor!.x), 0.5),
+            y: median(anchored.map(f => f.anchor!.y), type === 'closeup' ? 0.5 : 0.9)
+        };
+    };
+    return { body: pick('body'), closeup: pick('closeup') };
+};
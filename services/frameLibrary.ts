@@ -0,0 +1,232 @@
+import { GeneratedFrame, FrameDirection, SheetRole } from "../types";
+import { mirrorAnchor, mirrorBounds } from "./frameAlign";
+
+// --- FRAME LIBRARY OPERATIONS ---
+// Pure-ish helpers that edit the frame list. Pose names are the keys used by the
+// renderers and choreography pools, so every operation keeps them unique and stable.
+
+// --- MIRROR UTILITY ---
+export const mirrorFrame = (dataUrl: string): Promise<string> => {
+    return new Promise((resolve) => {
+        const img = new Image();
+        img.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = img.width;
+            canvas.height = img.height;
+            const ctx = canvas.getContext('2d');
+            if (ctx) {
+                ctx.translate(canvas.width, 0);
+                ctx.scale(-1, 1);
+                ctx.drawImage(img, 0, 0);
+                // Keep the alpha channel of matted frames (PNG/WebP); plain sheets stay JPEG
+                const mime = dataUrl.match(/^data:(image\/[a-z]+);/)?.[1] || 'image/jpeg';
+                resolve(canvas.toDataURL(mime === 'image/jpeg' ? 'image/jpeg' : mime, mime === 'image/jpeg' ? 0.8 : 0.92));
+            } else {
+                resolve(dataUrl);
+            }
+        };
+        img.src = dataUrl;
+    });
+};
+
+// Builds a 4x4 contact sheet from existing frames. Used as the style reference when the
+// original base sheet is not available (e.g. rigs imported from older project files).
+export const composeReferenceSheet = (frames: GeneratedFrame[], size: number = 1024): Promise<string> => {
+    const sources = frames.filter(f => !f.mirrorOf && f.type !== 'closeup').slice(0, 16);
+    const cell = size / 4;
+
+    return new Promise((resolve, reject) => {
+        const canvas = document.createElement('canvas');
+        canvas.width = size;
+        canvas.height = size;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) { reject(new Error("Canvas context failed")); return; }
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, size, size);
+
+        let pending = sources.length;
+        if (pending === 0) { resolve(canvas.toDataURL('image/jpeg', 0.9)); return; }
+
+        sources.forEach((f, i) => {
+            const img = new Image();
+            const done = () => {
+                pending--;
+                if (pending === 0) resolve(canvas.toDataURL('image/jpeg', 0.9));
+            };
+            img.onload = () => {
+                const scale = Math.min(cell / img.width, cell / img.height);
+                const w = img.width * scale;
+                const h = img.height * scale;
+                ctx.drawImage(img, (i % 4) * cell + (cell - w) / 2, Math.floor(i / 4) * cell + (cell - h) / 2, w, h);
+                done();
+            };
+            img.onerror = done;
+            img.src = f.url;
+        });
+    });
+};
+
+// --- DIRECTION ---
+// Explicit direction wins; older frames only encode it in the pose name.
+// NOTE: Serialized into the exported player with toString(), keep it self-contained.
+export const frameDirection = (frame: Pick<GeneratedFrame, 'pose' | 'direction'>): FrameDirection => {
+    if (frame.direction) return frame.direction;
+    const name = frame.pose.toLowerCase();
+    if (name.includes('left')) return 'left';
+    if (name.includes('right')) return 'right';
+    return 'neutral';
+};
+
+const flipDirection = (direction: FrameDirection): FrameDirection =>
+    direction === 'left' ? 'right' : direction === 'right' ? 'left' : 'neutral';
+
+// --- NAMING ---
+export const uniquePoseName = (frames: GeneratedFrame[], base: string): string => {
+    const taken = new Set(frames.map(f => f.pose));
+    if (!taken.has(base)) return base;
+    let n = 2;
+    while (taken.has(`${base}_${n}`)) n++;
+    return `${base}_${n}`;
+};
+
+// --- EDITING ---
+export type FramePatch = Partial<Pick<GeneratedFrame, 'energy' | 'type' | 'direction'>>;
+
+export const updateFrame = (frames: GeneratedFrame[], pose: string, patch: FramePatch): GeneratedFrame[] =>
+    frames.map(f => f.pose === pose ? { ...f, ...patch } : f);
+
+// Returns null when the new name is empty or already used by another frame.
+export const renameFrame = (frames: GeneratedFrame[], pose: string, newName: string): GeneratedFrame[] | null => {
+    const name = newName.trim();
+    if (!name) return null;
+    if (name === pose) return frames;
+    if (frames.some(f => f.pose === name)) return null;
+    return frames.map(f => {
+        if (f.pose === pose) return { ...f, pose: name, direction: frameDirection(f) };
+        if (f.mirrorOf === pose) return { ...f, mirrorOf: name };
+        return f;
+    });
+};
+
+// Mirrors of a deleted frame stay in the library as independent frames.
+export const deleteFrame = (frames: GeneratedFrame[], pose: string): GeneratedFrame[] =>
+    frames
+        .filter(f => f.pose !== pose)
+        .map(f => {
+            if (f.mirrorOf !== pose) return f;
+            const { mirrorOf, ...rest } = f;
+            return { ...rest, direction: frameDirection(f) };
+        });
+
+export const duplicateFrame = (frames: GeneratedFrame[], pose: string): GeneratedFrame[] => {
+    const idx = frames.findIndex(f => f.pose === pose);
+    if (idx < 0) return frames;
+    const source = frames[idx];
+    const { mirrorOf, ...rest } = source;
+    const copy: GeneratedFrame = { ...rest, pose: uniquePoseName(frames, `${source.pose}_copy`), direction: frameDirection(source) };
+    return [...frames.slice(0, idx + 1), copy, ...frames.slice(idx + 1)];
+};
+
+export const addMirroredFrame = async (frames: GeneratedFrame[], pose: string): Promise<GeneratedFrame[]> => {
+    const idx = frames.findIndex(f => f.pose === pose);
+    if (idx < 0) return frames;
+    const source = frames[idx];
+    const direction = flipDirection(frameDirection(source));
+    const mirrored: GeneratedFrame = {
+        ...source,
+        url: await mirrorFrame(source.url),
+        pose: uniquePoseName(frames, `${source.pose}_mirror`),
+        mirrorOf: source.pose,
+        direction,
+        anchor: source.anchor && mirrorAnchor(source.anchor),
+        subjectBounds: source.subjectBounds && mirrorBounds(source.subjectBounds)
+    };
+    return [...frames.slice(0, idx + 1), mirrored, ...frames.slice(idx + 1)];
+};
+
+// --- REPLACEMENT ---
+
+export interface FrameReplacement {
+    targetPose: string;          // Rejected frame (keeps its name and metadata)
+    candidate: GeneratedFrame;   // Freshly generated cell providing the pixels
+}
+
+// Default pairing: same energy and facing first, then anything still unused.
+export const suggestAssignments = (targets: GeneratedFrame[], candidates: GeneratedFrame[]): Record<string, number> => {
+    const used = new Set<number>();
+    const result: Record<string, number> = {};
+    const claim = (target: GeneratedFrame, match: (c: GeneratedFrame) => boolean) => {
+        const idx = candidates.findIndex((c, i) => !used.has(i) && match(c));
+        if (idx >= 0) { used.add(idx); result[target.pose] = idx; }
+        return idx >= 0;
+    };
+    targets.forEach(t => {
+        claim(t, c => c.energy === t.energy && frameDirection(c) === frameDirection(t)) ||
+        claim(t, c => c.energy === t.energy) ||
+        claim(t, () => true);
+    });
+    return result;
+};
+
+export const applyReplacements = async (frames: GeneratedFrame[], replacements: FrameReplacement[]): Promise<GeneratedFrame[]> => {
+    const byTarget = new Map(replacements.map(r => [r.targetPose, r.candidate]));
+    const next: GeneratedFrame[] = [];
+
+    for (const frame of frames) {
+        const candidate = byTarget.get(frame.pose);
+        if (candidate) {
+            // Pixels + geometry from the candidate, identity + choreography metadata from the original
+            const { mirrorOf, ...rest } = frame;
+            next.push({
+                ...rest,
+                url: candidate.url,
+                anchor: candidate.anchor,
+                subjectBounds: candidate.subjectBounds,
+                sourceBox: candidate.sourceBox,
+                gridConfidence: candidate.gridConfidence,
+                provider: candidate.provider
+            });
+            continue;
+        }
+
+        // Mirrors of a replaced source frame follow their source
+        const source = frame.mirrorOf ? byTarget.get(frame.mirrorOf) : undefined;
+        if (source) {
+            next.push({
+                ...frame,
+                url: await mirrorFrame(source.url),
+                anchor: source.anchor && mirrorAnchor(source.anchor),
+                subjectBounds: source.subjectBounds && mirrorBounds(source.subjectBounds),
+                sourceBox: source.sourceBox,
+                gridConfidence: source.gridConfidence,
+                provider: source.provider
+            });
+            continue;
+        }
+
+        next.push(frame);
+    }
+    return next;
+};
+
+// --- RE-SLICE ---
+// Frames cut from one sheet are swapped as a group: the new cells go where the first frame
+// of that role was. Frames without a role (old projects) belong to the 'base' sheet.
+export const replaceSheetFrames = (frames: GeneratedFrame[], role: SheetRole, sliced: GeneratedFrame[]): GeneratedFrame[] => {
+    const isRole = (f: GeneratedFrame) => (f.role || 'base') === role;
+    const first = frames.findIndex(isRole);
+    const kept = frames.filter(f => !isRole(f));
+    const insertAt = first < 0 ? kept.length : frames.slice(0, first).filter(f => !isRole(f)).length;
+
+    // Hand-renamed frames of other sheets may already use a generated name
+    const renamed = new Map<string, string>();
+    const fresh: GeneratedFrame[] = [];
+    sliced.forEach(f => {
+        const pose = uniquePoseName([...kept, ...fresh], f.pose);
+        if (pose !== f.pose) renamed.set(f.pose, pose);
+        fresh.push({ ...f, pose });
+    });
+    const linked = fresh.map(f => f.mirrorOf && renamed.has(f.mirrorOf) ? { ...f, mirrorOf: renamed.get(f.mirrorOf) } : f);
+
+    return [...kept.slice(0, insertAt), ...linked, ...kept.slice(insertAt)];
+};
@@ -1,5 +1,10 @@
-import { GoogleGenAI } from "@google/genai";
-import { GeneratedFrame, PoseType, EnergyLevel, SubjectCategory, FrameType, SheetRole } from "../types";
+import { GeneratedFrame, PoseType, EnergyLevel, SubjectCategory, FrameType, SheetRole, SpriteProviderId, SpriteSheets, FrameDirection, SheetGrid } from "../types";
+import { SpriteSheetProvider, createSpriteProvider } from "./spriteProviders";
+import { sliceSpriteSheet, sliceSheetWithGrid, SliceResult } from "./spriteSlicer";
+import { matteFrame } from "./matting";
+import { measureFrame, anchorFromMetrics, mirrorAnchor, mirrorBounds } from "./frameAlign";
+import { mirrorFrame, composeReferenceSheet } from "./frameLibrary";
+import { mulberry32, deriveSeed } from "./random";
 
 // Use environment variable. Fallback for dev.
 const API_KEY = process.env.API_KEY || '';
@@ -75,74 +80,6 @@ export const fileToGenericBase64 = async (file: File): Promise<string> => {
   catch (e) { return await fileToBase64(file); }
 };
 
-// --- DETERMINISTIC SLICER (PURE MATH) ---
-const sliceSpriteSheet = (base64Image: string, rows: number, cols: number): Promise<string[]> => {
-    return new Promise((resolve, reject) => {
-        const img = new Image();
-        img.onload = () => {
-            // 1. Determine the "Active Square"
-            const size = Math.min(img.width, img.height);
-            const startX = (img.width - size) / 2;
-            const startY = (img.height - size) / 2;
-
-            // 2. Calculate Cell Size
-            const rawCellW = size / cols;
-            const rawCellH = size / rows;
-            
-            // 3. Safety Inset (The "Bleed" Fix)
-            const insetFactor = 0.08; 
-            const insetX = rawCellW * insetFactor;
-            const insetY = rawCellH * insetFactor;
-            const drawW = rawCellW * (1 - 2 * insetFactor);
-            const drawH = rawCellH * (1 - 2 * insetFactor);
-
-            const frames: string[] = [];
-            const canvas = document.createElement('canvas');
-            canvas.width = Math.floor(drawW);
-            canvas.height = Math.floor(drawH);
-            const ctx = canvas.getContext('2d');
-            
-            if(!ctx) { reject("Canvas context failed"); return; }
-
-            for (let r = 0; r < rows; r++) {
-                for (let c = 0; c < cols; c++) {
-                    ctx.clearRect(0, 0, canvas.width, canvas.height);
-                    const sx = startX + (c * rawCellW) + insetX;
-                    const sy = startY + (r * rawCellH) + insetY;
-
-                    ctx.drawImage(img, sx, sy, drawW, drawH, 0, 0, canvas.width, canvas.height);
-                    frames.push(canvas.toDataURL('image/jpeg', 0.95));
-                }
-            }
-            resolve(frames);
-        };
-        img.onerror = reject;
-        img.src = base64Image;
-    });
-};
-
-// --- MIRROR UTILITY ---
-const mirrorFrame = (dataUrl: string): Promise<string> => {
-    return new Promise((resolve) => {
-        const img = new Image();
-        img.onload = () => {
-            const canvas = document.createElement('canvas');
-            canvas.width = img.width;
-            canvas.height = img.height;
-            const ctx = canvas.getContext('2d');
-            if (ctx) {
-                ctx.translate(canvas.width, 0);
-                ctx.scale(-1, 1);
-                ctx.drawImage(img, 0, 0);
-                resolve(canvas.toDataURL('image/jpeg', 0.8));
-            } else {
-                resolve(dataUrl);
-            }
-        };
-        img.src = dataUrl;
-    });
-};
-
 // --- PROMPT ENGINEERING ---
 const constructDynamicPrompt = (
     category: SubjectCategory, 
@@ -218,16 +155,105 @@ const constructDynamicPrompt = (
     return `${arch}\n${choreography}\n${style}\n${roleInstruction}`;
 };
 
+// --- SLICE -> FRAMES ---
+// Cells become frames: energy / direction from the row of the 4-row plan, matte, registration
+// and mirrored twins for the side-stepping rows. Shared by generation and manual re-slicing.
+const framesFromSlice = async (
+    slice: SliceResult,
+    role: SheetRole,
+    category: SubjectCategory,
+    provider: SpriteProviderId,
+    options: GenerationOptions
+): Promise<GeneratedFrame[]> => {
+    const rows = 4;
+    // Parallel Frame Processing (Metadata + Mirroring)
+    const processPromises = slice.frames.map(async (slicedData, i) => {
+         const results: GeneratedFrame[] = [];
+         // Background removal (white-key -> transparent PNG/WebP)
+         const frameData = options.matteTolerance !== undefined
+             ? await matteFrame(slicedData, { tolerance: options.matteTolerance })
+             : slicedData;
+         let energy: EnergyLevel = 'mid';
+         let type: FrameType = 'body';
+         const sourceBox = slice.boxes[i];
+         // Map detected rows back onto the 4-row plan when the model drifted off-grid
+         const row = Math.min(rows - 1, Math.floor(Math.floor(i / slice.cols) * rows / slice.rows)); 
+
+         if (row === 0) energy = 'low';      
+         else if (row === 1) energy = 'mid'; 
+         else if (row === 2) energy = 'mid'; 
+         else if (row === 3) {
+             energy = 'high'; 
+             // Per-cell stream: cells finish processing in any order
+             const roll = options.seed !== undefined ? mulberry32(deriveSeed(options.seed, role, i))() : Math.random();
+             if (category === 'CHARACTER' && roll > 0.6) type = 'closeup';
+         }
+
+         let poseName = `${role}_${i}`;
+         let direction: FrameDirection = 'neutral';
+         if (category === 'CHARACTER') {
+             if (row === 1) { poseName += '_left'; direction = 'left'; }
+             if (row === 2) { poseName += '_right'; direction = 'right'; }
+         }
+
+         // Registration (anchor = ground contact / center of mass)
+         const metrics = await measureFrame(frameData);
+         const anchor = metrics ? anchorFromMetrics(metrics, type) : undefined;
+         const subjectBounds = metrics?.bounds;
+
+         results.push({
+             url: frameData,
+             pose: poseName,
+             energy,
+             type,
+             direction,
+             role,
+             provider,
+             sourceBox,
+             gridConfidence: slice.confidence,
+             anchor,
+             subjectBounds
+         });
+         
+         // Mirroring Logic
+         if (category === 'CHARACTER' && type === 'body') {
+             if (row === 1 || row === 2) {
+                 const mirrored = await mirrorFrame(frameData);
+                 const mirrorSuffix = poseName.includes('left') ? 'right_mirror' : 'left_mirror';
+                 results.push({
+                    url: mirrored,
+                    pose: poseName.replace(/left|right/, mirrorSuffix), 
+                    mirrorOf: poseName,
+                    energy,
+                    type,
+                    direction: direction === 'left' ? 'right' : 'left',
+                    role,
+                    provider,
+                    sourceBox,
+                    gridConfidence: slice.confidence,
+                    anchor: anchor && mirrorAnchor(anchor),
+                    subjectBounds: subjectBounds && mirrorBounds(subjectBounds)
+                 });
+             }
+         }
+         return results;
+    });
+
+    const nestedFrames = await Promise.all(processPromises);
+    return nestedFrames.flat();
+};
+
 // --- GENERATION UNIT ---
 const generateSingleSheet = async (
-    ai: GoogleGenAI,
+    provider: SpriteSheetProvider,
     role: SheetRole,
     imageBase64: string,
     stylePrompt: string,
     motionPrompt: string,
     category: SubjectCategory,
+    options: GenerationOptions,
     styleReferenceBase64?: string
-): Promise<{ frames: GeneratedFrame[], sheetBase64?: string }> => {
+): Promise<{ frames: GeneratedFrame[], sheetUrl?: string }> => {
     
     const rows = 4;
     const cols = 4;
@@ -248,105 +274,44 @@ const generateSingleSheet = async (
         `;
     }
 
-    console.log(`[Gemini] Planning ${role} sheet for ${category}...`);
+    console.log(`[${provider.id}] Planning ${role} sheet for ${category}...`);
 
     try {
-        const parts: any[] = [
-            { text: systemPrompt },
-            { inlineData: { mimeType: 'image/jpeg', data: imageBase64.split(',')[1] } }
-        ];
-
-        if (styleReferenceBase64) {
-            const cleanRef = styleReferenceBase64.includes(',') ? styleReferenceBase64.split(',')[1] : styleReferenceBase64;
-            parts.push({ inlineData: { mimeType: 'image/jpeg', data: cleanRef } });
-        }
-
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: [
-                { role: 'user', parts: parts }
-            ],
-            config: {
-                imageConfig: { aspectRatio: "1:1" }
-            }
+        const spriteSheetUrl = await provider.generateSheet({
+            identityImage: imageBase64,
+            prompt: systemPrompt,
+            referenceSheet: styleReferenceBase64
         });
 
-        const candidate = response.candidates?.[0];
-        if (!candidate?.content?.parts) throw new Error("No content returned");
-        
-        const part = candidate.content.parts.find(p => p.inlineData?.data);
-        const spriteSheetBase64 = part?.inlineData?.data;
-
-        if (!spriteSheetBase64) throw new Error("No image data in response");
-
-        // Deterministic Slice
-        const rawFrames = await sliceSpriteSheet(`data:image/jpeg;base64,${spriteSheetBase64}`, rows, cols);
+        // Content-Aware Slice (falls back to the fixed grid)
+        const slice = await sliceSpriteSheet(spriteSheetUrl, rows, cols);
         
-        // Parallel Frame Processing (Metadata + Mirroring)
-        const processPromises = rawFrames.map(async (frameData, i) => {
-             const results: GeneratedFrame[] = [];
-             let energy: EnergyLevel = 'mid';
-             let type: FrameType = 'body';
-             const row = Math.floor(i / cols); 
-
-             if (row === 0) energy = 'low';      
-             else if (row === 1) energy = 'mid'; 
-             else if (row === 2) energy = 'mid'; 
-             else if (row === 3) {
-                 energy = 'high'; 
-                 if (category === 'CHARACTER' && Math.random() > 0.6) type = 'closeup';
-             }
-
-             let poseName = `${role}_${i}`;
-             if (category === 'CHARACTER') {
-                 if (row === 1) poseName += '_left';
-                 if (row === 2) poseName += '_right';
-             }
-
-             results.push({
-                 url: frameData,
-                 pose: poseName,
-                 energy,
-                 type,
-                 role
-             });
-             
-             // Mirroring Logic
-             if (category === 'CHARACTER' && type === 'body') {
-                 if (row === 1 || row === 2) {
-                     const mirrored = await mirrorFrame(frameData);
-                     const mirrorSuffix = poseName.includes('left') ? 'right_mirror' : 'left_mirror';
-                     results.push({
-                        url: mirrored,
-                        pose: poseName.replace(/left|right/, mirrorSuffix), 
-                        energy,
-                        type,
-                        role
-                     });
-                 }
-             }
-             return results;
-        });
-
-        const nestedFrames = await Promise.all(processPromises);
-        return { frames: nestedFrames.flat(), sheetBase64: spriteSheetBase64 };
+        const frames = await framesFromSlice(slice, role, category, provider.id, options);
+        return { frames, sheetUrl: spriteSheetUrl };
 
     } catch (e) {
         console.error(`Sheet generation failed (${role}):`, e);
-        return { frames: [], sheetBase64: undefined }; 
+        return { frames: [], sheetUrl: undefined }; 
     }
 };
 
+export interface GenerationOptions {
+    provider?: SpriteProviderId; // Image backend (defaults to Gemini)
+    matteTolerance?: number;     // 0-100. When set, frames get a transparent background
+    seed?: number;               // Makes metadata choices (closeups) reproducible
+}
+
 export const generateDanceFrames = async (
   imageBase64: string,
   stylePrompt: string,
   motionPrompt: string,
   useTurbo: boolean,
   superMode: boolean,
-  explicitCategory?: SubjectCategory
-): Promise<{ frames: GeneratedFrame[], category: SubjectCategory }> => {
+  explicitCategory?: SubjectCategory,
+  options: GenerationOptions = {}
+): Promise<{ frames: GeneratedFrame[], category: SubjectCategory, sheets: SpriteSheets }> => {
 
-  const ai = new GoogleGenAI({ apiKey: API_KEY });
+  const provider = createSpriteProvider(options.provider || 'gemini', API_KEY);
 
   let category: SubjectCategory = 'CHARACTER';
   if (explicitCategory) category = explicitCategory;
@@ -363,30 +328,34 @@ export const generateDanceFrames = async (
 
   // STEP 1: GENERATE BASE SHEET (Source of Truth)
   console.time("BaseGen");
-  const baseResult = await generateSingleSheet(ai, 'base', imageBase64, stylePrompt, motionPrompt, category);
+  const baseResult = await generateSingleSheet(provider, 'base', imageBase64, stylePrompt, motionPrompt, category, options);
   console.timeEnd("BaseGen");
   
   let allFrames = baseResult.frames;
-  if (baseResult.frames.length === 0 || !baseResult.sheetBase64) throw new Error("Base generation failed.");
+  if (baseResult.frames.length === 0 || !baseResult.sheetUrl) throw new Error("Base generation failed.");
 
-  const baseRef = `data:image/jpeg;base64,${baseResult.sheetBase64}`;
-  const expansionPromises: Promise<any>[] = [];
+  const baseRef = baseResult.sheetUrl;
+  const sheets: SpriteSheets = { base: baseRef };
+  const expansionPromises: Promise<{ frames: GeneratedFrame[], sheetUrl?: string }>[] = [];
+  const expansionRoles: SheetRole[] = [];
 
   // STEP 2: EXPANSION
   if (superMode) {
-      console.log("[Gemini] Super Mode: Launching parallel expansion...");
+      console.log(`[${provider.id}] Super Mode: Launching parallel expansion...`);
       expansionPromises.push(
-          generateSingleSheet(ai, 'alt', imageBase64, stylePrompt, motionPrompt, category, baseRef)
+          generateSingleSheet(provider, 'alt', imageBase64, stylePrompt, motionPrompt, category, options, baseRef)
       );
       expansionPromises.push(
-          generateSingleSheet(ai, 'flourish', imageBase64, stylePrompt, motionPrompt, category, baseRef)
+          generateSingleSheet(provider, 'flourish', imageBase64, stylePrompt, motionPrompt, category, options, baseRef)
       );
+      expansionRoles.push('alt', 'flourish');
   } else if (!useTurbo) {
-      console.log("[Gemini] Quality Mode: Queuing sequential expansion...");
+      console.log(`[${provider.id}] Quality Mode: Queuing sequential expansion...`);
       // In this async flow, pushing to promise array after Base is done IS sequential relative to Base.
       expansionPromises.push(
-          generateSingleSheet(ai, 'alt', imageBase64, stylePrompt, motionPrompt, category, baseRef)
+          generateSingleSheet(provider, 'alt', imageBase64, stylePrompt, motionPrompt, category, options, baseRef)
       );
+      expansionRoles.push('alt');
   }
 
   if (expansionPromises.length > 0) {
@@ -394,14 +363,57 @@ export const generateDanceFrames = async (
       const results = await Promise.all(expansionPromises);
       console.timeEnd("ExpansionGen");
       
-      results.forEach(res => {
+      results.forEach((res, i) => {
           if (res.frames.length > 0) {
               allFrames = [...allFrames, ...res.frames];
+              if (res.sheetUrl) sheets[expansionRoles[i]] = res.sheetUrl;
           }
       });
   }
 
   if (allFrames.length === 0) throw new Error("Generation produced no valid frames.");
 
-  return { frames: allFrames, category };
+  return { frames: allFrames, category, sheets };
+};
+
+// --- PER-FRAME REGENERATION ---
+// Generates one new sheet styled after the base sheet and returns its cells as
+// replacement candidates. Mirrors are skipped: they are re-derived when a source frame is replaced.
+export const generateReplacementCandidates = async (
+  imageBase64: string,
+  currentFrames: GeneratedFrame[],
+  stylePrompt: string,
+  motionPrompt: string,
+  category: SubjectCategory,
+  baseSheetUrl?: string,
+  options: GenerationOptions = {}
+): Promise<GeneratedFrame[]> => {
+  const provider = createSpriteProvider(options.provider || 'gemini', API_KEY);
+  const reference = baseSheetUrl || await composeReferenceSheet(currentFrames);
+
+  console.time("ReplacementGen");
+  const result = await generateSingleSheet(provider, 'base', imageBase64, stylePrompt, motionPrompt, category, options, reference);
+  console.timeEnd("ReplacementGen");
+
+  const candidates = result.frames.filter(f => !f.mirrorOf);
+  if (candidates.length === 0) throw new Error("Replacement generation produced no frames.");
+  return candidates;
+};
+
+// --- MANUAL RE-SLICE ---
+// Cuts a stored sheet again with a hand-adjusted grid. No generation call: the sheet is
+// already paid for, only the cell boxes change.
+export const resliceSheet = async (
+  sheetUrl: string,
+  grid: SheetGrid,
+  role: SheetRole,
+  category: SubjectCategory,
+  provider: SpriteProviderId,
+  options: GenerationOptions = {}
+): Promise<GeneratedFrame[]> => {
+  const slice = await sliceSheetWithGrid(sheetUrl, grid);
+  console.log(`[Slicer] Re-slicing ${role} sheet with a manual ${slice.rows}x${slice.cols} grid`);
+  const frames = await framesFromSlice(slice, role, category, provider, options);
+  if (frames.length === 0) throw new Error("The grid produced no frames.");
+  return frames;
 };
@@ -0,0 +1,381 @@
+// --- LOOP ENCODER (worker) ---
+// Animated GIF (median-cut palette, optional dithering, LZW) and animated WebP
+// (per-frame WebP stills re-wrapped into an ANIM/ANMF container). Runs in a Blob
+// worker built from toString() (see loopExport.ts), so the main thread only renders.
+//
+// Protocol (main -> worker):
+//   { type: 'frame', width, height, data: ArrayBuffer }     RGBA, appended in order
+//   { type: 'encode', format, fps, colors, dither, quality, maxBytes }
+// (worker -> main):
+//   { type: 'progress', value }  { type: 'done', bytes, width, height, overTarget }  { type: 'error', message }
+
+export type LoopFormat = 'gif' | 'webp';
+export type DitherMode = 'none' | 'ordered' | 'floyd-steinberg';
+
+export interface LoopEncodeSettings {
+    format: LoopFormat;
+    fps: number;
+    colors: number;          // GIF palette size (2-256)
+    dither: DitherMode;      // GIF only
+    quality: number;         // WebP 0-1
+    maxBytes: number | null; // Size target; the encoder shrinks the loop until it fits
+}
+
+// NOTE: Serialized with toString() into the worker, keep it self-contained.
+export const loopEncoderWorker = () => {
+    interface Frame { width: number, height: number, data: Uint8ClampedArray }
+    const scope = self as unknown as {
+        onmessage: ((e: MessageEvent) => void) | null;
+        postMessage: (message: unknown, transfer?: Transferable[]) => void;
+    };
+    const frames: Frame[] = [];
+
+    // --- PALETTE: median cut over a pixel sample of every frame ---
+    const buildPalette = (source: Frame[], colors: number): Uint8Array => {
+        const total = source.reduce((n, f) => n + f.width * f.height, 0);
+        const stride = Math.max(1, Math.floor(total / 65536)) | 1;
+        const samples: number[] = [];
+        let offset = 0;
+        source.forEach(f => {
+            const pixels = f.width * f.height;
+            for (let p = offset; p < pixels; p += stride) {
+                samples.push(f.data[p * 4], f.data[p * 4 + 1], f.data[p * 4 + 2]);
+            }
+            offset = (offset + pixels) % stride;
+        });
+
+        type Box = { idx: number[], channel: number, range: number };
+        const measure = (idx: number[]): Box => {
+            const min = [255, 255, 255], max = [0, 0, 0];
+            idx.forEach(i => {
+                for (let c = 0; c < 3; c++) {
+                    const v = samples[i * 3 + c];
+                    if (v < min[c]) min[c] = v;
+                    if (v > max[c]) max[c] = v;
+                }
+            });
+            const ranges = [max[0] - min[0], max[1] - min[1], max[2] - min[2]];
+            const channel = ranges.indexOf(Math.max(...ranges));
+            return { idx, channel, range: ranges[channel] };
+        };
+
+        const count = samples.length / 3;
+        const boxes: Box[] = [measure(Array.from({ length: count }, (_, i) => i))];
+        while (boxes.length < colors) {
+            // Split the box with the widest spread, weighted by population
+            let best = -1, score = 0;
+            boxes.forEach((b, i) => {
+                const s = b.range * Math.sqrt(b.idx.length);
+                if (b.idx.length > 1 && s > score) { score = s; best = i; }
+            });
+            if (best < 0) break;
+            const box = boxes[best];
+            const c = box.channel;
+            box.idx.sort((a, b) => samples[a * 3 + c] - samples[b * 3 + c]);
+            const mid = box.idx.length >> 1;
+            boxes.splice(best, 1, measure(box.idx.slice(0, mid)), measure(box.idx.slice(mid)));
+        }
+
+        const palette = new Uint8Array(colors * 3);
+        boxes.forEach((b, i) => {
+            const sum = [0, 0, 0];
+            b.idx.forEach(s => { sum[0] += samples[s * 3]; sum[1] += samples[s * 3 + 1]; sum[2] += samples[s * 3 + 2]; });
+            const n = Math.max(1, b.idx.length);
+            palette[i * 3] = Math.round(sum[0] / n);
+            palette[i * 3 + 1] = Math.round(sum[1] / n);
+            palette[i * 3 + 2] = Math.round(sum[2] / n);
+        });
+        return palette;
+    };
+
+    // Nearest palette entry, cached per 15-bit color
+    const createMapper = (palette: Uint8Array) => {
+        const size = palette.length / 3;
+        const cache = new Int16Array(32768).fill(-1);
+        return (r: number, g: number, b: number): number => {
+            const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+            const hit = cache[key];
+            if (hit >= 0) return hit;
+            const cr = (r & ~7) | 4, cg = (g & ~7) | 4, cb = (b & ~7) | 4;
+            let best = 0, bestDist = Infinity;
+            for (let i = 0; i < size; i++) {
+                const dr = palette[i * 3] - cr, dg = palette[i * 3 + 1] - cg, db = palette[i * 3 + 2] - cb;
+                const d = dr * dr * 2 + dg * dg * 4 + db * db * 3; // Rough perceptual weights
+                if (d < bestDist) { bestDist = d; best = i; }
+            }
+            cache[key] = best;
+            return best;
+        };
+    };
+
+    const BAYER_4 = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5];
+
+    const indexFrame = (frame: Frame, palette: Uint8Array, map: (r: number, g: number, b: number) => number, dither: DitherMode): Uint8Array => {
+        const { width, height, data } = frame;
+        const out = new Uint8Array(width * height);
+        const clamp = (v: number) => v < 0 ? 0 : v > 255 ? 255 : v;
+
+        if (dither === 'floyd-steinberg') {
+            let cur = new Float32Array((width + 2) * 3);
+            let next = new Float32Array((width + 2) * 3);
+            for (let y = 0; y < height; y++) {
+                for (let x = 0; x < width; x++) {
+                    const p = (y * width + x) * 4;
+                    const e = (x + 1) * 3;
+                    const r = clamp(data[p] + cur[e]), g = clamp(data[p + 1] + cur[e + 1]), b = clamp(data[p + 2] + cur[e + 2]);
+                    const idx = map(r, g, b);
+                    out[y * width + x] = idx;
+                    const er = r - palette[idx * 3], eg = g - palette[idx * 3 + 1], eb = b - palette[idx * 3 + 2];
+                    cur[e + 3] += er * 7 / 16; cur[e + 4] += eg * 7 / 16; cur[e + 5] += eb * 7 / 16;
+                    next[e - 3] += er * 3 / 16; next[e - 2] += eg * 3 / 16; next[e - 1] += eb * 3 / 16;
+                    next[e] += er * 5 / 16; next[e + 1] += eg * 5 / 16; next[e + 2] += eb * 5 / 16;
+                    next[e + 3] += er / 16; next[e + 4] += eg / 16; next[e + 5] += eb / 16;
+                }
+                [cur, next] = [next, cur];
+                next.fill(0);
+            }
+            return out;
+        }
+
+        const spread = dither === 'ordered' ? 48 / Math.cbrt(palette.length / 3) : 0;
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const p = (y * width + x) * 4;
+                const t = spread ? (BAYER_4[(y & 3) * 4 + (x & 3)] / 16 - 0.5) * spread : 0;
+                out[y * width + x] = map(clamp(data[p] + t), clamp(data[p + 1] + t), clamp(data[p + 2] + t));
+            }
+        }
+        return out;
+    };
+
+    // --- GIF LZW (variable code size, clear at 4096 codes) ---
+    const lzw = (indices: Uint8Array, minCodeSize: number): Uint8Array => {
+        const bytes: number[] = [];
+        let acc = 0, accBits = 0;
+        const clearCode = 1 << minCodeSize;
+        const eoi = clearCode + 1;
+        let nBits = minCodeSize + 1;
+        let maxCode = (1 << nBits) - 1;
+        let freeEnt = clearCode + 2;
+        let clearFlag = false;
+
+        const HSIZE = 8191;
+        const htab = new Int32Array(HSIZE);
+        const codetab = new Int32Array(HSIZE);
+
+        const output = (code: number) => {
+            acc |= code << accBits;
+            accBits += nBits;
+            while (accBits >= 8) { bytes.push(acc & 0xff); acc >>>= 8; accBits -= 8; }
+            if (clearFlag) {
+                nBits = minCodeSize + 1;
+                maxCode = (1 << nBits) - 1;
+                clearFlag = false;
+            } else if (freeEnt > maxCode) {
+                nBits++;
+                maxCode = nBits === 12 ? 4096 : (1 << nBits) - 1;
+            }
+        };
+        const clearTable = () => {
+            htab.fill(0);
+            freeEnt = clearCode + 2;
+            clearFlag = true;
+            output(clearCode);
+        };
+
+        output(clearCode);
+        let ent = indices[0];
+        for (let i = 1; i < indices.length; i++) {
+            const c = indices[i];
+            const key = (c << 12) | ent;
+            let h = key % HSIZE;
+            let found = -1;
+            while (htab[h] !== 0) {
+                if (htab[h] === key + 1) { found = codetab[h]; break; }
+                h = (h + 1) % HSIZE;
+            }
+            if (found >= 0) { ent = found; continue; }
+            output(ent);
+            ent = c;
+            if (freeEnt < 4096) {
+                htab[h] = key + 1;
+                codetab[h] = freeEnt++;
+            } else {
+                clearTable();
+            }
+        }
+        output(ent);
+        output(eoi);
+        if (accBits > 0) bytes.push(acc & 0xff);
+
+        // Sub-blocks of at most 255 bytes
+        const blocks = new Uint8Array(bytes.length + Math.ceil(bytes.length / 255) + 1);
+        let o = 0;
+        for (let i = 0; i < bytes.length; i += 255) {
+            const n = Math.min(255, bytes.length - i);
+            blocks[o++] = n;
+            for (let j = 0; j < n; j++) blocks[o++] = bytes[i + j];
+        }
+        blocks[o++] = 0;
+        return blocks.subarray(0, o);
+    };
+
+    const encodeGif = (source: Frame[], fps: number, colors: number, dither: DitherMode, onFrame: (i: number) => void): Uint8Array => {
+        const { width, height } = source[0];
+        let bits = 1;
+        while ((1 << bits) < colors) bits++;
+        const tableSize = 1 << bits;
+        const palette = new Uint8Array(tableSize * 3);
+        palette.set(buildPalette(source, Math.min(colors, tableSize)));
+        const map = createMapper(palette.subarray(0, Math.min(colors, tableSize) * 3));
+
+        const parts: Uint8Array[] = [];
+        const u16 = (v: number) => [v & 0xff, (v >> 8) & 0xff];
+        parts.push(new Uint8Array([
+            0x47, 0x49, 0x46, 0x38, 0x39, 0x61, // GIF89a
+            ...u16(width), ...u16(height),
+            0xf0 | (bits - 1), 0, 0
+        ]));
+        parts.push(palette);
+        // NETSCAPE2.0: loop forever
+        parts.push(new Uint8Array([0x21, 0xff, 0x0b, ...Array.from('NETSCAPE2.0', ch => ch.charCodeAt(0)), 0x03, 0x01, 0, 0, 0]));
+
+        const minCodeSize = Math.max(2, bits);
+        source.forEach((frame, i) => {
+            // Centisecond delays, accumulated so the loop keeps the exact fps on average
+            const delay = Math.round((i + 1) * 100 / fps) - Math.round(i * 100 / fps);
+            parts.push(new Uint8Array([0x21, 0xf9, 0x04, 0x04, ...u16(delay), 0, 0]));
+            parts.push(new Uint8Array([0x2c, 0, 0, 0, 0, ...u16(width), ...u16(height), 0, minCodeSize]));
+            parts.push(lzw(indexFrame(frame, palette, map, dither), minCodeSize));
+            onFrame(i);
+        });
+        parts.push(new Uint8Array([0x3b]));
+        return concat(parts);
+    };
+
+    // --- ANIMATED WEBP ---
+    const fourcc = (s: string) => Array.from(s, ch => ch.charCodeAt(0));
+    const u24 = (v: number) => [v & 0xff, (v >> 8) & 0xff, (v >> 16) & 0xff];
+    const u32 = (v: number) => [v & 0xff, (v >> 8) & 0xff, (v >> 16) & 0xff, (v >>> 24) & 0xff];
+    const chunk = (id: string, payload: Uint8Array): Uint8Array => {
+        const out = new Uint8Array(8 + payload.length + (payload.length & 1));
+        out.set([...fourcc(id), ...u32(payload.length)]);
+        out.set(payload, 8);
+        return out;
+    };
+
+    // Bitstream chunks (VP8 / VP8L / ALPH) of a still WebP, ready to nest in an ANMF frame
+    const imageChunks = (file: Uint8Array): Uint8Array => {
+        const parts: Uint8Array[] = [];
+        let p = 12;
+        while (p + 8 <= file.length) {
+            const id = String.fromCharCode(file[p], file[p + 1], file[p + 2], file[p + 3]);
+            const size = file[p + 4] | (file[p + 5] << 8) | (file[p + 6] << 16) | (file[p + 7] << 24);
+            const end = p + 8 + size + (size & 1);
+            if (id === 'VP8 ' || id === 'VP8L' || id === 'ALPH') parts.push(file.subarray(p, end));
+            p = end;
+        }
+        if (parts.length === 0) throw new Error("This browser cannot encode WebP images.");
+        return concat(parts);
+    };
+
+    const encodeWebp = async (source: Frame[], fps: number, quality: number, onFrame: (i: number) => void): Promise<Uint8Array> => {
+        const { width, height } = source[0];
+        const canvas = new OffscreenCanvas(width, height);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error("OffscreenCanvas 2D is not available in this browser.");
+
+        const anmf: Uint8Array[] = [];
+        for (let i = 0; i < source.length; i++) {
+            ctx.putImageData(new ImageData(source[i].data, width, height), 0, 0);
+            const blob = await canvas.convertToBlob({ type: 'image/webp', quality });
+            if (blob.type !== 'image/webp') throw new Error("This browser cannot encode WebP images.");
+            const still = new Uint8Array(await blob.arrayBuffer());
+            const duration = Math.round((i + 1) * 1000 / fps) - Math.round(i * 1000 / fps);
+            const header = new Uint8Array([0, 0, 0, 0, 0, 0, ...u24(width - 1), ...u24(height - 1), ...u24(duration), 0x02]); // No blending
+            anmf.push(chunk('ANMF', concat([header, imageChunks(still)])));
+            onFrame(i);
+        }
+
+        const vp8x = chunk('VP8X', new Uint8Array([0x02, 0, 0, 0, ...u24(width - 1), ...u24(height - 1)])); // Animation flag
+        const anim = chunk('ANIM', new Uint8Array([0, 0, 0, 255, 0, 0])); // Black background, loop forever
+        const body = concat([new Uint8Array(fourcc('WEBP')), vp8x, anim, ...anmf]);
+        return concat([new Uint8Array([...fourcc('RIFF'), ...u32(body.length)]), body]);
+    };
+
+    const concat = (parts: Uint8Array[]): Uint8Array => {
+        const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+        let o = 0;
+        parts.forEach(p => { out.set(p, o); o += p.length; });
+        return out;
+    };
+
+    // --- SIZE TARGETS ---
+    const resize = async (source: Frame[], scale: number): Promise<Frame[]> => {
+        const width = Math.max(2, Math.round(source[0].width * scale / 2) * 2);
+        const height = Math.max(2, Math.round(source[0].height * scale / 2) * 2);
+        const canvas = new OffscreenCanvas(width, height);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error("OffscreenCanvas 2D is not available in this browser.");
+        ctx.imageSmoothingQuality = 'high';
+        const out: Frame[] = [];
+        for (const f of source) {
+            const bitmap = await createImageBitmap(new ImageData(f.data, f.width, f.height));
+            ctx.drawImage(bitmap, 0, 0, width, height);
+            bitmap.close();
+            out.push({ width, height, data: ctx.getImageData(0, 0, width, height).data });
+        }
+        return out;
+    };
+
+    const MAX_ATTEMPTS = 6;
+    const MIN_SIDE = 120;
+
+    const encode = async (settings: LoopEncodeSettings) => {
+        let source = frames;
+        let quality = settings.quality;
+        let scale = 1;
+        let bytes: Uint8Array | null = null;
+
+        for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+            const onFrame = (i: number) => {
+                if (i % 5 === 0) scope.postMessage({ type: 'progress', value: (attempt + (i + 1) / source.length) / (settings.maxBytes ? 2 : 1) });
+            };
+            bytes = settings.format === 'gif'
+                ? encodeGif(source, settings.fps, settings.colors, settings.dither, onFrame)
+                : await encodeWebp(source, settings.fps, quality, onFrame);
+
+            if (!settings.maxBytes || bytes.length <= settings.maxBytes) break;
+            const ratio = settings.maxBytes / bytes.length;
+
+            // WebP trades quality first; both then shrink the frame (size ~ pixel count)
+            if (settings.format === 'webp' && quality > 0.4) {
+                quality = Math.max(0.35, quality - 0.2);
+                continue;
+            }
+            const nextScale = scale * Math.min(0.92, Math.max(0.5, Math.sqrt(ratio) * 0.95));
+            if (Math.min(frames[0].width, frames[0].height) * nextScale < MIN_SIDE) break;
+            scale = nextScale;
+            source = await resize(frames, scale);
+        }
+
+        const result = bytes as Uint8Array;
+        scope.postMessage({
+            type: 'done',
+            bytes: result.buffer,
+            width: source[0].width,
+            height: source[0].height,
+            overTarget: !!settings.maxBytes && result.length > settings.maxBytes
+        }, [result.buffer]);
+    };
+
+    scope.onmessage = (e: MessageEvent) => {
+        const msg = e.data;
+        if (msg.type === 'frame') {
+            frames.push({ width: msg.width, height: msg.height, data: new Uint8ClampedArray(msg.data) });
+        } else if (msg.type === 'encode') {
+            if (frames.length === 0) { scope.postMessage({ type: 'error', message: 'No frames to encode' }); return; }
+            encode(msg as LoopEncodeSettings).catch(err => scope.postMessage({ type: 'error', message: err?.message || String(err) }));
+        }
+    };
+};
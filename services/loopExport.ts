@@ -0,0 +1,141 @@
+import { createOfflineScene, nextTask, SceneJob } from './offlineRender';
+import { loopEncoderWorker, LoopEncodeSettings, LoopFormat, DitherMode } from './loopEncoder';
+
+// --- LOOP EXPORT (animated GIF / WebP) ---
+// Renders an excerpt of the performance with the offline scene (same seed = same loop),
+// then hands the RGBA frames to a worker that quantizes / compresses them, so the UI
+// stays responsive during the slow part. The excerpt starts on a warmed-up engine:
+// every frame before `start` is stepped without drawing.
+
+export interface LoopSizeTarget {
+    id: string;
+    label: string;
+    maxBytes: number | null;
+}
+
+// Upload limits of the usual destinations
+export const LOOP_SIZE_TARGETS: LoopSizeTarget[] = [
+    { id: 'none', label: 'NO LIMIT', maxBytes: null },
+    { id: '15mb', label: '15 MB (Twitter/X)', maxBytes: 15 * 1024 * 1024 },
+    { id: '10mb', label: '10 MB (Discord)', maxBytes: 10 * 1024 * 1024 },
+    { id: '5mb', label: '5 MB (Slack)', maxBytes: 5 * 1024 * 1024 },
+    { id: '1mb', label: '1 MB (Stickers)', maxBytes: 1024 * 1024 },
+];
+
+export interface LoopExportJob extends Omit<SceneJob, 'duration'> {
+    start: number;           // seconds into the performance
+    length: number;          // seconds
+    encode: Omit<LoopEncodeSettings, 'fps'>;
+}
+
+export interface LoopExportResult {
+    blob: Blob;
+    format: LoopFormat;
+    width: number;
+    height: number;
+    overTarget: boolean;     // Could not shrink below maxBytes
+}
+
+export interface LoopExportHandle {
+    done: Promise<LoopExportResult>;
+    cancel: () => void;
+}
+
+export type { LoopFormat, DitherMode };
+
+const createEncoderWorker = (): Worker => {
+    const source = `(${loopEncoderWorker.toString()})()`;
+    const url = URL.createObjectURL(new Blob([source], { type: 'application/javascript' }));
+    const worker = new Worker(url);
+    URL.revokeObjectURL(url);
+    return worker;
+};
+
+// Rendering is the first 60% of the progress bar, encoding the rest
+const RENDER_SHARE = 0.6;
+
+// Every frame is kept as RGBA until the worker encodes the loop: cap width x height x
+// frames (48M pixels = 192 MB) so long phrases at large sizes don't exhaust memory.
+export const MAX_LOOP_PIXELS = 48 * 1024 * 1024;
+
+// Render size for a loop, scaled down (even dimensions) when it would exceed the budget
+export const loopRenderSize = (width: number, height: number, frameCount: number): { width: number, height: number } => {
+    const scale = Math.min(1, Math.sqrt(MAX_LOOP_PIXELS / (width * height * Math.max(1, frameCount))));
+    if (scale >= 1) return { width, height };
+    return {
+        width: Math.max(2, Math.floor(width * scale / 2) * 2),
+        height: Math.max(2, Math.floor(height * scale / 2) * 2)
+    };
+};
+
+export const exportLoop = (job: LoopExportJob, onProgress: (progress: number) => void): LoopExportHandle => {
+    let cancelled = false;
+    let worker: Worker | null = null;
+    let abortEncode: (() => void) | null = null;
+
+    const run = async (): Promise<LoopExportResult> => {
+        const started = performance.now();
+        const { width, height } = loopRenderSize(job.width, job.height, Math.max(1, Math.round(job.length * job.fps)));
+        if (width !== job.width) console.log(`[Loop] ${job.width}x${job.height} is over the memory budget, rendering at ${width}x${height}`);
+
+        const scene = await createOfflineScene({ ...job, width, height, duration: job.start + job.length });
+        const first = Math.round(job.start * job.fps);
+        const last = Math.min(scene.frameCount, first + Math.max(1, Math.round(job.length * job.fps)));
+
+        const ctx = scene.canvas.getContext('2d');
+        if (!ctx) { scene.dispose(); throw new Error("Canvas context failed"); }
+        worker = createEncoderWorker();
+        const encoder = worker;
+
+        try {
+            for (let i = 0; i < last; i++) {
+                if (cancelled) throw new Error("Export cancelled");
+                const draw = i >= first;
+                if (draw) await scene.prepare(i);
+                scene.advance(i, draw);
+                if (draw) {
+                    const pixels = ctx.getImageData(0, 0, width, height);
+                    encoder.postMessage({ type: 'frame', width, height, data: pixels.data.buffer }, [pixels.data.buffer]);
+                }
+                if (i % 10 === 0) {
+                    onProgress(RENDER_SHARE * i / last);
+                    await nextTask();
+                }
+            }
+        } catch (e) {
+            encoder.terminate();
+            throw e;
+        } finally {
+            scene.dispose();
+        }
+        if (cancelled) { encoder.terminate(); throw new Error("Export cancelled"); }
+
+        const settings: LoopEncodeSettings = { ...job.encode, fps: job.fps };
+        const result = await new Promise<{ bytes: ArrayBuffer, width: number, height: number, overTarget: boolean }>((resolve, reject) => {
+            abortEncode = () => reject(new Error("Export cancelled"));
+            encoder.onmessage = (e: MessageEvent) => {
+                const msg = e.data;
+                if (msg.type === 'progress') onProgress(RENDER_SHARE + (1 - RENDER_SHARE) * Math.min(1, msg.value));
+                else if (msg.type === 'done') resolve(msg);
+                else if (msg.type === 'error') reject(new Error(msg.message));
+            };
+            encoder.onerror = (e) => reject(new Error(e.message || "Loop encoder crashed"));
+            encoder.postMessage({ type: 'encode', ...settings });
+        }).finally(() => encoder.terminate());
+
+        const blob = new Blob([result.bytes], { type: job.encode.format === 'gif' ? 'image/gif' : 'image/webp' });
+        onProgress(1);
+        const elapsed = (performance.now() - started) / 1000;
+        console.log(`[Loop] ${last - first} frames ${result.width}x${result.height} ${job.encode.format.toUpperCase()} ${(blob.size / 1024).toFixed(0)}KB in ${elapsed.toFixed(1)}s${result.overTarget ? ' (over size target)' : ''}`);
+        return { blob, format: job.encode.format, width: result.width, height: result.height, overTarget: result.overTarget };
+    };
+
+    return {
+        done: run(),
+        cancel: () => {
+            cancelled = true;
+            worker?.terminate();
+            abortEncode?.();
+        }
+    };
+};
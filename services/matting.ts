@@ -0,0 +1,141 @@
+import { PixelBuffer, estimateBackground } from "./spriteSlicer";
+
+// --- CLIENT-SIDE ALPHA MATTING ---
+// Generated sheets sit on "pure white", which renders as a white card over the shader.
+// Pipeline per frame:
+//   1. White-key: flood-fill the background from the borders (interior whites like eyes survive)
+//   2. Feather: soften the matte edge over a small radius
+//   3. Despill: un-mix the white background out of semi-transparent edge pixels
+
+export type MatteFormat = 'image/png' | 'image/webp';
+
+export interface MatteOptions {
+    tolerance: number;   // 0-100, how far from the background color still counts as background
+    feather?: number;    // Edge softening radius in pixels
+    format?: MatteFormat;
+}
+
+// Maps the 0-100 UI tolerance onto a max-channel color distance.
+const toleranceToDistance = (tolerance: number) => 4 + (Math.max(0, Math.min(100, tolerance)) / 100) * 116;
+
+const colorDistance = (data: Uint8ClampedArray, i: number, bg: [number, number, number]) =>
+    Math.max(Math.abs(data[i] - bg[0]), Math.abs(data[i + 1] - bg[1]), Math.abs(data[i + 2] - bg[2]));
+
+// Marks background pixels reachable from the image border (4-connected scanline-free stack fill).
+const floodFillBackground = (px: PixelBuffer, bg: [number, number, number], threshold: number): Uint8Array => {
+    const { data, width, height } = px;
+    const isBg = new Uint8Array(width * height);
+    const stack: number[] = [];
+
+    const seed = (x: number, y: number) => {
+        const p = y * width + x;
+        if (!isBg[p] && colorDistance(data, p * 4, bg) <= threshold) { isBg[p] = 1; stack.push(p); }
+    };
+    for (let x = 0; x < width; x++) { seed(x, 0); seed(x, height - 1); }
+    for (let y = 0; y < height; y++) { seed(0, y); seed(width - 1, y); }
+
+    while (stack.length) {
+        const p = stack.pop()!;
+        const x = p % width;
+        const y = (p - x) / width;
+        if (x > 0) seed(x - 1, y);
+        if (x < width - 1) seed(x + 1, y);
+        if (y > 0) seed(x, y - 1);
+        if (y < height - 1) seed(x, y + 1);
+    }
+    return isBg;
+};
+
+// Separable box blur of the binary foreground mask -> 0..1 coverage.
+const blurMask = (mask: Float32Array, width: number, height: number, radius: number): Float32Array => {
+    if (radius <= 0) return mask;
+    const tmp = new Float32Array(mask.length);
+    const out = new Float32Array(mask.length);
+    const span = radius * 2 + 1;
+
+    for (let y = 0; y < height; y++) {
+        let acc = 0;
+        for (let x = -radius; x <= radius; x++) acc += mask[y * width + Math.min(width - 1, Math.max(0, x))];
+        for (let x = 0; x < width; x++) {
+            tmp[y * width + x] = acc / span;
+            const add = Math.min(width - 1, x + radius + 1);
+            const sub = Math.max(0, x - radius);
+            acc += mask[y * width + add] - mask[y * width + sub];
+        }
+    }
+    for (let x = 0; x < width; x++) {
+        let acc = 0;
+        for (let y = -radius; y <= radius; y++) acc += tmp[Math.min(height - 1, Math.max(0, y)) * width + x];
+        for (let y = 0; y < height; y++) {
+            out[y * width + x] = acc / span;
+            const add = Math.min(height - 1, y + radius + 1);
+            const sub = Math.max(0, y - radius);
+            acc += tmp[add * width + x] - tmp[sub * width + x];
+        }
+    }
+    return out;
+};
+
+// Pure pixel pass. Mutates and returns the buffer with alpha applied.
+export const applyMatte = (px: PixelBuffer, tolerance: number, feather: number = 1): PixelBuffer => {
+    const { data, width, height } = px;
+    const bg = estimateBackground(px);
+    const threshold = toleranceToDistance(tolerance);
+
+    const isBg = floodFillBackground(px, bg, threshold);
+    const fg = new Float32Array(width * height);
+    for (let p = 0; p < fg.length; p++) fg[p] = isBg[p] ? 0 : 1;
+    const coverage = blurMask(fg, width, height, Math.round(feather));
+
+    for (let p = 0; p < fg.length; p++) {
+        const i = p * 4;
+        if (isBg[p]) { data[i + 3] = 0; continue; }
+        if (coverage[p] >= 0.999) continue; // Interior pixel, untouched
+
+        // Edge band: alpha from distance to the background color, softened by the feathered mask
+        const dist = colorDistance(data, i, bg);
+        const colorAlpha = Math.min(1, Math.max(0, (dist - threshold) / (threshold + 24)));
+        const alpha = Math.max(0.05, Math.min(1, Math.max(colorAlpha, 0.35) * coverage[p] * 1.4));
+
+        // Despill: C = a*F + (1-a)*B  =>  F = (C - (1-a)*B) / a
+        for (let c = 0; c < 3; c++) {
+            const f = (data[i + c] - (1 - alpha) * bg[c]) / alpha;
+            data[i + c] = Math.max(0, Math.min(255, f));
+        }
+        data[i + 3] = Math.round(alpha * data[i + 3]);
+    }
+    return px;
+};
+
+let webpSupport: boolean | null = null;
+export const supportsWebpEncoding = (): boolean => {
+    if (webpSupport === null) {
+        const c = document.createElement('canvas');
+        c.width = c.height = 1;
+        webpSupport = c.toDataURL('image/webp').startsWith('data:image/webp');
+    }
+    return webpSupport;
+};
+
+export const matteFrame = (dataUrl: string, options: MatteOptions): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = img.width;
+            canvas.height = img.height;
+            const ctx = canvas.getContext('2d', { willReadFrequently: true });
+            if (!ctx) { resolve(dataUrl); return; }
+
+            ctx.drawImage(img, 0, 0);
+            const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+            applyMatte(imageData, options.tolerance, options.feather ?? 1);
+            ctx.putImageData(imageData, 0, 0);
+
+            const format = options.format || (supportsWebpEncoding() ? 'image/webp' : 'image/png');
+            resolve(canvas.toDataURL(format, 0.92));
+        };
+        img.onerror = reject;
+        img.src = dataUrl;
+    });
+};
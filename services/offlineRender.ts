@@ -0,0 +1,386 @@
+import { Muxer as Mp4Muxer, ArrayBufferTarget as Mp4Target } from 'mp4-muxer';
+import { Muxer as WebmMuxer, ArrayBufferTarget as WebmTarget } from 'webm-muxer';
+import { QuantumVisualizer, HolographicParams, HologramPalette } from '../components/Visualizer/HolographicVisualizer';
+import { getScene } from '../components/Visualizer/scenes';
+import { loadBackdropMedia, seekBackdrop, drawBackdrop, backdropUsesVisualizer } from './backdrop';
+import { AudioFeatures, BeatGrid, ChoreographyEngine, ChoreographyFrame } from './choreography';
+import { CharacterSprite, drawCharacterLayers, stageScale } from './characterRender';
+import { mulberry32, deriveSeed } from './random';
+import { Backdrop, BackdropSettings } from '../types';
+
+// --- OFFLINE VIDEO RENDER (WebCodecs) ---
+// Frame-by-frame export that never looks at the wall clock: audio features are
+// precomputed for every output frame, the choreography engine, camera physics and
+// shader clock are stepped at exactly 1/fps, and each frame is encoded with
+// VideoEncoder / AudioEncoder into an MP4 (H.264 + AAC) or WebM (VP9 + Opus) file.
+// Same seed + same track = the same file, and fast machines render faster than realtime.
+
+export const OFFLINE_SAMPLE_RATE = 48000;
+const AUDIO_CHANNELS = 2;
+
+export type OfflineContainer = 'mp4' | 'webm';
+
+interface CodecPlan {
+    container: OfflineContainer;
+    video: string;           // WebCodecs codec string
+    audio: string;
+    muxVideo: string;        // Muxer codec id
+    muxAudio: string;
+}
+
+// First supported plan wins. H.264 level 4.0 covers 1080x1920, 5.1 anything larger.
+const CODEC_PLANS: CodecPlan[] = [
+    { container: 'mp4', video: 'avc1.640028', audio: 'mp4a.40.2', muxVideo: 'avc', muxAudio: 'aac' },
+    { container: 'mp4', video: 'avc1.640033', audio: 'mp4a.40.2', muxVideo: 'avc', muxAudio: 'aac' },
+    { container: 'webm', video: 'vp09.00.40.08', audio: 'opus', muxVideo: 'V_VP9', muxAudio: 'A_OPUS' },
+    { container: 'webm', video: 'vp8', audio: 'opus', muxVideo: 'V_VP8', muxAudio: 'A_OPUS' },
+];
+
+// Everything needed to replay the performance frame by frame (video and loop exports)
+export interface SceneJob {
+    width: number;
+    height: number;
+    fps: number;
+    duration: number | null;          // seconds from the top, null = full track
+    audio: Blob | null;               // null = 124 BPM metronome, silent video
+
+    // Choreography (a fresh engine is built from these, the live one is never touched)
+    frames: ChoreographyFrame[];
+    seed: number;
+    beatGrid: BeatGrid | null;
+    stutterChance: number;
+    superCam: boolean;
+    directional: boolean;
+    panLimit: number;                 // Stage pixels, from the output preset
+
+    // Look
+    sprites: (pose: string) => CharacterSprite | null;
+    fit: number;                      // Share of the frame the character may fill
+    hologramParams: HolographicParams | null;
+    backgroundScene: string;          // Scene id, see components/Visualizer/scenes.ts
+    palette: HologramPalette | null;  // Character colors, null = from the hue params
+    backdrop: Backdrop | null;        // Replaces the visualizer (see services/backdrop.ts)
+    backdropSettings: BackdropSettings;
+    showBackground: boolean;
+}
+
+export interface OfflineRenderJob extends SceneJob {
+    videoBitsPerSecond: number;
+    audioBitsPerSecond?: number;
+}
+
+export interface OfflineRenderResult {
+    blob: Blob;
+    container: OfflineContainer;
+}
+
+export interface OfflineRenderHandle {
+    done: Promise<OfflineRenderResult>;
+    cancel: () => void;
+}
+
+export const isOfflineRenderSupported = (): boolean =>
+    typeof VideoEncoder !== 'undefined' && typeof AudioEncoder !== 'undefined' && typeof VideoFrame !== 'undefined';
+
+const pickCodecPlan = async (job: OfflineRenderJob, withAudio: boolean): Promise<CodecPlan | null> => {
+    for (const plan of CODEC_PLANS) {
+        const video = await VideoEncoder.isConfigSupported({
+            codec: plan.video, width: job.width, height: job.height, bitrate: job.videoBitsPerSecond, framerate: job.fps
+        }).catch(() => null);
+        if (!video?.supported) continue;
+        if (withAudio) {
+            const audio = await AudioEncoder.isConfigSupported({
+                codec: plan.audio, sampleRate: OFFLINE_SAMPLE_RATE, numberOfChannels: AUDIO_CHANNELS, bitrate: job.audioBitsPerSecond ?? 192_000
+            }).catch(() => null);
+            if (!audio?.supported) continue;
+        }
+        return plan;
+    }
+    return null;
+};
+
+// --- AUDIO ---
+
+export interface PreparedAudio {
+    buffer: AudioBuffer;          // Resampled, trimmed (and looped) to the render length
+    features: AudioFeatures[];    // One entry per output frame
+}
+
+// Plays the track through an AnalyserNode configured like the preview's, suspending the
+// offline context at every frame time to read the spectrum the live loop would have seen.
+export const prepareAudio = async (file: Blob, duration: number | null, fps: number): Promise<PreparedAudio> => {
+    const bytes = await file.arrayBuffer();
+    const decoded = await new OfflineAudioContext(AUDIO_CHANNELS, 1, OFFLINE_SAMPLE_RATE).decodeAudioData(bytes);
+    const seconds = duration ?? decoded.duration;
+    const frameCount = Math.max(1, Math.round(seconds * fps));
+
+    const ctx = new OfflineAudioContext(AUDIO_CHANNELS, Math.ceil(seconds * OFFLINE_SAMPLE_RATE), OFFLINE_SAMPLE_RATE);
+    const source = ctx.createBufferSource();
+    source.buffer = decoded;
+    source.loop = true; // The preview loops the song as well
+
+    const analyser = ctx.createAnalyser();
+    analyser.fftSize = 1024;
+    analyser.smoothingTimeConstant = 0.8;
+    source.connect(ctx.destination);
+    source.connect(analyser);
+
+    const bins = new Uint8Array(analyser.frequencyBinCount);
+    const features: AudioFeatures[] = new Array(frameCount);
+    features[0] = { bass: 0, mid: 0, high: 0 };
+    const suspensions: Promise<void>[] = [];
+    for (let i = 1; i < frameCount; i++) {
+        suspensions.push(ctx.suspend(i / fps).then(() => {
+            analyser.getByteFrequencyData(bins);
+            features[i] = ChoreographyEngine.bandsFromSpectrum(bins);
+            return ctx.resume();
+        }));
+    }
+
+    // A rejected suspend / resume fails the render instead of leaving a frame without features
+    source.start(0);
+    const [buffer] = await Promise.all([ctx.startRendering(), ...suspensions]);
+    return { buffer, features };
+};
+
+// Slices of the rendered buffer as planar float AudioData, encoded just ahead of the video.
+const encodeAudioUntil = (encoder: AudioEncoder, buffer: AudioBuffer, from: number, until: number): number => {
+    const end = Math.min(buffer.length, Math.ceil(until * buffer.sampleRate));
+    const slice = 4800; // 100ms
+    let cursor = from;
+    while (cursor < end) {
+        const frames = Math.min(slice, end - cursor);
+        const data = new Float32Array(frames * buffer.numberOfChannels);
+        for (let c = 0; c < buffer.numberOfChannels; c++) {
+            data.set(buffer.getChannelData(c).subarray(cursor, cursor + frames), c * frames);
+        }
+        const chunk = new AudioData({
+            format: 'f32-planar',
+            sampleRate: buffer.sampleRate,
+            numberOfFrames: frames,
+            numberOfChannels: buffer.numberOfChannels,
+            timestamp: Math.round(cursor / buffer.sampleRate * 1e6),
+            data
+        });
+        encoder.encode(chunk);
+        chunk.close();
+        cursor += frames;
+    }
+    return cursor;
+};
+
+// --- MUXING ---
+
+interface MuxerSink {
+    addVideoChunk: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) => void;
+    addAudioChunk: (chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) => void;
+    finalize: () => Blob;
+}
+
+const createMuxer = (plan: CodecPlan, job: OfflineRenderJob, withAudio: boolean): MuxerSink => {
+    const audio = withAudio ? { codec: plan.muxAudio, numberOfChannels: AUDIO_CHANNELS, sampleRate: OFFLINE_SAMPLE_RATE } : undefined;
+
+    if (plan.container === 'mp4') {
+        const target = new Mp4Target();
+        const muxer = new Mp4Muxer({
+            target,
+            video: { codec: 'avc', width: job.width, height: job.height, frameRate: job.fps },
+            audio: audio && { ...audio, codec: 'aac' },
+            fastStart: 'in-memory'
+        });
+        return {
+            addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+            addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+            finalize: () => { muxer.finalize(); return new Blob([target.buffer], { type: 'video/mp4' }); }
+        };
+    }
+
+    const target = new WebmTarget();
+    const muxer = new WebmMuxer({
+        target,
+        video: { codec: plan.muxVideo, width: job.width, height: job.height, frameRate: job.fps },
+        audio
+    });
+    return {
+        addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+        addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+        finalize: () => { muxer.finalize(); return new Blob([target.buffer], { type: 'video/webm' }); }
+    };
+};
+
+// --- SCENE ---
+// A private engine + shader + output canvas, all driven by the frame clock.
+
+export interface OfflineScene {
+    canvas: HTMLCanvasElement;
+    frameCount: number;
+    duration: number;                  // seconds
+    audio: PreparedAudio | null;
+    // Seeks time-based media (a video backdrop) to frame i; await it before drawing frame i
+    prepare: (i: number) => Promise<void>;
+    // Steps the performance to frame i (call with 0, 1, 2, ...). Skipping `draw` only
+    // advances choreography and physics, e.g. to warm up before a loop excerpt.
+    advance: (i: number, draw: boolean) => void;
+    dispose: () => void;
+}
+
+export const createOfflineScene = async (job: SceneJob): Promise<OfflineScene> => {
+    const audio = job.audio ? await prepareAudio(job.audio, job.duration, job.fps) : null;
+    const duration = audio ? audio.buffer.duration : (job.duration ?? 0);
+    const frameCount = Math.max(1, Math.round(duration * job.fps));
+
+    const engine = new ChoreographyEngine(job.frames, {
+        stutterChance: job.stutterChance,
+        dynamicCamera: job.superCam,
+        directional: job.directional,
+        panLimit: job.panLimit,
+        random: mulberry32(deriveSeed(job.seed, 'choreo'))
+    });
+    engine.setBeatGrid(job.beatGrid);
+    const fxRandom = mulberry32(deriveSeed(job.seed, 'fx'));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = job.width;
+    canvas.height = job.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas context failed");
+
+    const backdrop = job.showBackground && job.backdrop ? await loadBackdropMedia(job.backdrop) : null;
+    let visualizer: QuantumVisualizer | null = null;
+    const bgCanvas = document.createElement('canvas');
+    if (job.showBackground && (!backdrop || backdropUsesVisualizer(job.backdropSettings))) {
+        bgCanvas.width = job.width;
+        bgCanvas.height = job.height;
+        visualizer = new QuantumVisualizer(bgCanvas, { interactive: false });
+        visualizer.setScene(getScene(job.backgroundScene));
+        if (job.hologramParams) visualizer.params = { ...job.hologramParams };
+        visualizer.palette = job.palette;
+    }
+
+    const dt = 1 / job.fps;
+
+    const advance = (i: number, draw: boolean) => {
+        const t = i / job.fps;
+        const now = t * 1000;
+        const bands = audio ? (audio.features[i] || audio.features[audio.features.length - 1]) : ChoreographyEngine.metronome(t);
+        engine.update(now, dt, bands, true, audio ? t : undefined);
+        if (!draw) return;
+        const { camera, fx } = engine.state;
+
+        ctx.fillStyle = '#000';
+        ctx.fillRect(0, 0, job.width, job.height);
+        if (visualizer) {
+            visualizer.updateAudio({ ...bands, energy: bands.bass + bands.mid });
+            visualizer.render(-(fx.dolly * 1.5), t);
+        }
+        if (backdrop) drawBackdrop(ctx, backdrop, job.width, job.height, job.backdropSettings, bands.bass, visualizer ? bgCanvas : null);
+        else if (visualizer) ctx.drawImage(bgCanvas, 0, 0, job.width, job.height);
+        drawCharacterLayers(ctx, job.width, job.height, engine.layers(now), job.sprites, {
+            camera, fx, zoom: engine.zoom(), superCam: job.superCam, random: fxRandom,
+            scale: stageScale(job.width, job.height), fit: job.fit
+        });
+    };
+
+    return {
+        canvas,
+        frameCount,
+        duration,
+        audio,
+        prepare: (i: number) => backdrop ? seekBackdrop(backdrop, i / job.fps) : Promise.resolve(),
+        advance,
+        dispose: () => {
+            visualizer?.gl.getExtension('WEBGL_lose_context')?.loseContext();
+            if (backdrop instanceof HTMLVideoElement) backdrop.removeAttribute('src');
+        }
+    };
+};
+
+// --- RENDER ---
+
+export const nextTask = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+export const renderOffline = (job: OfflineRenderJob, onProgress: (progress: number) => void): OfflineRenderHandle => {
+    let cancelled = false;
+
+    const run = async (): Promise<OfflineRenderResult> => {
+        if (!isOfflineRenderSupported()) throw new Error("This browser has no WebCodecs support (VideoEncoder / AudioEncoder).");
+        const started = performance.now();
+
+        const plan = await pickCodecPlan(job, !!job.audio);
+        if (!plan) throw new Error(`No supported encoder for ${job.width}x${job.height}.`);
+
+        const scene = await createOfflineScene(job);
+        const { audio, duration, frameCount, canvas } = scene;
+        if (cancelled) { scene.dispose(); throw new Error("Render cancelled"); }
+        const muxer = createMuxer(plan, job, !!audio);
+
+        let failure: Error | null = null;
+        const videoEncoder = new VideoEncoder({
+            output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+            error: (e) => { failure = e; }
+        });
+        videoEncoder.configure({
+            codec: plan.video, width: job.width, height: job.height, bitrate: job.videoBitsPerSecond, framerate: job.fps
+        });
+
+        let audioEncoder: AudioEncoder | null = null;
+        if (audio) {
+            audioEncoder = new AudioEncoder({
+                output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+                error: (e) => { failure = e; }
+            });
+            audioEncoder.configure({
+                codec: plan.audio, sampleRate: OFFLINE_SAMPLE_RATE, numberOfChannels: AUDIO_CHANNELS, bitrate: job.audioBitsPerSecond ?? 192_000
+            });
+        }
+
+        const dt = 1 / job.fps;
+        const frameDuration = Math.round(1e6 / job.fps);
+        const keyInterval = Math.round(job.fps * 2);
+        let audioCursor = 0;
+
+        try {
+            for (let i = 0; i < frameCount; i++) {
+                if (cancelled) throw new Error("Render cancelled");
+                if (failure) throw failure;
+
+                const t = i / job.fps;
+                await scene.prepare(i);
+                scene.advance(i, true);
+
+                if (audioEncoder && audio) audioCursor = encodeAudioUntil(audioEncoder, audio.buffer, audioCursor, t + dt);
+
+                const frame = new VideoFrame(canvas, { timestamp: i * frameDuration, duration: frameDuration });
+                videoEncoder.encode(frame, { keyFrame: i % keyInterval === 0 });
+                frame.close();
+
+                // Backpressure: let the encoder drain instead of queueing the whole song in memory
+                while (videoEncoder.encodeQueueSize > 8) await nextTask();
+                if (i % 15 === 0) {
+                    onProgress(i / frameCount);
+                    await nextTask();
+                }
+            }
+
+            if (audioEncoder && audio) encodeAudioUntil(audioEncoder, audio.buffer, audioCursor, duration);
+            await videoEncoder.flush();
+            if (audioEncoder) await audioEncoder.flush();
+            if (failure) throw failure;
+        } finally {
+            if (videoEncoder.state !== 'closed') videoEncoder.close();
+            if (audioEncoder && audioEncoder.state !== 'closed') audioEncoder.close();
+            scene.dispose();
+        }
+
+        const blob = muxer.finalize();
+        onProgress(1);
+        const elapsed = (performance.now() - started) / 1000;
+        console.log(`[Offline] ${frameCount} frames ${job.width}x${job.height} @ ${job.fps}fps (${plan.video}) in ${elapsed.toFixed(1)}s, ${(duration / elapsed).toFixed(2)}x realtime`);
+        return { blob, container: plan.container };
+    };
+
+    return {
+        done: run(),
+        cancel: () => { cancelled = true; }
+    };
+};
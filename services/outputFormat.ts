@@ -0,0 +1,43 @@
+import { OutputFormat, OutputPreset } from "../types";
+import { OUTPUT_PRESETS } from "../constants";
+
+// --- OUTPUT FORMAT ---
+// One aspect preset drives the preview stage, the video exports and the exported
+// player. Presets only store an aspect; pixel sizes are derived per export.
+
+export const MIN_CUSTOM_SIZE = 64;
+export const MAX_CUSTOM_SIZE = 4096;
+
+export const clampCustomSize = (value: number): number =>
+    Math.max(MIN_CUSTOM_SIZE, Math.min(MAX_CUSTOM_SIZE, Math.round(value) || MIN_CUSTOM_SIZE));
+
+export const resolveOutputPreset = (format: OutputFormat): OutputPreset => {
+    const preset = OUTPUT_PRESETS.find(p => p.id === format.presetId) || OUTPUT_PRESETS[0];
+    if (preset.id !== 'custom') return preset;
+    return { ...preset, aspect: [clampCustomSize(format.customWidth), clampCustomSize(format.customHeight)] };
+};
+
+export const aspectRatio = (preset: OutputPreset): number => preset.aspect[0] / preset.aspect[1];
+
+// Pixel size whose short side is `shortSide` (even numbers, as H.264 requires).
+// `null` keeps the exact custom size.
+export const outputDimensions = (format: OutputFormat, shortSide: number | null): { width: number, height: number } => {
+    const preset = resolveOutputPreset(format);
+    if (shortSide === null && preset.id === 'custom') {
+        return { width: preset.aspect[0] & ~1, height: preset.aspect[1] & ~1 };
+    }
+    const side = shortSide ?? 1080;
+    const ratio = aspectRatio(preset);
+    const even = (v: number) => Math.max(2, Math.round(v / 2) * 2);
+    return ratio < 1
+        ? { width: even(side), height: even(side / ratio) }
+        : { width: even(side * ratio), height: even(side) };
+};
+
+// Largest rect of the given aspect that fits inside a container (letterboxed).
+export const fitStage = (containerWidth: number, containerHeight: number, ratio: number): { width: number, height: number } => {
+    if (containerWidth <= 0 || containerHeight <= 0) return { width: 0, height: 0 };
+    return containerWidth / containerHeight > ratio
+        ? { width: containerHeight * ratio, height: containerHeight }
+        : { width: containerWidth, height: containerWidth / ratio };
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { clusterColors, paletteFromClusters } from './palette';
+
+type Rgb = [number, number, number];
+
+// Flat 0-1 RGB pixels: `count` copies of each color
+const pixels = (...runs: [Rgb, number][]): number[] =>
+    runs.flatMap(([color, count]) => Array.from({ length: count }, () => color).flat());
+
+const expectColor = (actual: Rgb, expected: Rgb) => actual.forEach((c, i) => expect(c).toBeCloseTo(expected[i], 5));
+
+const RED: Rgb = [1, 0, 0];
+const BLUE: Rgb = [0, 0, 1];
+const GRAY: Rgb = [0.5, 0.5, 0.5];
+
+describe('clusterColors', () => {
+    it('finds each color of the subject with its share, largest first', () => {
+        const clusters = clusterColors(pixels([BLUE, 40], [RED, 60]));
+        expect(clusters.map(c => c.share)).toEqual([0.6, 0.4]);
+        expectColor(clusters[0].color, RED);
+        expectColor(clusters[1].color, BLUE);
+    });
+
+    it('stops at the distinct colors when there are fewer than k', () => {
+        const clusters = clusterColors(pixels([RED, 10], [BLUE, 10], [GRAY, 10]), 6);
+        expect(clusters).toHaveLength(3);
+        expect(clusters.reduce((sum, c) => sum + c.share, 0)).toBeCloseTo(1);
+    });
+
+    it('returns nothing for an empty input', () => {
+        expect(clusterColors([])).toEqual([]);
+    });
+});
+
+describe('paletteFromClusters', () => {
+    it('lights a two-color subject in its own colors', () => {
+        const palette = paletteFromClusters(clusterColors(pixels([RED, 60], [BLUE, 40])))!;
+        expectColor(palette.primary, [1, 0.2, 0.2]);
+        expectColor(palette.secondary, [0, 0, 1]);
+        // No third color: the highlight is a pale take on the secondary
+        expectColor(palette.highlight, [0.68, 0.68, 0.92]);
+    });
+
+    it('prefers a colorful cluster over a larger gray one', () => {
+        const palette = paletteFromClusters(clusterColors(pixels([GRAY, 50], [RED, 30], [BLUE, 20])))!;
+        expectColor(palette.primary, [1, 0.2, 0.2]);
+        expectColor(palette.secondary, [0, 0, 1]);
+        expectColor(palette.highlight, [0.8, 0.8, 0.8]);
+    });
+
+    it('keeps an all-gray subject gray, at the palette lightness', () => {
+        const palette = paletteFromClusters(clusterColors(pixels([[0.3, 0.3, 0.3], 50], [[0.6, 0.6, 0.6], 30], [[0.9, 0.9, 0.9], 20])))!;
+        expectColor(palette.primary, [0.6, 0.6, 0.6]);
+        expectColor(palette.secondary, [0.5, 0.5, 0.5]);
+        expectColor(palette.highlight, [0.9, 0.9, 0.9]);
+    });
+
+    it('returns null without clusters', () => {
+        expect(paletteFromClusters(clusterColors([]))).toBeNull();
+    });
+});
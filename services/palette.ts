@@ -0,0 +1,192 @@
+import { HologramPalette } from "../components/Visualizer/HolographicVisualizer";
+import { AppState } from "../types";
+import { PixelBuffer, estimateBackground } from "./spriteSlicer";
+
+// --- CHARACTER PALETTE ---
+// Dominant / accent colors of the character, so the hologram is lit in the rig's own colors
+// instead of the preset hue. The subject pixels (alpha, or keyed against the border color
+// like frameAlign does) are clustered with k-means, then the clusters are ranked:
+//   primary   = the biggest colorful cluster
+//   secondary = a strong cluster with a different hue
+//   highlight = the brightest of the rest
+// Lightness is normalized afterwards: the shaders add these colors as light, so a dark
+// coat must still glow.
+
+const CLUSTERS = 6;
+const ITERATIONS = 12;
+const SAMPLE_SIZE = 96;      // Longest side each image is sampled at
+const MIN_PIXELS = 64;       // Fewer subject pixels = no palette
+const MAX_IMAGES = 4;
+
+type Rgb = [number, number, number];
+
+interface Cluster {
+    color: Rgb;   // 0-1
+    share: number; // Fraction of the subject pixels
+}
+
+const rgbToHsl = ([r, g, b]: Rgb): Rgb => {
+    const max = Math.max(r, g, b), min = Math.min(r, g, b);
+    const l = (max + min) / 2;
+    if (max === min) return [0, 0, l];
+    const d = max - min;
+    const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+    const h = max === r ? (g - b) / d + (g < b ? 6 : 0) : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+    return [h / 6, s, l];
+};
+
+const hslToRgb = ([h, s, l]: Rgb): Rgb => {
+    const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+    const p = 2 * l - q;
+    const hue2rgb = (t: number) => {
+        if (t < 0) t += 1;
+        if (t > 1) t -= 1;
+        if (t < 1 / 6) return p + (q - p) * 6 * t;
+        if (t < 1 / 2) return q;
+        if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+        return p;
+    };
+    return [hue2rgb(h + 1 / 3), hue2rgb(h), hue2rgb(h - 1 / 3)];
+};
+
+const chroma = (c: Rgb) => Math.max(...c) - Math.min(...c);
+
+// 0 = same hue, 1 = opposite sides of the wheel
+const hueDistance = (a: Rgb, b: Rgb) => {
+    const d = Math.abs(rgbToHsl(a)[0] - rgbToHsl(b)[0]);
+    return Math.min(d, 1 - d) * 2;
+};
+
+// Subject pixels as 0-1 RGB triplets (flat)
+export const subjectPixels = (px: PixelBuffer, tolerance: number = 24): number[] => {
+    const { data } = px;
+    let hasAlpha = false;
+    for (let i = 3; i < data.length; i += 4 * 7) { if (data[i] < 250) { hasAlpha = true; break; } }
+    const bg = estimateBackground(px);
+
+    const out: number[] = [];
+    for (let i = 0; i < data.length; i += 4) {
+        if (hasAlpha) {
+            if (data[i + 3] < 128) continue;
+        } else {
+            const diff = Math.max(Math.abs(data[i] - bg[0]), Math.abs(data[i + 1] - bg[1]), Math.abs(data[i + 2] - bg[2]));
+            if (diff <= tolerance) continue;
+        }
+        out.push(data[i] / 255, data[i + 1] / 255, data[i + 2] / 255);
+    }
+    return out;
+};
+
+// k-means in RGB. Deterministic: seeded with farthest-point picks from the mean color,
+// so the same rig always gets the same palette.
+export const clusterColors = (pixels: number[], k: number = CLUSTERS): Cluster[] => {
+    const count = pixels.length / 3;
+    if (count === 0) return [];
+    const dist = (i: number, c: Rgb) => {
+        const dr = pixels[i * 3] - c[0], dg = pixels[i * 3 + 1] - c[1], db = pixels[i * 3 + 2] - c[2];
+        return dr * dr + dg * dg + db * db;
+    };
+
+    const mean: Rgb = [0, 0, 0];
+    for (let i = 0; i < count; i++) for (let c = 0; c < 3; c++) mean[c] += pixels[i * 3 + c] / count;
+    const centers: Rgb[] = [];
+    const nearest = new Float64Array(count).fill(Infinity);
+    let reference = mean;
+    while (centers.length < Math.min(k, count)) {
+        let far = 0;
+        for (let i = 0; i < count; i++) {
+            nearest[i] = Math.min(nearest[i], dist(i, reference));
+            if (nearest[i] > nearest[far]) far = i;
+        }
+        if (centers.length > 0 && nearest[far] === 0) break; // Fewer distinct colors than clusters
+        reference = [pixels[far * 3], pixels[far * 3 + 1], pixels[far * 3 + 2]];
+        centers.push(reference);
+    }
+
+    const assignment = new Int32Array(count);
+    for (let iter = 0; iter < ITERATIONS; iter++) {
+        const sums = centers.map(() => [0, 0, 0, 0]);
+        let moved = false;
+        for (let i = 0; i < count; i++) {
+            let best = 0;
+            for (let c = 1; c < centers.length; c++) if (dist(i, centers[c]) < dist(i, centers[best])) best = c;
+            if (assignment[i] !== best) { assignment[i] = best; moved = true; }
+            const sum = sums[best];
+            sum[0] += pixels[i * 3]; sum[1] += pixels[i * 3 + 1]; sum[2] += pixels[i * 3 + 2]; sum[3]++;
+        }
+        sums.forEach((sum, c) => { if (sum[3] > 0) centers[c] = [sum[0] / sum[3], sum[1] / sum[3], sum[2] / sum[3]]; });
+        if (!moved && iter > 0) break;
+    }
+
+    const sizes = new Array(centers.length).fill(0);
+    for (let i = 0; i < count; i++) sizes[assignment[i]]++;
+    return centers
+        .map((color, c) => ({ color, share: sizes[c] / count }))
+        .filter(cluster => cluster.share > 0)
+        .sort((a, b) => b.share - a.share);
+};
+
+export const paletteFromClusters = (clusters: Cluster[]): HologramPalette | null => {
+    if (clusters.length === 0) return null;
+    // Large areas win, but a bit of color beats a lot of gray
+    const score = (c: Cluster) => c.share * (0.2 + chroma(c.color));
+    const ranked = [...clusters].sort((a, b) => score(b) - score(a));
+    const primary = ranked[0];
+    const rest = ranked.slice(1);
+    const secondary = rest.length > 0
+        ? rest.reduce((best, c) => score(c) * (0.3 + hueDistance(c.color, primary.color)) > score(best) * (0.3 + hueDistance(best.color, primary.color)) ? c : best)
+        : primary;
+    const others = rest.filter(c => c !== secondary);
+    const brightness = (c: Cluster) => rgbToHsl(c.color)[2] + chroma(c.color) * 0.5;
+    const highlight = others.length > 0 ? others.reduce((best, c) => brightness(c) > brightness(best) ? c : best) : secondary;
+
+    // Same lightness as the preset colors (see hologramPalette), the highlight stays pale
+    const tone = (color: Rgb, saturation: number, lightness: (l: number) => number): Rgb => {
+        const [h, s, l] = rgbToHsl(color);
+        return hslToRgb([h, Math.min(1, s * saturation), lightness(l)]);
+    };
+    return {
+        primary: tone(primary.color, 1.2, () => 0.6),
+        secondary: tone(secondary.color, 1.2, () => 0.5),
+        highlight: tone(highlight.color, 0.6, l => Math.max(0.8, Math.min(l, 0.92)))
+    };
+};
+
+const loadPixels = (url: string): Promise<PixelBuffer | null> => new Promise(resolve => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => {
+        const scale = Math.min(1, SAMPLE_SIZE / Math.max(img.width, img.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(img.width * scale));
+        canvas.height = Math.max(1, Math.round(img.height * scale));
+        const ctx = canvas.getContext('2d', { willReadFrequently: true });
+        if (!ctx) { resolve(null); return; }
+        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+        try {
+            resolve(ctx.getImageData(0, 0, canvas.width, canvas.height));
+        } catch {
+            resolve(null); // Tainted by a remote image
+        }
+    };
+    img.onerror = () => resolve(null);
+    img.src = url;
+});
+
+// Palette of the character across a few images (frames or the upload). null = nothing usable.
+export const extractPalette = async (urls: string[]): Promise<HologramPalette | null> => {
+    let pixels: number[] = [];
+    for (const url of Array.from(new Set(urls)).slice(0, MAX_IMAGES)) {
+        const px = await loadPixels(url);
+        if (px) pixels = pixels.concat(subjectPixels(px));
+    }
+    if (pixels.length / 3 < MIN_PIXELS) return null;
+    return paletteFromClusters(clusterColors(pixels));
+};
+
+// The palette the session renders with, null = the hue params decide
+export const sessionPalette = (state: Pick<AppState, 'paletteSource' | 'characterPalette'>): HologramPalette | null =>
+    state.paletteSource === 'character' ? state.characterPalette : null;
+
+export const paletteCss = (color: Rgb): string =>
+    `rgb(${color.map(c => Math.round(Math.max(0, Math.min(1, c)) * 255)).join(',')})`;
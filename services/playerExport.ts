@@ -1,14 +1,69 @@
-import { GeneratedFrame, SubjectCategory } from "../types";
-import { VERTEX_SHADER, FRAGMENT_SHADER, HolographicParams } from "../components/Visualizer/HolographicVisualizer";
+import { GeneratedFrame, SubjectCategory, Backdrop, BackdropSettings, AudioAnalysis } from "../types";
+import {
+    VERTEX_SHADER, HolographicParams, HologramPalette, BackgroundScene, GEOMETRY_TYPES, GEOMETRY_FADE_SECONDS,
+    getHologramUniforms, hologramPalette, resolveSceneParams, createGeometryFade, stepGeometryFade,
+    setHologramUniforms, setSceneUniforms
+} from "../components/Visualizer/HolographicVisualizer";
+import { computeReferenceAnchors } from "./frameAlign";
+import { frameDirection } from "./frameLibrary";
+import { ChoreographyEngine } from "./choreography";
+import { mulberry32, deriveSeed, formatSeed } from "./random";
+import { STAGE_WIDTH, drawCharacterLayers } from "./characterRender";
+import { drawBackdrop } from "./backdrop";
+
+// Framing of the player stage (from the output preset). Without it the stage fills the window.
+export interface PlayerFormat {
+    aspect: [number, number] | null;
+    fit: number;
+    panLimit: number;
+}
+
+export interface PlayerOptions {
+    stutterChance?: number;
+    seed?: number;
+    dynamicCamera?: boolean;
+    // Beat grid of the session's song. Used when the dropped track is the same file
+    // (name + size), so the player dances exactly like the app.
+    analysis?: AudioAnalysis | null;
+    format?: PlayerFormat;
+    backdrop?: Backdrop | null;          // Embedded in place of the visualizer
+    backdropSettings?: BackdropSettings;
+    palette?: HologramPalette | null;    // Character colors, otherwise derived from the hue
+}
 
 export const generatePlayerHTML = (
     frames: GeneratedFrame[],
     hologramParams: HolographicParams,
-    subjectCategory: SubjectCategory
+    scene: BackgroundScene,
+    subjectCategory: SubjectCategory,
+    options: PlayerOptions = {}
 ): string => {
     
-    const framesJSON = JSON.stringify(frames);
+    // Identical images (reused poses) are embedded once and referenced by index
+    const sources: string[] = [];
+    const sourceIndex = new Map<string, number>();
+    const compactFrames = frames.map(({ url, ...frame }) => {
+        if (!sourceIndex.has(url)) sourceIndex.set(url, sources.push(url) - 1);
+        return { ...frame, src: sourceIndex.get(url) };
+    });
+    const framesJSON = JSON.stringify(compactFrames);
+    const sourcesJSON = JSON.stringify(sources);
     const paramsJSON = JSON.stringify(hologramParams);
+    const paletteJSON = JSON.stringify(options.palette || null);
+    const sceneJSON = JSON.stringify({ id: scene.id, params: scene.params, audio: scene.audio });
+    const analysis = options.analysis;
+    const choreoJSON = JSON.stringify({
+        stutterChance: options.stutterChance ?? 25,
+        seed: (options.seed ?? 0) >>> 0,
+        dynamicCamera: options.dynamicCamera ?? true,
+        grid: analysis
+            ? { source: analysis.source, beats: analysis.beats, downbeats: analysis.downbeats, beatStrength: analysis.beatStrength, sections: analysis.sections }
+            : null
+    });
+    const formatJSON = JSON.stringify({ ...(options.format || { aspect: null, fit: 0.9, panLimit: 40 }), stageWidth: STAGE_WIDTH });
+    const backdropJSON = JSON.stringify(options.backdrop && options.backdropSettings
+        ? { kind: options.backdrop.kind, url: options.backdrop.url, settings: options.backdropSettings }
+        : null);
     
     return `
 <!DOCTYPE html>
@@ -19,8 +74,9 @@ export const generatePlayerHTML = (
     <title>DNCE-R Standalone Widget</title>
     <style>
         body { margin: 0; background: #000; overflow: hidden; font-family: 'Courier New', monospace; user-select: none; }
-        canvas { position: absolute; top: 0; left: 0; width: 100%; height: 100%; }
+        canvas { position: absolute; top: 0; left: 0; width: 100%; height: 100%; } /* Resized to the letterboxed stage by fitStage() */
         #bgCanvas { z-index: 1; transition: opacity 0.3s; }
+        #backdropCanvas { z-index: 1; transition: opacity 0.3s; opacity: 0; }
         #charCanvas { z-index: 2; pointer-events: none; }
         
         /* UI OVERLAY */
@@ -82,6 +138,7 @@ export const generatePlayerHTML = (
 
     <!-- CANVAS LAYERS -->
     <canvas id="bgCanvas"></canvas>
+    <canvas id="backdropCanvas"></canvas>
     <canvas id="charCanvas"></canvas>
     
     <!-- OVERLAYS -->
@@ -93,7 +150,7 @@ export const generatePlayerHTML = (
     <div id="dropOverlay">DROP AUDIO FILE HERE</div>
     
     <div id="info">
-        DNCE-R // ${subjectCategory}<br>
+        DNCE-R // ${subjectCategory} // SEED ${formatSeed(options.seed ?? 0)}<br>
         <span id="fps">0 FPS</span>
     </div>
 
@@ -110,13 +167,43 @@ export const generatePlayerHTML = (
 
     <script>
         // --- CONFIG ---
+        const SOURCES = ${sourcesJSON};
         const FRAMES = ${framesJSON};
         const PARAMS = ${paramsJSON};
+        const SCENE = ${sceneJSON};
+        const PALETTE = ${paletteJSON};
         const SUBJECT = "${subjectCategory}";
+        const CHOREO = ${choreoJSON};
+        const FORMAT = ${formatJSON};
+        const BACKDROP = ${backdropJSON};
+        
+        // --- REGISTRATION (shared with the in-app renderer) ---
+        const computeReferenceAnchors = ${computeReferenceAnchors.toString()};
+        const frameDirection = ${frameDirection.toString()};
+        const REFERENCE = computeReferenceAnchors(FRAMES);
+        const META = {};
+        FRAMES.forEach(f => { META[f.pose] = f; });
+        const drawCharacterLayers = ${drawCharacterLayers.toString()};
+
+        // --- CHOREOGRAPHY (shared with the in-app preview) ---
+        const ChoreographyEngine = ${ChoreographyEngine.toString()};
+        const mulberry32 = ${mulberry32.toString()};
+        const deriveSeed = ${deriveSeed.toString()};
         
         // --- SHADER SOURCE ---
         const VERTEX = \`${VERTEX_SHADER}\`;
-        const FRAGMENT = \`${FRAGMENT_SHADER}\`;
+        const FRAGMENT = \`${scene.fragment}\`;
+
+        // --- UNIFORM BINDING (shared with the in-app visualizer) ---
+        const GEOMETRY = { fadeSeconds: ${GEOMETRY_FADE_SECONDS}, count: ${GEOMETRY_TYPES.length} };
+        const getHologramUniforms = ${getHologramUniforms.toString()};
+        const hologramPalette = ${hologramPalette.toString()};
+        const resolveSceneParams = ${resolveSceneParams.toString()};
+        const createGeometryFade = ${createGeometryFade.toString()};
+        const stepGeometryFade = ${stepGeometryFade.toString()};
+        const setHologramUniforms = ${setHologramUniforms.toString()};
+        const setSceneUniforms = ${setSceneUniforms.toString()};
+        const drawBackdrop = ${drawBackdrop.toString()};
         
         // --- 1. QUANTUM VISUALIZER ENGINE ---
         class Visualizer {
@@ -144,20 +231,8 @@ export const generatePlayerHTML = (
                 this.gl.enableVertexAttribArray(loc);
                 this.gl.vertexAttribPointer(loc, 2, this.gl.FLOAT, false, 0, 0);
                 
-                this.locs = {
-                    res: this.gl.getUniformLocation(this.program, 'u_resolution'),
-                    time: this.gl.getUniformLocation(this.program, 'u_time'),
-                    mouse: this.gl.getUniformLocation(this.program, 'u_mouse'),
-                    bass: this.gl.getUniformLocation(this.program, 'u_audioBass'),
-                    mid: this.gl.getUniformLocation(this.program, 'u_audioMid'),
-                    high: this.gl.getUniformLocation(this.program, 'u_audioHigh'),
-                    col: this.gl.getUniformLocation(this.program, 'u_color'),
-                    den: this.gl.getUniformLocation(this.program, 'u_density'),
-                    spd: this.gl.getUniformLocation(this.program, 'u_speed'),
-                    int: this.gl.getUniformLocation(this.program, 'u_intensity'),
-                    chs: this.gl.getUniformLocation(this.program, 'u_chaos'),
-                    camZ: this.gl.getUniformLocation(this.program, 'u_cameraZ'),
-                };
+                this.uniforms = getHologramUniforms(this.gl, this.program, SCENE.params.map(p => p.key));
+                this.fade = createGeometryFade();
             }
             createShader(type, src) {
                 const s = this.gl.createShader(type);
@@ -165,43 +240,20 @@ export const generatePlayerHTML = (
                 this.gl.compileShader(s);
                 return s;
             }
-            render(audio, camZ) {
-                const w = window.innerWidth;
-                const h = window.innerHeight;
+            render(audio, camZ, w, h) {
                 if(this.canvas.width!==w || this.canvas.height!==h) {
                     this.canvas.width=w; this.canvas.height=h;
                     this.gl.viewport(0,0,w,h);
                 }
                 
-                // Color Logic
-                const hVal = (PARAMS.hue || 200) / 360;
-                const sVal = 0.8, lVal = 0.6;
-                const hue2rgb = (p, q, t) => {
-                    if(t < 0) t += 1; if(t > 1) t -= 1;
-                    if(t < 1/6) return p + (q - p) * 6 * t;
-                    if(t < 1/2) return q;
-                    if(t < 2/3) return p + (q - p) * (2/3 - t) * 6;
-                    return p;
-                }
-                const q = lVal < 0.5 ? lVal * (1 + sVal) : lVal + sVal - lVal * sVal;
-                const p = 2 * lVal - q;
-                const r = hue2rgb(p, q, hVal + 1/3);
-                const g = hue2rgb(p, q, hVal);
-                const b = hue2rgb(p, q, hVal - 1/3);
-
-                this.gl.uniform2f(this.locs.res, w, h);
-                this.gl.uniform1f(this.locs.time, (Date.now()-this.startTime)/1000);
-                this.gl.uniform2f(this.locs.mouse, this.mouse.x, this.mouse.y);
-                this.gl.uniform1f(this.locs.bass, audio.bass);
-                this.gl.uniform1f(this.locs.mid, audio.mid);
-                this.gl.uniform1f(this.locs.high, audio.high);
-                
-                this.gl.uniform3f(this.locs.col, r, g, b);
-                this.gl.uniform1f(this.locs.den, PARAMS.density || 2.0);
-                this.gl.uniform1f(this.locs.spd, PARAMS.speed || 0.1);
-                this.gl.uniform1f(this.locs.int, PARAMS.intensity || 0.6);
-                this.gl.uniform1f(this.locs.chs, PARAMS.chaos || 0.5);
-                this.gl.uniform1f(this.locs.camZ, camZ);
+                const time = (Date.now() - this.startTime) / 1000;
+                const params = resolveSceneParams(SCENE, PARAMS, { ...audio, energy: audio.bass + audio.mid });
+                setHologramUniforms(this.gl, this.uniforms, {
+                    width: w, height: h, time, mouse: this.mouse, cameraZ: camZ,
+                    palette: PALETTE || hologramPalette(params),
+                    geometry: stepGeometryFade(this.fade, params, time, GEOMETRY.fadeSeconds, GEOMETRY.count)
+                }, params, audio);
+                setSceneUniforms(this.gl, this.uniforms, params);
                 
                 this.gl.drawArrays(this.gl.TRIANGLE_STRIP, 0, 4);
             }
@@ -214,43 +266,67 @@ export const generatePlayerHTML = (
         const loader = document.getElementById('loader');
         
         const viz = new Visualizer(bgC);
+
+        // Backdrop: uploaded image or muted looping video, the visualizer blends over it
+        const backdropC = document.getElementById('backdropCanvas');
+        const backdropCtx = backdropC.getContext('2d');
+        let backdropMedia = null;
+        if (BACKDROP) {
+            if (BACKDROP.kind === 'video') {
+                const video = document.createElement('video');
+                video.muted = true;
+                video.loop = true;
+                video.playsInline = true;
+                video.autoplay = true;
+                video.onloadeddata = () => { backdropMedia = video; video.play().catch(() => {}); };
+                video.src = BACKDROP.url;
+            } else {
+                const img = new Image();
+                img.onload = () => { backdropMedia = img; };
+                img.src = BACKDROP.url;
+            }
+        }
+        const backdropBlended = !!BACKDROP && BACKDROP.settings.blend !== 'none' && BACKDROP.settings.blendAmount > 0;
         
         // Asset Management
         const IMAGES = {};
-        const POOL = { low:[], mid:[], high:[] };
-        const SHUFFLE_DECKS = { low:[], mid:[], high:[] }; 
+        const resolveSprite = (pose) => {
+            const image = IMAGES[pose] || IMAGES['base'];
+            if(!image) return null;
+            const meta = META[pose] || {};
+            return { image: image, anchor: meta.anchor, reference: REFERENCE[meta.type || 'body'] };
+        };
 
         let readyCount = 0;
         let lastFrameTime = Date.now();
         
-        // --- 3. PHYSICS ENGINE ---
-        const PHYSICS = {
-            camZoom: 1.0,
-            camShake: {x:0, y:0},
-            camPan: {x:0, y:0},
-            swayPhase: 0,
-            
-            dollyZoom: 0,
-            tear: 0,
-            moire: 0,
-            flash: 0,
-            
-            // Logic
-            targetPose: 'base',
-            previousPose: 'base',
-            transitionStart: 0,
-            transitionDuration: 0,
-            transitionMode: 'CUT', // CUT | FLOW
-            
-            lastDir: 'left',
-            lastBeat: 0,
-            lastSnare: 0,
-            beatCounter: 0,
-            
-            // Toggles
-            dynamicCam: true,
-            transparent: false
-        };
+        // --- 3. BRAIN & PHYSICS ---
+        const ENGINE = new ChoreographyEngine(
+            FRAMES.map(f => ({ pose: f.pose, energy: f.energy, type: f.type, direction: frameDirection(f) })),
+            { stutterChance: CHOREO.stutterChance, dynamicCamera: CHOREO.dynamicCamera, directional: SUBJECT !== 'TEXT', panLimit: FORMAT.panLimit, random: mulberry32(deriveSeed(CHOREO.seed, 'choreo')) }
+        );
+        let fxRandom = mulberry32(deriveSeed(CHOREO.seed, 'fx')); // Render-only noise (tear slices)
+
+        // Stage: the output format letterboxed into the window (black bars), both canvases pinned to it
+        let stage = { x: 0, y: 0, w: 0, h: 0 };
+        function fitStage() {
+            const W = window.innerWidth, H = window.innerHeight;
+            let w = W, h = H;
+            if (FORMAT.aspect) {
+                const ratio = FORMAT.aspect[0] / FORMAT.aspect[1];
+                if (W / H > ratio) { w = Math.round(H * ratio); } else { h = Math.round(W / ratio); }
+            }
+            const next = { x: Math.round((W - w) / 2), y: Math.round((H - h) / 2), w: w, h: h };
+            if (next.x === stage.x && next.y === stage.y && next.w === stage.w && next.h === stage.h) return;
+            stage = next;
+            [bgC, backdropC, charC].forEach(c => {
+                c.style.left = stage.x + 'px';
+                c.style.top = stage.y + 'px';
+                c.style.width = stage.w + 'px';
+                c.style.height = stage.h + 'px';
+            });
+        }
+        const TOGGLES = { transparent: false };
 
         // --- 4. INIT ---
         function init() {
@@ -263,7 +339,7 @@ export const generatePlayerHTML = (
             FRAMES.forEach(f => {
                 const img = new Image();
                 img.crossOrigin = "anonymous";
-                img.src = f.url;
+                img.src = SOURCES[f.src];
                 img.onload = () => {
                     IMAGES[f.pose] = img;
                     readyCount++;
@@ -273,14 +349,7 @@ export const generatePlayerHTML = (
                     readyCount++;
                     if(readyCount === FRAMES.length) hideLoader();
                 };
-                
-                if(!POOL[f.energy]) POOL[f.energy] = [];
-                POOL[f.energy].push(f.pose);
             });
-            
-            // Fill gaps
-            if(POOL.mid.length===0) POOL.mid = POOL.low;
-            if(POOL.high.length===0) POOL.high = POOL.mid;
         }
         
         function hideLoader() {
@@ -308,24 +377,7 @@ export const generatePlayerHTML = (
             }
         }
 
-        // --- 6. SMART SHUFFLE ---
-        function getNextPose(poolKey, dir) {
-            let pool = POOL[poolKey];
-            const dirFrames = pool.filter(p => p.toLowerCase().includes(dir));
-            const activePool = (dirFrames.length > 0 && SUBJECT !== 'TEXT') ? dirFrames : pool;
-
-            const deckKey = poolKey + '_' + dir;
-            if (!SHUFFLE_DECKS[deckKey] || SHUFFLE_DECKS[deckKey].length === 0) {
-                 SHUFFLE_DECKS[deckKey] = [...activePool];
-                 for (let i = SHUFFLE_DECKS[deckKey].length - 1; i > 0; i--) {
-                     const j = Math.floor(Math.random() * (i + 1));
-                     [SHUFFLE_DECKS[deckKey][i], SHUFFLE_DECKS[deckKey][j]] = [SHUFFLE_DECKS[deckKey][j], SHUFFLE_DECKS[deckKey][i]];
-                 }
-            }
-            return SHUFFLE_DECKS[deckKey].pop() || 'base';
-        }
-
-        // --- 7. RENDER LOOP ---
+        // --- 6. RENDER LOOP ---
         function loop() {
             requestAnimationFrame(loop);
             
@@ -333,191 +385,51 @@ export const generatePlayerHTML = (
             const dt = (now - lastFrameTime) / 1000;
             lastFrameTime = now;
             
-            const w = window.innerWidth;
-            const h = window.innerHeight;
+            fitStage();
+            const w = stage.w;
+            const h = stage.h;
+            const k = Math.min(w, h) / FORMAT.stageWidth; // Stage pixels -> canvas pixels
             
             // Audio Analysis
             const freq = new Uint8Array(analyser.frequencyBinCount);
             analyser.getByteFrequencyData(freq);
+            const audio = ChoreographyEngine.bandsFromSpectrum(freq);
+            const playing = !!micStream || (!!audioEl && !audioEl.paused);
             
-            const bass = freq.slice(0,15).reduce((a,b)=>a+b,0)/15/255;
-            const mid = freq.slice(15,100).reduce((a,b)=>a+b,0)/85/255;
-            const high = freq.slice(100,300).reduce((a,b)=>a+b,0)/200/255;
-            
-            // Logic
-            if(bass > 0.6 && now - PHYSICS.lastBeat > 500) {
-                PHYSICS.lastBeat = now;
-                
-                PHYSICS.beatCounter = (PHYSICS.beatCounter + 1) % 4;
-                const isPatternCut = PHYSICS.beatCounter < 2;
-                const isHard = bass > 0.8;
-                
-                let poolKey = 'low';
-                if(isHard) poolKey = 'high';
-                else if(bass > 0.6) poolKey = 'mid';
-                
-                let dir = PHYSICS.lastDir === 'left' ? 'right' : 'left';
-                if(Math.random() < 0.25) dir = PHYSICS.lastDir; 
-                PHYSICS.lastDir = dir;
-                
-                const next = getNextPose(poolKey, dir);
-                if (next !== PHYSICS.targetPose) {
-                    PHYSICS.previousPose = PHYSICS.targetPose;
-                    PHYSICS.targetPose = next;
-                    PHYSICS.transitionStart = now;
-                    
-                    if (isHard || isPatternCut) {
-                        PHYSICS.transitionMode = 'CUT';
-                        PHYSICS.transitionDuration = 0;
-                    } else {
-                        PHYSICS.transitionMode = 'FLOW';
-                        PHYSICS.transitionDuration = 240;
-                    }
-                }
-                
-                if(PHYSICS.dynamicCam) {
-                    if (PHYSICS.transitionMode === 'CUT') {
-                        PHYSICS.camShake = {x: (Math.random()-0.5)*15*bass, y: (Math.random()-0.5)*15*bass};
-                        PHYSICS.camZoom = isHard ? 1.15 : 1.05;
-                    } else {
-                        PHYSICS.camPan.x += (dir === 'left' ? -20 : 20);
-                    }
-                    if(isHard) PHYSICS.flash = 0.8;
-                }
-            }
-            
-            // Snare logic (Mids) -> Scanlines
-            if(mid > 0.7 && now - PHYSICS.lastSnare > 800) {
-                PHYSICS.lastSnare = now;
-                PHYSICS.moire = 1.0; 
-                PHYSICS.dollyZoom = 0.5;
-            }
-            
-            // Physics Decay
-            const lerpSpeed = 6 * dt;
-            
-            // Stillness / Sway Logic
-            PHYSICS.swayPhase += dt * 0.5;
-            const sway = Math.sin(PHYSICS.swayPhase) * 5;
-            const energyInfluence = Math.min(1, bass * 2);
-            
-            const targetPanX = sway * (1-energyInfluence);
-            PHYSICS.camPan.x += (targetPanX - PHYSICS.camPan.x) * lerpSpeed;
-            
-            // Zoom Return - if Flowing, hold zoom slightly
-            const targetZoom = (PHYSICS.transitionMode === 'FLOW') ? 1.05 : 1.0;
-            PHYSICS.camZoom += (targetZoom - PHYSICS.camZoom) * (lerpSpeed * 0.5);
-            
-            PHYSICS.camShake.x *= (1 - lerpSpeed * 2);
-            PHYSICS.camShake.y *= (1 - lerpSpeed * 2);
-            
-            PHYSICS.dollyZoom *= Math.exp(-3 * dt);
-            PHYSICS.moire *= 0.85;
-            PHYSICS.tear *= 0.8;
-            PHYSICS.flash *= 0.85;
+            // Brain + Camera Physics
+            // Song clock for the beat grid (set when the dropped track is the session's song)
+            const songTime = (!micStream && audioEl && !audioEl.paused) ? audioEl.currentTime : undefined;
+            ENGINE.update(now, Math.min(dt, 0.1), audio, playing, songTime);
+            const cam = ENGINE.state.camera;
+            const fx = ENGINE.state.fx;
             
             // 4. Render Background
-            if(!PHYSICS.transparent) {
-                const dollyOffset = -(PHYSICS.dollyZoom * 1.5);
-                viz.render({bass,mid,high}, dollyOffset);
-                bgC.style.opacity = 1;
+            if(!TOGGLES.transparent) {
+                const dollyOffset = -(fx.dolly * 1.5);
+                if(!BACKDROP || backdropBlended) viz.render(audio, dollyOffset, w, h);
+                if(BACKDROP) {
+                    if(backdropC.width !== w || backdropC.height !== h) { backdropC.width = w; backdropC.height = h; }
+                    drawBackdrop(backdropCtx, backdropMedia, w, h, BACKDROP.settings, audio.bass, backdropBlended ? bgC : null);
+                }
+                bgC.style.opacity = BACKDROP ? 0 : 1;
+                backdropC.style.opacity = BACKDROP ? 1 : 0;
             } else {
                 const gl = viz.gl;
                 gl.clearColor(0,0,0,0);
                 gl.clear(gl.COLOR_BUFFER_BIT);
                 bgC.style.opacity = 0;
+                backdropC.style.opacity = 0;
             }
             
             // 5. Render Character
             if(charC.width !== w || charC.height !== h) { charC.width=w; charC.height=h; }
             
-            // Helper Render
-            const renderPose = (pName, opacity, offsetX=0) => {
-                const img = IMAGES[pName] || IMAGES['base'];
-                if(!img) return;
-                
-                const dollyScale = 1.0 + (PHYSICS.dollyZoom * 0.2);
-                const totalZoom = PHYSICS.camZoom * dollyScale;
-                const cx = w/2 + PHYSICS.camShake.x + PHYSICS.camPan.x + offsetX;
-                const cy = h/2 + PHYSICS.camShake.y + PHYSICS.camPan.y;
-                const aspect = img.width / img.height;
-                let dw = w * 0.9;
-                let dh = dw / aspect;
-                if(dh > h*0.9) { dh = h*0.9; dw = dh*aspect; }
-                
-                ctx.save();
-                ctx.globalAlpha = opacity;
-
-                // RGB/Scanlines
-                if(PHYSICS.moire > 0.05) {
-                    const drawCh = (col, ox) => {
-                        ctx.save();
-                        ctx.translate(cx + ox, cy);
-                        ctx.scale(totalZoom, totalZoom);
-                        ctx.globalCompositeOperation = 'screen';
-                        ctx.globalAlpha = 0.8 * PHYSICS.moire * opacity;
-                        ctx.drawImage(img, -dw/2, -dh/2, dw, dh);
-                        ctx.globalCompositeOperation = 'source-in';
-                        ctx.fillStyle = col;
-                        ctx.fillRect(-dw/2, -dh/2, dw, dh);
-                        ctx.restore();
-                    }
-                    drawCh('#f00', -5 * PHYSICS.moire);
-                    drawCh('#00f', 5 * PHYSICS.moire);
-                }
-                
-                // Main Image
-                ctx.save();
-                ctx.translate(cx, cy);
-                ctx.scale(totalZoom, totalZoom);
-                ctx.drawImage(img, -dw/2, -dh/2, dw, dh);
-                
-                // Scanlines Overlay
-                if(PHYSICS.moire > 0.05) {
-                    ctx.globalCompositeOperation = 'source-atop';
-                    ctx.beginPath();
-                    for(let i=0; i<dh; i+=4) ctx.rect(-dw/2, -dh/2 + i, dw, 1);
-                    ctx.fillStyle = \`rgba(0,0,0,\${0.5 * PHYSICS.moire * opacity})\`;
-                    ctx.fill();
-                }
-                
-                // Lighting
-                if(PHYSICS.flash > 0.05) {
-                    ctx.globalCompositeOperation = 'overlay';
-                    ctx.fillStyle = '#ffeebb';
-                    ctx.globalAlpha = PHYSICS.flash * opacity;
-                    ctx.fillRect(-dw/2, -dh/2, dw, dh);
-                }
-                
-                ctx.restore();
-                ctx.restore();
-            }
-            
-            // TRANSITION LOGIC
+            // Same layer renderer as the app (crossfades, anchors, camera, super-cam FX)
             ctx.clearRect(0,0,w,h);
-            
-            let progress = 1;
-            if (PHYSICS.transitionDuration > 0) {
-                progress = Math.min(1, (now - PHYSICS.transitionStart) / PHYSICS.transitionDuration);
-            }
-            
-            if (progress < 1) {
-                if (PHYSICS.transitionMode === 'FLOW') {
-                     // FLOW SLIDE
-                     const ease = progress * progress * (3 - 2 * progress);
-                     const flowDir = PHYSICS.lastDir === 'left' ? -1 : 1;
-                     const slideDist = 40;
-                     
-                     renderPose(PHYSICS.previousPose, 1-ease, (slideDist*ease)*flowDir);
-                     renderPose(PHYSICS.targetPose, ease, (-slideDist*(1-ease))*flowDir);
-                } else {
-                     // CUT FADE
-                     renderPose(PHYSICS.previousPose, 1-progress);
-                     renderPose(PHYSICS.targetPose, progress);
-                }
-            } else {
-                renderPose(PHYSICS.targetPose, 1.0);
-            }
+            drawCharacterLayers(ctx, w, h, ENGINE.layers(now), resolveSprite, {
+                camera: cam, fx: fx, zoom: ENGINE.zoom(), superCam: ENGINE.options.dynamicCamera,
+                random: fxRandom, scale: k, fit: FORMAT.fit
+            });
             
             document.getElementById('fps').innerText = Math.round(1/dt) + ' FPS';
         }
@@ -546,16 +458,16 @@ export const generatePlayerHTML = (
             }
         };
         
-        btnCam.classList.add('active');
+        if(CHOREO.dynamicCamera) btnCam.classList.add('active');
         btnCam.onclick = () => {
-            PHYSICS.dynamicCam = !PHYSICS.dynamicCam;
+            ENGINE.setOptions({ dynamicCamera: !ENGINE.options.dynamicCamera });
             btnCam.classList.toggle('active');
         };
         
         btnGreen.onclick = () => {
-            PHYSICS.transparent = !PHYSICS.transparent;
+            TOGGLES.transparent = !TOGGLES.transparent;
             btnGreen.classList.toggle('active');
-            if(PHYSICS.transparent) {
+            if(TOGGLES.transparent) {
                 document.body.style.background = 'transparent'; 
             } else {
                 document.body.style.background = '#000';
@@ -578,6 +490,12 @@ export const generatePlayerHTML = (
                 audioEl = new Audio(url);
                 audioEl.loop = true;
                 audioCtx.resume();
+                ENGINE.reset(mulberry32(deriveSeed(CHOREO.seed, 'choreo'))); // New track, same seeded performance
+                fxRandom = mulberry32(deriveSeed(CHOREO.seed, 'fx'));
+                const grid = CHOREO.grid;
+                const sameSong = !!grid && file.name === grid.source.name && file.size === grid.source.size;
+                ENGINE.setBeatGrid(sameSong ? grid : null);
+                console.log(sameSong ? '[Player] Beat grid matched the track' : '[Player] Unknown track, following live beats');
                 audioEl.play();
                 connectSource(audioCtx.createMediaElementSource(audioEl));
                 btnPlay.style.display = 'flex';
@@ -0,0 +1,73 @@
+// @vitest-environment happy-dom
+// (FileReader and canvas-free Blob handling as in the browser)
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { SavedProject } from '../types';
+import { CONTAINER_FORMAT, CONTAINER_VERSION, packProject, readProjectFile } from './projectContainer';
+import { createZip, readZip } from './zipArchive';
+
+// The DOM environment replaces URL, so fixtures are located by path here
+const fixture = (name: string): string => readFileSync(join(__dirname, '__fixtures__/projects', `${name}.json`), 'utf8');
+
+// Current fixture with the song embedded: three frames, one sheet and the backdrop share one image
+const project: SavedProject = {
+    ...JSON.parse(fixture('v5')),
+    audio: { ...JSON.parse(fixture('v5')).audio, dataUrl: 'data:audio/mpeg;base64,SUQzBAAAAAAA' }
+};
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+describe('packProject / readProjectFile', () => {
+    it('round-trips a project through the zip container', async () => {
+        const { result, container } = await readProjectFile(await packProject(project, { webpFrames: false, includeSheets: true }));
+        expect(container).toBe(true);
+        expect(result.errors).toEqual([]);
+        expect(result.project).toEqual(project);
+    });
+
+    it('stores identical frames once', async () => {
+        const files = await readZip(await (await packProject(project, { webpFrames: false, includeSheets: true })).arrayBuffer());
+        const names = [...files.keys()];
+        const frames = names.filter(n => n.startsWith('frames/'));
+        expect(frames).toHaveLength(1);
+        expect(names).toEqual(expect.arrayContaining(['manifest.json', 'sheets/base.png', 'audio/aaaaaaaaaaaaaaaa.mp3', frames[0].replace('frames/', 'backdrop/')]));
+
+        const manifest = JSON.parse(new TextDecoder().decode(files.get('manifest.json')));
+        expect(manifest.project.frames.map((f: SavedProject['frames'][number]) => f.url)).toEqual([frames[0], frames[0], frames[0]]);
+    });
+
+    it('leaves the sheets out when asked', async () => {
+        const { result } = await readProjectFile(await packProject(project, { webpFrames: false, includeSheets: false }));
+        expect(result.project!.sheets).toBeUndefined();
+        expect(result.project!.sheetGrids).toBeUndefined();
+    });
+
+    it('reports entries missing from the archive by field', async () => {
+        const manifest = {
+            format: CONTAINER_FORMAT,
+            containerVersion: CONTAINER_VERSION,
+            project: { ...project, frames: [{ ...project.frames[0], url: 'frames/gone.png' }], audio: { ...project.audio, dataUrl: undefined, file: 'audio/gone.mp3' } }
+        };
+        const zip = await createZip([{ name: 'manifest.json', data: text(JSON.stringify(manifest)) }]);
+        const { result, container } = await readProjectFile(zip);
+        expect(container).toBe(true);
+        expect(result.project).toBeNull();
+        expect(result.errors).toEqual([
+            'frames[0].url: "frames/gone.png" is missing from the project archive',
+            'audio.file: "audio/gone.mp3" is missing from the project archive'
+        ]);
+    });
+
+    it('rejects archives without a project manifest', async () => {
+        const zip = await createZip([{ name: 'manifest.json', data: text(JSON.stringify({ format: 'other' })) }]);
+        expect((await readProjectFile(zip)).result.errors).toEqual(['manifest.json: not a project manifest']);
+    });
+
+    it('still loads legacy JSON files', async () => {
+        const { result, container } = await readProjectFile(new Blob([fixture('v4')]));
+        expect(container).toBe(false);
+        expect(result.errors).toEqual([]);
+        expect(result.migratedFrom).toBe(4);
+    });
+});
@@ -0,0 +1,228 @@
+import { SavedProject, SpriteSheets, SheetRole } from "../types";
+import { ProjectSaveOptions, sha256Hex } from "./projectFile";
+import { ProjectLoadResult, parseProject, checkProject, isObject, MAX_PROJECT_BYTES } from "./projectSchema";
+import { createZip, readZip, isZip, ZipEntryInput } from "./zipArchive";
+
+// --- PROJECT CONTAINER (.jusdnce zip) ---
+// A project file is a zip instead of one JSON string of base64 images:
+//   manifest.json        the SavedProject, with frame URLs replaced by paths inside the zip
+//   frames/<hash>.<ext>  one file per distinct image (identical frames are stored once)
+//   audio/<hash>.<ext>   the song, when embedded
+//   sheets/<role>.<ext>  original sprite sheets (re-slicing), unless left out
+//   backdrop/<hash>.<ext> the uploaded backdrop image or video
+// Loading unpacks everything back into data URLs and runs the usual migrate + validate
+// pipeline. Legacy JSON files are detected by their first bytes and still load.
+
+export const CONTAINER_FORMAT = 'jusdnce-zip';
+export const CONTAINER_VERSION = 1;
+const MANIFEST = 'manifest.json';
+const DEFAULT_WEBP_QUALITY = 0.9;
+
+export interface ContainerOptions {
+    webpFrames: boolean;        // Re-encode frames as WebP (kept when WebP is not smaller)
+    webpQuality?: number;       // 0-1
+    includeSheets: boolean;     // false = drop the original sheets (smaller file, no re-slicing)
+}
+
+// What the save panel asks for
+export interface ProjectExportOptions extends ProjectSaveOptions, ContainerOptions {}
+
+interface ContainerManifest {
+    format: string;
+    containerVersion: number;
+    project: SavedProject & { audio?: SavedProject['audio'] & { file?: string } };
+}
+
+export interface ContainerLoadResult {
+    result: ProjectLoadResult;
+    container: boolean;         // false = legacy JSON file
+}
+
+// --- BYTES <-> URLS ---
+
+const EXTENSIONS: Record<string, string> = {
+    'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp', 'image/gif': 'gif',
+    'audio/mpeg': 'mp3', 'audio/wav': 'wav', 'audio/x-wav': 'wav', 'audio/ogg': 'ogg',
+    'audio/flac': 'flac', 'audio/mp4': 'm4a', 'audio/aac': 'aac', 'audio/webm': 'weba',
+    'video/mp4': 'mp4', 'video/webm': 'webm', 'video/quicktime': 'mov'
+};
+const IMAGE_TYPES: Record<string, string> = { png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', webp: 'image/webp', gif: 'image/gif' };
+
+const extensionOf = (mime: string): string => EXTENSIONS[mime] || 'bin';
+
+const urlToBlob = async (url: string): Promise<Blob> => (await fetch(url)).blob();
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+const blobBytes = async (blob: Blob): Promise<Uint8Array> => new Uint8Array(await blob.arrayBuffer());
+
+// Lossy re-encode; null when the browser has no WebP encoder (canvas falls back to PNG)
+const encodeWebp = async (blob: Blob, quality: number): Promise<Blob | null> => {
+    const bitmap = await createImageBitmap(blob);
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) { bitmap.close(); return null; }
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    const webp = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/webp', quality));
+    return webp && webp.type === 'image/webp' ? webp : null;
+};
+
+// --- PACK ---
+
+export const packProject = async (project: SavedProject, options: ContainerOptions): Promise<Blob> => {
+    const entries: ZipEntryInput[] = [];
+    const pathsByHash = new Map<string, string>();
+    const quality = options.webpQuality ?? DEFAULT_WEBP_QUALITY;
+
+    // Same source bytes -> same entry, so a pose reused across sheets costs nothing
+    const addImage = async (url: string, folder: string, fixedName?: string): Promise<string> => {
+        if (!url.startsWith('data:') && !url.startsWith('blob:')) return url; // remote URL stays a reference
+        let blob = await urlToBlob(url);
+        const hash = await sha256Hex(blob);
+        const known = pathsByHash.get(hash);
+        if (known && !fixedName) return known;
+
+        if (options.webpFrames && folder === 'frames' && blob.type !== 'image/webp') {
+            const webp = await encodeWebp(blob, quality).catch(() => null);
+            if (webp && webp.size < blob.size) blob = webp;
+        }
+        const path = `${folder}/${fixedName || hash.slice(0, 16)}.${extensionOf(blob.type)}`;
+        entries.push({ name: path, data: await blobBytes(blob) });
+        if (!fixedName) pathsByHash.set(hash, path);
+        return path;
+    };
+
+    const frames = [];
+    for (const frame of project.frames) frames.push({ ...frame, url: await addImage(frame.url, 'frames') });
+
+    let audio: ContainerManifest['project']['audio'] = project.audio;
+    if (project.audio?.dataUrl) {
+        const { dataUrl, ...reference } = project.audio;
+        const path = `audio/${reference.sha256.slice(0, 16)}.${extensionOf(reference.type)}`;
+        entries.push({ name: path, data: await blobBytes(await urlToBlob(dataUrl)) });
+        audio = { ...reference, file: path };
+    }
+
+    let sheets: SpriteSheets | undefined;
+    if (options.includeSheets && project.sheets) {
+        sheets = {};
+        for (const [role, url] of Object.entries(project.sheets) as [SheetRole, string][]) {
+            if (url) sheets[role] = await addImage(url, 'sheets', role);
+        }
+    }
+
+    let backdrop = project.backdrop;
+    if (backdrop?.url.startsWith('data:')) {
+        const blob = await urlToBlob(backdrop.url);
+        const path = `backdrop/${(await sha256Hex(blob)).slice(0, 16)}.${extensionOf(backdrop.type)}`;
+        entries.push({ name: path, data: await blobBytes(blob) });
+        backdrop = { ...backdrop, url: path };
+    }
+
+    const manifest: ContainerManifest = {
+        format: CONTAINER_FORMAT,
+        containerVersion: CONTAINER_VERSION,
+        project: {
+            ...project, frames, audio, sheets, backdrop,
+            sheetGrids: options.includeSheets ? project.sheetGrids : undefined
+        }
+    };
+    entries.unshift({ name: MANIFEST, data: new TextEncoder().encode(JSON.stringify(manifest, null, 1)), compress: true });
+
+    const distinct = entries.filter(e => e.name.startsWith('frames/')).length;
+    console.log(`[Project] Packed ${project.frames.length} frames as ${distinct} images${options.webpFrames ? ' (WebP)' : ''}`);
+    return createZip(entries);
+};
+
+// --- UNPACK ---
+
+const failed = (...errors: string[]): ProjectLoadResult => ({ project: null, errors, migratedFrom: null });
+
+const unpackContainer = async (buffer: ArrayBuffer): Promise<ContainerLoadResult> => {
+    const files = await readZip(buffer, MAX_PROJECT_BYTES);
+    const manifestBytes = files.get(MANIFEST);
+    if (!manifestBytes) return { result: failed(`${MANIFEST}: missing from the project archive`), container: true };
+
+    // Untrusted until checkProject has seen it: narrowed field by field like the validator does
+    let manifest: unknown;
+    try {
+        manifest = JSON.parse(new TextDecoder().decode(manifestBytes));
+    } catch (e: any) {
+        return { result: failed(`${MANIFEST}: not valid JSON (${e?.message || 'parse error'})`), container: true };
+    }
+    if (!isObject(manifest) || manifest.format !== CONTAINER_FORMAT) {
+        return { result: failed(`${MANIFEST}: not a project manifest`), container: true };
+    }
+    if (typeof manifest.containerVersion !== 'number' || manifest.containerVersion > CONTAINER_VERSION) {
+        return { result: failed(`${MANIFEST}: container version ${manifest.containerVersion} is newer than this app reads (v${CONTAINER_VERSION})`), container: true };
+    }
+
+    const errors: string[] = [];
+    const decoded = new Map<string, Promise<string>>();
+    // Paths inside the archive -> data URLs; anything else is left for the validator to judge
+    const resolveImage = (path: unknown, field: string): Promise<unknown> => {
+        if (typeof path !== 'string' || /^(data:|https?:|blob:)/.test(path)) return Promise.resolve(path);
+        const bytes = files.get(path);
+        if (!bytes) { errors.push(`${field}: "${path}" is missing from the project archive`); return Promise.resolve(path); }
+        if (!decoded.has(path)) {
+            const type = IMAGE_TYPES[path.split('.').pop()?.toLowerCase() || ''] || 'application/octet-stream';
+            decoded.set(path, blobToDataUrl(new Blob([bytes as BlobPart], { type })));
+        }
+        return decoded.get(path);
+    };
+
+    const mimeType = (value: unknown) => typeof value === 'string' ? value : 'application/octet-stream';
+
+    if (!isObject(manifest.project)) return { result: checkProject(manifest.project), container: true };
+    const raw: Record<string, unknown> = { ...manifest.project };
+    if (Array.isArray(raw.frames)) {
+        raw.frames = await Promise.all(raw.frames.map(async (f: unknown, i: number) =>
+            isObject(f) ? { ...f, url: await resolveImage(f.url, `frames[${i}].url`) } : f));
+    }
+
+    const audio = raw.audio;
+    if (isObject(audio) && typeof audio.file === 'string') {
+        const reference = { ...audio };
+        delete reference.file;
+        const bytes = files.get(audio.file);
+        if (bytes) raw.audio = { ...reference, dataUrl: await blobToDataUrl(new Blob([bytes as BlobPart], { type: mimeType(reference.type) })) };
+        else { errors.push(`audio.file: "${audio.file}" is missing from the project archive`); raw.audio = reference; }
+    }
+
+    if (isObject(raw.sheets)) {
+        const entries = await Promise.all(Object.entries(raw.sheets).map(async ([role, path]) => [role, await resolveImage(path, `sheets.${role}`)]));
+        raw.sheets = Object.fromEntries(entries);
+    }
+
+    // Typed by the stored MIME type: the backdrop may be a video
+    const backdrop = raw.backdrop;
+    if (isObject(backdrop) && typeof backdrop.url === 'string' && !backdrop.url.startsWith('data:')) {
+        const bytes = files.get(backdrop.url);
+        if (bytes) raw.backdrop = { ...backdrop, url: await blobToDataUrl(new Blob([bytes as BlobPart], { type: mimeType(backdrop.type) })) };
+        else errors.push(`backdrop.url: "${backdrop.url}" is missing from the project archive`);
+    }
+
+    if (errors.length > 0) return { result: failed(...errors), container: true };
+    return { result: checkProject(raw), container: true };
+};
+
+// Zip container or legacy JSON, told apart by the first bytes
+export const readProjectFile = async (file: Blob): Promise<ContainerLoadResult> => {
+    const buffer = await file.arrayBuffer();
+    if (isZip(new Uint8Array(buffer, 0, Math.min(4, buffer.byteLength)))) {
+        try {
+            return await unpackContainer(buffer);
+        } catch (e: any) {
+            return { result: failed(`Broken project archive (${e?.message || 'unreadable'})`), container: true };
+        }
+    }
+    return { result: parseProject(new TextDecoder().decode(buffer)), container: false };
+};
@@ -0,0 +1,100 @@
+import { AppState, ProjectAudio, ProjectSettings, SavedProject } from "../types";
+import { PROJECT_SCHEMA_VERSION } from "./projectSchema";
+
+// --- PROJECT FILE (session <-> SavedProject) ---
+// A project stores the rig AND everything that shapes its performance: director settings,
+// camera toggle, seed, output format, the beat grid, the song itself (embedded, or a
+// SHA-256 reference when the file should stay small) and the original sprite sheets with
+// their slicing grids and the uploaded backdrop. Loading it replays the same dance.
+
+export const PROJECT_SETTING_KEYS: (keyof ProjectSettings)[] = [
+    'secondaryStyleId', 'morphIntensity', 'reactivity', 'backgroundScene', 'sceneParams', 'paletteSource', 'backdropSettings', 'motionPrompt', 'motionPreset', 'useTurbo', 'superMode',
+    'spriteProvider', 'intensity', 'duration', 'smoothness', 'stutter', 'dynamicCamera'
+];
+
+export interface ProjectSaveOptions {
+    embedAudio: boolean;
+    // Identity of an existing library entry (autosave overwrites it in place)
+    id?: string;
+    name?: string;
+    createdAt?: number;
+}
+
+export const sha256Hex = async (blob: Blob): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+// Autosave describes the same File over and over: hash / encode it once
+const audioCache = new WeakMap<File, { sha256?: Promise<string>, dataUrl?: Promise<string> }>();
+
+export const describeAudio = async (file: File, embed: boolean): Promise<ProjectAudio> => {
+    const cached = audioCache.get(file) || {};
+    audioCache.set(file, cached);
+    cached.sha256 = cached.sha256 || sha256Hex(file);
+    if (embed) cached.dataUrl = cached.dataUrl || blobToDataUrl(file);
+    return {
+        name: file.name,
+        type: file.type || 'audio/mpeg',
+        size: file.size,
+        sha256: await cached.sha256,
+        dataUrl: embed ? await cached.dataUrl : undefined
+    };
+};
+
+export const projectSettings = (state: AppState): ProjectSettings =>
+    Object.fromEntries(PROJECT_SETTING_KEYS.map(key => [key, state[key]])) as unknown as ProjectSettings;
+
+// Only known keys from the file reach AppState
+export const settingsFromProject = (settings: Partial<ProjectSettings> | undefined): Partial<ProjectSettings> =>
+    settings ? Object.fromEntries(PROJECT_SETTING_KEYS.filter(key => settings[key] !== undefined).map(key => [key, settings[key]])) : {};
+
+export const buildProject = async (state: AppState, options: ProjectSaveOptions): Promise<SavedProject> => {
+    // Without a file in memory, keep the reference the rig was loaded with
+    const audio = state.audioFile
+        ? await describeAudio(state.audioFile, options.embedAudio)
+        : state.missingAudio || undefined;
+
+    return {
+        version: PROJECT_SCHEMA_VERSION,
+        id: options.id || crypto.randomUUID(),
+        name: options.name || `Rig_${Date.now()}`,
+        createdAt: options.createdAt ?? Date.now(),
+        frames: state.generatedFrames,
+        styleId: state.selectedStyleId,
+        subjectCategory: state.subjectCategory,
+        matteTolerance: state.removeBackground ? state.matteTolerance : undefined,
+        audioAnalysis: state.audioAnalysis || undefined,
+        seed: state.seed,
+        outputFormat: state.outputFormat,
+        settings: projectSettings(state),
+        audio,
+        sheets: Object.keys(state.spriteSheets).length > 0 ? state.spriteSheets : undefined,
+        sheetGrids: Object.keys(state.sheetGrids).length > 0 ? state.sheetGrids : undefined,
+        backdrop: state.backdrop || undefined
+    };
+};
+
+// Embedded song -> File (same name and size, so the saved beat grid still matches it)
+export const restoreProjectAudio = async (audio: ProjectAudio | undefined): Promise<File | null> => {
+    if (!audio?.dataUrl) return null;
+    const blob = await (await fetch(audio.dataUrl)).blob();
+    const file = new File([blob], audio.name, { type: audio.type });
+    const hash = await sha256Hex(file);
+    if (hash !== audio.sha256) {
+        console.warn(`[Project] Embedded audio hash mismatch (${hash.slice(0, 8)} != ${audio.sha256.slice(0, 8)}), ignoring it`);
+        return null;
+    }
+    return file;
+};
+
+// Does this upload satisfy the project's audio reference?
+export const audioMatchesReference = async (file: File, audio: ProjectAudio): Promise<boolean> =>
+    file.size === audio.size && await sha256Hex(file) === audio.sha256;
@@ -0,0 +1,168 @@
+import { SavedProject } from "../types";
+
+// --- LOCAL PROJECT LIBRARY (IndexedDB) ---
+// Projects persist in the browser so a reload loses nothing. Two object stores:
+//   summaries: small records (name, dates, style, frame count, thumbnail) for the list view
+//   projects:  the full SavedProject (frames and embedded audio as data URLs)
+// Both are written in one transaction, so a summary never points at a missing project.
+
+const DB_NAME = 'dncer-library';
+const DB_VERSION = 1;
+const SUMMARIES = 'summaries';
+const PROJECTS = 'projects';
+
+const THUMBNAIL_SIZE = 160;
+
+export interface LibraryEntry {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    styleId: string;
+    frameCount: number;
+    thumbnail: string | null;   // Small data URL of the first frame
+    hasAudio: boolean;          // Song embedded in the stored project
+}
+
+export interface StorageReport {
+    usage: number;              // bytes
+    quota: number;              // bytes
+    persisted: boolean;         // Safe from automatic eviction
+}
+
+export const isLibrarySupported = (): boolean => typeof indexedDB !== 'undefined';
+
+// --- DB PLUMBING ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SUMMARIES)) db.createObjectStore(SUMMARIES, { keyPath: 'id' });
+                if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: 'id' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => { dbPromise = null; reject(request.error); };
+        });
+    }
+    return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+// Runs `work` inside one transaction and resolves once it has committed
+const transact = async <T>(stores: string[], mode: IDBTransactionMode, work: (tx: IDBTransaction) => Promise<T> | T): Promise<T> => {
+    const db = await openDb();
+    const tx = db.transaction(stores, mode);
+    const done = new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error || new Error("Library transaction aborted"));
+    });
+    // Awaited together: a failing `work` aborts the transaction, which rejects `done` too
+    const [result] = await Promise.all([work(tx), done]);
+    return result;
+};
+
+// --- THUMBNAILS ---
+
+let thumbnailCache: { url: string, thumbnail: string } | null = null;
+
+const createThumbnail = (url: string): Promise<string | null> => {
+    if (thumbnailCache?.url === url) return Promise.resolve(thumbnailCache.thumbnail);
+    return new Promise(resolve => {
+        const img = new Image();
+        img.onload = () => {
+            const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(img.width, img.height));
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.max(1, Math.round(img.width * scale));
+            canvas.height = Math.max(1, Math.round(img.height * scale));
+            const ctx = canvas.getContext('2d');
+            if (!ctx) { resolve(null); return; }
+            ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+            const thumbnail = canvas.toDataURL('image/webp', 0.8);
+            thumbnailCache = { url, thumbnail };
+            resolve(thumbnail);
+        };
+        img.onerror = () => resolve(null);
+        img.src = url;
+    });
+};
+
+// --- API ---
+
+export const listProjects = async (): Promise<LibraryEntry[]> => {
+    const entries = await transact([SUMMARIES], 'readonly', tx => requestResult(tx.objectStore(SUMMARIES).getAll() as IDBRequest<LibraryEntry[]>));
+    return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadLibraryProject = (id: string): Promise<SavedProject | null> =>
+    transact([PROJECTS], 'readonly', tx => requestResult(tx.objectStore(PROJECTS).get(id) as IDBRequest<SavedProject | undefined>))
+        .then(project => project || null);
+
+// Insert or overwrite (same id). An existing entry keeps its creation date and name
+// (renames happen in the library, autosave only carries the session's copy).
+export const saveToLibrary = async (project: SavedProject): Promise<LibraryEntry> => {
+    const thumbnail = project.frames[0] ? await createThumbnail(project.frames[0].url) : null;
+    return transact([SUMMARIES, PROJECTS], 'readwrite', async tx => {
+        const summaries = tx.objectStore(SUMMARIES);
+        const existing = await requestResult(summaries.get(project.id) as IDBRequest<LibraryEntry | undefined>);
+        const entry: LibraryEntry = {
+            id: project.id,
+            name: existing?.name ?? project.name,
+            createdAt: existing?.createdAt ?? project.createdAt,
+            updatedAt: Date.now(),
+            styleId: project.styleId,
+            frameCount: project.frames.length,
+            thumbnail,
+            hasAudio: !!project.audio?.dataUrl
+        };
+        summaries.put(entry);
+        tx.objectStore(PROJECTS).put({ ...project, name: entry.name, createdAt: entry.createdAt });
+        return entry;
+    });
+};
+
+export const renameLibraryProject = (id: string, name: string): Promise<void> =>
+    transact([SUMMARIES, PROJECTS], 'readwrite', async tx => {
+        const summaries = tx.objectStore(SUMMARIES);
+        const projects = tx.objectStore(PROJECTS);
+        const entry = await requestResult(summaries.get(id) as IDBRequest<LibraryEntry | undefined>);
+        const project = await requestResult(projects.get(id) as IDBRequest<SavedProject | undefined>);
+        if (!entry || !project) throw new Error("Project not found");
+        summaries.put({ ...entry, name, updatedAt: Date.now() });
+        projects.put({ ...project, name });
+    });
+
+export const duplicateLibraryProject = async (id: string): Promise<LibraryEntry> => {
+    const project = await loadLibraryProject(id);
+    if (!project) throw new Error("Project not found");
+    const now = Date.now();
+    return saveToLibrary({ ...project, id: crypto.randomUUID(), name: `${project.name} (copy)`, createdAt: now });
+};
+
+export const deleteLibraryProject = (id: string): Promise<void> =>
+    transact([SUMMARIES, PROJECTS], 'readwrite', tx => {
+        tx.objectStore(SUMMARIES).delete(id);
+        tx.objectStore(PROJECTS).delete(id);
+    });
+
+export const getStorageReport = async (): Promise<StorageReport | null> => {
+    if (!navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    const persisted = navigator.storage.persisted ? await navigator.storage.persisted() : false;
+    return { usage, quota, persisted };
+};
+
+// Asks the browser not to evict the library under storage pressure (may prompt or no-op)
+export const requestPersistentStorage = async (): Promise<boolean> => {
+    if (!navigator.storage?.persist) return false;
+    return navigator.storage.persisted().then(done => done || navigator.storage.persist()).catch(() => false);
+};
@@ -0,0 +1,109 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { MAX_PROJECT_BYTES, PROJECT_SCHEMA_VERSION, checkProject, migrateProject, parseProject } from './projectSchema';
+
+const fixture = (name: string): string => readFileSync(new URL(`./__fixtures__/projects/${name}.json`, import.meta.url), 'utf8');
+
+describe('parseProject', () => {
+    it('migrates a legacy v1 file and fills in what it never had', () => {
+        const { project, errors, migratedFrom } = parseProject(fixture('v1-legacy'));
+        expect(errors).toEqual([]);
+        expect(migratedFrom).toBe(1);
+        expect(project).toMatchObject({
+            version: PROJECT_SCHEMA_VERSION,
+            id: 'legacy-0',
+            name: 'Imported Rig',
+            createdAt: 0,
+            subjectCategory: 'CHARACTER',
+            seed: 12345
+        });
+        expect(project!.frames.map(f => f.energy)).toEqual(['mid', 'high']);
+    });
+
+    it.each([2, 3, 4])('upgrades a v%i file without touching its fields', (version) => {
+        const raw = JSON.parse(fixture(`v${version}`));
+        const { project, errors, migratedFrom } = parseProject(fixture(`v${version}`));
+        expect(errors).toEqual([]);
+        expect(migratedFrom).toBe(version);
+        expect(project).toEqual({ ...raw, version: PROJECT_SCHEMA_VERSION });
+    });
+
+    it('loads a current file as is', () => {
+        const raw = JSON.parse(fixture('v5'));
+        const { project, errors, migratedFrom } = parseProject(fixture('v5'));
+        expect(errors).toEqual([]);
+        expect(migratedFrom).toBeNull();
+        expect(project).toEqual(raw);
+    });
+
+    it('reports every malformed field with its path', () => {
+        const { project, errors, migratedFrom } = parseProject(fixture('malformed-fields'));
+        expect(project).toBeNull();
+        expect(migratedFrom).toBeNull();
+        expect(errors).toEqual([
+            'frames[0].url: expected an image data URL or http(s) URL',
+            'frames[0].energy: expected one of low|mid|high, got "extreme"',
+            'frames[1].anchor.x: expected a number in [0, 1], got 2',
+            'seed: expected a number in [0, 4294967295], got -1',
+            'settings.reactivity: expected a number in [0, 100], got 150',
+            'settings.backgroundScene: expected one of |quantum|spectrum-tunnel|starfield|gradient-mesh, got "lava-lamp"',
+            'audio.sha256: expected 64 lowercase hex characters',
+            'sheetGrids.base.rows[2]: expected increasing positions in [0, 1], got 0.4',
+            'sheetGrids.base.inset: expected a number in [0, 0.3], got 0.5',
+            'backdrop.kind: expected one of image|video, got "gif"',
+            'backdrop.url: expected an image or video data URL'
+        ]);
+    });
+
+    it('rejects duplicate pose names and mirrors of unknown poses', () => {
+        const { project, errors } = parseProject(fixture('duplicate-poses'));
+        expect(project).toBeNull();
+        expect(errors).toEqual([
+            'frames[1].pose: duplicate pose name "base"',
+            'frames[2].mirrorOf: unknown pose "twirl"'
+        ]);
+    });
+
+    it('rejects files saved by a newer version', () => {
+        const { project, errors } = parseProject(fixture('newer-version'));
+        expect(project).toBeNull();
+        expect(errors).toEqual([`version: file was saved by a newer version of the app (v99, this app reads up to v${PROJECT_SCHEMA_VERSION})`]);
+    });
+
+    // Built here rather than committed: the limit is 150 MB
+    it('rejects oversized files before parsing them', () => {
+        const { project, errors } = parseProject(' '.repeat(MAX_PROJECT_BYTES + 1));
+        expect(project).toBeNull();
+        expect(errors).toEqual([`File is too large (150 MB, max 150 MB)`]);
+    });
+
+    it('rejects text that is not JSON', () => {
+        const { project, errors } = parseProject('{"frames": [');
+        expect(project).toBeNull();
+        expect(errors[0]).toMatch(/^Not a valid JSON file/);
+    });
+});
+
+describe('checkProject', () => {
+    it.each([
+        [[], 'project: expected an object, got array'],
+        [{ version: 0 }, 'version: expected a positive integer, got 0'],
+        [{ version: 2.5 }, 'version: expected a positive integer, got 2.5'],
+        [{ version: '3' }, 'version: expected a positive integer, got "3"']
+    ])('rejects %j', (raw, error) => {
+        expect(checkProject(raw).errors).toEqual([error]);
+    });
+});
+
+describe('migrateProject', () => {
+    it('steps through every version up to the current one', () => {
+        const { project, from } = migrateProject(JSON.parse(fixture('v1-legacy')));
+        expect(from).toBe(1);
+        expect(project.version).toBe(PROJECT_SCHEMA_VERSION);
+    });
+
+    it('leaves current files alone', () => {
+        const raw = JSON.parse(fixture('v5'));
+        expect(migrateProject(raw)).toEqual({ project: raw, from: null });
+    });
+});
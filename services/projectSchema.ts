@@ -0,0 +1,354 @@
+import { SavedProject } from "../types";
+
+// --- PROJECT FILE SCHEMA (.jusdnce) ---
+// Project files are versioned. Loading a file runs three steps:
+//   1. Size / JSON checks (reject before parsing megabytes of garbage)
+//   2. Migrations: each step upgrades version N to N + 1 until PROJECT_SCHEMA_VERSION
+//   3. Validation: every field is checked and each problem is reported with its path
+//      (e.g. `frames[3].energy`), so a broken file says what is broken.
+//
+// Changing SavedProject = bump PROJECT_SCHEMA_VERSION, add a migration from the previous
+// version and extend the validator.
+
+export const PROJECT_SCHEMA_VERSION = 5;
+
+export const MAX_PROJECT_BYTES = 150 * 1024 * 1024;
+const MAX_FRAMES = 256; // 3 sheets of up to 8x8 cells plus mirrors
+const MAX_FRAME_URL_LENGTH = 20 * 1024 * 1024;
+const MAX_AUDIO_URL_LENGTH = 120 * 1024 * 1024;
+const MAX_BACKDROP_URL_LENGTH = 60 * 1024 * 1024; // 40 MB upload, base64 encoded
+const MAX_TEXT_LENGTH = 4000;
+const MAX_GRID_LINES = 17;
+
+export interface ProjectLoadResult {
+    project: SavedProject | null;   // null when the file was rejected
+    errors: string[];               // "path: problem" per invalid field
+    migratedFrom: number | null;    // Original version when the file was upgraded
+}
+
+const reject = (...errors: string[]): ProjectLoadResult => ({ project: null, errors, migratedFrom: null });
+
+// --- MIGRATIONS ---
+// Keyed by the version they upgrade FROM. Input is untrusted, so migrations only fill in
+// and rename; the validator runs afterwards on the result.
+
+type RawProject = Record<string, unknown>;
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const MIGRATIONS: Record<number, (project: RawProject) => RawProject> = {
+    // v1: files written before versioning (id/name/createdAt were not always present,
+    // frames of the first rigs had no energy, seed could be a float)
+    1: (project) => ({
+        ...project,
+        version: 2,
+        id: typeof project.id === 'string' ? project.id : `legacy-${project.createdAt || 0}`,
+        name: typeof project.name === 'string' ? project.name : 'Imported Rig',
+        createdAt: typeof project.createdAt === 'number' ? project.createdAt : 0,
+        subjectCategory: project.subjectCategory ?? 'CHARACTER',
+        seed: typeof project.seed === 'number' ? project.seed >>> 0 : project.seed,
+        frames: Array.isArray(project.frames)
+            ? project.frames.map((f: unknown) => (isObject(f) && f.energy === undefined) ? { ...f, energy: 'mid' } : f)
+            : project.frames
+    }),
+    // v2 -> v3: optional `settings` and `audio` added, nothing to rewrite
+    2: (project) => ({ ...project, version: 3 }),
+    // v3 -> v4: optional `sheets` and `sheetGrids` added
+    3: (project) => ({ ...project, version: 4 }),
+    // v4 -> v5: optional `backdrop` and `settings.backdropSettings` added
+    4: (project) => ({ ...project, version: 5 }),
+};
+
+export const migrateProject = (project: RawProject): { project: RawProject, from: number | null } => {
+    const from = typeof project.version === 'number' ? project.version : 1;
+    let current = project;
+    let version = from;
+    while (version < PROJECT_SCHEMA_VERSION) {
+        const step = MIGRATIONS[version];
+        if (!step) throw new Error(`No migration from project version ${version}`);
+        current = step(current);
+        version++;
+    }
+    return { project: current, from: from === PROJECT_SCHEMA_VERSION ? null : from };
+};
+
+// --- VALIDATION ---
+
+const ENERGIES = ['low', 'mid', 'high'];
+const FRAME_TYPES = ['body', 'closeup'];
+const ROLES = ['base', 'alt', 'flourish'];
+const DIRECTIONS = ['left', 'right', 'neutral'];
+const PROVIDERS = ['gemini', 'fixture'];
+const SUBJECTS = ['CHARACTER', 'TEXT', 'SYMBOL'];
+const SECTION_TYPES = ['intro', 'verse', 'build', 'drop', 'breakdown', 'outro'];
+const OUTPUT_PRESET_IDS = ['vertical', 'square', 'portrait', 'landscape', 'custom'];
+const SCENES = ['', 'quantum', 'spectrum-tunnel', 'starfield', 'gradient-mesh'];
+const PALETTE_SOURCES = ['style', 'character'];
+const BACKDROP_KINDS = ['image', 'video'];
+const BACKDROP_FITS = ['cover', 'contain'];
+const BACKDROP_BLENDS = ['none', 'screen', 'overlay', 'multiply', 'lighten'];
+
+const describe = (value: unknown): string => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'string') return value.length > 40 ? `string(${value.length})` : JSON.stringify(value);
+    if (typeof value === 'number') return String(value);
+    return typeof value;
+};
+
+// Collects "path: problem" messages. Each check returns whether the value passed,
+// so nested checks can skip children of an already broken parent.
+const createValidator = () => {
+    const errors: string[] = [];
+    const fail = (path: string, expected: string, value: unknown) => { errors.push(`${path}: expected ${expected}, got ${describe(value)}`); return false; };
+
+    const v = {
+        errors,
+        object: (path: string, value: unknown): value is Record<string, unknown> =>
+            isObject(value) || fail(path, 'an object', value),
+        string: (path: string, value: unknown, max: number = MAX_TEXT_LENGTH): value is string =>
+            (typeof value === 'string' && value.length > 0) ? (value.length <= max || fail(path, `at most ${max} characters`, value)) : fail(path, 'a non-empty string', value),
+        number: (path: string, value: unknown, min: number = -Infinity, max: number = Infinity): value is number =>
+            (typeof value === 'number' && Number.isFinite(value)) ? ((value >= min && value <= max) || fail(path, `a number in [${min}, ${max}]`, value)) : fail(path, 'a finite number', value),
+        oneOf: (path: string, value: unknown, options: string[]): boolean =>
+            options.includes(value as string) || fail(path, `one of ${options.join('|')}`, value),
+        numbers: (path: string, value: unknown): boolean => {
+            if (!Array.isArray(value)) return fail(path, 'an array of numbers', value);
+            const bad = value.findIndex(n => typeof n !== 'number' || !Number.isFinite(n));
+            return bad < 0 || fail(`${path}[${bad}]`, 'a finite number', value[bad]);
+        },
+        text: (path: string, value: unknown, max: number = MAX_TEXT_LENGTH): boolean =>
+            typeof value === 'string' ? (value.length <= max || fail(path, `at most ${max} characters`, value)) : fail(path, 'a string', value),
+        boolean: (path: string, value: unknown): boolean =>
+            typeof value === 'boolean' || fail(path, 'a boolean', value),
+        optional: (value: unknown) => value !== undefined && value !== null
+    };
+    return v;
+};
+
+type Validator = ReturnType<typeof createValidator>;
+
+const validatePoint = (v: Validator, path: string, value: unknown) => {
+    if (!v.object(path, value)) return;
+    v.number(`${path}.x`, value.x, 0, 1);
+    v.number(`${path}.y`, value.y, 0, 1);
+};
+
+const validateBox = (v: Validator, path: string, value: unknown, normalized: boolean) => {
+    if (!v.object(path, value)) return;
+    const max = normalized ? 1 : Infinity;
+    v.number(`${path}.x`, value.x, normalized ? -1 : -Infinity, max);
+    v.number(`${path}.y`, value.y, normalized ? -1 : -Infinity, max);
+    v.number(`${path}.w`, value.w, 0, normalized ? 2 : Infinity);
+    v.number(`${path}.h`, value.h, 0, normalized ? 2 : Infinity);
+};
+
+const validateFrame = (v: Validator, path: string, frame: unknown, poses: Set<string>) => {
+    if (!v.object(path, frame)) return;
+    if (v.string(`${path}.url`, frame.url, MAX_FRAME_URL_LENGTH) && !/^(data:image\/|https?:|blob:)/.test(frame.url as string)) {
+        v.errors.push(`${path}.url: expected an image data URL or http(s) URL`);
+    }
+    if (v.string(`${path}.pose`, frame.pose, 120)) {
+        if (poses.has(frame.pose as string)) v.errors.push(`${path}.pose: duplicate pose name "${frame.pose}"`);
+        poses.add(frame.pose as string);
+    }
+    v.oneOf(`${path}.energy`, frame.energy, ENERGIES);
+    if (v.optional(frame.type)) v.oneOf(`${path}.type`, frame.type, FRAME_TYPES);
+    if (v.optional(frame.role)) v.oneOf(`${path}.role`, frame.role, ROLES);
+    if (v.optional(frame.provider)) v.oneOf(`${path}.provider`, frame.provider, PROVIDERS);
+    if (v.optional(frame.direction)) v.oneOf(`${path}.direction`, frame.direction, DIRECTIONS);
+    if (v.optional(frame.sourceBox)) validateBox(v, `${path}.sourceBox`, frame.sourceBox, false);
+    if (v.optional(frame.subjectBounds)) validateBox(v, `${path}.subjectBounds`, frame.subjectBounds, true);
+    if (v.optional(frame.anchor)) validatePoint(v, `${path}.anchor`, frame.anchor);
+    if (v.optional(frame.gridConfidence)) v.number(`${path}.gridConfidence`, frame.gridConfidence, 0, 1);
+    if (v.optional(frame.mirrorOf)) v.string(`${path}.mirrorOf`, frame.mirrorOf, 120);
+    if (v.optional(frame.promptUsed) && typeof frame.promptUsed !== 'string') v.errors.push(`${path}.promptUsed: expected a string, got ${describe(frame.promptUsed)}`);
+};
+
+const validateAnalysis = (v: Validator, path: string, analysis: unknown) => {
+    if (!v.object(path, analysis)) return;
+    if (v.object(`${path}.source`, analysis.source)) {
+        v.string(`${path}.source.name`, analysis.source.name);
+        v.number(`${path}.source.size`, analysis.source.size, 0);
+    }
+    v.number(`${path}.duration`, analysis.duration, 0);
+    v.number(`${path}.frameRate`, analysis.frameRate, 0);
+    v.number(`${path}.bpm`, analysis.bpm, 0, 400);
+    v.numbers(`${path}.beats`, analysis.beats);
+    v.numbers(`${path}.downbeats`, analysis.downbeats);
+    v.numbers(`${path}.beatStrength`, analysis.beatStrength);
+    v.numbers(`${path}.energy`, analysis.energy);
+    if (v.object(`${path}.onsets`, analysis.onsets)) {
+        const onsets = analysis.onsets;
+        (['bass', 'mid', 'high'] as const).forEach(band => v.numbers(`${path}.onsets.${band}`, onsets[band]));
+    }
+    if (v.optional(analysis.sections)) {
+        if (!Array.isArray(analysis.sections)) { v.errors.push(`${path}.sections: expected an array, got ${describe(analysis.sections)}`); return; }
+        analysis.sections.forEach((s, i) => {
+            const p = `${path}.sections[${i}]`;
+            if (!v.object(p, s)) return;
+            v.oneOf(`${p}.type`, s.type, SECTION_TYPES);
+            v.number(`${p}.start`, s.start, 0);
+            v.number(`${p}.end`, s.end, 0);
+            v.number(`${p}.energy`, s.energy, 0, 1);
+        });
+    }
+};
+
+// Settings are merged over the current session, so each key is optional on its own
+const validateSettings = (v: Validator, path: string, settings: unknown) => {
+    if (!v.object(path, settings)) return;
+    const percent = ['morphIntensity', 'reactivity', 'intensity', 'smoothness', 'stutter'];
+    percent.forEach(key => { if (v.optional(settings[key])) v.number(`${path}.${key}`, settings[key], 0, 100); });
+    ['useTurbo', 'superMode', 'dynamicCamera'].forEach(key => { if (v.optional(settings[key])) v.boolean(`${path}.${key}`, settings[key]); });
+    ['secondaryStyleId', 'motionPrompt', 'motionPreset'].forEach(key => { if (v.optional(settings[key])) v.text(`${path}.${key}`, settings[key]); });
+    if (v.optional(settings.duration)) v.number(`${path}.duration`, settings.duration, 1, 3600);
+    if (v.optional(settings.spriteProvider)) v.oneOf(`${path}.spriteProvider`, settings.spriteProvider, PROVIDERS);
+    if (v.optional(settings.backgroundScene)) v.oneOf(`${path}.backgroundScene`, settings.backgroundScene, SCENES);
+    if (v.optional(settings.paletteSource)) v.oneOf(`${path}.paletteSource`, settings.paletteSource, PALETTE_SOURCES);
+    if (v.optional(settings.sceneParams) && v.object(`${path}.sceneParams`, settings.sceneParams)) {
+        Object.entries(settings.sceneParams).forEach(([key, value]) => {
+            if (key.length > 40) v.errors.push(`${path}.sceneParams: parameter name too long`);
+            else v.number(`${path}.sceneParams.${key}`, value);
+        });
+    }
+    // Replaces the session's settings as a whole, so every field is required
+    if (v.optional(settings.backdropSettings) && v.object(`${path}.backdropSettings`, settings.backdropSettings)) {
+        const backdrop = settings.backdropSettings;
+        v.oneOf(`${path}.backdropSettings.fit`, backdrop.fit, BACKDROP_FITS);
+        v.oneOf(`${path}.backdropSettings.blend`, backdrop.blend, BACKDROP_BLENDS);
+        ['blur', 'dim', 'zoom', 'pulse', 'blendAmount'].forEach(key => v.number(`${path}.backdropSettings.${key}`, backdrop[key], 0, 1));
+    }
+};
+
+const validateBackdrop = (v: Validator, path: string, backdrop: unknown) => {
+    if (!v.object(path, backdrop)) return;
+    v.oneOf(`${path}.kind`, backdrop.kind, BACKDROP_KINDS);
+    v.string(`${path}.name`, backdrop.name, 500);
+    v.string(`${path}.type`, backdrop.type, 200);
+    if (v.string(`${path}.url`, backdrop.url, MAX_BACKDROP_URL_LENGTH) && !/^data:(image|video)\//.test(backdrop.url as string)) {
+        v.errors.push(`${path}.url: expected an image or video data URL`);
+    }
+};
+
+const validateAudio = (v: Validator, path: string, audio: unknown) => {
+    if (!v.object(path, audio)) return;
+    v.string(`${path}.name`, audio.name, 500);
+    v.text(`${path}.type`, audio.type, 200);
+    v.number(`${path}.size`, audio.size, 0);
+    if (v.string(`${path}.sha256`, audio.sha256, 64) && !/^[0-9a-f]{64}$/.test(audio.sha256 as string)) {
+        v.errors.push(`${path}.sha256: expected 64 lowercase hex characters`);
+    }
+    if (v.optional(audio.dataUrl) && v.string(`${path}.dataUrl`, audio.dataUrl, MAX_AUDIO_URL_LENGTH) && !(audio.dataUrl as string).startsWith('data:')) {
+        v.errors.push(`${path}.dataUrl: expected a data URL`);
+    }
+};
+
+// Line lists run from one sheet edge to the other, strictly increasing
+const validateLines = (v: Validator, path: string, value: unknown): boolean => {
+    if (!v.numbers(path, value)) return false;
+    const lines = value as number[];
+    if (lines.length < 2 || lines.length > MAX_GRID_LINES) { v.errors.push(`${path}: expected 2-${MAX_GRID_LINES} lines, got ${lines.length}`); return false; }
+    const bad = lines.findIndex((n, i) => n < 0 || n > 1 || (i > 0 && n <= lines[i - 1]));
+    if (bad >= 0) { v.errors.push(`${path}[${bad}]: expected increasing positions in [0, 1], got ${lines[bad]}`); return false; }
+    return true;
+};
+
+const validateSheets = (v: Validator, sheets: unknown, grids: unknown) => {
+    if (v.optional(sheets) && v.object('sheets', sheets)) {
+        Object.entries(sheets).forEach(([role, url]) => {
+            if (!ROLES.includes(role)) { v.errors.push(`sheets.${role}: unknown sheet role`); return; }
+            if (v.string(`sheets.${role}`, url, MAX_FRAME_URL_LENGTH) && !(url as string).startsWith('data:image/')) {
+                v.errors.push(`sheets.${role}: expected an image data URL`);
+            }
+        });
+    }
+    if (v.optional(grids) && v.object('sheetGrids', grids)) {
+        Object.entries(grids).forEach(([role, grid]) => {
+            const path = `sheetGrids.${role}`;
+            if (!ROLES.includes(role)) { v.errors.push(`${path}: unknown sheet role`); return; }
+            if (!v.object(path, grid)) return;
+            validateLines(v, `${path}.rows`, grid.rows);
+            validateLines(v, `${path}.cols`, grid.cols);
+            v.number(`${path}.inset`, grid.inset, 0, 0.3);
+        });
+    }
+};
+
+export const validateProject = (project: unknown): string[] => {
+    const v = createValidator();
+    if (!v.object('project', project)) return v.errors;
+
+    v.number('version', project.version, PROJECT_SCHEMA_VERSION, PROJECT_SCHEMA_VERSION);
+    v.string('id', project.id, 200);
+    v.string('name', project.name, 200);
+    v.number('createdAt', project.createdAt, 0);
+    v.string('styleId', project.styleId, 200);
+    v.oneOf('subjectCategory', project.subjectCategory, SUBJECTS);
+
+    if (!Array.isArray(project.frames)) {
+        v.errors.push(`frames: expected an array, got ${describe(project.frames)}`);
+    } else if (project.frames.length === 0 || project.frames.length > MAX_FRAMES) {
+        v.errors.push(`frames: expected 1-${MAX_FRAMES} frames, got ${project.frames.length}`);
+    } else {
+        const poses = new Set<string>();
+        project.frames.forEach((f, i) => validateFrame(v, `frames[${i}]`, f, poses));
+        project.frames.forEach((f, i) => {
+            if (f && typeof f === 'object' && typeof f.mirrorOf === 'string' && !poses.has(f.mirrorOf)) {
+                v.errors.push(`frames[${i}].mirrorOf: unknown pose "${f.mirrorOf}"`);
+            }
+        });
+    }
+
+    if (v.optional(project.matteTolerance)) v.number('matteTolerance', project.matteTolerance, 0, 100);
+    if (v.optional(project.seed)) v.number('seed', project.seed, 0, 0xFFFFFFFF);
+    if (v.optional(project.audioAnalysis)) validateAnalysis(v, 'audioAnalysis', project.audioAnalysis);
+    if (v.optional(project.outputFormat) && v.object('outputFormat', project.outputFormat)) {
+        v.oneOf('outputFormat.presetId', project.outputFormat.presetId, OUTPUT_PRESET_IDS);
+        v.number('outputFormat.customWidth', project.outputFormat.customWidth, 1, 16384);
+        v.number('outputFormat.customHeight', project.outputFormat.customHeight, 1, 16384);
+    }
+    if (v.optional(project.settings)) validateSettings(v, 'settings', project.settings);
+    if (v.optional(project.audio)) validateAudio(v, 'audio', project.audio);
+    validateSheets(v, project.sheets, project.sheetGrids);
+    if (v.optional(project.backdrop)) validateBackdrop(v, 'backdrop', project.backdrop);
+    return v.errors;
+};
+
+// --- ENTRY ---
+
+export const parseProject = (text: string): ProjectLoadResult => {
+    if (text.length > MAX_PROJECT_BYTES) {
+        return reject(`File is too large (${(text.length / 1024 / 1024).toFixed(0)} MB, max ${MAX_PROJECT_BYTES / 1024 / 1024} MB)`);
+    }
+
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch (e: any) {
+        return reject(`Not a valid JSON file (${e?.message || 'parse error'})`);
+    }
+    return checkProject(raw);
+};
+
+// Migrates + validates an already parsed project (files and library entries alike)
+export const checkProject = (raw: unknown): ProjectLoadResult => {
+    if (!isObject(raw)) {
+        return reject(`project: expected an object, got ${describe(raw)}`);
+    }
+
+    const version = raw.version;
+    if (version !== undefined && (typeof version !== 'number' || !Number.isInteger(version) || version < 1)) {
+        return reject(`version: expected a positive integer, got ${describe(version)}`);
+    }
+    if (typeof version === 'number' && version > PROJECT_SCHEMA_VERSION) {
+        return reject(`version: file was saved by a newer version of the app (v${version}, this app reads up to v${PROJECT_SCHEMA_VERSION})`);
+    }
+
+    const { project, from } = migrateProject(raw);
+    const errors = validateProject(project);
+    if (errors.length > 0) return { project: null, errors, migratedFrom: from };
+    // Every field has been checked against SavedProject by now
+    return { project: project as unknown as SavedProject, errors: [], migratedFrom: from };
+};
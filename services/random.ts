@@ -0,0 +1,45 @@
+// --- SEEDED RANDOMNESS ---
+// Everything that makes a "creative" choice (choreography, camera impulses, frame
+// metadata) draws from these generators instead of Math.random(), so a seed + track
+// replays the same dance in the app, the exported player and offline renders.
+
+// mulberry32: tiny, fast, good enough for choreography. Returns floats in [0, 1).
+// NOTE: Serialized with toString() into the exported player, keep it self-contained.
+export const mulberry32 = (seed: number): (() => number) => {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6D2B79F5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+// Independent sub-stream for a named purpose (e.g. 'choreo', 'base:12'), so adding
+// draws in one system never shifts the sequence of another.
+// NOTE: Also serialized into the exported player.
+export const deriveSeed = (seed: number, ...parts: (string | number)[]): number => {
+    let h = (2166136261 ^ seed) >>> 0;
+    const key = parts.join(':');
+    for (let i = 0; i < key.length; i++) {
+        h ^= key.charCodeAt(i);
+        h = Math.imul(h, 16777619);
+    }
+    return h >>> 0;
+};
+
+export const randomSeed = (): number => {
+    const buf = new Uint32Array(1);
+    crypto.getRandomValues(buf);
+    return buf[0];
+};
+
+// Seeds are shown/entered as 8-digit hex so they are easy to read out and paste.
+export const formatSeed = (seed: number): string => (seed >>> 0).toString(16).toUpperCase().padStart(8, '0');
+
+export const parseSeed = (input: string): number | null => {
+    const clean = input.trim().replace(/^0x/i, '');
+    if (!/^[0-9a-f]{1,8}$/i.test(clean)) return null;
+    return parseInt(clean, 16) >>> 0;
+};
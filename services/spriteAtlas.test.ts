@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { GeneratedFrame } from '../types';
+import { AudioFeatures, BeatGrid } from './choreography';
+import { buildAnimationTrack, TRACK_FPS } from './spriteAtlas';
+
+const frame = (pose: string, energy: GeneratedFrame['energy'], type: GeneratedFrame['type'] = 'body'): GeneratedFrame =>
+    ({ url: `data:image/png;base64,${pose}`, pose, energy, type });
+
+const FRAMES = [
+    frame('rest', 'low'),
+    frame('groove_a', 'mid'),
+    frame('groove_b', 'mid'),
+    frame('jump', 'high'),
+    frame('face', 'mid', 'closeup')
+];
+
+// 120 BPM for 4 seconds, bars of four
+const GRID: BeatGrid = {
+    beats: Array.from({ length: 8 }, (_, i) => 0.5 + i * 0.5),
+    downbeats: [0.5, 2.5],
+    beatStrength: [0.9, 0.4, 0.6, 0.4, 0.9, 0.4, 0.6, 0.4]
+};
+
+// Bright hats on every beat: lets a beat pick a closeup, which the metronome never does
+const FEATURES: AudioFeatures[] = Array.from({ length: 4 * TRACK_FPS }, (_, i) => {
+    const onBeat = (i / TRACK_FPS) % 0.5 < 0.05;
+    return { bass: onBeat ? 0.8 : 0.1, mid: 0.2, high: onBeat ? 0.7 : 0.1 };
+});
+
+const track = (features: AudioFeatures[] | null, seed = 7) => buildAnimationTrack(FRAMES, {
+    seed, duration: 4, beatGrid: GRID, bpm: 120, stutterChance: 0, superCam: true, directional: false, features
+});
+
+describe('buildAnimationTrack', () => {
+    it('pins the keys for a fixed seed, grid and song', () => {
+        expect(track(FEATURES).keys.map(k => [k.time, k.pose, k.mode])).toEqual([
+            [0, 'rest', 'CUT'],
+            [0.5, 'jump', 'CUT'],
+            [1, 'face', 'CUT'],
+            [1.5, 'groove_a', 'FLOW'],
+            [2, 'face', 'FLOW'],
+            [2.5, 'jump', 'CUT'],
+            [3, 'face', 'CUT'],
+            [3.5, 'groove_b', 'FLOW']
+        ]);
+    });
+
+    it('replays the same keys for the same seed', () => {
+        expect(track(FEATURES)).toEqual(track(FEATURES));
+        expect(track(FEATURES, 8).keys).not.toEqual(track(FEATURES).keys);
+    });
+
+    it('falls back to the metronome without a song', () => {
+        const keys = track(null).keys;
+        expect(keys.map(k => k.time)).toEqual([0, 0.5, 1, 1.5, 2, 2.5, 3, 3.5]);
+        expect(keys.map(k => k.pose)).not.toContain('face');
+    });
+});
@@ -0,0 +1,319 @@
+import { GeneratedFrame, EnergyLevel, FrameAnchor } from "../types";
+import { AudioFeatures, BeatGrid, ChoreographyEngine, PoseEvent } from "./choreography";
+import { frameDirection } from "./frameLibrary";
+import { applyMatte } from "./matting";
+import { mulberry32, deriveSeed } from "./random";
+
+// --- SPRITE ATLAS EXPORT ---
+// Packs the rig into one texture atlas PNG plus a JSON descriptor that game engines
+// can read directly: TexturePacker (hash / array, as used by Phaser, PixiJS, Cocos),
+// Aseprite JSON (frame tags per energy) or a plain uniform grid. Every format also
+// carries the rig metadata (energy, role, anchors, mirrors) and an optional beat-timed
+// animation track replayed from the choreography engine under `meta.dncer`.
+
+export type AtlasFormat = 'texturepacker-hash' | 'texturepacker-array' | 'aseprite' | 'grid';
+
+export const ATLAS_FORMATS: { id: AtlasFormat, label: string, hint: string }[] = [
+    { id: 'texturepacker-hash', label: 'TEXTUREPACKER (HASH)', hint: 'Phaser, PixiJS, Cocos' },
+    { id: 'texturepacker-array', label: 'TEXTUREPACKER (ARRAY)', hint: 'Unity, Godot importers' },
+    { id: 'aseprite', label: 'ASEPRITE', hint: 'Frame tags per energy' },
+    { id: 'grid', label: 'GRID', hint: 'Uniform cells, any engine' },
+];
+
+const MAX_ATLAS_SIZE = 4096;
+const ENERGY_ORDER: EnergyLevel[] = ['low', 'mid', 'high'];
+
+export interface AtlasCell {
+    frame: GeneratedFrame;
+    x: number;
+    y: number;
+    width: number;            // Drawn size (frames are scaled down to fit the atlas limit)
+    height: number;
+}
+
+export interface AtlasLayout {
+    width: number;
+    height: number;
+    cellWidth: number;
+    cellHeight: number;
+    columns: number;
+    rows: number;
+    padding: number;
+    scale: number;            // Drawn size / source size
+    cells: AtlasCell[];
+}
+
+export interface AnimationKey {
+    time: number;             // seconds
+    pose: string;
+    frame: number;            // Index in the atlas frame list
+    mode: PoseEvent['mode'];
+    transition: number;       // Crossfade / cut length in ms
+    reason: PoseEvent['reason'];
+}
+
+export interface AnimationTrack {
+    duration: number;         // seconds
+    seed: number;
+    bpm: number | null;       // null = 124 BPM metronome
+    keys: AnimationKey[];
+}
+
+export interface AtlasOptions {
+    format: AtlasFormat;
+    padding: number;
+    removeBackground: number | null;   // White-key tolerance (0-100), null = keep pixels as generated
+    animation: AnimationTrack | null;
+}
+
+// --- LAYOUT ---
+
+// Frames in energy order (library order inside each energy), so Aseprite tags are ranges
+export const atlasFrameOrder = (frames: GeneratedFrame[]): GeneratedFrame[] =>
+    ENERGY_ORDER.flatMap(e => frames.filter(f => f.energy === e))
+        .concat(frames.filter(f => !ENERGY_ORDER.includes(f.energy)));
+
+// Uniform cells (the sheet cells share a size anyway), near-square grid, scaled to the limit.
+export const layoutAtlas = (frames: GeneratedFrame[], sizes: { width: number, height: number }[], padding: number): AtlasLayout => {
+    const columns = Math.max(1, Math.ceil(Math.sqrt(frames.length)));
+    const rows = Math.max(1, Math.ceil(frames.length / columns));
+    const sourceW = Math.max(1, ...sizes.map(s => s.width));
+    const sourceH = Math.max(1, ...sizes.map(s => s.height));
+
+    const scale = Math.min(1, (MAX_ATLAS_SIZE - (columns + 1) * padding) / (columns * sourceW), (MAX_ATLAS_SIZE - (rows + 1) * padding) / (rows * sourceH));
+    const cellWidth = Math.floor(sourceW * scale);
+    const cellHeight = Math.floor(sourceH * scale);
+
+    const cells = frames.map((frame, i) => {
+        const col = i % columns;
+        const row = Math.floor(i / columns);
+        return {
+            frame,
+            x: padding + col * (cellWidth + padding),
+            y: padding + row * (cellHeight + padding),
+            width: Math.min(cellWidth, Math.round(sizes[i].width * scale)),
+            height: Math.min(cellHeight, Math.round(sizes[i].height * scale))
+        };
+    });
+
+    return {
+        width: columns * cellWidth + (columns + 1) * padding,
+        height: rows * cellHeight + (rows + 1) * padding,
+        cellWidth, cellHeight, columns, rows, padding, scale, cells
+    };
+};
+
+// --- ANIMATION TRACK ---
+// Replays the choreography like the offline renderer does, at TRACK_FPS: per-frame band
+// features of the song (prepareAudio in offlineRender.ts) plus its beat grid, or the
+// metronome without a song, and keeps the pose changes. Same seed + same track = same keys.
+export const TRACK_FPS = 60;
+
+export const buildAnimationTrack = (
+    frames: GeneratedFrame[],
+    options: {
+        seed: number, duration: number, beatGrid: BeatGrid | null, bpm: number | null, stutterChance: number, superCam: boolean, directional: boolean,
+        features: AudioFeatures[] | null   // One entry per TRACK_FPS frame, null = metronome
+    }
+): AnimationTrack => {
+    const engine = new ChoreographyEngine(
+        frames.map(f => ({ pose: f.pose, energy: f.energy, type: f.type, direction: frameDirection(f) })),
+        { stutterChance: options.stutterChance, dynamicCamera: options.superCam, directional: options.directional, random: mulberry32(deriveSeed(options.seed, 'choreo')) }
+    );
+    engine.setBeatGrid(options.beatGrid);
+
+    const index = new Map(frames.map((f, i) => [f.pose, i]));
+    const fps = TRACK_FPS;
+    const dt = 1 / fps;
+    const features = options.features && options.features.length > 0 ? options.features : null;
+    const keys: AnimationKey[] = [{ time: 0, pose: engine.state.targetPose, frame: index.get(engine.state.targetPose) ?? 0, mode: 'CUT', transition: 0, reason: 'beat' }];
+
+    const steps = Math.round(options.duration * fps);
+    for (let i = 0; i < steps; i++) {
+        const t = i * dt;
+        const bands = features ? (features[i] || features[features.length - 1]) : ChoreographyEngine.metronome(t);
+        const events = engine.update(t * 1000, dt, bands, true, options.beatGrid ? t : undefined);
+        events.forEach(e => {
+            if (e.type !== 'pose') return;
+            keys.push({
+                time: Math.round(t * 1000) / 1000,
+                pose: e.pose,
+                frame: index.get(e.pose) ?? 0,
+                mode: e.mode,
+                transition: Math.round(e.duration),
+                reason: e.reason
+            });
+        });
+    }
+    return { duration: options.duration, seed: options.seed, bpm: options.bpm, keys };
+};
+
+// --- DESCRIPTORS ---
+
+const frameName = (frame: GeneratedFrame) => `${frame.pose}.png`;
+
+// Rig metadata that no atlas format has a field for
+const rigMetadata = (layout: AtlasLayout, animation: AnimationTrack | null) => {
+    const mirroredBy: Record<string, string[]> = {};
+    layout.cells.forEach(({ frame }) => {
+        if (frame.mirrorOf) (mirroredBy[frame.mirrorOf] = mirroredBy[frame.mirrorOf] || []).push(frame.pose);
+    });
+    return {
+        frames: layout.cells.map(({ frame }, i) => ({
+            index: i,
+            pose: frame.pose,
+            energy: frame.energy,
+            role: frame.role || 'base',
+            type: frame.type || 'body',
+            direction: frameDirection(frame),
+            anchor: frame.anchor || null,
+            subjectBounds: frame.subjectBounds || null,
+            mirrorOf: frame.mirrorOf || null,
+            mirroredBy: mirroredBy[frame.pose] || []
+        })),
+        animation
+    };
+};
+
+const pivotOf = (anchor: FrameAnchor | undefined) => anchor
+    ? { x: Math.round(anchor.x * 1000) / 1000, y: Math.round(anchor.y * 1000) / 1000 }
+    : { x: 0.5, y: 0.5 };
+
+export const buildAtlasDescriptor = (layout: AtlasLayout, image: string, options: Pick<AtlasOptions, 'format' | 'animation'>): object => {
+    const dncer = rigMetadata(layout, options.animation);
+    const size = { w: layout.width, h: layout.height };
+
+    const tpFrame = (cell: AtlasCell) => ({
+        frame: { x: cell.x, y: cell.y, w: cell.width, h: cell.height },
+        rotated: false,
+        trimmed: false,
+        spriteSourceSize: { x: 0, y: 0, w: cell.width, h: cell.height },
+        sourceSize: { w: cell.width, h: cell.height },
+        pivot: pivotOf(cell.frame.anchor)
+    });
+
+    switch (options.format) {
+        case 'texturepacker-hash':
+            return {
+                frames: Object.fromEntries(layout.cells.map(c => [frameName(c.frame), tpFrame(c)])),
+                meta: { app: 'DNCER', version: '1.0', image, format: 'RGBA8888', size, scale: String(layout.scale), dncer }
+            };
+        case 'texturepacker-array':
+            return {
+                frames: layout.cells.map(c => ({ filename: frameName(c.frame), ...tpFrame(c) })),
+                meta: { app: 'DNCER', version: '1.0', image, format: 'RGBA8888', size, scale: String(layout.scale), dncer }
+            };
+        case 'aseprite': {
+            // Durations follow the median beat gap of the track, tags group the energies
+            const keys = options.animation?.keys || [];
+            const gaps = keys.slice(1).map((k, i) => k.time - keys[i].time);
+            const beatMs = gaps.length ? Math.round(gaps.sort((a, b) => a - b)[gaps.length >> 1] * 1000) : Math.round(60000 / 124);
+            const frameTags = ENERGY_ORDER.map(energy => {
+                const indices = layout.cells.map((c, i) => c.frame.energy === energy ? i : -1).filter(i => i >= 0);
+                return indices.length ? { name: energy, from: indices[0], to: indices[indices.length - 1], direction: 'forward', color: '#000000ff' } : null;
+            }).filter(Boolean);
+            return {
+                frames: Object.fromEntries(layout.cells.map(c => [frameName(c.frame), {
+                    frame: { x: c.x, y: c.y, w: c.width, h: c.height },
+                    rotated: false,
+                    trimmed: false,
+                    spriteSourceSize: { x: 0, y: 0, w: c.width, h: c.height },
+                    sourceSize: { w: c.width, h: c.height },
+                    duration: beatMs
+                }])),
+                meta: {
+                    app: 'DNCER', version: '1.0', image, format: 'RGBA8888', size, scale: String(layout.scale),
+                    frameTags,
+                    layers: [{ name: 'rig', opacity: 255, blendMode: 'normal' }],
+                    // Anchors as per-frame slice pivots
+                    slices: layout.cells.filter(c => c.frame.anchor).map(c => ({
+                        name: c.frame.pose,
+                        color: '#0000ffff',
+                        keys: [{
+                            frame: layout.cells.indexOf(c),
+                            bounds: { x: 0, y: 0, w: c.width, h: c.height },
+                            pivot: { x: Math.round(c.frame.anchor!.x * c.width), y: Math.round(c.frame.anchor!.y * c.height) }
+                        }]
+                    })),
+                    dncer
+                }
+            };
+        }
+        case 'grid':
+            return {
+                image,
+                width: layout.width,
+                height: layout.height,
+                cellWidth: layout.cellWidth,
+                cellHeight: layout.cellHeight,
+                columns: layout.columns,
+                rows: layout.rows,
+                padding: layout.padding,
+                scale: layout.scale,
+                frames: layout.cells.map((c, i) => ({
+                    ...dncer.frames[i],
+                    column: i % layout.columns,
+                    row: Math.floor(i / layout.columns),
+                    width: c.width,
+                    height: c.height
+                })),
+                animation: dncer.animation
+            };
+    }
+};
+
+// --- BROWSER ENTRY ---
+
+const loadFrameImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load a frame image"));
+    img.src = src;
+});
+
+// True when the frame already went through matting (any transparent corner)
+const hasAlpha = (data: Uint8ClampedArray, width: number, height: number): boolean =>
+    [0, width - 1, (height - 1) * width, height * width - 1].some(p => data[p * 4 + 3] < 250);
+
+export interface SpriteAtlasExport {
+    png: Blob;
+    json: string;
+    layout: AtlasLayout;
+}
+
+export const exportSpriteAtlas = async (frames: GeneratedFrame[], options: AtlasOptions, baseName: string = 'dncer_atlas'): Promise<SpriteAtlasExport> => {
+    if (frames.length === 0) throw new Error("No frames to pack");
+    const ordered = atlasFrameOrder(frames);
+    const images = await Promise.all(ordered.map(f => loadFrameImage(f.url)));
+    const layout = layoutAtlas(ordered, images.map(img => ({ width: img.width, height: img.height })), options.padding);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = layout.width;
+    canvas.height = layout.height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error("Canvas context failed");
+
+    let matted = 0;
+    layout.cells.forEach((cell, i) => {
+        ctx.drawImage(images[i], cell.x, cell.y, cell.width, cell.height);
+        if (options.removeBackground === null) return;
+        const px = ctx.getImageData(cell.x, cell.y, cell.width, cell.height);
+        if (hasAlpha(px.data, cell.width, cell.height)) return;
+        applyMatte(px, options.removeBackground);
+        ctx.putImageData(px, cell.x, cell.y);
+        matted++;
+    });
+
+    // Keys refer to atlas order
+    const animation = options.animation && {
+        ...options.animation,
+        keys: options.animation.keys.map(k => ({ ...k, frame: ordered.findIndex(f => f.pose === k.pose) }))
+    };
+
+    const png = await new Promise<Blob>((resolve, reject) =>
+        canvas.toBlob(b => b ? resolve(b) : reject(new Error("PNG encoding failed")), 'image/png'));
+    const descriptor = buildAtlasDescriptor(layout, `${baseName}.png`, { format: options.format, animation });
+
+    console.log(`[Atlas] ${ordered.length} frames -> ${layout.width}x${layout.height} (${options.format}, scale ${layout.scale.toFixed(2)}${matted ? `, matted ${matted}` : ''})`);
+    return { png, json: JSON.stringify(descriptor, null, 2), layout };
+};
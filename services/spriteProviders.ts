@@ -0,0 +1,169 @@
+import { GoogleGenAI } from "@google/genai";
+import { SpriteProviderId } from "../types";
+
+// --- PROVIDER CONTRACT ---
+// Every backend receives the same request and must return ONE square 4x4 sprite sheet
+// as a data URL. Slicing, mirroring and metadata stay in the pipeline (services/gemini.ts).
+
+export interface SpriteSheetRequest {
+    identityImage: string;   // Data URL of the (resized) source identity
+    prompt: string;          // Fully constructed system prompt
+    referenceSheet?: string; // Data URL of a previously generated sheet used as style target
+}
+
+export interface SpriteSheetProvider {
+    id: SpriteProviderId;
+    label: string;
+    generateSheet: (request: SpriteSheetRequest) => Promise<string>;
+}
+
+// Splits a data URL into the pieces the Gemini inlineData API expects.
+const splitDataUrl = (dataUrl: string): { mimeType: string, data: string } => {
+    const match = dataUrl.match(/^data:([^;]+);base64,(.*)$/);
+    if (match) return { mimeType: match[1], data: match[2] };
+    // Raw base64 without header (legacy callers)
+    return { mimeType: 'image/jpeg', data: dataUrl.includes(',') ? dataUrl.split(',')[1] : dataUrl };
+};
+
+// --- GEMINI ADAPTER ---
+export const createGeminiProvider = (apiKey: string, model: string = 'gemini-2.5-flash-image'): SpriteSheetProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+
+    return {
+        id: 'gemini',
+        label: 'Gemini Flash Image',
+        generateSheet: async ({ identityImage, prompt, referenceSheet }) => {
+            const parts: any[] = [
+                { text: prompt },
+                { inlineData: splitDataUrl(identityImage) }
+            ];
+            if (referenceSheet) {
+                parts.push({ inlineData: splitDataUrl(referenceSheet) });
+            }
+
+            const response = await ai.models.generateContent({
+                model,
+                contents: [
+                    { role: 'user', parts: parts }
+                ],
+                config: {
+                    imageConfig: { aspectRatio: "1:1" }
+                }
+            });
+
+            const candidate = response.candidates?.[0];
+            if (!candidate?.content?.parts) throw new Error("No content returned");
+
+            const part = candidate.content.parts.find(p => p.inlineData?.data);
+            const data = part?.inlineData?.data;
+            if (!data) throw new Error("No image data in response");
+
+            return `data:${part?.inlineData?.mimeType || 'image/jpeg'};base64,${data}`;
+        }
+    };
+};
+
+// --- LOCAL FIXTURE ADAPTER ---
+// Deterministic, network-free sheets for developing the slice/mirror/metadata pipeline.
+// The same prompt always yields the same pixels: 4x4 stick figures on pure white,
+// row poses matching the prompt plan (IDLE / LEFT / RIGHT / ACTION).
+
+const hashString = (input: string): number => {
+    let h = 2166136261;
+    for (let i = 0; i < input.length; i++) {
+        h ^= input.charCodeAt(i);
+        h = Math.imul(h, 16777619);
+    }
+    return h >>> 0;
+};
+
+const drawFixtureFigure = (
+    ctx: CanvasRenderingContext2D,
+    cx: number,
+    cy: number,
+    unit: number,
+    row: number,
+    col: number,
+    hue: number
+) => {
+    // Row 0 = idle, 1 = lean left, 2 = lean right, 3 = jump
+    const lean = row === 1 ? -0.35 : row === 2 ? 0.35 : 0;
+    const lift = row === 3 ? unit * (0.4 + col * 0.1) : 0;
+    const phase = (col / 4) * Math.PI * 2;
+    const armSwing = Math.sin(phase) * 0.6 + (row === 3 ? -1.2 : 0);
+    const legSpread = row === 3 ? 0.6 : 0.25 + Math.abs(Math.sin(phase)) * 0.15;
+
+    const hipX = cx;
+    const hipY = cy + unit * 0.9 - lift;
+    const neckX = hipX + Math.sin(lean) * unit * 1.4;
+    const neckY = hipY - Math.cos(lean) * unit * 1.4;
+
+    ctx.strokeStyle = `hsl(${hue}, 70%, 35%)`;
+    ctx.fillStyle = `hsl(${(hue + 40) % 360}, 80%, 55%)`;
+    ctx.lineWidth = unit * 0.22;
+    ctx.lineCap = 'round';
+
+    ctx.beginPath();
+    // Spine
+    ctx.moveTo(hipX, hipY);
+    ctx.lineTo(neckX, neckY);
+    // Arms
+    ctx.moveTo(neckX, neckY + unit * 0.2);
+    ctx.lineTo(neckX - unit * 0.9, neckY + unit * 0.2 + Math.sin(armSwing) * unit * 0.9);
+    ctx.moveTo(neckX, neckY + unit * 0.2);
+    ctx.lineTo(neckX + unit * 0.9, neckY + unit * 0.2 - Math.sin(armSwing) * unit * 0.9);
+    // Legs
+    ctx.moveTo(hipX, hipY);
+    ctx.lineTo(hipX - unit * legSpread * 2, hipY + unit * 1.3);
+    ctx.moveTo(hipX, hipY);
+    ctx.lineTo(hipX + unit * legSpread * 2, hipY + unit * 1.3);
+    ctx.stroke();
+
+    // Head
+    ctx.beginPath();
+    ctx.arc(neckX, neckY - unit * 0.45, unit * 0.42, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+};
+
+export const createFixtureProvider = (size: number = 1024): SpriteSheetProvider => ({
+    id: 'fixture',
+    label: 'Local Fixture (Offline)',
+    generateSheet: async ({ prompt, referenceSheet }) => {
+        const canvas = document.createElement('canvas');
+        canvas.width = size;
+        canvas.height = size;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error("Canvas context failed");
+
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, size, size);
+
+        // Referenced sheets keep the base palette; the prompt only shifts it slightly.
+        const seed = hashString(prompt);
+        const hue = referenceSheet ? (hashString(referenceSheet.slice(0, 256)) % 360) : seed % 360;
+        const cell = size / 4;
+
+        for (let r = 0; r < 4; r++) {
+            for (let c = 0; c < 4; c++) {
+                drawFixtureFigure(ctx, c * cell + cell / 2, r * cell + cell / 2, cell * 0.16, r, c, (hue + ((seed >> (r * 4 + c)) & 7) * 3) % 360);
+            }
+        }
+
+        return canvas.toDataURL('image/png');
+    }
+});
+
+// --- REGISTRY ---
+export const SPRITE_PROVIDERS: { id: SpriteProviderId, label: string }[] = [
+    { id: 'gemini', label: 'Gemini Flash Image' },
+    { id: 'fixture', label: 'Local Fixture (Offline)' },
+];
+
+export const createSpriteProvider = (id: SpriteProviderId, apiKey: string): SpriteSheetProvider => {
+    switch (id) {
+        case 'fixture': return createFixtureProvider();
+        case 'gemini':
+        default: return createGeminiProvider(apiKey);
+    }
+};
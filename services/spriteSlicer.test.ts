@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { PixelBuffer, detectSpriteGrid } from './spriteSlicer';
+import { mulberry32 } from './random';
+
+const SIZE = 400;
+const CELL = 100;
+
+// Off-white sheet like the generated ones
+const sheet = (): PixelBuffer => {
+    const data = new Uint8ClampedArray(SIZE * SIZE * 4).fill(250);
+    return { data, width: SIZE, height: SIZE };
+};
+
+const fill = (px: PixelBuffer, x: number, y: number, w: number, h: number) => {
+    for (let yy = y; yy < y + h; yy++) {
+        for (let xx = x; xx < x + w; xx++) {
+            const i = (yy * px.width + xx) * 4;
+            px.data[i] = 40; px.data[i + 1] = 60; px.data[i + 2] = 90;
+        }
+    }
+};
+
+// One subject per cell, centered with white gutters around it
+const gridSheet = (rows: number, cols: number, rowHeight = 70): PixelBuffer => {
+    const px = sheet();
+    for (let r = 0; r < rows; r++) {
+        for (let c = 0; c < cols; c++) fill(px, c * CELL + 20, r * CELL + (CELL - rowHeight) / 2, 60, rowHeight);
+    }
+    return px;
+};
+
+describe('detectSpriteGrid', () => {
+    it('finds a clean 4x4 grid with full confidence', () => {
+        const detection = detectSpriteGrid(gridSheet(4, 4), 4, 4);
+        expect(detection).toMatchObject({ rows: 4, cols: 4, detected: true });
+        expect(detection!.confidence).toBeCloseTo(1);
+        expect(detection!.boxes).toHaveLength(16);
+        expect(detection!.boxes[5]).toEqual({ x: 100, y: 100, w: 100, h: 100 });
+    });
+
+    it('rejects a sheet where two rows merge across their gutter', () => {
+        const px = gridSheet(4, 4);
+        for (let c = 0; c < 4; c++) fill(px, c * CELL + 20, 185, 60, 30); // Subjects reach into the next row
+        expect(detectSpriteGrid(px, 4, 4)).toBeNull();
+    });
+
+    it('rejects a sheet that is one row short', () => {
+        expect(detectSpriteGrid(gridSheet(3, 4), 4, 4)).toBeNull();
+    });
+
+    it('scores a missing column below a clean grid', () => {
+        const detection = detectSpriteGrid(gridSheet(4, 3), 4, 4);
+        expect(detection).toMatchObject({ rows: 4, cols: 3 });
+        expect(detection!.confidence).toBeLessThan(0.75);
+    });
+
+    it('finds no grid in noise', () => {
+        const px = sheet();
+        const rnd = mulberry32(1);
+        for (let i = 0; i < px.data.length; i += 4) {
+            if (rnd() < 0.3) px.data[i] = px.data[i + 1] = px.data[i + 2] = Math.floor(rnd() * 255);
+        }
+        expect(detectSpriteGrid(px, 4, 4)).toBeNull();
+    });
+
+    it('refuses sheets too small for the expected grid', () => {
+        expect(detectSpriteGrid({ data: new Uint8ClampedArray(8 * 8 * 4), width: 8, height: 8 }, 4, 4)).toBeNull();
+    });
+});
@@ -0,0 +1,325 @@
+import { FrameBox, SheetGrid } from "../types";
+
+// --- CONTENT-AWARE SPRITE SLICER ---
+// Finds the white gutters between subjects with row/column projections of
+// non-background pixels, instead of trusting the model to respect a perfect grid.
+// Falls back to the legacy centered-square + 8% inset math when detection is unsure.
+
+export interface PixelBuffer {
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+}
+
+export interface GridDetection {
+    rows: number;
+    cols: number;
+    boxes: FrameBox[];   // Row-major cell boxes in sheet pixel coordinates
+    confidence: number;  // 0..1. 0 means the fixed fallback layout was used
+    detected: boolean;
+}
+
+export interface SliceResult extends GridDetection {
+    frames: string[];    // One data URL per box
+}
+
+interface Span { start: number; end: number; } // [start, end) in pixels
+
+const LEGACY_INSET = 0.08;
+const MIN_CONFIDENCE = 0.5;
+
+// --- TODAY'S MATH (FALLBACK) ---
+export const fixedGridBoxes = (width: number, height: number, rows: number, cols: number, insetFactor: number = LEGACY_INSET): FrameBox[] => {
+    // 1. Determine the "Active Square"
+    const size = Math.min(width, height);
+    const startX = (width - size) / 2;
+    const startY = (height - size) / 2;
+
+    // 2. Calculate Cell Size
+    const rawCellW = size / cols;
+    const rawCellH = size / rows;
+
+    // 3. Safety Inset (The "Bleed" Fix)
+    const insetX = rawCellW * insetFactor;
+    const insetY = rawCellH * insetFactor;
+    const drawW = rawCellW * (1 - 2 * insetFactor);
+    const drawH = rawCellH * (1 - 2 * insetFactor);
+
+    const boxes: FrameBox[] = [];
+    for (let r = 0; r < rows; r++) {
+        for (let c = 0; c < cols; c++) {
+            boxes.push({
+                x: startX + (c * rawCellW) + insetX,
+                y: startY + (r * rawCellH) + insetY,
+                w: drawW,
+                h: drawH
+            });
+        }
+    }
+    return boxes;
+};
+
+// --- BACKGROUND ESTIMATION ---
+// Median of the outer 1px border. Generated sheets are "white" but rarely #FFFFFF.
+export const estimateBackground = (px: PixelBuffer): [number, number, number] => {
+    const { data, width, height } = px;
+    const samples: number[][] = [[], [], []];
+    const push = (x: number, y: number) => {
+        const i = (y * width + x) * 4;
+        samples[0].push(data[i]); samples[1].push(data[i + 1]); samples[2].push(data[i + 2]);
+    };
+    for (let x = 0; x < width; x += 2) { push(x, 0); push(x, height - 1); }
+    for (let y = 0; y < height; y += 2) { push(0, y); push(width - 1, y); }
+    const median = (arr: number[]) => arr.sort((a, b) => a - b)[Math.floor(arr.length / 2)] ?? 255;
+    return [median(samples[0]), median(samples[1]), median(samples[2])];
+};
+
+const buildForegroundMask = (px: PixelBuffer, tolerance: number): Uint8Array => {
+    const { data, width, height } = px;
+    const [br, bg, bb] = estimateBackground(px);
+    const mask = new Uint8Array(width * height);
+    for (let i = 0, p = 0; p < mask.length; i += 4, p++) {
+        if (data[i + 3] < 16) continue; // Already transparent
+        const diff = Math.max(Math.abs(data[i] - br), Math.abs(data[i + 1] - bg), Math.abs(data[i + 2] - bb));
+        if (diff > tolerance) mask[p] = 1;
+    }
+    return mask;
+};
+
+// --- PROJECTION ANALYSIS ---
+// Returns content spans along a projection, merging gaps narrower than minGap
+// (a raised arm separated by a few pixels is still the same subject).
+const findSpans = (projection: number[], noiseFloor: number, minGap: number, minSize: number): Span[] => {
+    const raw: Span[] = [];
+    let start = -1;
+    for (let i = 0; i < projection.length; i++) {
+        const filled = projection[i] > noiseFloor;
+        if (filled && start < 0) start = i;
+        if (!filled && start >= 0) { raw.push({ start, end: i }); start = -1; }
+    }
+    if (start >= 0) raw.push({ start, end: projection.length });
+
+    const merged: Span[] = [];
+    raw.forEach(span => {
+        const last = merged[merged.length - 1];
+        if (last && span.start - last.end < minGap) last.end = span.end;
+        else merged.push({ ...span });
+    });
+    return merged.filter(s => s.end - s.start >= minSize);
+};
+
+// Cell edges sit in the middle of each gutter; outer edges extend to the sheet border.
+const spansToEdges = (spans: Span[], length: number): number[] => {
+    const edges = [0];
+    for (let i = 0; i < spans.length - 1; i++) {
+        edges.push(Math.round((spans[i].end + spans[i + 1].start) / 2));
+    }
+    edges.push(length);
+    return edges;
+};
+
+// 1.0 when all spans are equally sized, trending to 0 as they diverge.
+const regularity = (spans: Span[]): number => {
+    if (spans.length < 2) return 1;
+    const sizes = spans.map(s => s.end - s.start);
+    const mean = sizes.reduce((a, b) => a + b, 0) / sizes.length;
+    const variance = sizes.reduce((a, b) => a + (b - mean) * (b - mean), 0) / sizes.length;
+    return Math.max(0, 1 - Math.sqrt(variance) / mean);
+};
+
+const countScore = (found: number, expected: number): number => {
+    if (found === expected) return 1;
+    return Math.max(0, 1 - Math.abs(found - expected) / expected) * 0.7;
+};
+
+export const detectSpriteGrid = (
+    px: PixelBuffer,
+    expectedRows: number,
+    expectedCols: number,
+    tolerance: number = 24
+): GridDetection | null => {
+    const { width, height } = px;
+    if (width < expectedCols * 4 || height < expectedRows * 4) return null;
+
+    const mask = buildForegroundMask(px, tolerance);
+
+    // 1. Row bands from the horizontal projection
+    const rowProjection = new Array<number>(height).fill(0);
+    for (let y = 0; y < height; y++) {
+        let count = 0;
+        for (let x = 0; x < width; x++) count += mask[y * width + x];
+        rowProjection[y] = count;
+    }
+    const rowSpans = findSpans(rowProjection, width * 0.002, height * 0.015, height * 0.03);
+    // Rows carry the energy plan: one row more or less would shift or drop a whole energy
+    // level, so only the exact count is trusted (columns just change the frame count)
+    if (rowSpans.length !== expectedRows) return null;
+    const rowEdges = spansToEdges(rowSpans, height);
+
+    // 2. Columns are detected per row band, because the model drifts subjects horizontally row by row
+    const boxes: FrameBox[] = [];
+    const colCounts: number[] = [];
+    let colRegularity = 0;
+
+    for (let r = 0; r < rowSpans.length; r++) {
+        const y0 = rowEdges[r];
+        const y1 = rowEdges[r + 1];
+        const colProjection = new Array<number>(width).fill(0);
+        for (let y = y0; y < y1; y++) {
+            for (let x = 0; x < width; x++) colProjection[x] += mask[y * width + x];
+        }
+        const colSpans = findSpans(colProjection, (y1 - y0) * 0.002, width * 0.015, width * 0.03);
+        if (colSpans.length === 0) return null;
+
+        colCounts.push(colSpans.length);
+        colRegularity += regularity(colSpans);
+
+        const colEdges = spansToEdges(colSpans, width);
+        for (let c = 0; c < colSpans.length; c++) {
+            boxes.push({ x: colEdges[c], y: y0, w: colEdges[c + 1] - colEdges[c], h: y1 - y0 });
+        }
+    }
+
+    // 3. The grid must be rectangular: every row has the same column count
+    const cols = colCounts[0];
+    const consistent = colCounts.every(c => c === cols);
+    if (!consistent) return null;
+
+    const confidence =
+        countScore(cols, expectedCols) *
+        (0.5 + 0.5 * regularity(rowSpans)) *
+        (0.5 + 0.5 * (colRegularity / rowSpans.length));
+
+    return { rows: rowSpans.length, cols, boxes, confidence, detected: true };
+};
+
+// --- IMAGE HELPERS ---
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = reject;
+        img.src = src;
+    });
+};
+
+export const cropBoxes = (img: CanvasImageSource, boxes: FrameBox[]): string[] => {
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas context failed");
+
+    return boxes.map(box => {
+        canvas.width = Math.max(1, Math.floor(box.w));
+        canvas.height = Math.max(1, Math.floor(box.h));
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(img, box.x, box.y, box.w, box.h, 0, 0, canvas.width, canvas.height);
+        return canvas.toDataURL('image/jpeg', 0.95);
+    });
+};
+
+// Detected grid, or the fixed layout when detection is unsure
+const detectOrFallback = (img: HTMLImageElement, rows: number, cols: number): GridDetection => {
+    const canvas = document.createElement('canvas');
+    canvas.width = img.width;
+    canvas.height = img.height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error("Canvas context failed");
+    ctx.drawImage(img, 0, 0);
+
+    let detection: GridDetection | null = null;
+    try {
+        detection = detectSpriteGrid(ctx.getImageData(0, 0, img.width, img.height), rows, cols);
+    } catch (e) {
+        console.warn("[Slicer] Grid detection failed:", e);
+    }
+
+    if (!detection || detection.confidence < MIN_CONFIDENCE) {
+        console.log(`[Slicer] Falling back to fixed ${rows}x${cols} grid (confidence ${detection ? detection.confidence.toFixed(2) : 'n/a'})`);
+        detection = { rows, cols, boxes: fixedGridBoxes(img.width, img.height, rows, cols), confidence: 0, detected: false };
+    } else {
+        console.log(`[Slicer] Detected ${detection.rows}x${detection.cols} grid (confidence ${detection.confidence.toFixed(2)})`);
+    }
+    return detection;
+};
+
+// --- MAIN ENTRY ---
+export const sliceSpriteSheet = async (sheetUrl: string, rows: number, cols: number): Promise<SliceResult> => {
+    const img = await loadImage(sheetUrl);
+    const detection = detectOrFallback(img, rows, cols);
+    return { ...detection, frames: cropBoxes(img, detection.boxes) };
+};
+
+// --- MANUAL GRIDS (sheet viewer) ---
+// The viewer edits a normalized line grid. Columns are shared by all rows, so the
+// per-row columns of a detected grid are averaged.
+
+export const gridBoxes = (grid: SheetGrid, width: number, height: number): FrameBox[] => {
+    const boxes: FrameBox[] = [];
+    for (let r = 0; r < grid.rows.length - 1; r++) {
+        for (let c = 0; c < grid.cols.length - 1; c++) {
+            const cellW = (grid.cols[c + 1] - grid.cols[c]) * width;
+            const cellH = (grid.rows[r + 1] - grid.rows[r]) * height;
+            boxes.push({
+                x: grid.cols[c] * width + cellW * grid.inset,
+                y: grid.rows[r] * height + cellH * grid.inset,
+                w: cellW * (1 - 2 * grid.inset),
+                h: cellH * (1 - 2 * grid.inset)
+            });
+        }
+    }
+    return boxes;
+};
+
+const gridFromDetection = (detection: GridDetection, width: number, height: number): SheetGrid => {
+    const { rows, cols, boxes } = detection;
+    const rowLines = Array.from({ length: rows }, (_, r) => boxes[r * cols].y / height);
+    rowLines.push((boxes[(rows - 1) * cols].y + boxes[(rows - 1) * cols].h) / height);
+
+    const colLines: number[] = [];
+    for (let c = 0; c <= cols; c++) {
+        let sum = 0;
+        for (let r = 0; r < rows; r++) {
+            const box = boxes[r * cols + Math.min(c, cols - 1)];
+            sum += c < cols ? box.x : box.x + box.w;
+        }
+        colLines.push(sum / rows / width);
+    }
+    return { rows: rowLines, cols: colLines, inset: 0 };
+};
+
+const fixedGrid = (width: number, height: number, rows: number, cols: number): SheetGrid => {
+    const size = Math.min(width, height);
+    const startX = (width - size) / 2;
+    const startY = (height - size) / 2;
+    return {
+        rows: Array.from({ length: rows + 1 }, (_, r) => (startY + r * size / rows) / height),
+        cols: Array.from({ length: cols + 1 }, (_, c) => (startX + c * size / cols) / width),
+        inset: LEGACY_INSET
+    };
+};
+
+// Starting point for manual adjustment: the grid the automatic slicer would use
+export const suggestSheetGrid = async (sheetUrl: string, rows: number, cols: number): Promise<SheetGrid> => {
+    const img = await loadImage(sheetUrl);
+    const detection = detectOrFallback(img, rows, cols);
+    return detection.detected
+        ? gridFromDetection(detection, img.width, img.height)
+        : fixedGrid(img.width, img.height, rows, cols);
+};
+
+// Evenly spaced lines over the whole sheet (viewer: changing the row / column count)
+export const uniformLines = (count: number): number[] =>
+    Array.from({ length: count + 1 }, (_, i) => i / count);
+
+export const sliceSheetWithGrid = async (sheetUrl: string, grid: SheetGrid): Promise<SliceResult> => {
+    const img = await loadImage(sheetUrl);
+    const boxes = gridBoxes(grid, img.width, img.height);
+    return {
+        rows: grid.rows.length - 1,
+        cols: grid.cols.length - 1,
+        boxes,
+        confidence: 1, // Placed by hand
+        detected: true,
+        frames: cropBoxes(img, boxes)
+    };
+};
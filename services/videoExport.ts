@@ -0,0 +1,171 @@
+// --- REALTIME VIDEO EXPORT (MediaRecorder / WebM) ---
+// Records what the preview shows: the shader canvas and the character canvas are
+// composited into one offscreen canvas, its captureStream() is muxed with the song
+// audio tapped from the AudioContext graph, and MediaRecorder encodes WebM in realtime.
+
+// Resolutions are a short side; the long side follows the output format (see outputDimensions)
+export interface VideoResolution {
+    id: string;
+    label: string;
+    shortSide: number | null;   // null = exact custom size
+}
+
+export const VIDEO_RESOLUTIONS: VideoResolution[] = [
+    { id: '720p', label: '720p', shortSide: 720 },
+    { id: '1080p', label: '1080p', shortSide: 1080 },
+    { id: '540p', label: '540p (Small)', shortSide: 540 },
+    { id: 'native', label: 'NATIVE', shortSide: null },
+];
+
+export const VIDEO_BITRATES: { id: string, label: string, bitsPerSecond: number }[] = [
+    { id: 'low', label: 'LOW (2.5 Mbps)', bitsPerSecond: 2_500_000 },
+    { id: 'standard', label: 'STANDARD (6 Mbps)', bitsPerSecond: 6_000_000 },
+    { id: 'high', label: 'HIGH (12 Mbps)', bitsPerSecond: 12_000_000 },
+];
+
+export interface VideoExportOptions {
+    width: number;
+    height: number;
+    fps: number;
+    videoBitsPerSecond: number;
+    audioBitsPerSecond?: number;
+    duration: number;          // seconds
+}
+
+export interface CompositeSources {
+    viewport: HTMLElement;           // Element whose box is the "frame" being recorded (the stage)
+    background: HTMLCanvasElement;   // Shader layer (covers the viewport)
+    character: HTMLCanvasElement;    // Character layer (positioned inside the viewport)
+    backgroundVisible: () => boolean;
+}
+
+export interface RecordingHandle {
+    done: Promise<Blob>;
+    cancel: () => void;
+}
+
+const MIME_CANDIDATES = [
+    'video/webm;codecs=vp9,opus',
+    'video/webm;codecs=vp8,opus',
+    'video/webm',
+];
+
+export const pickRecorderMimeType = (): string | null => {
+    if (typeof MediaRecorder === 'undefined') return null;
+    return MIME_CANDIDATES.find(type => MediaRecorder.isTypeSupported(type)) || null;
+};
+
+// Maps the on-screen viewport onto the output canvas (cover fit, centered) and draws
+// each layer at its on-screen position inside the viewport.
+const drawComposite = (ctx: CanvasRenderingContext2D, sources: CompositeSources, width: number, height: number) => {
+    const view = sources.viewport.getBoundingClientRect();
+    if (view.width === 0 || view.height === 0) return;
+
+    const scale = Math.max(width / view.width, height / view.height);
+    const offsetX = (width - view.width * scale) / 2;
+    const offsetY = (height - view.height * scale) / 2;
+
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, width, height);
+
+    const drawLayer = (canvas: HTMLCanvasElement) => {
+        const rect = canvas.getBoundingClientRect();
+        if (rect.width === 0 || rect.height === 0 || canvas.width === 0 || canvas.height === 0) return;
+        ctx.drawImage(
+            canvas,
+            offsetX + (rect.left - view.left) * scale,
+            offsetY + (rect.top - view.top) * scale,
+            rect.width * scale,
+            rect.height * scale
+        );
+    };
+
+    if (sources.backgroundVisible()) drawLayer(sources.background);
+    drawLayer(sources.character);
+};
+
+export const recordComposite = (
+    sources: CompositeSources,
+    audioStream: MediaStream | null,
+    options: VideoExportOptions,
+    onProgress: (progress: number) => void
+): RecordingHandle => {
+    const mimeType = pickRecorderMimeType();
+    if (!mimeType) throw new Error("This browser cannot record WebM video (MediaRecorder unavailable).");
+
+    const canvas = document.createElement('canvas');
+    canvas.width = options.width;
+    canvas.height = options.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas context failed");
+
+    const stream = canvas.captureStream(options.fps);
+    audioStream?.getAudioTracks().forEach(track => stream.addTrack(track));
+
+    const recorder = new MediaRecorder(stream, {
+        mimeType,
+        videoBitsPerSecond: options.videoBitsPerSecond,
+        audioBitsPerSecond: options.audioBitsPerSecond ?? 192_000
+    });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+
+    let rafId = 0;
+    let cancelled = false;
+    let startedAt = 0;
+
+    const release = () => {
+        cancelAnimationFrame(rafId);
+        stream.getVideoTracks().forEach(t => t.stop());
+    };
+
+    const done = new Promise<Blob>((resolve, reject) => {
+        recorder.onstop = () => {
+            release();
+            if (cancelled) reject(new Error("Recording cancelled"));
+            else resolve(new Blob(chunks, { type: mimeType.split(';')[0] }));
+        };
+        recorder.onerror = (e: Event) => {
+            release();
+            reject((e as ErrorEvent).error || new Error("Recording failed"));
+        };
+    });
+
+    const tick = (time: number) => {
+        if (!startedAt) startedAt = time;
+        drawComposite(ctx, sources, options.width, options.height);
+
+        const elapsed = (time - startedAt) / 1000;
+        onProgress(Math.min(1, elapsed / options.duration));
+        if (elapsed >= options.duration) {
+            if (recorder.state !== 'inactive') recorder.stop();
+            return;
+        }
+        rafId = requestAnimationFrame(tick);
+    };
+
+    // Paint once before starting so the first encoded frame is not blank
+    drawComposite(ctx, sources, options.width, options.height);
+    recorder.start(1000);
+    rafId = requestAnimationFrame(tick);
+    console.log(`[Video] Recording ${options.width}x${options.height} @ ${options.fps}fps, ${(options.videoBitsPerSecond / 1e6).toFixed(1)} Mbps, ${options.duration.toFixed(1)}s (${mimeType})`);
+
+    return {
+        done,
+        cancel: () => {
+            cancelled = true;
+            if (recorder.state !== 'inactive') recorder.stop();
+        }
+    };
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { createZip, readZip } from './zipArchive';
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+// Highly compressible payload, so the entry is deflated
+const PAYLOAD = text('{"frames":[]}'.repeat(2000));
+
+const archive = async (): Promise<ArrayBuffer> =>
+    (await createZip([{ name: 'project.json', data: PAYLOAD, compress: true }])).arrayBuffer();
+
+// Rewrites the declared uncompressed size in the local and central headers of the only entry
+const declareSize = (buffer: ArrayBuffer, size: number): ArrayBuffer => {
+    const view = new DataView(buffer);
+    view.setUint32(22, size, true);
+    const central = view.getUint32(buffer.byteLength - 22 + 16, true);
+    view.setUint32(central + 24, size, true);
+    return buffer;
+};
+
+describe('readZip', () => {
+    it('round-trips deflated entries', async () => {
+        const files = await readZip(await archive());
+        expect(files.get('project.json')).toEqual(PAYLOAD);
+    });
+
+    it('refuses archives whose declared sizes exceed the limit before inflating', async () => {
+        await expect(readZip(await archive(), PAYLOAD.length - 1)).rejects.toThrow(/unpacks to more than/);
+    });
+
+    it('stops inflating an entry that outgrows its declared size', async () => {
+        const buffer = declareSize(await archive(), 100);
+        await expect(readZip(buffer, PAYLOAD.length)).rejects.toThrow('Zip entry does not match its declared size: project.json');
+    });
+});
@@ -0,0 +1,197 @@
+// --- MINIMAL ZIP (PKWARE APPNOTE subset) ---
+// Just enough zip for project containers: one disk, no zip64, no encryption.
+// Writing stores entries as-is (images and audio are already compressed) or deflates them
+// with CompressionStream when asked (JSON). Reading accepts stored and deflated entries,
+// so a container re-zipped by an OS archiver still opens.
+
+export interface ZipEntryInput {
+    name: string;           // Path inside the archive, forward slashes
+    data: Uint8Array;
+    compress?: boolean;     // Deflate (ignored where CompressionStream is missing)
+}
+
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const SIG_LOCAL = 0x04034b50;
+const SIG_CENTRAL = 0x02014b50;
+const SIG_END = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+const MAX_ZIP32 = 0xFFFFFFFF;
+
+// --- CRC-32 ---
+
+let crcTable: Uint32Array | null = null;
+
+export const crc32 = (data: Uint8Array): number => {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+            crcTable[n] = c >>> 0;
+        }
+    }
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+// --- (DE)COMPRESSION ---
+
+const pipeBytes = async (data: Uint8Array, stream: TransformStream<Uint8Array, Uint8Array>): Promise<Uint8Array> => {
+    const output = new Blob([data]).stream().pipeThrough(stream);
+    return new Uint8Array(await new Response(output).arrayBuffer());
+};
+
+const canDeflate = (): boolean => typeof CompressionStream !== 'undefined';
+
+// Inflates at most `size` bytes (the entry's declared size). Returns null as soon as the
+// stream produces more, so a crafted entry cannot balloon past what the header promised.
+const inflateRaw = async (data: Uint8Array, size: number): Promise<Uint8Array | null> => {
+    if (typeof DecompressionStream === 'undefined') throw new Error("This browser cannot read compressed zip entries");
+    const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+    const output = new Uint8Array(size);
+    let length = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        if (length + value.length > size) {
+            await reader.cancel();
+            return null;
+        }
+        output.set(value, length);
+        length += value.length;
+    }
+    return length === size ? output : output.subarray(0, length);
+};
+
+// MS-DOS date/time as stored in zip headers
+const dosDateTime = (date: Date): { time: number, date: number } => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+// --- WRITE ---
+
+export const createZip = async (entries: ZipEntryInput[]): Promise<Blob> => {
+    const encoder = new TextEncoder();
+    const stamp = dosDateTime(new Date());
+    const parts: Uint8Array[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.name);
+        const crc = crc32(entry.data);
+        let method = METHOD_STORE;
+        let body = entry.data;
+        if (entry.compress && canDeflate()) {
+            const deflated = await pipeBytes(entry.data, new CompressionStream('deflate-raw'));
+            if (deflated.length < body.length) { body = deflated; method = METHOD_DEFLATE; }
+        }
+        if (offset + body.length > MAX_ZIP32) throw new Error("Project is too large for a zip container");
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, SIG_LOCAL, true);
+        local.setUint16(4, 20, true);                   // version needed (2.0)
+        local.setUint16(6, UTF8_FLAG, true);
+        local.setUint16(8, method, true);
+        local.setUint16(10, stamp.time, true);
+        local.setUint16(12, stamp.date, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, body.length, true);
+        local.setUint32(22, entry.data.length, true);
+        local.setUint16(26, name.length, true);
+        local.setUint16(28, 0, true);                   // extra field length
+
+        const header = new DataView(new ArrayBuffer(46));
+        header.setUint32(0, SIG_CENTRAL, true);
+        header.setUint16(4, 20, true);                  // version made by
+        header.setUint16(6, 20, true);
+        header.setUint16(8, UTF8_FLAG, true);
+        header.setUint16(10, method, true);
+        header.setUint16(12, stamp.time, true);
+        header.setUint16(14, stamp.date, true);
+        header.setUint32(16, crc, true);
+        header.setUint32(20, body.length, true);
+        header.setUint32(24, entry.data.length, true);
+        header.setUint16(28, name.length, true);
+        header.setUint32(42, offset, true);             // local header offset (other fields stay 0)
+
+        parts.push(new Uint8Array(local.buffer), name, body);
+        central.push(new Uint8Array(header.buffer), name);
+        offset += 30 + name.length + body.length;
+    }
+
+    const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, SIG_END, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...central, new Uint8Array(end.buffer)] as BlobPart[], { type: 'application/zip' });
+};
+
+// --- READ ---
+
+export const isZip = (bytes: Uint8Array): boolean =>
+    bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4B && bytes[2] === 0x03 && bytes[3] === 0x04;
+
+// All file entries by name. Throws on anything outside the supported subset, or when the
+// entries would unpack to more than `maxBytes` in total (checked before inflating anything).
+export const readZip = async (buffer: ArrayBuffer, maxBytes = Infinity): Promise<Map<string, Uint8Array>> => {
+    const view = new DataView(buffer);
+    const bytes = new Uint8Array(buffer);
+    const decoder = new TextDecoder();
+
+    // End of central directory: last 22 bytes + up to 64 KB of archive comment
+    let endOffset = -1;
+    for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xFFFF); i--) {
+        if (view.getUint32(i, true) === SIG_END) { endOffset = i; break; }
+    }
+    if (endOffset < 0) throw new Error("Not a zip file (no central directory)");
+
+    const count = view.getUint16(endOffset + 10, true);
+    let cursor = view.getUint32(endOffset + 16, true);
+    if (count === 0xFFFF || cursor === MAX_ZIP32) throw new Error("Zip64 archives are not supported");
+
+    const files = new Map<string, Uint8Array>();
+    let total = 0;
+    for (let i = 0; i < count; i++) {
+        if (cursor + 46 > buffer.byteLength || view.getUint32(cursor, true) !== SIG_CENTRAL) throw new Error("Corrupt zip central directory");
+        const flags = view.getUint16(cursor + 8, true);
+        const method = view.getUint16(cursor + 10, true);
+        const crc = view.getUint32(cursor + 16, true);
+        const compressedSize = view.getUint32(cursor + 20, true);
+        const size = view.getUint32(cursor + 24, true);
+        const nameLength = view.getUint16(cursor + 28, true);
+        const extraLength = view.getUint16(cursor + 30, true);
+        const commentLength = view.getUint16(cursor + 32, true);
+        const localOffset = view.getUint32(cursor + 42, true);
+        const name = decoder.decode(bytes.subarray(cursor + 46, cursor + 46 + nameLength));
+        cursor += 46 + nameLength + extraLength + commentLength;
+
+        if (name.endsWith('/')) continue; // directory entry
+        if (flags & 0x1) throw new Error(`Encrypted zip entry: ${name}`);
+        total += size;
+        if (total > maxBytes) throw new Error(`Zip archive unpacks to more than ${(maxBytes / 1024 / 1024).toFixed(0)} MB`);
+        if (localOffset + 30 > buffer.byteLength || view.getUint32(localOffset, true) !== SIG_LOCAL) throw new Error(`Corrupt zip entry: ${name}`);
+
+        // Local header may carry a different extra field than the central one
+        const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        if (start + compressedSize > buffer.byteLength) throw new Error(`Truncated zip entry: ${name}`);
+        const raw = bytes.subarray(start, start + compressedSize);
+
+        let data: Uint8Array | null;
+        if (method === METHOD_STORE) data = raw;
+        else if (method === METHOD_DEFLATE) data = await inflateRaw(raw, size);
+        else throw new Error(`Unsupported zip compression (method ${method}) for ${name}`);
+        if (!data || data.length !== size) throw new Error(`Zip entry does not match its declared size: ${name}`);
+
+        if (crc32(data) !== crc) throw new Error(`Checksum mismatch in zip entry: ${name}`);
+        files.set(name, data);
+    }
+    return files;
+};
@@ -1,5 +1,6 @@
 
-import { HolographicParams } from "./components/Visualizer/HolographicVisualizer";
+import { HolographicParams, HologramPalette } from "./components/Visualizer/HolographicVisualizer";
+import { SceneId } from "./components/Visualizer/scenes";
 
 export enum AppStep {
   ASSETS = 1,
@@ -11,6 +12,8 @@ export type StyleCategory = 'Cinematic' | 'Anime/2D' | 'Digital/Glitch' | 'Artis
 export type SubjectCategory = 'CHARACTER' | 'TEXT' | 'SYMBOL';
 export type FrameType = 'body' | 'closeup'; // NEW: Distinguish full body from facial frames
 export type SheetRole = 'base' | 'alt' | 'flourish'; // NEW: Which sheet did this come from?
+export type FrameDirection = 'left' | 'right' | 'neutral'; // Which way the pose moves/faces
+export type SpriteProviderId = 'gemini' | 'fixture'; // Image backend that produced a sheet
 
 export interface StylePreset {
   id: string;
@@ -19,12 +22,53 @@ export interface StylePreset {
   description: string;
   promptModifier: string;
   thumbnail: string;
-  hologramParams: HolographicParams; // Links style to background shader
+  hologramParams: HolographicParams; // Links style to background shader (parameters of its scene)
+  scene?: SceneId; // Background scene, default 'quantum' (see components/Visualizer/scenes.ts)
+}
+
+// Output framing (social formats). Sizes derive from the aspect, see services/outputFormat.ts
+export type OutputPresetId = 'vertical' | 'square' | 'portrait' | 'landscape' | 'custom';
+
+export interface SafeArea {
+  top: number;    // Fractions of the frame kept clear of platform UI (captions, buttons)
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export interface OutputPreset {
+  id: OutputPresetId;
+  label: string;
+  hint: string;         // Where the format is used
+  aspect: [number, number]; // width : height
+  safeArea: SafeArea;
+  fit: number;          // Share of the frame the character may fill (0-1)
+  panLimit: number;     // Max camera pan in stage pixels
+}
+
+export interface OutputFormat {
+  presetId: OutputPresetId;
+  customWidth: number;  // Only used by the 'custom' preset
+  customHeight: number;
 }
 
 export type EnergyLevel = 'low' | 'mid' | 'high';
 export type UserTier = 'free' | 'pro';
 
+// Pixel rectangle inside the source sprite sheet
+export interface FrameBox {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+// Normalized (0-1) point inside a frame that renderers pin in place
+export interface FrameAnchor {
+  x: number;
+  y: number;
+}
+
 // Flexible pose type string
 export type PoseType = string;
 
@@ -34,16 +78,110 @@ export interface GeneratedFrame {
   energy: EnergyLevel;
   type?: FrameType; 
   role?: SheetRole; // NEW
+  provider?: SpriteProviderId; // Backend that generated the source sheet
+  sourceBox?: FrameBox; // Crop used on the sheet (for later re-cropping)
+  gridConfidence?: number; // 0-1 grid detection confidence (0 = fixed fallback grid)
+  anchor?: FrameAnchor; // Ground contact (body) or center of mass (closeup)
+  subjectBounds?: FrameBox; // Normalized subject bounding box
+  mirrorOf?: PoseType; // Pose this frame was mirrored from
+  direction?: FrameDirection; // Explicit facing (falls back to the pose name)
   promptUsed?: string; 
 }
 
+// Raw sprite sheets (data URLs) per generation role
+export type SpriteSheets = Partial<Record<SheetRole, string>>;
+
+// Manual slicing grid of a sheet, in normalized sheet coordinates (0-1).
+// Line lists include the outer edges, so N rows = N + 1 values.
+export interface SheetGrid {
+    rows: number[];
+    cols: number[];
+    inset: number; // Fraction of each cell trimmed on every side (0-0.3)
+}
+
+export type SheetGrids = Partial<Record<SheetRole, SheetGrid>>;
+
+// Uploaded image / looping video behind the dancer (see services/backdrop.ts)
+export type BackdropKind = 'image' | 'video';
+export type BackdropFit = 'cover' | 'contain';
+export type BackdropBlend = 'none' | 'screen' | 'overlay' | 'multiply' | 'lighten';
+
+export interface Backdrop {
+    kind: BackdropKind;
+    name: string;
+    type: string;   // MIME type
+    url: string;    // data URL
+}
+
+export interface BackdropSettings {
+    fit: BackdropFit;
+    blur: number;          // 0-1 (1 = 2% of the frame width)
+    dim: number;           // 0-1 black overlay
+    zoom: number;          // 0-1 bass-driven zoom
+    pulse: number;         // 0-1 bass-driven brightening
+    blend: BackdropBlend;  // How the visualizer is laid over the backdrop ('none' = not drawn)
+    blendAmount: number;   // 0-1 visualizer opacity
+}
+
+// Where the hologram colors come from: the preset hue, or the character (see services/palette.ts)
+export type PaletteSource = 'style' | 'character';
+
+export type SectionType = 'intro' | 'verse' | 'build' | 'drop' | 'breakdown' | 'outro';
+
+export interface SongSection {
+    type: SectionType;
+    start: number;   // seconds
+    end: number;     // seconds
+    energy: number;  // 0-1 mean energy relative to the rest of the track
+}
+
+// Offline analysis of the uploaded track (see services/audioAnalysis.ts).
+// Per-frame arrays share one timeline: index i covers i / frameRate seconds.
+export interface AudioAnalysis {
+    source: { name: string, size: number }; // Which upload this analysis belongs to
+    duration: number;      // seconds
+    frameRate: number;     // Envelope / onset frames per second
+    bpm: number;
+    beats: number[];       // Beat times in seconds
+    downbeats: number[];   // Subset of beats that start a 4/4 bar
+    beatStrength: number[];// 0-1 per beat (bass onset at the beat)
+    energy: number[];      // 0-1 RMS envelope
+    onsets: { bass: number[], mid: number[], high: number[] }; // 0-1 onset strength per band
+    sections?: SongSection[]; // Song structure (older analyses don't have it)
+}
+
+// Project file (.jusdnce). Versioned and validated on load, see services/projectSchema.ts
 export interface SavedProject {
+    version: number; // Schema version (PROJECT_SCHEMA_VERSION)
     id: string;
     name: string;
     createdAt: number;
     frames: GeneratedFrame[];
     styleId: string;
     subjectCategory: SubjectCategory;
+    matteTolerance?: number; // Background removal tolerance used for this rig
+    audioAnalysis?: AudioAnalysis; // Beat grid of the track the rig was set up with
+    seed?: number; // Choreography / generation seed (32-bit)
+    outputFormat?: OutputFormat; // Aspect preset the rig was framed for
+    settings?: ProjectSettings; // Director / performance settings (v3+)
+    audio?: ProjectAudio; // Song the performance was saved with (v3+)
+    sheets?: SpriteSheets; // Original sprite sheets per role, for re-slicing (v4+)
+    sheetGrids?: SheetGrids; // Hand-adjusted slicing grids (v4+)
+    backdrop?: Backdrop; // Uploaded backdrop (v5+)
+}
+
+// Creative AppState fields restored with a project (everything that shapes the performance)
+export type ProjectSettings = Pick<AppState,
+    'secondaryStyleId' | 'morphIntensity' | 'reactivity' | 'backgroundScene' | 'sceneParams' | 'paletteSource' | 'backdropSettings' | 'motionPrompt' | 'motionPreset' | 'useTurbo' | 'superMode' |
+    'spriteProvider' | 'intensity' | 'duration' | 'smoothness' | 'stutter' | 'dynamicCamera'>;
+
+// The song, embedded as a data URL or referenced by content hash only
+export interface ProjectAudio {
+    name: string;
+    type: string;     // MIME type
+    size: number;     // bytes
+    sha256: string;   // Hex digest of the file contents
+    dataUrl?: string; // Present when embedded
 }
 
 export interface AuthUser {
@@ -64,23 +202,40 @@ export interface AppState {
   imagePreviewUrl: string | null;
   audioFile: File | null;
   audioPreviewUrl: string | null;
+  audioAnalysis: AudioAnalysis | null; // Beat grid / envelopes of audioFile
+  missingAudio: ProjectAudio | null; // Song a loaded project references but did not embed
+  isAnalyzingAudio: boolean;
   selectedStyleId: string;
   
   // Advanced / Morphing State
   secondaryStyleId: string; // Target style to morph into
   morphIntensity: number;   // 0-100: Blend factor between Primary and Secondary
   reactivity: number;       // 0-100: Audio sensitivity
+  backgroundScene: SceneId | ''; // Background scene ('' = the style's own)
+  sceneParams: HolographicParams; // Director overrides of the scene parameters
+  paletteSource: PaletteSource;
+  characterPalette: HologramPalette | null; // Extracted from the frames / upload (derived, not saved)
+  backdrop: Backdrop | null; // Replaces the visualizer when set (it can still be blended on top)
+  backdropSettings: BackdropSettings;
   
   motionPrompt: string; 
   motionPreset: string; // Added for dropdown
   useTurbo: boolean; // Toggle for speed vs quality
   superMode: boolean; // NEW: Paid 15-frame mode
+  spriteProvider: SpriteProviderId; // Image generation backend
+  removeBackground: boolean; // Matte frames to transparent PNG/WebP
+  matteTolerance: number; // 0-100 (White-key tolerance)
   
   intensity: number; // 0-100 (Generation energy)
   duration: number; // seconds
   smoothness: number; // 0-100 (Hard cut vs Crossfade)
   stutter: number; // 0-100 (Probability of double-time moves)
+  dynamicCamera: boolean; // Camera physics + super-cam FX in the preview and exports
+  seed: number; // 32-bit seed for choreography, camera and frame metadata (see services/random.ts)
+  outputFormat: OutputFormat; // Aspect preset for the preview, video export and player
   generatedFrames: GeneratedFrame[]; 
+  spriteSheets: SpriteSheets; // Original sheets from the last generation (style reference for regeneration)
+  sheetGrids: SheetGrids; // Hand-adjusted slicing grids (sheets without one use the detected grid)
   subjectCategory: SubjectCategory; // NEW: Detected subject type
   isGenerating: boolean;
   credits: number;
@@ -97,22 +252,39 @@ export const DEFAULT_STATE: AppState = {
   imagePreviewUrl: null,
   audioFile: null,
   audioPreviewUrl: null,
+  audioAnalysis: null,
+  missingAudio: null,
+  isAnalyzingAudio: false,
   selectedStyleId: 'neon-cyber',
   
   secondaryStyleId: '',
   morphIntensity: 0,
   reactivity: 80,
+  backgroundScene: '',
+  sceneParams: {},
+  paletteSource: 'style',
+  characterPalette: null,
+  backdrop: null,
+  backdropSettings: { fit: 'cover', blur: 0, dim: 0.2, zoom: 0.3, pulse: 0.3, blend: 'none', blendAmount: 0.5 },
 
   motionPrompt: '', // Default empty for auto-analysis
   motionPreset: 'auto', 
   useTurbo: true, // Default to fast
   superMode: false, // Default off
+  removeBackground: true,
+  matteTolerance: 35,
+  spriteProvider: process.env.SPRITE_PROVIDER === 'fixture' ? 'fixture' : 'gemini', // Set SPRITE_PROVIDER=fixture to work offline
   
   intensity: 80, // High default
   duration: 30,
   smoothness: 20, // Default slight smoothing
   stutter: 50, // Moderate stutter chance
+  dynamicCamera: true,
   generatedFrames: [],
+  spriteSheets: {},
+  sheetGrids: {},
+  seed: (Math.random() * 0x100000000) >>> 0,
+  outputFormat: { presetId: 'vertical', customWidth: 1080, customHeight: 1350 },
   subjectCategory: 'CHARACTER',
   isGenerating: false,
   credits: 0, // Start with 0, require login to get free credit